@@ -0,0 +1,699 @@
+/**
+ * Admin API Server
+ *
+ * Opt-in REST API for inspecting and controlling a running gateway. It listens
+ * on its own port, separate from the data plane, binds to loopback by default
+ * and always requires authentication.
+ *
+ * Endpoints:
+ * - GET    /routes                              Route table
+ * - GET    /routes/:id                          Route details, load balancer stats, circuit breakers
+ * - POST   /routes/:id/targets                  Add a load balancer target
+ * - DELETE /routes/:id/targets?url=...          Remove a load balancer target
+ * - PUT    /routes/:id/targets/health           Mark a target healthy or unhealthy
+ * - POST   /routes/:id/circuit-breaker/reset    Reset the route's circuit breakers
+ * - GET    /routes/:id/split                    Traffic split weights
+ * - PUT    /routes/:id/split                    Change traffic split weights
+ * - GET    /routes/:id/faults                   Fault injection settings
+ * - PUT    /routes/:id/faults                   Replace fault injection settings
+ * - PUT    /routes/:id/faults/enabled           Switch fault injection on or off
+ * - GET    /cluster/workers                     Cluster worker information
+ * - POST   /cluster/reload                      Reload the configuration on every worker
+ * - GET    /logger/level                        Current log level
+ * - PUT    /logger/level                        Change the log level
+ * - GET    {metrics.endpoint}                   Prometheus metrics, with metrics.exposeOn "admin"
+ *
+ * @example
+ * ```ts
+ * const gateway = new BunGateway({
+ *   admin: {
+ *     port: 9901,
+ *     auth: { type: 'bearer', credentials: { ops: process.env.ADMIN_TOKEN! } },
+ *   },
+ *   routes: [...],
+ * })
+ * ```
+ */
+
+import type { Server } from 'bun'
+import http from '0http-bun'
+import type { IRouter, ZeroRequest } from '0http-bun'
+import type { RouteConfig } from '../interfaces/route'
+import type { LoadBalancer } from '../interfaces/load-balancer'
+import type { ProxyInstance } from '../interfaces/proxy'
+import type { Logger, LoggerConfig } from '../interfaces/logger'
+import type { WorkerInfo } from '../cluster/cluster-manager'
+import type { ConfigReloadSummary } from '../cluster/config-reload'
+import type { GatewayMetrics } from '../metrics/gateway-metrics'
+import type { TrafficSplitter } from '../split/traffic-splitter'
+import type { FaultInjector } from '../faults/fault-injector'
+import {
+  FAULT_CONFIG_SPEC,
+  formatConfigPath,
+  validateAgainstSpec,
+} from '../config/config-validator'
+import {
+  createEndpointAuthenticator,
+  type EndpointAuthConfig,
+  type EndpointAuthResult,
+} from '../security/endpoint-auth'
+import { isValidURL } from '../security/utils'
+
+/**
+ * Admin API configuration
+ */
+export interface AdminConfig {
+  /**
+   * Enable the admin API
+   * @default true when the admin section is present
+   */
+  enabled?: boolean
+  /** Port for the admin listener; must differ from the gateway port */
+  port: number
+  /**
+   * Interface to bind
+   * @default "127.0.0.1"
+   */
+  hostname?: string
+  /** Credentials required for every admin request */
+  auth: EndpointAuthConfig
+  /** Client IPs or CIDR ranges allowed to call the admin API */
+  ipWhitelist?: string[]
+}
+
+/**
+ * Per-method runtime objects of a route
+ */
+export interface AdminRouteMethod {
+  method: string
+  /** Traffic split backend the proxy and load balancer belong to */
+  backend?: string
+  proxy: ProxyInstance
+  loadBalancer?: LoadBalancer
+}
+
+/**
+ * Live view of a route exposed to the admin API
+ */
+export interface AdminRouteHandle {
+  /** Identifier, stable for the lifetime of the route */
+  id: number
+  route: RouteConfig
+  methods: AdminRouteMethod[]
+  /** Traffic splitter of routes that split traffic between backends */
+  split?: Pick<TrafficSplitter, 'getWeights' | 'setWeights'>
+  /** Fault injector of routes that inject faults */
+  faults?: Pick<FaultInjector, 'getConfig' | 'setConfig' | 'setEnabled'>
+}
+
+/**
+ * Options for creating an admin server
+ */
+export interface AdminServerOptions {
+  config: AdminConfig
+  /** Returns the routes currently in the gateway's route table */
+  getRoutes: () => AdminRouteHandle[]
+  /** Returns cluster workers; omitted when not running as cluster master */
+  getWorkerInfo?: () => WorkerInfo[]
+  /**
+   * Re-reads the configuration file and pushes it to the workers; omitted
+   * when not running as cluster master
+   */
+  reloadConfig?: () => Promise<ConfigReloadSummary>
+  /** Gateway logger; its level is controlled through /logger/level */
+  logger?: Logger
+  /** Gateway metrics served at their endpoint on the admin listener */
+  metrics?: Pick<GatewayMetrics, 'endpoint' | 'handle'>
+}
+
+const LOG_LEVELS: ReadonlyArray<NonNullable<LoggerConfig['level']>> = [
+  'debug',
+  'info',
+  'warn',
+  'error',
+]
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: {
+      'content-type': 'application/json',
+      'cache-control': 'no-store',
+    },
+  })
+}
+
+function errorResponse(status: number, code: string, message: string) {
+  return json({ error: { code, message } }, status)
+}
+
+async function readJSON(req: ZeroRequest): Promise<Record<string, any> | null> {
+  try {
+    const body = await req.json()
+    return body && typeof body === 'object' && !Array.isArray(body)
+      ? body
+      : null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Admin API server
+ * Manages the lifecycle of the admin listener
+ */
+export class AdminServer {
+  private server: Server | null = null
+  private options: AdminServerOptions
+  private authenticate: (req: Request, clientIP: string) => EndpointAuthResult
+  private router: IRouter
+
+  constructor(options: AdminServerOptions) {
+    if (!options.config.auth) {
+      throw new Error('Admin API requires authentication to be configured')
+    }
+    this.options = options
+    this.authenticate = createEndpointAuthenticator({
+      auth: options.config.auth,
+      ipWhitelist: options.config.ipWhitelist,
+      logger: options.logger,
+    })
+    this.router = this.createRouter()
+  }
+
+  /**
+   * Starts the admin listener
+   */
+  start(): Server {
+    if (this.server) {
+      throw new Error('Admin server is already running')
+    }
+
+    const hostname = this.options.config.hostname ?? '127.0.0.1'
+    this.server = Bun.serve({
+      port: this.options.config.port,
+      hostname,
+      fetch: (req: Request) => this.fetch(req),
+    })
+
+    this.options.logger?.info(
+      `Admin API listening on http://${hostname}:${this.server.port}`,
+    )
+    return this.server
+  }
+
+  /**
+   * Stops the admin listener
+   */
+  stop(): void {
+    if (this.server) {
+      this.server.stop()
+      this.server = null
+      this.options.logger?.info('Admin API stopped')
+    }
+  }
+
+  /**
+   * Checks if the admin listener is running
+   */
+  isRunning(): boolean {
+    return this.server !== null
+  }
+
+  /**
+   * Gets the server instance
+   */
+  getServer(): Server | null {
+    return this.server
+  }
+
+  /**
+   * Authenticates and dispatches an admin request
+   */
+  fetch(req: Request): Response | Promise<Response> {
+    const clientIP = this.server?.requestIP(req)?.address ?? 'unknown'
+    const result = this.authenticate(req, clientIP)
+    if (!result.allowed) {
+      const response = errorResponse(
+        result.status!,
+        result.status === 403 ? 'FORBIDDEN' : 'UNAUTHORIZED',
+        result.reason!,
+      )
+      if (result.status === 401 && this.options.config.auth.type === 'basic') {
+        response.headers.set('www-authenticate', 'Basic realm="bungate-admin"')
+      }
+      return response
+    }
+    return this.router.fetch(req)
+  }
+
+  private createRouter(): IRouter {
+    const { router } = http({
+      defaultRoute: () =>
+        errorResponse(404, 'NOT_FOUND', 'Unknown admin endpoint'),
+      errorHandler: (err: Error) => {
+        this.options.logger?.error('Admin API request failed', err)
+        return errorResponse(500, 'INTERNAL_ERROR', 'Internal server error')
+      },
+    })
+
+    router.get('/routes', () =>
+      json({
+        routes: this.options
+          .getRoutes()
+          .map((handle) => this.describeRoute(handle)),
+      }),
+    )
+
+    router.get('/routes/:id', (req: ZeroRequest) =>
+      this.withRoute(req, (handle) =>
+        json({
+          ...this.describeRoute(handle),
+          methods: handle.methods.map((entry) => ({
+            method: entry.method,
+            backend: entry.backend,
+            circuitBreaker: {
+              state: entry.proxy.getCircuitBreakerState(),
+              failures: entry.proxy.getCircuitBreakerFailures(),
+            },
+            loadBalancer: entry.loadBalancer?.getStats(),
+          })),
+        }),
+      ),
+    )
+
+    router.post(
+      '/routes/:id/targets',
+      this.routeChange((req: ZeroRequest) =>
+        this.withLoadBalancers(req, async (handle, loadBalancers) => {
+          const body = await readJSON(req)
+          const url = body?.url
+          if (typeof url !== 'string' || !/^https?:\/\//i.test(url)) {
+            return errorResponse(
+              400,
+              'BAD_REQUEST',
+              'Body must include an http(s) "url"',
+            )
+          }
+          if (!isValidURL(url)) {
+            return errorResponse(
+              400,
+              'BAD_REQUEST',
+              `Invalid target URL: ${url}`,
+            )
+          }
+          if (
+            body!.weight !== undefined &&
+            (typeof body!.weight !== 'number' || body!.weight < 0)
+          ) {
+            return errorResponse(
+              400,
+              'BAD_REQUEST',
+              '"weight" must be a non-negative number',
+            )
+          }
+          if (
+            loadBalancers[0]!.getTargets().some((target) => target.url === url)
+          ) {
+            return errorResponse(
+              409,
+              'CONFLICT',
+              `Target already exists: ${url}`,
+            )
+          }
+          for (const loadBalancer of loadBalancers) {
+            loadBalancer.addTarget({
+              url,
+              weight: body!.weight,
+              metadata: body!.metadata,
+            })
+          }
+          this.options.logger?.info('Admin API added target', {
+            route: handle.route.pattern,
+            url,
+          })
+          return json({ added: url }, 201)
+        }),
+      ),
+    )
+
+    router.delete(
+      '/routes/:id/targets',
+      this.routeChange((req: ZeroRequest) =>
+        this.withLoadBalancers(req, (handle, loadBalancers) => {
+          const url = new URL(req.url).searchParams.get('url')
+          if (!url) {
+            return errorResponse(
+              400,
+              'BAD_REQUEST',
+              'Query parameter "url" is required',
+            )
+          }
+          if (
+            !loadBalancers[0]!.getTargets().some((target) => target.url === url)
+          ) {
+            return errorResponse(404, 'NOT_FOUND', `Unknown target: ${url}`)
+          }
+          for (const loadBalancer of loadBalancers) {
+            loadBalancer.removeTarget(url)
+          }
+          this.options.logger?.info('Admin API removed target', {
+            route: handle.route.pattern,
+            url,
+          })
+          return json({ removed: url })
+        }),
+      ),
+    )
+
+    router.put(
+      '/routes/:id/targets/health',
+      this.routeChange((req: ZeroRequest) =>
+        this.withLoadBalancers(req, async (handle, loadBalancers) => {
+          const body = await readJSON(req)
+          if (
+            typeof body?.url !== 'string' ||
+            typeof body.healthy !== 'boolean'
+          ) {
+            return errorResponse(
+              400,
+              'BAD_REQUEST',
+              'Body must include "url" and a boolean "healthy"',
+            )
+          }
+          const { url, healthy } = body
+          if (
+            !loadBalancers[0]!.getTargets().some((target) => target.url === url)
+          ) {
+            return errorResponse(404, 'NOT_FOUND', `Unknown target: ${url}`)
+          }
+          for (const loadBalancer of loadBalancers) {
+            loadBalancer.updateTargetHealth(url, healthy)
+          }
+          this.options.logger?.info('Admin API updated target health', {
+            route: handle.route.pattern,
+            url,
+            healthy,
+          })
+          return json({ url, healthy })
+        }),
+      ),
+    )
+
+    router.post(
+      '/routes/:id/circuit-breaker/reset',
+      this.routeChange((req: ZeroRequest) =>
+        this.withRoute(req, (handle) => {
+          for (const entry of handle.methods) {
+            entry.proxy.resetCircuitBreaker()
+          }
+          this.options.logger?.info('Admin API reset circuit breaker', {
+            route: handle.route.pattern,
+          })
+          return json({ reset: true })
+        }),
+      ),
+    )
+
+    router.get('/routes/:id/split', (req: ZeroRequest) =>
+      this.withSplit(req, (_handle, split) =>
+        json({ weights: split.getWeights() }),
+      ),
+    )
+
+    router.put(
+      '/routes/:id/split',
+      this.routeChange((req: ZeroRequest) =>
+        this.withSplit(req, async (handle, split) => {
+          const body = await readJSON(req)
+          const weights = body?.weights
+          if (
+            !weights ||
+            typeof weights !== 'object' ||
+            Array.isArray(weights) ||
+            Object.values(weights).some((weight) => typeof weight !== 'number')
+          ) {
+            return errorResponse(
+              400,
+              'BAD_REQUEST',
+              'Body must include "weights" mapping backend names to numbers',
+            )
+          }
+          try {
+            split.setWeights(weights)
+          } catch (error) {
+            return errorResponse(400, 'BAD_REQUEST', (error as Error).message)
+          }
+          this.options.logger?.info('Admin API changed traffic split', {
+            route: handle.route.pattern,
+            weights: split.getWeights(),
+          })
+          return json({ weights: split.getWeights() })
+        }),
+      ),
+    )
+
+    router.get('/routes/:id/faults', (req: ZeroRequest) =>
+      this.withFaults(req, (_handle, faults) => json(faults.getConfig())),
+    )
+
+    router.put(
+      '/routes/:id/faults',
+      this.routeChange((req: ZeroRequest) =>
+        this.withFaults(req, async (handle, faults) => {
+          const body = await readJSON(req)
+          if (!body) {
+            return errorResponse(
+              400,
+              'BAD_REQUEST',
+              'Body must be a JSON object',
+            )
+          }
+          const issue = validateAgainstSpec(body, FAULT_CONFIG_SPEC)[0]
+          if (issue) {
+            return errorResponse(
+              400,
+              'BAD_REQUEST',
+              `${formatConfigPath(issue.path)}: ${issue.message}`,
+            )
+          }
+          try {
+            faults.setConfig(body)
+          } catch (error) {
+            return errorResponse(400, 'BAD_REQUEST', (error as Error).message)
+          }
+          this.options.logger?.info('Admin API changed fault injection', {
+            route: handle.route.pattern,
+            faults: faults.getConfig(),
+          })
+          return json(faults.getConfig())
+        }),
+      ),
+    )
+
+    router.put(
+      '/routes/:id/faults/enabled',
+      this.routeChange((req: ZeroRequest) =>
+        this.withFaults(req, async (handle, faults) => {
+          const body = await readJSON(req)
+          if (typeof body?.enabled !== 'boolean') {
+            return errorResponse(
+              400,
+              'BAD_REQUEST',
+              'Body must include a boolean "enabled"',
+            )
+          }
+          faults.setEnabled(body.enabled)
+          this.options.logger?.info('Admin API changed fault injection', {
+            route: handle.route.pattern,
+            enabled: body.enabled,
+          })
+          return json(faults.getConfig())
+        }),
+      ),
+    )
+
+    router.get('/cluster/workers', () => {
+      if (!this.options.getWorkerInfo) {
+        return errorResponse(404, 'NOT_FOUND', 'Cluster mode is not enabled')
+      }
+      return json({
+        workers: this.options.getWorkerInfo().map((worker) => ({
+          id: worker.id,
+          pid: worker.process.pid,
+          restarts: worker.restarts,
+          lastRestartTime: worker.lastRestartTime,
+          exiting: worker.isExiting,
+        })),
+      })
+    })
+
+    router.post('/cluster/reload', async () => {
+      if (!this.options.reloadConfig) {
+        return errorResponse(404, 'NOT_FOUND', 'Cluster mode is not enabled')
+      }
+      try {
+        return json(await this.options.reloadConfig())
+      } catch (error) {
+        return errorResponse(400, 'BAD_REQUEST', (error as Error).message)
+      }
+    })
+
+    router.get('/logger/level', () => {
+      if (!this.options.logger) {
+        return errorResponse(404, 'NOT_FOUND', 'No logger is configured')
+      }
+      return json({ level: this.options.logger.getLevel() })
+    })
+
+    router.put('/logger/level', async (req: ZeroRequest) => {
+      const logger = this.options.logger
+      if (!logger) {
+        return errorResponse(404, 'NOT_FOUND', 'No logger is configured')
+      }
+      const body = await readJSON(req)
+      if (!LOG_LEVELS.includes(body?.level)) {
+        return errorResponse(
+          400,
+          'BAD_REQUEST',
+          `"level" must be one of ${LOG_LEVELS.join(', ')}`,
+        )
+      }
+      const previous = logger.getLevel()
+      logger.setLevel(body!.level)
+      logger.info('Admin API changed log level', {
+        from: previous,
+        to: body!.level,
+      })
+      return json({ level: body!.level })
+    })
+
+    const metrics = this.options.metrics
+    if (metrics) {
+      router.get(metrics.endpoint, (req: ZeroRequest) => metrics.handle(req))
+    }
+
+    return router
+  }
+
+  private describeRoute(handle: AdminRouteHandle) {
+    const { route } = handle
+    const loadBalancer = handle.methods.find(
+      (entry) => entry.loadBalancer,
+    )?.loadBalancer
+    return {
+      id: handle.id,
+      pattern: route.pattern,
+      methods: handle.methods.map((entry) => entry.method),
+      target: route.target,
+      meta: route.meta,
+      split: handle.split && { weights: handle.split.getWeights() },
+      faults: handle.faults?.getConfig(),
+      loadBalancer: loadBalancer && {
+        strategy: route.loadBalancer?.strategy,
+        targets: loadBalancer.getTargets().map((target) => ({
+          url: target.url,
+          weight: target.weight,
+          healthy: target.healthy,
+          connections: target.connections,
+          averageResponseTime: target.averageResponseTime,
+          lastHealthCheck: target.lastHealthCheck,
+        })),
+      },
+    }
+  }
+
+  /**
+   * Wraps the handler of an endpoint changing a route's runtime state. In
+   * cluster mode the admin API runs in the master, whose routes serve no
+   * traffic, so such changes are refused rather than silently lost.
+   */
+  private routeChange(
+    handler: (req: ZeroRequest) => Response | Promise<Response>,
+  ): (req: ZeroRequest) => Response | Promise<Response> {
+    return (req: ZeroRequest) =>
+      this.options.getWorkerInfo
+        ? errorResponse(
+            409,
+            'CONFLICT',
+            'Route changes are not supported in cluster mode; change the configuration file and reload it',
+          )
+        : handler(req)
+  }
+
+  private withRoute(
+    req: ZeroRequest,
+    action: (handle: AdminRouteHandle) => Response | Promise<Response>,
+  ): Response | Promise<Response> {
+    const id = Number(req.params.id)
+    const handle = this.options
+      .getRoutes()
+      .find((candidate) => candidate.id === id)
+    if (!handle) {
+      return errorResponse(404, 'NOT_FOUND', `Unknown route: ${req.params.id}`)
+    }
+    return action(handle)
+  }
+
+  private withLoadBalancers(
+    req: ZeroRequest,
+    action: (
+      handle: AdminRouteHandle,
+      loadBalancers: LoadBalancer[],
+    ) => Response | Promise<Response>,
+  ): Response | Promise<Response> {
+    return this.withRoute(req, (handle) => {
+      // Each backend of a traffic split has its own targets
+      const backend = new URL(req.url).searchParams.get('backend') ?? undefined
+      if (handle.split && backend === undefined) {
+        return errorResponse(
+          400,
+          'BAD_REQUEST',
+          'Route splits traffic; query parameter "backend" is required',
+        )
+      }
+      const loadBalancers = handle.methods
+        .filter((entry) => entry.backend === backend)
+        .map((entry) => entry.loadBalancer)
+        .filter((loadBalancer): loadBalancer is LoadBalancer => !!loadBalancer)
+      if (loadBalancers.length === 0) {
+        return errorResponse(
+          409,
+          'CONFLICT',
+          'Route does not use a load balancer',
+        )
+      }
+      return action(handle, loadBalancers)
+    })
+  }
+
+  private withSplit(
+    req: ZeroRequest,
+    action: (
+      handle: AdminRouteHandle,
+      split: NonNullable<AdminRouteHandle['split']>,
+    ) => Response | Promise<Response>,
+  ): Response | Promise<Response> {
+    return this.withRoute(req, (handle) => {
+      if (!handle.split) {
+        return errorResponse(409, 'CONFLICT', 'Route does not split traffic')
+      }
+      return action(handle, handle.split)
+    })
+  }
+
+  private withFaults(
+    req: ZeroRequest,
+    action: (
+      handle: AdminRouteHandle,
+      faults: NonNullable<AdminRouteHandle['faults']>,
+    ) => Response | Promise<Response>,
+  ): Response | Promise<Response> {
+    return this.withRoute(req, (handle) => {
+      if (!handle.faults) {
+        return errorResponse(409, 'CONFLICT', 'Route does not inject faults')
+      }
+      return action(handle, handle.faults)
+    })
+  }
+}
@@ -0,0 +1,13 @@
+/**
+ * Bungate Admin Module
+ *
+ * Authenticated REST API for inspecting and controlling a running gateway
+ */
+
+export {
+  AdminServer,
+  type AdminConfig,
+  type AdminRouteHandle,
+  type AdminRouteMethod,
+  type AdminServerOptions,
+} from './admin-server'
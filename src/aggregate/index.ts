@@ -0,0 +1,13 @@
+/**
+ * Bungate Aggregate Module
+ *
+ * Backend-for-frontend routes that merge several upstream calls into one
+ * response
+ */
+
+export {
+  RequestAggregator,
+  type AggregateCall,
+  type AggregateConfig,
+  type AggregateDispatch,
+} from './request-aggregator'
@@ -0,0 +1,358 @@
+/**
+ * Request Aggregator
+ *
+ * Backend-for-frontend routes that answer one client request with several
+ * upstream calls, merged into a single JSON object keyed by call name. Calls
+ * are dispatched through the gateway's own route table, so they reuse its
+ * proxies, load balancers and circuit breakers.
+ *
+ * Calls run in parallel unless a call's path refers to another call's result,
+ * e.g. `/users/{profile.userId}/orders`; it then waits for that call. Each call
+ * has its own timeout and decides whether its failure fails the whole request
+ * or only nulls out its section of the response.
+ */
+
+import type { Logger } from '../interfaces/logger'
+
+/**
+ * One upstream call of an aggregate route
+ */
+export interface AggregateCall {
+  /** Key of the call's result in the merged response */
+  name: string
+  /**
+   * Gateway path of the call, with optional placeholders: `{params.id}` for a
+   * route parameter, `{query.q}` for a query parameter of the client request
+   * and `{call.path.to.value}` for a value of another call's JSON response
+   * @example '/users/{params.id}/orders?since={profile.lastSeen}'
+   */
+  path: string
+  /**
+   * HTTP method of the call
+   * @default 'GET'
+   */
+  method?: string
+  /** Headers added to the call */
+  headers?: Record<string, string>
+  /**
+   * Call timeout in milliseconds, including the wait for the calls it
+   * depends on
+   * @default 5000
+   */
+  timeout?: number
+  /**
+   * What a failed call does: `fail` fails the whole request, `null` sets the
+   * call's section of the response to null
+   * @default 'fail'
+   */
+  onError?: 'fail' | 'null'
+}
+
+/**
+ * Aggregation settings of a route
+ */
+export interface AggregateConfig {
+  /** Calls whose results make up the response */
+  calls: AggregateCall[]
+  /**
+   * Client request headers passed on to every call
+   * @default ['authorization', 'cookie', 'accept-language']
+   */
+  forwardHeaders?: string[]
+}
+
+/**
+ * Sends a call through the gateway
+ *
+ * @param origin - Request the call is made for, e.g. to attribute the call to
+ *   the same client
+ */
+export type AggregateDispatch = (
+  req: Request,
+  origin: Request,
+) => Response | Promise<Response>
+
+/** Sources of placeholders that do not refer to a call */
+const RESERVED_NAMES = new Set(['params', 'query'])
+const PLACEHOLDER = /\{([^{}]+)\}/g
+/** Calls of aggregate routes that themselves aggregate, up to this depth */
+const MAX_DEPTH = 3
+/** Nesting depth of the calls made by aggregate routes */
+const depths = new WeakMap<Request, number>()
+
+interface PreparedCall extends AggregateCall {
+  /** Names of the calls this call's path refers to */
+  dependencies: string[]
+}
+
+type CallResult = { value: unknown } | { error: Error }
+
+/**
+ * Fans a request out to the calls of an aggregate route
+ *
+ * @example
+ * ```ts
+ * const aggregator = new RequestAggregator(
+ *   {
+ *     calls: [
+ *       { name: 'profile', path: '/users/{params.id}' },
+ *       { name: 'orders', path: '/orders?user={profile.id}', onError: 'null' },
+ *     ],
+ *   },
+ *   (req) => gateway.fetch(req),
+ * )
+ * const response = await aggregator.handle(req, { id: '42' })
+ * ```
+ */
+export class RequestAggregator {
+  /** Calls in an order where every call follows the calls it depends on */
+  private readonly calls: PreparedCall[]
+  private readonly forwardHeaders: string[]
+
+  /**
+   * @throws Error if call names are not unique, or a placeholder refers to an
+   *   unknown call or forms a cycle
+   */
+  constructor(
+    config: AggregateConfig,
+    private readonly dispatch: AggregateDispatch,
+    private readonly logger?: Logger,
+  ) {
+    this.calls = orderCalls(config.calls)
+    this.forwardHeaders = (
+      config.forwardHeaders ?? ['authorization', 'cookie', 'accept-language']
+    ).map((name) => name.toLowerCase())
+  }
+
+  /**
+   * Runs the calls for a client request and merges their results
+   *
+   * @param params - Route parameters of the client request
+   * @returns A JSON object keyed by call name; 502 when a call with
+   *   `onError: 'fail'` failed, 504 when it timed out, and 508 when aggregate
+   *   routes call each other too deeply
+   */
+  async handle(
+    req: Request,
+    params: Record<string, string> = {},
+  ): Promise<Response> {
+    const depth = depths.get(req) ?? 0
+    if (depth >= MAX_DEPTH) {
+      return jsonResponse(508, { error: 'Aggregate calls nested too deeply' })
+    }
+
+    const query = new URL(req.url).searchParams
+    const headers = new Headers({ accept: 'application/json' })
+    for (const name of this.forwardHeaders) {
+      const value = req.headers.get(name)
+      if (value !== null) headers.set(name, value)
+    }
+
+    // Aborts the calls still running once the request has failed
+    const controller = new AbortController()
+    const results = new Map<string, Promise<CallResult>>()
+    for (const call of this.calls) {
+      results.set(
+        call.name,
+        this.run(call, {
+          req,
+          depth,
+          params,
+          query,
+          headers,
+          results,
+          signal: controller.signal,
+        }),
+      )
+    }
+
+    // Settles with the first call that fails the request, if any
+    const merged: Record<string, unknown> = {}
+    const failure = await new Promise<
+      { call: string; error: Error } | undefined
+    >((resolve) => {
+      let pending = this.calls.length
+      for (const call of this.calls) {
+        results.get(call.name)!.then((result) => {
+          if ('value' in result) {
+            merged[call.name] = result.value
+          } else if ((call.onError ?? 'fail') === 'null') {
+            merged[call.name] = null
+          } else {
+            resolve({ call: call.name, error: result.error })
+          }
+          if (--pending === 0) resolve(undefined)
+        })
+      }
+    })
+
+    if (failure) {
+      controller.abort()
+      const { call, error } = failure
+      this.logger?.warn('Aggregate call failed', {
+        call,
+        error: error.message,
+      })
+      return error.name === 'TimeoutError'
+        ? jsonResponse(504, { error: 'Aggregate call timed out', call })
+        : jsonResponse(502, { error: 'Aggregate call failed', call })
+    }
+
+    // Keep the configured order of sections
+    const body: Record<string, unknown> = {}
+    for (const call of this.calls) {
+      body[call.name] = merged[call.name]
+    }
+    return jsonResponse(200, body)
+  }
+
+  private async run(
+    call: PreparedCall,
+    context: {
+      req: Request
+      depth: number
+      params: Record<string, string>
+      query: URLSearchParams
+      headers: Headers
+      results: Map<string, Promise<CallResult>>
+      signal: AbortSignal
+    },
+  ): Promise<CallResult> {
+    const signal = AbortSignal.any([
+      context.signal,
+      AbortSignal.timeout(call.timeout ?? 5000),
+    ])
+    try {
+      const values = new Map<string, unknown>()
+      for (const dependency of call.dependencies) {
+        const result = await abortable(context.results.get(dependency)!, signal)
+        if ('value' in result) values.set(dependency, result.value)
+      }
+
+      const path = call.path.replace(PLACEHOLDER, (_, reference: string) => {
+        const [source, ...keys] = reference.split('.')
+        let value: unknown
+        if (source === 'params') {
+          value = context.params[keys.join('.')]
+        } else if (source === 'query') {
+          value = context.query.get(keys.join('.')) ?? undefined
+        } else {
+          value = readPath(values.get(source!), keys)
+        }
+        if (
+          value === undefined ||
+          value === null ||
+          typeof value === 'object'
+        ) {
+          throw new Error(`No value for placeholder {${reference}}`)
+        }
+        return encodeURIComponent(String(value))
+      })
+
+      const headers = new Headers(context.headers)
+      for (const [name, value] of Object.entries(call.headers ?? {})) {
+        headers.set(name, value)
+      }
+      const request = new Request(new URL(path, context.req.url).href, {
+        method: call.method ?? 'GET',
+        headers,
+        signal,
+      })
+      depths.set(request, context.depth + 1)
+
+      const response = await abortable(
+        Promise.resolve(this.dispatch(request, context.req)),
+        signal,
+      )
+      if (!response.ok) {
+        await response.body?.cancel().catch(() => {})
+        throw new Error(`Call answered with status ${response.status}`)
+      }
+      const text = await abortable(response.text(), signal)
+      return { value: text === '' ? null : JSON.parse(text) }
+    } catch (error) {
+      return { error: error as Error }
+    }
+  }
+}
+
+/**
+ * Validates the calls of an aggregate route and orders them so that every
+ * call follows the calls its placeholders refer to
+ */
+function orderCalls(calls: AggregateCall[]): PreparedCall[] {
+  const byName = new Map<string, PreparedCall>()
+  for (const call of calls) {
+    if (byName.has(call.name)) {
+      throw new Error(`Aggregate call "${call.name}" is defined twice`)
+    }
+    if (RESERVED_NAMES.has(call.name)) {
+      throw new Error(`Aggregate call name "${call.name}" is reserved`)
+    }
+    const dependencies = new Set<string>()
+    for (const [, reference] of call.path.matchAll(PLACEHOLDER)) {
+      const source = reference!.split('.')[0]!
+      if (!RESERVED_NAMES.has(source)) dependencies.add(source)
+    }
+    byName.set(call.name, { ...call, dependencies: [...dependencies] })
+  }
+
+  const ordered: PreparedCall[] = []
+  const state = new Map<string, 'visiting' | 'done'>()
+  const visit = (call: PreparedCall) => {
+    if (state.get(call.name) === 'done') return
+    if (state.get(call.name) === 'visiting') {
+      throw new Error(`Aggregate call "${call.name}" depends on itself`)
+    }
+    state.set(call.name, 'visiting')
+    for (const name of call.dependencies) {
+      const dependency = byName.get(name)
+      if (!dependency) {
+        throw new Error(
+          `Aggregate call "${call.name}" refers to unknown call "${name}"`,
+        )
+      }
+      visit(dependency)
+    }
+    state.set(call.name, 'done')
+    ordered.push(call)
+  }
+  for (const call of byName.values()) {
+    visit(call)
+  }
+  return ordered
+}
+
+/**
+ * Settles with the promise, or rejects with the signal's reason once it is
+ * aborted
+ */
+function abortable<T>(promise: Promise<T>, signal: AbortSignal): Promise<T> {
+  if (signal.aborted) {
+    return Promise.reject(signal.reason)
+  }
+  return new Promise((resolve, reject) => {
+    const onAbort = () => reject(signal.reason)
+    signal.addEventListener('abort', onAbort, { once: true })
+    promise.then(resolve, reject).finally(() => {
+      signal.removeEventListener('abort', onAbort)
+    })
+  })
+}
+
+function readPath(value: unknown, keys: string[]): unknown {
+  for (const key of keys) {
+    if (!value || typeof value !== 'object') {
+      return undefined
+    }
+    value = (value as Record<string, unknown>)[key]
+  }
+  return value
+}
+
+function jsonResponse(status: number, body: unknown): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'content-type': 'application/json' },
+  })
+}
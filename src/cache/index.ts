@@ -0,0 +1,14 @@
+/**
+ * Bungate Cache Module
+ *
+ * HTTP response cache for proxied GET/HEAD routes
+ */
+
+export {
+  ResponseCache,
+  parseCacheControl,
+  type CacheStatus,
+  type ResponseCacheConfig,
+  type ResponseCacheStats,
+  type UpstreamFetcher,
+} from './response-cache'
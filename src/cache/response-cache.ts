@@ -0,0 +1,725 @@
+/**
+ * Response Cache
+ *
+ * In-memory HTTP cache for proxied GET/HEAD routes, following the rules
+ * RFC 9111 sets for a shared cache:
+ *
+ * - Freshness comes from `s-maxage`, `max-age` or `Expires`; responses marked
+ *   `no-store` or `private`, or varying on `*`, are never stored
+ * - Responses to requests carrying `Authorization` are only stored when
+ *   marked `public`, `s-maxage` or `must-revalidate`
+ * - Variants are selected on the request headers named by `Vary`
+ * - `stale-while-revalidate` serves a stale entry while it is refreshed in
+ *   the background; `stale-if-error` serves it when the upstream fails
+ * - Conditional requests (`If-None-Match` / `If-Modified-Since`) are answered
+ *   from the cache, and stale entries are revalidated with their validators
+ *
+ * Entries live in an LRU bounded by size. Every response passing through the
+ * cache carries an `X-Cache` header (HIT, MISS, STALE, REVALIDATED or BYPASS),
+ * and responses served from an entry carry its `Age`.
+ */
+
+/**
+ * Response cache settings of a route
+ */
+export interface ResponseCacheConfig {
+  /**
+   * Enable the cache
+   * @default true when the cache section is present
+   */
+  enabled?: boolean
+  /**
+   * Total size of the cached responses in bytes
+   * @default 52428800 (50 MiB)
+   */
+  maxBytes?: number
+  /**
+   * Largest response body that is stored, in bytes
+   * @default 1048576 (1 MiB)
+   */
+  maxEntryBytes?: number
+  /**
+   * Freshness lifetime in seconds for responses without Cache-Control or
+   * Expires freshness information; 0 leaves such responses uncached
+   * @default 0
+   */
+  defaultTtl?: number
+  /**
+   * stale-while-revalidate window in seconds, used when the upstream does not
+   * send one
+   * @default 0
+   */
+  staleWhileRevalidate?: number
+  /**
+   * stale-if-error window in seconds, used when the upstream does not send one
+   * @default 0
+   */
+  staleIfError?: number
+}
+
+/**
+ * Value of the X-Cache response header
+ */
+export type CacheStatus = 'HIT' | 'MISS' | 'STALE' | 'REVALIDATED' | 'BYPASS'
+
+/**
+ * Fetches a response from the upstream
+ * @param headers - Request headers to send in place of the inbound ones
+ */
+export type UpstreamFetcher = (headers: Headers) => Promise<Response>
+
+/**
+ * Size and occupancy of a response cache
+ */
+export interface ResponseCacheStats {
+  entries: number
+  bytes: number
+  maxBytes: number
+}
+
+interface CacheEntry {
+  key: string
+  status: number
+  statusText: string
+  headers: Headers
+  body: Uint8Array
+  size: number
+  /** Request header values the variant was selected on, from Vary */
+  vary: Array<[string, string]>
+  /** Time the entry was stored or last revalidated, in ms */
+  storedAt: number
+  /** Age of the response when it was received, in seconds */
+  initialAge: number
+  /** Freshness lifetime in seconds */
+  lifetime: number
+  staleWhileRevalidate: number
+  staleIfError: number
+  /** Entry must be revalidated before every use */
+  noCache: boolean
+  /** Entry must not be served stale */
+  mustRevalidate: boolean
+}
+
+type Freshness = Pick<
+  CacheEntry,
+  | 'initialAge'
+  | 'lifetime'
+  | 'staleWhileRevalidate'
+  | 'staleIfError'
+  | 'noCache'
+  | 'mustRevalidate'
+>
+
+/** Status codes that may be stored (RFC 9110 heuristically cacheable) */
+const CACHEABLE_STATUSES = new Set([
+  200, 203, 204, 300, 301, 308, 404, 405, 410, 414, 501,
+])
+
+/** Response headers that are not stored with an entry */
+const UNSTORED_HEADERS = [
+  'age',
+  'connection',
+  'keep-alive',
+  'proxy-connection',
+  'te',
+  'trailer',
+  'transfer-encoding',
+  'upgrade',
+  'x-cache',
+]
+
+/** Headers sent with a 304 answered from the cache */
+const NOT_MODIFIED_HEADERS = [
+  'age',
+  'cache-control',
+  'content-location',
+  'date',
+  'etag',
+  'expires',
+  'last-modified',
+  'vary',
+  'x-cache',
+]
+
+/** Request headers replaced when the cache talks to the upstream */
+const CONDITIONAL_HEADERS = ['if-none-match', 'if-modified-since']
+
+/** Approximate per-entry bookkeeping overhead counted against maxBytes */
+const ENTRY_OVERHEAD = 256
+
+/**
+ * Parses a Cache-Control header into lower-cased directives
+ */
+export function parseCacheControl(
+  header: string | null,
+): Map<string, string | true> {
+  const directives = new Map<string, string | true>()
+  if (!header) {
+    return directives
+  }
+  for (const part of header.split(',')) {
+    const separator = part.indexOf('=')
+    const name = (separator === -1 ? part : part.slice(0, separator))
+      .trim()
+      .toLowerCase()
+    if (!name) continue
+    const value =
+      separator === -1
+        ? true
+        : part
+            .slice(separator + 1)
+            .trim()
+            .replace(/^"(.*)"$/, '$1')
+    if (!directives.has(name)) {
+      directives.set(name, value)
+    }
+  }
+  return directives
+}
+
+function seconds(value: string | true | undefined): number | undefined {
+  if (typeof value !== 'string' || !/^\d+$/.test(value)) {
+    return undefined
+  }
+  return Number(value)
+}
+
+function parseDate(value: string | null): number | undefined {
+  if (!value) return undefined
+  const time = Date.parse(value)
+  return Number.isNaN(time) ? undefined : time
+}
+
+function stripWeak(etag: string): string {
+  return etag.startsWith('W/') ? etag.slice(2) : etag
+}
+
+function withCacheStatus(response: Response, status: CacheStatus): Response {
+  const headers = new Headers(response.headers)
+  headers.set('x-cache', status)
+  return new Response(response.body, {
+    status: response.status,
+    statusText: response.statusText,
+    headers,
+  })
+}
+
+/**
+ * Reads a response body, giving up once it exceeds `limit` bytes
+ *
+ * @returns The body, or a stream replaying what was read followed by the rest
+ *   of the body when it is too large to store
+ */
+async function readBody(
+  response: Response,
+  limit: number,
+): Promise<{ body: Uint8Array } | { stream: ReadableStream<Uint8Array> }> {
+  const reader = response.body?.getReader()
+  if (!reader) {
+    return { body: new Uint8Array(0) }
+  }
+
+  const chunks: Uint8Array[] = []
+  let total = 0
+  while (true) {
+    const { done, value } = await reader.read()
+    if (done) break
+    chunks.push(value)
+    total += value.byteLength
+    if (total > limit) {
+      return {
+        stream: new ReadableStream<Uint8Array>({
+          start(controller) {
+            for (const chunk of chunks) controller.enqueue(chunk)
+          },
+          async pull(controller) {
+            const next = await reader.read()
+            if (next.done) controller.close()
+            else controller.enqueue(next.value)
+          },
+          cancel(reason) {
+            return reader.cancel(reason)
+          },
+        }),
+      }
+    }
+  }
+
+  const body = new Uint8Array(total)
+  let offset = 0
+  for (const chunk of chunks) {
+    body.set(chunk, offset)
+    offset += chunk.byteLength
+  }
+  return { body }
+}
+
+/**
+ * In-memory LRU cache of upstream responses
+ *
+ * @example
+ * ```ts
+ * const cache = new ResponseCache({ maxBytes: 10 * 1024 * 1024 })
+ * const response = await cache.handle(req, (headers) =>
+ *   fetch(upstreamUrl, { headers }),
+ * )
+ * ```
+ */
+export class ResponseCache {
+  /** Variants per primary key, least recently used first */
+  private readonly entries = new Map<string, CacheEntry[]>()
+  private readonly revalidating = new Set<CacheEntry>()
+  private readonly maxBytes: number
+  private readonly maxEntryBytes: number
+  private readonly defaultTtl: number
+  private readonly staleWhileRevalidate: number
+  private readonly staleIfError: number
+  private bytes = 0
+
+  constructor(config: ResponseCacheConfig = {}) {
+    this.maxBytes = config.maxBytes ?? 50 * 1024 * 1024
+    this.maxEntryBytes = Math.min(
+      config.maxEntryBytes ?? 1024 * 1024,
+      this.maxBytes,
+    )
+    this.defaultTtl = config.defaultTtl ?? 0
+    this.staleWhileRevalidate = config.staleWhileRevalidate ?? 0
+    this.staleIfError = config.staleIfError ?? 0
+  }
+
+  /**
+   * Answers a request from the cache or the upstream
+   *
+   * @param req - Inbound request; only GET and HEAD use the cache
+   * @param fetchUpstream - Forwards the request upstream with the given headers
+   * @returns Response carrying X-Cache, and Age when served from an entry
+   */
+  async handle(
+    req: Request,
+    fetchUpstream: UpstreamFetcher,
+  ): Promise<Response> {
+    if (req.method !== 'GET' && req.method !== 'HEAD') {
+      return fetchUpstream(new Headers(req.headers))
+    }
+
+    const directives = parseCacheControl(req.headers.get('cache-control'))
+    if (directives.has('no-store') || req.headers.has('range')) {
+      return withCacheStatus(
+        await fetchUpstream(new Headers(req.headers)),
+        'BYPASS',
+      )
+    }
+
+    const key = req.url
+    const entry = this.lookup(key, req)
+    if (!entry) {
+      if (req.method === 'HEAD') {
+        return withCacheStatus(
+          await fetchUpstream(new Headers(req.headers)),
+          'MISS',
+        )
+      }
+      return this.store(
+        req,
+        await fetchUpstream(this.upstreamHeaders(req)),
+        'MISS',
+      )
+    }
+
+    const age = this.currentAge(entry)
+    const maxAge = seconds(directives.get('max-age'))
+    const requestNoCache = directives.has('no-cache')
+    if (
+      !entry.noCache &&
+      !requestNoCache &&
+      age < entry.lifetime &&
+      (maxAge === undefined || age <= maxAge)
+    ) {
+      return this.respond(req, entry, 'HIT')
+    }
+
+    if (
+      !entry.noCache &&
+      !entry.mustRevalidate &&
+      !requestNoCache &&
+      age >= entry.lifetime &&
+      age - entry.lifetime < entry.staleWhileRevalidate
+    ) {
+      this.revalidateInBackground(req, entry, fetchUpstream)
+      return this.respond(req, entry, 'STALE')
+    }
+
+    return this.revalidate(req, entry, fetchUpstream)
+  }
+
+  /**
+   * Removes every variant cached for a URL
+   */
+  invalidate(url: string): void {
+    const variants = this.entries.get(url)
+    if (variants) {
+      for (const variant of variants) this.bytes -= variant.size
+      this.entries.delete(url)
+    }
+  }
+
+  /**
+   * Removes every entry
+   */
+  clear(): void {
+    this.entries.clear()
+    this.bytes = 0
+  }
+
+  /**
+   * Returns the number of cached responses and their total size
+   */
+  getStats(): ResponseCacheStats {
+    let entries = 0
+    for (const variants of this.entries.values()) entries += variants.length
+    return { entries, bytes: this.bytes, maxBytes: this.maxBytes }
+  }
+
+  private lookup(key: string, req: Request): CacheEntry | undefined {
+    const variants = this.entries.get(key)
+    if (!variants) {
+      return undefined
+    }
+    const entry = variants.find((variant) =>
+      variant.vary.every(
+        ([name, value]) => (req.headers.get(name) ?? '') === value,
+      ),
+    )
+    if (entry) {
+      // Mark the key as most recently used
+      this.entries.delete(key)
+      this.entries.set(key, variants)
+    }
+    return entry
+  }
+
+  private currentAge(entry: CacheEntry): number {
+    return entry.initialAge + (Date.now() - entry.storedAt) / 1000
+  }
+
+  /**
+   * Request headers for the upstream, without the client's validators so the
+   * upstream answers with a full, storable response
+   */
+  private upstreamHeaders(req: Request, entry?: CacheEntry): Headers {
+    const headers = new Headers(req.headers)
+    for (const name of CONDITIONAL_HEADERS) headers.delete(name)
+    const etag = entry?.headers.get('etag')
+    const lastModified = entry?.headers.get('last-modified')
+    if (etag) headers.set('if-none-match', etag)
+    if (lastModified) headers.set('if-modified-since', lastModified)
+    return headers
+  }
+
+  private async revalidate(
+    req: Request,
+    entry: CacheEntry,
+    fetchUpstream: UpstreamFetcher,
+  ): Promise<Response> {
+    const headers = this.upstreamHeaders(req, entry)
+    let response: Response
+    try {
+      response = await fetchUpstream(headers)
+    } catch (error) {
+      if (this.canServeStaleOnError(entry)) {
+        return this.respond(req, entry, 'STALE')
+      }
+      throw error
+    }
+
+    // A 304 is only meaningful if the entry's validators were sent
+    if (
+      response.status === 304 &&
+      (headers.has('if-none-match') || headers.has('if-modified-since'))
+    ) {
+      await response.body?.cancel()
+      this.refresh(entry, response.headers)
+      return this.respond(req, entry, 'REVALIDATED')
+    }
+
+    if (response.status >= 500 && this.canServeStaleOnError(entry)) {
+      await response.body?.cancel()
+      return this.respond(req, entry, 'STALE')
+    }
+
+    this.remove(entry)
+    if (req.method === 'HEAD') {
+      return withCacheStatus(response, 'MISS')
+    }
+    return this.store(req, response, 'MISS')
+  }
+
+  private revalidateInBackground(
+    req: Request,
+    entry: CacheEntry,
+    fetchUpstream: UpstreamFetcher,
+  ): void {
+    if (this.revalidating.has(entry)) {
+      return
+    }
+    this.revalidating.add(entry)
+    this.revalidate(req, entry, fetchUpstream)
+      .then((response) => response.body?.cancel())
+      .catch(() => {})
+      .finally(() => this.revalidating.delete(entry))
+  }
+
+  private canServeStaleOnError(entry: CacheEntry): boolean {
+    return (
+      !entry.mustRevalidate &&
+      this.currentAge(entry) - entry.lifetime < entry.staleIfError
+    )
+  }
+
+  /**
+   * Updates an entry's headers and freshness from a 304 response
+   */
+  private refresh(entry: CacheEntry, headers: Headers): void {
+    for (const [name, value] of headers) {
+      if (
+        !UNSTORED_HEADERS.includes(name) &&
+        name !== 'content-length' &&
+        name !== 'content-encoding'
+      ) {
+        entry.headers.set(name, value)
+      }
+    }
+    const now = Date.now()
+    entry.storedAt = now
+    Object.assign(entry, this.freshness(entry.headers, now))
+  }
+
+  /**
+   * Computes freshness information from response headers
+   *
+   * @returns undefined when the response carries no freshness information and
+   *   no default TTL applies
+   */
+  private freshness(headers: Headers, now: number): Freshness | undefined {
+    const directives = parseCacheControl(headers.get('cache-control'))
+    const date = parseDate(headers.get('date')) ?? now
+
+    let lifetime =
+      seconds(directives.get('s-maxage')) ?? seconds(directives.get('max-age'))
+    if (lifetime === undefined && headers.has('expires')) {
+      const expires = parseDate(headers.get('expires'))
+      // An invalid Expires value means already expired
+      lifetime =
+        expires === undefined ? 0 : Math.max(0, (expires - date) / 1000)
+    }
+    if (lifetime === undefined && !directives.has('no-cache')) {
+      if (this.defaultTtl <= 0) return undefined
+      lifetime = this.defaultTtl
+    }
+
+    const apparentAge = Math.max(0, (now - date) / 1000)
+    const ageHeader = seconds(headers.get('age') ?? undefined) ?? 0
+
+    return {
+      initialAge: Math.max(apparentAge, ageHeader),
+      lifetime: lifetime ?? 0,
+      staleWhileRevalidate:
+        seconds(directives.get('stale-while-revalidate')) ??
+        this.staleWhileRevalidate,
+      staleIfError:
+        seconds(directives.get('stale-if-error')) ?? this.staleIfError,
+      noCache: directives.has('no-cache'),
+      mustRevalidate:
+        directives.has('must-revalidate') || directives.has('proxy-revalidate'),
+    }
+  }
+
+  /**
+   * Stores an upstream response if it is cacheable and answers the request
+   */
+  private async store(
+    req: Request,
+    response: Response,
+    status: CacheStatus,
+  ): Promise<Response> {
+    const freshness = this.storableFreshness(req, response)
+    const declaredLength = Number(response.headers.get('content-length'))
+    if (!freshness || declaredLength > this.maxEntryBytes) {
+      return withCacheStatus(response, status)
+    }
+
+    const read = await readBody(response, this.maxEntryBytes)
+    if ('stream' in read) {
+      return withCacheStatus(
+        new Response(read.stream, {
+          status: response.status,
+          statusText: response.statusText,
+          headers: response.headers,
+        }),
+        status,
+      )
+    }
+
+    const headers = new Headers(response.headers)
+    for (const name of UNSTORED_HEADERS) headers.delete(name)
+
+    let headerBytes = 0
+    for (const [name, value] of headers) {
+      headerBytes += name.length + value.length
+    }
+
+    const vary = (response.headers.get('vary') ?? '')
+      .split(',')
+      .map((name) => name.trim().toLowerCase())
+      .filter(Boolean)
+      .map((name): [string, string] => [name, req.headers.get(name) ?? ''])
+
+    const entry: CacheEntry = {
+      key: req.url,
+      status: response.status,
+      statusText: response.statusText,
+      headers,
+      body: read.body,
+      size: read.body.byteLength + headerBytes + ENTRY_OVERHEAD,
+      vary,
+      storedAt: Date.now(),
+      ...freshness,
+    }
+    this.insert(entry)
+    return this.respond(req, entry, status)
+  }
+
+  /**
+   * Returns the freshness of a response that may be stored, or undefined
+   */
+  private storableFreshness(
+    req: Request,
+    response: Response,
+  ): Freshness | undefined {
+    if (!CACHEABLE_STATUSES.has(response.status)) {
+      return undefined
+    }
+
+    const headers = response.headers
+    const directives = parseCacheControl(headers.get('cache-control'))
+    if (
+      directives.has('no-store') ||
+      directives.has('private') ||
+      headers.has('set-cookie') ||
+      (headers.get('vary') ?? '').includes('*') ||
+      (headers.get('content-type') ?? '').startsWith('text/event-stream')
+    ) {
+      return undefined
+    }
+
+    if (
+      req.headers.has('authorization') &&
+      !directives.has('public') &&
+      !directives.has('s-maxage') &&
+      !directives.has('must-revalidate')
+    ) {
+      return undefined
+    }
+
+    const freshness = this.freshness(headers, Date.now())
+    if (!freshness) {
+      return undefined
+    }
+    const hasValidators = headers.has('etag') || headers.has('last-modified')
+    if (
+      freshness.lifetime <= 0 &&
+      !hasValidators &&
+      freshness.staleIfError <= 0
+    ) {
+      return undefined
+    }
+    return freshness
+  }
+
+  private insert(entry: CacheEntry): void {
+    const variants = this.entries.get(entry.key) ?? []
+    const existing = variants.findIndex(
+      (variant) =>
+        variant.vary.length === entry.vary.length &&
+        variant.vary.every(
+          ([name, value], i) =>
+            entry.vary[i]![0] === name && entry.vary[i]![1] === value,
+        ),
+    )
+    if (existing !== -1) {
+      this.bytes -= variants[existing]!.size
+      variants.splice(existing, 1)
+    }
+    variants.push(entry)
+    this.bytes += entry.size
+
+    this.entries.delete(entry.key)
+    this.entries.set(entry.key, variants)
+
+    // Evict least recently used keys until the cache fits again
+    for (const [key, evicted] of this.entries) {
+      if (this.bytes <= this.maxBytes) break
+      if (key === entry.key) continue
+      for (const variant of evicted) this.bytes -= variant.size
+      this.entries.delete(key)
+    }
+  }
+
+  private remove(entry: CacheEntry): void {
+    const variants = this.entries.get(entry.key)
+    const index = variants?.indexOf(entry) ?? -1
+    if (variants && index !== -1) {
+      variants.splice(index, 1)
+      this.bytes -= entry.size
+      if (variants.length === 0) this.entries.delete(entry.key)
+    }
+  }
+
+  /**
+   * Builds the client response from an entry, answering conditional requests
+   */
+  private respond(
+    req: Request,
+    entry: CacheEntry,
+    status: CacheStatus,
+  ): Response {
+    const headers = new Headers(entry.headers)
+    headers.set('age', String(Math.floor(this.currentAge(entry))))
+    headers.set('x-cache', status)
+
+    if (entry.status === 200 && this.isNotModified(req, entry)) {
+      const notModified = new Headers()
+      for (const name of NOT_MODIFIED_HEADERS) {
+        const value = headers.get(name)
+        if (value !== null) notModified.set(name, value)
+      }
+      return new Response(null, { status: 304, headers: notModified })
+    }
+
+    return new Response(req.method === 'HEAD' ? null : entry.body, {
+      status: entry.status,
+      statusText: entry.statusText,
+      headers,
+    })
+  }
+
+  private isNotModified(req: Request, entry: CacheEntry): boolean {
+    const ifNoneMatch = req.headers.get('if-none-match')
+    if (ifNoneMatch !== null) {
+      const etag = entry.headers.get('etag')
+      if (ifNoneMatch.trim() === '*') return etag !== null
+      return (
+        etag !== null &&
+        ifNoneMatch
+          .split(',')
+          .some((candidate) => stripWeak(candidate.trim()) === stripWeak(etag))
+      )
+    }
+
+    const since = parseDate(req.headers.get('if-modified-since'))
+    const modified = parseDate(
+      entry.headers.get('last-modified') ?? entry.headers.get('date'),
+    )
+    return since !== undefined && modified !== undefined && modified <= since
+  }
+}
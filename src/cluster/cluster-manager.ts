@@ -12,7 +12,8 @@
  * - Real-time health monitoring and failure detection
  * - Zero-downtime deployments with rolling restarts
  * - Resource monitoring and performance optimization
- * - Signal-based management (SIGINT, SIGTERM, SIGUSR2)
+ * - Signal-based management (SIGINT, SIGTERM, SIGUSR2, SIGHUP)
+ * - Configuration reload pushed to workers over IPC
  * - Comprehensive logging and operational visibility
  *
  * @example
@@ -32,6 +33,13 @@ import { spawn, type Subprocess } from 'bun'
 import { cpus } from 'os'
 import type { Logger } from '../interfaces/logger'
 import type { ClusterConfig } from '../interfaces/gateway'
+import { parseGatewayConfigSettings } from '../config/config-loader'
+import {
+  isConfigReloadReply,
+  type ConfigReloadMessage,
+  type ConfigReloadSummary,
+  type WorkerReloadResult,
+} from './config-reload'
 
 /**
  * Worker process information for tracking and management
@@ -79,6 +87,16 @@ export class ClusterManager {
   private boundSigint?: () => void
   private boundSigterm?: () => void
   private boundSigusr2?: () => void
+  private boundSighup?: () => void
+  /** Identifier of the next configuration reload */
+  private nextReloadId = 1
+  /** Workers' answers awaited by reloadConfig(), by reload and worker id */
+  private pendingReloads = new Map<
+    string,
+    (result: WorkerReloadResult) => void
+  >()
+  /** Reloads are serialized so an older file never overwrites a newer one */
+  private reloading: Promise<unknown> = Promise.resolve()
 
   /**
    * Initialize cluster manager with configuration and dependencies
@@ -97,6 +115,7 @@ export class ClusterManager {
       shutdownTimeout: 30000,
       respawnThreshold: 5,
       respawnThresholdTime: 60000,
+      reloadTimeout: 10000,
       ...config,
     }
     this.logger = logger
@@ -183,9 +202,14 @@ export class ClusterManager {
     this.boundSigint = this.gracefulShutdown.bind(this)
     this.boundSigterm = this.gracefulShutdown.bind(this)
     this.boundSigusr2 = this.restartAllWorkers.bind(this)
+    this.boundSighup = () => {
+      // Failures are logged by reloadConfig()
+      this.reloadConfig().catch(() => {})
+    }
     process.on('SIGINT', this.boundSigint)
     process.on('SIGTERM', this.boundSigterm)
     process.on('SIGUSR2', this.boundSigusr2)
+    process.on('SIGHUP', this.boundSighup)
 
     // Calculate number of workers, ensuring at least one
     const maxWorkers = Math.max(1, this.config.workers || cpus().length)
@@ -210,6 +234,9 @@ export class ClusterManager {
         cmd: [process.execPath, this.workerScript],
         env: this.buildWorkerEnv(id),
         stdio: ['ignore', 'pipe', 'pipe'],
+        // Carries configuration reloads and the workers' answers
+        ipc: (message) => this.handleWorkerMessage(id, message),
+        serialization: 'json',
       })
 
       // Route worker stdout/stderr through the master logger with sanitization
@@ -270,6 +297,11 @@ export class ClusterManager {
 
     this.logger?.warn(`Worker ${id} exited with code ${exitCode}`)
     this.workers.delete(id)
+    for (const [key, resolve] of this.pendingReloads) {
+      if (key.endsWith(`:${id}`)) {
+        resolve({ workerId: id, applied: false, error: 'Worker exited' })
+      }
+    }
 
     // Don't restart if we're shutting down or worker was intentionally killed
     if (this.isShuttingDown || isExiting) {
@@ -414,11 +446,134 @@ export class ClusterManager {
     if (this.boundSigint) process.off('SIGINT', this.boundSigint)
     if (this.boundSigterm) process.off('SIGTERM', this.boundSigterm)
     if (this.boundSigusr2) process.off('SIGUSR2', this.boundSigusr2)
+    if (this.boundSighup) process.off('SIGHUP', this.boundSighup)
     if (this.config.exitOnShutdown ?? true) {
       process.exit(0)
     }
   }
 
+  /**
+   * Re-reads the gateway configuration file and pushes it to every worker,
+   * which applies it in place. Runs on SIGHUP.
+   *
+   * The master validates the file first and leaves the workers untouched when
+   * it is invalid. A worker that rejects the configuration keeps its current
+   * one; the outcome on each worker is logged and returned.
+   *
+   * @returns Outcome on each worker
+   * @throws Error if no configFile is configured or the file is invalid
+   */
+  reloadConfig(): Promise<ConfigReloadSummary> {
+    const reload = this.reloading.then(
+      () => this.pushConfig(),
+      () => this.pushConfig(),
+    )
+    this.reloading = reload
+    return reload
+  }
+
+  private async pushConfig(): Promise<ConfigReloadSummary> {
+    const file = this.config.configFile
+    if (!file) {
+      const error = new Error(
+        'Cannot reload configuration: cluster.configFile is not set',
+      )
+      this.logger?.error(error.message)
+      throw error
+    }
+
+    let source: string
+    try {
+      source = await Bun.file(file).text()
+      parseGatewayConfigSettings(source, { file })
+    } catch (error) {
+      this.logger?.error(
+        'Rejected gateway configuration reload',
+        error as Error,
+        { file },
+      )
+      throw error
+    }
+
+    const message: ConfigReloadMessage = {
+      type: 'bungate:config-reload',
+      id: this.nextReloadId++,
+      file,
+      source,
+    }
+    const workers = await Promise.all(
+      Array.from(this.workers.values())
+        .filter((info) => !info.isExiting)
+        .map((info) => this.sendConfig(info, message)),
+    )
+
+    const summary: ConfigReloadSummary = { file, workers }
+    const failed = workers.filter((result) => !result.applied)
+    if (failed.length === 0) {
+      this.logger?.info('Gateway configuration reloaded on all workers', {
+        file,
+        workers: workers.map((result) => result.workerId),
+      })
+    } else {
+      this.logger?.warn('Gateway configuration reload failed on some workers', {
+        file,
+        applied: workers
+          .filter((result) => result.applied)
+          .map((result) => result.workerId),
+        failed: failed.map((result) => ({
+          worker: result.workerId,
+          error: result.error,
+        })),
+      })
+    }
+    return summary
+  }
+
+  /**
+   * Sends a configuration to a worker and waits for its answer, up to
+   * reloadTimeout
+   */
+  private sendConfig(
+    info: WorkerInfo,
+    message: ConfigReloadMessage,
+  ): Promise<WorkerReloadResult> {
+    const key = `${message.id}:${info.id}`
+    return new Promise<WorkerReloadResult>((resolve) => {
+      const timer = setTimeout(() => {
+        settle({
+          workerId: info.id,
+          applied: false,
+          error: `No answer within ${this.config.reloadTimeout}ms`,
+        })
+      }, this.config.reloadTimeout)
+      const settle = (result: WorkerReloadResult) => {
+        clearTimeout(timer)
+        this.pendingReloads.delete(key)
+        resolve(result)
+      }
+      this.pendingReloads.set(key, settle)
+
+      try {
+        info.process.send(message)
+      } catch (error) {
+        settle({
+          workerId: info.id,
+          applied: false,
+          error: (error as Error).message,
+        })
+      }
+    })
+  }
+
+  private handleWorkerMessage(workerId: number, message: unknown): void {
+    if (!isConfigReloadReply(message)) return
+    this.pendingReloads.get(`${message.id}:${workerId}`)?.({
+      workerId,
+      applied: message.applied,
+      error: message.error,
+    })
+  }
+
   getWorkerCount(): number {
     return this.workers.size
   }
@@ -0,0 +1,124 @@
+/**
+ * Cluster Configuration Reload
+ *
+ * Messages exchanged over IPC when the cluster master pushes a reloaded
+ * gateway configuration to its workers, and the worker side of the exchange.
+ *
+ * The master sends the configuration file's source rather than the parsed
+ * configuration, which holds functions and logger instances that cannot
+ * cross process boundaries. Each worker parses and validates the source
+ * itself, applies it in place and answers with the outcome; a worker that
+ * rejects it keeps serving its current configuration.
+ */
+
+import type { Logger } from '../interfaces/logger'
+import {
+  parseGatewayConfigSettings,
+  type GatewayConfigSettings,
+} from '../config/config-loader'
+
+/**
+ * Configuration pushed from the master to a worker
+ */
+export interface ConfigReloadMessage {
+  type: 'bungate:config-reload'
+  /** Identifies the reload the worker answers */
+  id: number
+  /** Configuration file name, used in validation errors */
+  file: string
+  /** Contents of the configuration file */
+  source: string
+}
+
+/**
+ * Worker's answer to a ConfigReloadMessage
+ */
+export interface ConfigReloadReply {
+  type: 'bungate:config-reload-result'
+  id: number
+  /** Whether the worker applied the configuration */
+  applied: boolean
+  /** Why the worker kept its current configuration */
+  error?: string
+}
+
+/**
+ * Outcome of a reload on one worker
+ */
+export interface WorkerReloadResult {
+  workerId: number
+  applied: boolean
+  error?: string
+}
+
+/**
+ * Outcome of a cluster-wide reload
+ */
+export interface ConfigReloadSummary {
+  file: string
+  workers: WorkerReloadResult[]
+}
+
+export function isConfigReloadMessage(
+  message: unknown,
+): message is ConfigReloadMessage {
+  return (
+    typeof message === 'object' &&
+    message !== null &&
+    (message as ConfigReloadMessage).type === 'bungate:config-reload'
+  )
+}
+
+export function isConfigReloadReply(
+  message: unknown,
+): message is ConfigReloadReply {
+  return (
+    typeof message === 'object' &&
+    message !== null &&
+    (message as ConfigReloadReply).type === 'bungate:config-reload-result'
+  )
+}
+
+/**
+ * Applies configurations pushed by the cluster master in a worker process
+ *
+ * @param apply - Applies a validated configuration; throws to reject it. No
+ *   logger is created from the `logger` section, which is passed as settings.
+ * @returns Function that stops listening
+ *
+ * @example
+ * ```ts
+ * const stop = listenForConfigReloads(({ config, logger }) =>
+ *   gateway.applyConfig(config, logger?.level),
+ * )
+ * ```
+ */
+export function listenForConfigReloads(
+  apply: (settings: GatewayConfigSettings) => void,
+  logger?: Logger,
+): () => void {
+  const onMessage = (message: unknown) => {
+    if (!isConfigReloadMessage(message)) return
+    const reply: ConfigReloadReply = {
+      type: 'bungate:config-reload-result',
+      id: message.id,
+      applied: false,
+    }
+    try {
+      apply(parseGatewayConfigSettings(message.source, { file: message.file }))
+      reply.applied = true
+      logger?.info('Gateway configuration reloaded', { file: message.file })
+    } catch (error) {
+      reply.error = (error as Error).message
+      logger?.error('Rejected reloaded gateway configuration', error as Error, {
+        file: message.file,
+      })
+    }
+    process.send?.(reply)
+  }
+
+  process.on('message', onMessage)
+  return () => {
+    process.off('message', onMessage)
+  }
+}
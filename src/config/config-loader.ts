@@ -0,0 +1,293 @@
+/**
+ * Declarative Gateway Configuration Loader
+ *
+ * Reads a gateway configuration from a JSON, YAML or TOML file and turns it into
+ * a validated GatewayConfig. Every problem found - syntax errors, unknown keys,
+ * wrong types, insecure security settings - is reported with file/line context
+ * through a single GatewayConfigError.
+ *
+ * @example
+ * ```ts
+ * const config = await loadGatewayConfig('./gateway.yaml')
+ * const gateway = new BunGateway(config)
+ * await gateway.listen()
+ * ```
+ */
+
+import type { GatewayConfig } from '../interfaces/gateway'
+import type { LoggerConfig } from '../interfaces/logger'
+import {
+  mergeSecurityConfig,
+  validateSecurityConfig,
+  type SecurityConfig,
+} from '../security/config'
+import { createLogger } from '../logger/pino-logger'
+import {
+  formatConfigPath,
+  validateGatewayConfig,
+  type ConfigIssue,
+} from './config-validator'
+import {
+  locateConfigPath,
+  locateSyntaxError,
+  type ConfigFormat,
+} from './source-locator'
+
+/**
+ * Options for parsing a configuration source
+ */
+export interface ParseGatewayConfigOptions {
+  /** File name used in error messages */
+  file?: string
+  /** Source format; detected from the file extension when omitted */
+  format?: ConfigFormat
+}
+
+/**
+ * A validated configuration with its `logger` section left as settings
+ */
+export interface GatewayConfigSettings {
+  /** Gateway configuration, without a logger */
+  config: GatewayConfig
+  /** The `logger` section, when present */
+  logger?: LoggerConfig
+}
+
+/**
+ * Error raised when a configuration file cannot be loaded
+ */
+export class GatewayConfigError extends Error {
+  /** Path of the offending file */
+  readonly file: string
+  /** Every problem found in the file */
+  readonly issues: ConfigIssue[]
+
+  constructor(file: string, issues: ConfigIssue[]) {
+    super(
+      `Invalid gateway configuration in ${file}:\n` +
+        issues.map((issue) => `  ${formatConfigIssue(file, issue)}`).join('\n'),
+    )
+    this.name = 'GatewayConfigError'
+    this.file = file
+    this.issues = issues
+  }
+}
+
+/**
+ * Formats an issue as `file:line:column path: message`
+ */
+export function formatConfigIssue(file: string, issue: ConfigIssue): string {
+  const location =
+    issue.line !== undefined
+      ? `${file}:${issue.line}:${issue.column ?? 1}`
+      : file
+  const subject =
+    issue.path.length > 0 ? ` ${formatConfigPath(issue.path)}` : ''
+  return `${location}${subject}: ${issue.message}`
+}
+
+/**
+ * Detects the configuration format from a file extension
+ *
+ * @throws Error if the extension is not .json, .yaml, .yml or .toml
+ */
+export function detectConfigFormat(file: string): ConfigFormat {
+  const extension = file.slice(file.lastIndexOf('.') + 1).toLowerCase()
+  switch (extension) {
+    case 'json':
+      return 'json'
+    case 'yaml':
+    case 'yml':
+      return 'yaml'
+    case 'toml':
+      return 'toml'
+    default:
+      throw new Error(
+        `Unsupported configuration file extension: ${file} (expected .json, .yaml, .yml or .toml)`,
+      )
+  }
+}
+
+function getParser(format: ConfigFormat): (text: string) => unknown {
+  switch (format) {
+    case 'json':
+      return JSON.parse
+    case 'yaml':
+      return Bun.YAML.parse
+    case 'toml':
+      return Bun.TOML.parse
+  }
+}
+
+/**
+ * Compiles regular expressions given as strings in the inputValidation section
+ */
+function compileInputValidationPatterns(
+  security: Record<string, any>,
+  issues: ConfigIssue[],
+): void {
+  const rules = security.inputValidation
+  if (!rules || typeof rules !== 'object') return
+
+  const compile = (pattern: unknown, path: Array<string | number>) => {
+    if (pattern instanceof RegExp) return pattern
+    if (typeof pattern !== 'string') {
+      issues.push({ path, message: 'must be a regular expression string' })
+      return undefined
+    }
+    try {
+      return new RegExp(pattern)
+    } catch (error) {
+      issues.push({
+        path,
+        message: `is not a valid regular expression: ${(error as Error).message}`,
+      })
+      return undefined
+    }
+  }
+
+  const basePath = ['security', 'inputValidation']
+  if (rules.allowedPathChars !== undefined) {
+    rules.allowedPathChars = compile(rules.allowedPathChars, [
+      ...basePath,
+      'allowedPathChars',
+    ])
+  }
+  if (Array.isArray(rules.blockedPatterns)) {
+    rules.blockedPatterns = rules.blockedPatterns.map(
+      (pattern: unknown, index: number) =>
+        compile(pattern, [...basePath, 'blockedPatterns', index]),
+    )
+  }
+}
+
+/**
+ * Parses and validates a configuration source
+ *
+ * @param source - Raw file contents
+ * @param options - File name and format
+ * @returns Validated gateway configuration
+ * @throws GatewayConfigError if the source is malformed or invalid
+ */
+export function parseGatewayConfig(
+  source: string,
+  options: ParseGatewayConfigOptions = {},
+): GatewayConfig {
+  const { config, logger } = parseGatewayConfigSettings(source, options)
+  if (logger) {
+    config.logger = createLogger(logger)
+  }
+  return config
+}
+
+/**
+ * Parses and validates a configuration source without creating a logger
+ *
+ * Reloads use this: they only need the `logger` settings, and every logger
+ * created may start a transport thread or open a file that is never closed.
+ *
+ * @param source - Raw file contents
+ * @param options - File name and format
+ * @returns Validated gateway configuration and the `logger` section
+ * @throws GatewayConfigError if the source is malformed or invalid
+ */
+export function parseGatewayConfigSettings(
+  source: string,
+  options: ParseGatewayConfigOptions = {},
+): GatewayConfigSettings {
+  const file = options.file ?? '<inline>'
+  const format = options.format ?? detectConfigFormat(file)
+  const parse = getParser(format)
+
+  let raw: unknown
+  try {
+    raw = parse(source)
+  } catch (error) {
+    const position = locateSyntaxError(source, format, parse)
+    throw new GatewayConfigError(file, [
+      {
+        path: [],
+        message: `${format.toUpperCase()} syntax error: ${(error as Error).message}`,
+        ...position,
+      },
+    ])
+  }
+
+  const issues = validateGatewayConfig(raw)
+  const config = raw as Record<string, any>
+
+  let security: SecurityConfig | undefined
+  if (
+    config?.security &&
+    typeof config.security === 'object' &&
+    !Array.isArray(config.security)
+  ) {
+    compileInputValidationPatterns(config.security, issues)
+    security = mergeSecurityConfig(config.security)
+    const result = validateSecurityConfig(security)
+    for (const message of result.errors ?? []) {
+      issues.push({ path: ['security'], message })
+    }
+  }
+
+  if (issues.length > 0) {
+    for (const issue of issues) {
+      Object.assign(issue, locateConfigPath(source, format, issue.path))
+    }
+    throw new GatewayConfigError(file, issues)
+  }
+
+  const { logger, ...rest } = config
+  const gatewayConfig: GatewayConfig = { ...rest }
+  if (security) {
+    gatewayConfig.security = security
+  }
+  return {
+    config: gatewayConfig,
+    logger: logger ? (logger as LoggerConfig) : undefined,
+  }
+}
+
+/**
+ * Loads a gateway configuration file
+ *
+ * The format is chosen from the extension: `.json`, `.yaml`/`.yml` or `.toml`.
+ * A `security` section is merged with the secure defaults and checked with
+ * validateSecurityConfig; a `logger` section is turned into a logger instance.
+ *
+ * @param path - Path to the configuration file
+ * @returns Validated gateway configuration
+ * @throws GatewayConfigError if the file is malformed or invalid
+ */
+export async function loadGatewayConfig(path: string): Promise<GatewayConfig> {
+  return parseGatewayConfig(await readConfigFile(path), {
+    file: path,
+    format: detectConfigFormat(path),
+  })
+}
+
+/**
+ * Loads a gateway configuration file without creating a logger
+ *
+ * @param path - Path to the configuration file
+ * @returns Validated gateway configuration and the `logger` section
+ * @throws GatewayConfigError if the file is malformed or invalid
+ */
+export async function loadGatewayConfigSettings(
+  path: string,
+): Promise<GatewayConfigSettings> {
+  return parseGatewayConfigSettings(await readConfigFile(path), {
+    file: path,
+    format: detectConfigFormat(path),
+  })
+}
+
+async function readConfigFile(path: string): Promise<string> {
+  // Checked first so an unsupported extension is reported before a missing file
+  detectConfigFormat(path)
+  const file = Bun.file(path)
+  if (!(await file.exists())) {
+    throw new Error(`Gateway configuration file not found: ${path}`)
+  }
+  return file.text()
+}
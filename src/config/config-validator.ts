@@ -0,0 +1,874 @@
+/**
+ * Declarative Gateway Configuration Validator
+ *
+ * Validates configuration objects parsed from JSON/YAML/TOML files against the
+ * subset of GatewayConfig that can be expressed declaratively. Functions such as
+ * route handlers, hooks and custom middlewares cannot appear in a file, so a
+ * file-defined route must proxy to a `target`, a `loadBalancer` pool or a
+ * traffic `split`, or `aggregate` calls to other routes.
+ *
+ * Each problem is reported as a ConfigIssue carrying the key path, which the
+ * loader turns into file/line context.
+ */
+
+import { isValidURL } from '../security/utils'
+import { compileSchema, type JSONSchema } from '../validation/json-schema'
+
+/**
+ * A single configuration problem
+ */
+export interface ConfigIssue {
+  /** Key path to the offending value, e.g. ['routes', 2, 'target'] */
+  path: Array<string | number>
+  /** Human-readable description of the problem */
+  message: string
+  /** 1-based line in the source file, when it could be determined */
+  line?: number
+  /** 1-based column in the source file, when it could be determined */
+  column?: number
+}
+
+/**
+ * Field specification used by the declarative validator
+ */
+export type FieldSpec =
+  | { type: 'string'; enum?: readonly string[]; url?: boolean; path?: boolean }
+  | { type: 'number'; min?: number; max?: number; integer?: boolean }
+  | { type: 'boolean' }
+  | { type: 'any' }
+  | {
+      type: 'object'
+      /** Known properties; unknown properties are rejected unless `open` */
+      fields?: Record<string, FieldSpec>
+      /** Spec applied to every value of a free-form record */
+      values?: FieldSpec
+      /** Required property names */
+      required?: string[]
+      /** Accept properties not listed in `fields` */
+      open?: boolean
+    }
+  | { type: 'array'; items: FieldSpec; minItems?: number }
+  | { type: 'oneOf'; options: FieldSpec[] }
+
+/** A JSON Schema: an object of keywords, or true/false */
+const jsonSchema: FieldSpec = {
+  type: 'oneOf',
+  options: [{ type: 'object', open: true }, { type: 'boolean' }],
+}
+
+const HTTP_METHODS = [
+  'GET',
+  'POST',
+  'PUT',
+  'PATCH',
+  'DELETE',
+  'HEAD',
+  'OPTIONS',
+] as const
+
+const LOAD_BALANCER_STRATEGIES = [
+  'round-robin',
+  'least-connections',
+  'random',
+  'weighted',
+  'ip-hash',
+  'p2c',
+  'power-of-two-choices',
+  'latency',
+  'weighted-least-connections',
+] as const
+
+const stringArray: FieldSpec = { type: 'array', items: { type: 'string' } }
+const stringRecord: FieldSpec = { type: 'object', values: { type: 'string' } }
+const positiveInt: FieldSpec = { type: 'number', min: 1, integer: true }
+const nonNegativeInt: FieldSpec = { type: 'number', min: 0, integer: true }
+
+const matchConditionSpec: FieldSpec = {
+  type: 'object',
+  values: {
+    type: 'oneOf',
+    options: [{ type: 'string' }, stringArray, { type: 'boolean' }],
+  },
+}
+
+const loadBalancerSpec: FieldSpec = {
+  type: 'object',
+  required: ['strategy', 'targets'],
+  fields: {
+    strategy: { type: 'string', enum: LOAD_BALANCER_STRATEGIES },
+    targets: {
+      type: 'array',
+      minItems: 1,
+      items: {
+        type: 'object',
+        required: ['url'],
+        fields: {
+          url: { type: 'string', url: true },
+          weight: { type: 'number', min: 0 },
+          metadata: { type: 'object', open: true },
+        },
+      },
+    },
+    healthCheck: {
+      type: 'object',
+      required: ['enabled'],
+      fields: {
+        enabled: { type: 'boolean' },
+        interval: positiveInt,
+        timeout: positiveInt,
+        path: { type: 'string', path: true },
+        expectedStatus: { type: 'number', min: 100, max: 599, integer: true },
+        expectedBody: { type: 'string' },
+        method: { type: 'string', enum: ['GET', 'HEAD'] },
+        allowedSchemes: stringArray,
+        allowedHosts: stringArray,
+        failureThreshold: positiveInt,
+        successThreshold: positiveInt,
+        minHealthyTargets: nonNegativeInt,
+      },
+    },
+    stickySession: {
+      type: 'object',
+      required: ['enabled'],
+      fields: {
+        enabled: { type: 'boolean' },
+        cookieName: { type: 'string' },
+        ttl: positiveInt,
+      },
+    },
+  },
+}
+
+const rateLimitSpec: FieldSpec = {
+  type: 'object',
+  fields: {
+    windowMs: positiveInt,
+    max: positiveInt,
+    standardHeaders: { type: 'boolean' },
+    excludePaths: stringArray,
+  },
+}
+
+const authSpec: FieldSpec = {
+  type: 'object',
+  fields: {
+    secret: { type: 'string' },
+    jwksUri: { type: 'string', url: true },
+    jwtOptions: {
+      type: 'object',
+      fields: {
+        algorithms: stringArray,
+        audience: { type: 'oneOf', options: [{ type: 'string' }, stringArray] },
+        issuer: { type: 'oneOf', options: [{ type: 'string' }, stringArray] },
+        subject: { type: 'string' },
+        clockTolerance: nonNegativeInt,
+        maxTokenAge: positiveInt,
+      },
+    },
+    tokenHeader: { type: 'string' },
+    tokenQuery: { type: 'string' },
+    optional: { type: 'boolean' },
+    excludePaths: stringArray,
+    apiKeys: { type: 'oneOf', options: [{ type: 'string' }, stringArray] },
+    apiKeyHeader: { type: 'string' },
+    audience: { type: 'oneOf', options: [{ type: 'string' }, stringArray] },
+    issuer: { type: 'string' },
+    algorithms: stringArray,
+  },
+}
+
+/**
+ * Specification of a route's fault injection settings, shared with the admin
+ * API
+ */
+export const FAULT_CONFIG_SPEC: FieldSpec = {
+  type: 'object',
+  fields: {
+    enabled: { type: 'boolean' },
+    delay: {
+      type: 'object',
+      required: ['duration'],
+      fields: {
+        duration: nonNegativeInt,
+        jitter: nonNegativeInt,
+        percentage: { type: 'number', min: 0, max: 100 },
+      },
+    },
+    abort: {
+      type: 'object',
+      required: ['status'],
+      fields: {
+        status: { type: 'number', min: 200, max: 599, integer: true },
+        message: { type: 'string' },
+        percentage: { type: 'number', min: 0, max: 100 },
+      },
+    },
+    reset: {
+      type: 'object',
+      fields: {
+        percentage: { type: 'number', min: 0, max: 100 },
+      },
+    },
+    when: {
+      type: 'object',
+      fields: {
+        headers: matchConditionSpec,
+        clientIPs: stringArray,
+      },
+    },
+  },
+}
+
+/**
+ * Specification of a declarative RouteConfig
+ */
+export const ROUTE_CONFIG_SPEC: FieldSpec = {
+  type: 'object',
+  required: ['pattern'],
+  fields: {
+    pattern: { type: 'string', path: true },
+    target: { type: 'string', url: true },
+    methods: {
+      type: 'array',
+      minItems: 1,
+      items: { type: 'string', enum: HTTP_METHODS },
+    },
+    match: {
+      type: 'object',
+      fields: {
+        host: { type: 'oneOf', options: [{ type: 'string' }, stringArray] },
+        headers: matchConditionSpec,
+        query: matchConditionSpec,
+        cookies: matchConditionSpec,
+      },
+    },
+    timeout: positiveInt,
+    proxy: {
+      type: 'object',
+      fields: {
+        headers: stringRecord,
+        timeout: positiveInt,
+        followRedirects: { type: 'boolean' },
+        maxRedirects: nonNegativeInt,
+        pathRewrite: stringRecord,
+        queryString: {
+          type: 'oneOf',
+          options: [{ type: 'string' }, { type: 'object', open: true }],
+        },
+      },
+    },
+    circuitBreaker: {
+      type: 'object',
+      open: true,
+      fields: {
+        enabled: { type: 'boolean' },
+        failureThreshold: positiveInt,
+        timeout: positiveInt,
+        resetTimeout: positiveInt,
+      },
+    },
+    loadBalancer: loadBalancerSpec,
+    auth: authSpec,
+    rateLimit: rateLimitSpec,
+    cache: {
+      type: 'object',
+      fields: {
+        enabled: { type: 'boolean' },
+        maxBytes: positiveInt,
+        maxEntryBytes: positiveInt,
+        defaultTtl: nonNegativeInt,
+        staleWhileRevalidate: nonNegativeInt,
+        staleIfError: nonNegativeInt,
+      },
+    },
+    retry: {
+      type: 'object',
+      fields: {
+        maxAttempts: positiveInt,
+        statusCodes: {
+          type: 'array',
+          items: { type: 'number', min: 100, max: 599, integer: true },
+        },
+        errors: {
+          type: 'array',
+          items: {
+            type: 'string',
+            enum: ['connection', 'timeout', 'circuit-open'],
+          },
+        },
+        methods: {
+          type: 'array',
+          items: { type: 'string', enum: HTTP_METHODS },
+        },
+        baseDelay: nonNegativeInt,
+        maxDelay: nonNegativeInt,
+        maxBodyBytes: nonNegativeInt,
+      },
+    },
+    split: {
+      type: 'object',
+      required: ['backends'],
+      fields: {
+        backends: {
+          type: 'array',
+          minItems: 1,
+          items: {
+            type: 'object',
+            required: ['name', 'weight'],
+            fields: {
+              name: { type: 'string' },
+              weight: { type: 'number', min: 0 },
+              target: { type: 'string', url: true },
+              loadBalancer: loadBalancerSpec,
+            },
+          },
+        },
+        overrides: {
+          type: 'array',
+          items: {
+            type: 'object',
+            fields: {
+              header: { type: 'string' },
+              cookie: { type: 'string' },
+              claim: { type: 'string' },
+              value: { type: 'string' },
+              backend: { type: 'string' },
+            },
+          },
+        },
+        stickyBy: { type: 'string', enum: ['cookie', 'ip'] },
+        cookieName: { type: 'string' },
+        cookieMaxAge: positiveInt,
+      },
+    },
+    hedge: {
+      type: 'object',
+      fields: {
+        delay: nonNegativeInt,
+        percentile: { type: 'number', min: 1, max: 100 },
+        minDelay: nonNegativeInt,
+        maxDelay: nonNegativeInt,
+        budgetPercent: { type: 'number', min: 0, max: 100 },
+        methods: {
+          type: 'array',
+          items: { type: 'string', enum: HTTP_METHODS },
+        },
+      },
+    },
+    mirror: {
+      type: 'object',
+      required: ['target'],
+      fields: {
+        target: { type: 'string', url: true },
+        percentage: { type: 'number', min: 0, max: 100 },
+        includeBody: { type: 'boolean' },
+        maxConcurrent: positiveInt,
+        timeout: positiveInt,
+        maxBodyBytes: nonNegativeInt,
+      },
+    },
+    faults: FAULT_CONFIG_SPEC,
+    websocket: {
+      type: 'object',
+      fields: {
+        idleTimeout: nonNegativeInt,
+        maxMessageSize: positiveInt,
+        maxBufferedBytes: positiveInt,
+        connectTimeout: positiveInt,
+      },
+    },
+    streaming: {
+      type: 'object',
+      fields: {
+        idleTimeout: nonNegativeInt,
+        maxDuration: nonNegativeInt,
+        heartbeatInterval: nonNegativeInt,
+      },
+    },
+    aggregate: {
+      type: 'object',
+      required: ['calls'],
+      fields: {
+        calls: {
+          type: 'array',
+          minItems: 1,
+          items: {
+            type: 'object',
+            required: ['name', 'path'],
+            fields: {
+              name: { type: 'string' },
+              path: { type: 'string', path: true },
+              method: { type: 'string', enum: HTTP_METHODS },
+              headers: stringRecord,
+              timeout: positiveInt,
+              onError: { type: 'string', enum: ['fail', 'null'] },
+            },
+          },
+        },
+        forwardHeaders: stringArray,
+      },
+    },
+    validation: {
+      type: 'object',
+      fields: {
+        body: jsonSchema,
+        query: jsonSchema,
+        params: jsonSchema,
+        response: {
+          type: 'object',
+          required: ['body'],
+          fields: {
+            body: jsonSchema,
+            mode: { type: 'string', enum: ['log', 'reject'] },
+          },
+        },
+      },
+    },
+    meta: {
+      type: 'object',
+      fields: {
+        operationId: { type: 'string' },
+        name: { type: 'string' },
+        description: { type: 'string' },
+        version: { type: 'string' },
+        tags: stringArray,
+      },
+    },
+  },
+}
+
+/**
+ * Specification of a declarative GatewayConfig
+ */
+export const GATEWAY_CONFIG_SPEC: FieldSpec = {
+  type: 'object',
+  fields: {
+    server: {
+      type: 'object',
+      fields: {
+        port: { type: 'number', min: 0, max: 65535, integer: true },
+        hostname: { type: 'string' },
+        development: { type: 'boolean' },
+        drainTimeout: nonNegativeInt,
+        shutdownOnSignal: { type: 'boolean' },
+        exitOnShutdown: { type: 'boolean' },
+      },
+    },
+    cluster: {
+      type: 'object',
+      fields: {
+        enabled: { type: 'boolean' },
+        workers: positiveInt,
+        restartWorkers: { type: 'boolean' },
+        maxRestarts: nonNegativeInt,
+        restartDelay: nonNegativeInt,
+        shutdownTimeout: positiveInt,
+        respawnThreshold: positiveInt,
+        respawnThresholdTime: positiveInt,
+        exitOnShutdown: { type: 'boolean' },
+        allowedEnvVars: stringArray,
+        workerScriptAllowlist: stringArray,
+        configFile: { type: 'string' },
+        reloadTimeout: positiveInt,
+      },
+    },
+    // Validated per route by validateRouteConfig
+    routes: { type: 'array', items: { type: 'any' } },
+    proxy: { type: 'object', open: true },
+    cors: {
+      type: 'object',
+      fields: {
+        origin: {
+          type: 'oneOf',
+          options: [{ type: 'string' }, stringArray, { type: 'boolean' }],
+        },
+        methods: stringArray,
+        allowedHeaders: stringArray,
+        exposedHeaders: stringArray,
+        credentials: { type: 'boolean' },
+        maxAge: nonNegativeInt,
+      },
+    },
+    rateLimit: rateLimitSpec,
+    auth: authSpec,
+    bodyParser: { type: 'object', open: true },
+    logger: {
+      type: 'object',
+      fields: {
+        level: { type: 'string', enum: ['info', 'debug', 'warn', 'error'] },
+        format: { type: 'string', enum: ['json', 'pretty'] },
+        includeHeaders: { type: 'boolean' },
+        includeBody: { type: 'boolean' },
+        output: { type: 'string', enum: ['console', 'file'] },
+        filePath: { type: 'string' },
+        enableRequestLogging: { type: 'boolean' },
+        enableMetrics: { type: 'boolean' },
+      },
+    },
+    healthCheck: {
+      type: 'object',
+      fields: {
+        path: { type: 'string', path: true },
+        enabled: { type: 'boolean' },
+      },
+    },
+    metrics: {
+      type: 'object',
+      fields: {
+        enabled: { type: 'boolean' },
+        endpoint: { type: 'string', path: true },
+        collectDefaultMetrics: { type: 'boolean' },
+        exposeOn: { type: 'string', enum: ['gateway', 'admin'] },
+      },
+    },
+    tracing: {
+      type: 'object',
+      required: ['exporter'],
+      fields: {
+        enabled: { type: 'boolean' },
+        serviceName: { type: 'string' },
+        sampleRate: { type: 'number', min: 0, max: 1 },
+        parentBased: { type: 'boolean' },
+        exporter: {
+          type: 'object',
+          required: ['url'],
+          fields: {
+            url: { type: 'string', url: true },
+            headers: stringRecord,
+            batchSize: positiveInt,
+            flushInterval: positiveInt,
+            maxQueueSize: positiveInt,
+            timeout: positiveInt,
+          },
+        },
+      },
+    },
+    accessLog: {
+      type: 'object',
+      required: ['path'],
+      fields: {
+        enabled: { type: 'boolean' },
+        path: { type: 'string' },
+        format: { type: 'string' },
+        rotation: {
+          type: 'object',
+          fields: {
+            maxSize: positiveInt,
+            interval: { type: 'string', enum: ['hourly', 'daily'] },
+            compress: { type: 'boolean' },
+            maxFiles: nonNegativeInt,
+            maxAge: positiveInt,
+          },
+        },
+        flushInterval: positiveInt,
+        maxBufferSize: positiveInt,
+      },
+    },
+    security: { type: 'object', open: true },
+    admin: {
+      type: 'object',
+      required: ['port', 'auth'],
+      fields: {
+        enabled: { type: 'boolean' },
+        port: { type: 'number', min: 0, max: 65535, integer: true },
+        hostname: { type: 'string' },
+        auth: {
+          type: 'object',
+          required: ['type', 'credentials'],
+          fields: {
+            type: { type: 'string', enum: ['basic', 'bearer', 'apikey'] },
+            credentials: stringRecord,
+            apiKeyHeader: { type: 'string' },
+          },
+        },
+        ipWhitelist: stringArray,
+      },
+    },
+    catalog: {
+      type: 'object',
+      fields: {
+        enabled: { type: 'boolean' },
+        path: { type: 'string', path: true },
+        catalogPath: { type: 'string', path: true },
+        title: { type: 'string' },
+        version: { type: 'string' },
+        description: { type: 'string' },
+        servers: {
+          type: 'array',
+          items: {
+            type: 'object',
+            required: ['url'],
+            fields: {
+              url: { type: 'string' },
+              description: { type: 'string' },
+            },
+          },
+        },
+        upstreamSpecs: {
+          type: 'oneOf',
+          options: [
+            { type: 'boolean' },
+            {
+              type: 'object',
+              fields: {
+                path: { type: 'string', path: true },
+                timeout: positiveInt,
+                ttl: nonNegativeInt,
+              },
+            },
+          ],
+        },
+      },
+    },
+  },
+}
+
+/**
+ * Formats a key path as a dotted/bracketed string, e.g. routes[2].target
+ */
+export function formatConfigPath(path: Array<string | number>): string {
+  let formatted = ''
+  for (const segment of path) {
+    if (typeof segment === 'number') {
+      formatted += `[${segment}]`
+    } else {
+      formatted += formatted ? `.${segment}` : segment
+    }
+  }
+  return formatted || '<root>'
+}
+
+function describeType(value: unknown): string {
+  if (value === null) return 'null'
+  if (Array.isArray(value)) return 'array'
+  return typeof value
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+/**
+ * Validates a value against a field specification, collecting issues
+ */
+export function validateAgainstSpec(
+  value: unknown,
+  spec: FieldSpec,
+  path: Array<string | number> = [],
+  issues: ConfigIssue[] = [],
+): ConfigIssue[] {
+  switch (spec.type) {
+    case 'any':
+      break
+
+    case 'string':
+      if (typeof value !== 'string') {
+        issues.push({
+          path,
+          message: `expected string, got ${describeType(value)}`,
+        })
+        break
+      }
+      if (spec.enum && !spec.enum.includes(value)) {
+        issues.push({
+          path,
+          message: `must be one of ${spec.enum.join(', ')} (got "${value}")`,
+        })
+      }
+      if (spec.url && !/^https?:\/\//i.test(value)) {
+        issues.push({
+          path,
+          message: `must be an http(s) URL (got "${value}")`,
+        })
+      } else if (spec.url && !isValidURL(value)) {
+        issues.push({ path, message: `is not a valid URL (got "${value}")` })
+      }
+      if (spec.path && !value.startsWith('/')) {
+        issues.push({ path, message: `must start with "/" (got "${value}")` })
+      }
+      break
+
+    case 'number':
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        issues.push({
+          path,
+          message: `expected number, got ${describeType(value)}`,
+        })
+        break
+      }
+      if (spec.integer && !Number.isInteger(value)) {
+        issues.push({ path, message: `must be an integer (got ${value})` })
+      }
+      if (spec.min !== undefined && value < spec.min) {
+        issues.push({ path, message: `must be >= ${spec.min} (got ${value})` })
+      }
+      if (spec.max !== undefined && value > spec.max) {
+        issues.push({ path, message: `must be <= ${spec.max} (got ${value})` })
+      }
+      break
+
+    case 'boolean':
+      if (typeof value !== 'boolean') {
+        issues.push({
+          path,
+          message: `expected boolean, got ${describeType(value)}`,
+        })
+      }
+      break
+
+    case 'array':
+      if (!Array.isArray(value)) {
+        issues.push({
+          path,
+          message: `expected array, got ${describeType(value)}`,
+        })
+        break
+      }
+      if (spec.minItems !== undefined && value.length < spec.minItems) {
+        issues.push({
+          path,
+          message: `must contain at least ${spec.minItems} item(s)`,
+        })
+      }
+      value.forEach((item, index) =>
+        validateAgainstSpec(item, spec.items, [...path, index], issues),
+      )
+      break
+
+    case 'object':
+      if (!isPlainObject(value)) {
+        issues.push({
+          path,
+          message: `expected object, got ${describeType(value)}`,
+        })
+        break
+      }
+      for (const key of spec.required ?? []) {
+        if (value[key] === undefined) {
+          issues.push({ path: [...path, key], message: 'is required' })
+        }
+      }
+      for (const [key, child] of Object.entries(value)) {
+        const childSpec = spec.fields?.[key] ?? spec.values
+        if (childSpec) {
+          validateAgainstSpec(child, childSpec, [...path, key], issues)
+        } else if (spec.fields && !spec.open) {
+          issues.push({
+            path: [...path, key],
+            message: 'is not a known property',
+          })
+        }
+      }
+      break
+
+    case 'oneOf': {
+      const matches = spec.options.some(
+        (option) => validateAgainstSpec(value, option, path, []).length === 0,
+      )
+      if (!matches) {
+        issues.push({
+          path,
+          message: `has an unsupported value of type ${describeType(value)}`,
+        })
+      }
+      break
+    }
+  }
+
+  return issues
+}
+
+/**
+ * Validates a single declarative route
+ */
+export function validateRouteConfig(
+  route: unknown,
+  path: Array<string | number> = [],
+): ConfigIssue[] {
+  const issues = validateAgainstSpec(route, ROUTE_CONFIG_SPEC, path)
+  if (isPlainObject(route)) {
+    if (route.split && (route.target || route.loadBalancer)) {
+      issues.push({
+        path,
+        message: '"split" cannot be combined with "target" or "loadBalancer"',
+      })
+    } else if (
+      route.aggregate &&
+      (route.split || route.target || route.loadBalancer)
+    ) {
+      issues.push({
+        path,
+        message:
+          '"aggregate" cannot be combined with "split", "target" or "loadBalancer"',
+      })
+    } else if (
+      !route.aggregate &&
+      !route.split &&
+      !route.target &&
+      !route.loadBalancer
+    ) {
+      issues.push({
+        path,
+        message: 'must define a "target" or a "loadBalancer" to proxy to',
+      })
+    }
+    if (isPlainObject(route.validation)) {
+      issues.push(...validateSchemas(route.validation, [...path, 'validation']))
+      if (route.streaming && route.validation.response) {
+        issues.push({
+          path: [...path, 'validation', 'response'],
+          message: 'cannot be combined with "streaming"',
+        })
+      }
+    }
+  }
+  return issues
+}
+
+/**
+ * Reports the schemas of a route's validation settings that do not compile,
+ * e.g. because of an unresolved `$ref`
+ */
+function validateSchemas(
+  validation: Record<string, unknown>,
+  path: Array<string | number>,
+): ConfigIssue[] {
+  const schemas: Array<[Array<string | number>, unknown]> = [
+    [['body'], validation.body],
+    [['query'], validation.query],
+    [['params'], validation.params],
+    [
+      ['response', 'body'],
+      isPlainObject(validation.response) ? validation.response.body : undefined,
+    ],
+  ]
+  const issues: ConfigIssue[] = []
+  for (const [key, schema] of schemas) {
+    if (!isPlainObject(schema)) continue
+    try {
+      compileSchema(schema as JSONSchema)
+    } catch (error) {
+      issues.push({
+        path: [...path, ...key],
+        message: (error as Error).message,
+      })
+    }
+  }
+  return issues
+}
+
+/**
+ * Validates a declarative gateway configuration object
+ *
+ * @param config - Parsed configuration object
+ * @returns List of issues; empty when the configuration is valid
+ */
+export function validateGatewayConfig(config: unknown): ConfigIssue[] {
+  const issues = validateAgainstSpec(config, GATEWAY_CONFIG_SPEC)
+  if (isPlainObject(config) && Array.isArray(config.routes)) {
+    config.routes.forEach((route, index) =>
+      issues.push(...validateRouteConfig(route, ['routes', index])),
+    )
+  }
+  return issues
+}
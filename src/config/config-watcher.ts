@@ -0,0 +1,153 @@
+/**
+ * Gateway Configuration Watcher
+ *
+ * Watches a declarative configuration file and reloads the gateway's routes in
+ * place when it changes. A change that fails to parse or validate is rejected
+ * and the gateway keeps serving the last good configuration.
+ *
+ * Only the route table can be swapped at runtime; changes to other sections
+ * (server, cluster, security, ...) are reported and take effect on restart.
+ */
+
+import { watch, type FSWatcher } from 'node:fs'
+import { basename, dirname, resolve } from 'node:path'
+import type { Gateway, GatewayConfig } from '../interfaces/gateway'
+import type { Logger } from '../interfaces/logger'
+import { loadGatewayConfigSettings } from './config-loader'
+
+/**
+ * Options for watching a configuration file
+ */
+export interface GatewayConfigWatcherOptions {
+  /**
+   * Delay before reloading, coalescing bursts of file system events
+   * @default 100
+   */
+  debounceMs?: number
+  /** Logger for reload results */
+  logger?: Logger
+  /**
+   * Called after routes were reloaded from a valid configuration, which
+   * carries no logger
+   */
+  onReload?: (config: GatewayConfig) => void
+  /** Called when a changed file was rejected */
+  onError?: (error: Error) => void
+}
+
+/**
+ * Handle returned by watchGatewayConfig
+ */
+export interface GatewayConfigWatcher {
+  /**
+   * Reloads the file immediately
+   * @returns true if the routes were replaced, false if the change was rejected
+   */
+  reload(): Promise<boolean>
+  /** Stops watching the file */
+  close(): void
+}
+
+/**
+ * Serializes every section that cannot be reloaded at runtime
+ */
+function staticSections(config: GatewayConfig): string {
+  const { routes, logger, ...rest } = config
+  return JSON.stringify(rest)
+}
+
+/**
+ * Watches a configuration file and replaces the gateway's routes on change
+ *
+ * The parent directory is watched rather than the file itself so that editors
+ * which save by writing a new file and renaming it are picked up.
+ *
+ * @param path - Path to the configuration file the gateway was started from
+ * @param gateway - Gateway whose route table is replaced on change
+ * @param options - Debounce, logging and callbacks
+ * @returns Watcher handle
+ *
+ * @example
+ * ```ts
+ * const config = await loadGatewayConfig('./gateway.yaml')
+ * const gateway = new BunGateway(config)
+ * const watcher = watchGatewayConfig('./gateway.yaml', gateway, {
+ *   logger: config.logger,
+ * })
+ * ```
+ */
+export function watchGatewayConfig(
+  path: string,
+  gateway: Pick<Gateway, 'replaceRoutes'>,
+  options: GatewayConfigWatcherOptions = {},
+): GatewayConfigWatcher {
+  const { debounceMs = 100, logger, onReload, onError } = options
+  const filePath = resolve(path)
+  const fileName = basename(filePath)
+
+  let timer: ReturnType<typeof setTimeout> | undefined
+  let pending: Promise<boolean> = Promise.resolve(true)
+  let closed = false
+
+  // Remember the sections that require a restart as the gateway started with
+  // them, so changes to them are reported until it is restarted
+  const started = loadGatewayConfigSettings(filePath).then(
+    ({ config }) => staticSections(config),
+    () => undefined,
+  )
+
+  const applyChange = async (): Promise<boolean> => {
+    let config: GatewayConfig
+    try {
+      // No logger is created: only the routes are applied
+      config = (await loadGatewayConfigSettings(filePath)).config
+      gateway.replaceRoutes(config.routes ?? [])
+    } catch (error) {
+      const err = error as Error
+      logger?.error('Rejected gateway configuration change', err, {
+        file: filePath,
+      })
+      onError?.(err)
+      return false
+    }
+
+    const sections = await started
+    if (sections !== undefined && staticSections(config) !== sections) {
+      logger?.warn(
+        'Gateway configuration changed outside of routes; restart to apply',
+        { file: filePath },
+      )
+    }
+
+    logger?.info('Gateway configuration reloaded', {
+      file: filePath,
+      routes: config.routes?.length ?? 0,
+    })
+    onReload?.(config)
+    return true
+  }
+
+  // Reloads are serialized so an older file never overwrites a newer one
+  const reload = (): Promise<boolean> => {
+    pending = pending.then(applyChange, applyChange)
+    return pending
+  }
+
+  const watcher: FSWatcher = watch(dirname(filePath), (_event, changed) => {
+    if (closed || (changed && changed.toString() !== fileName)) return
+    if (timer) clearTimeout(timer)
+    timer = setTimeout(() => {
+      timer = undefined
+      reload()
+    }, debounceMs)
+  })
+
+  return {
+    reload,
+    close() {
+      closed = true
+      if (timer) clearTimeout(timer)
+      watcher.close()
+    },
+  }
+}
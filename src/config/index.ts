@@ -0,0 +1,40 @@
+/**
+ * Bungate Configuration Module
+ *
+ * Declarative gateway configuration: JSON/YAML/TOML file loading, validation
+ * with file/line context, and hot reload of routes.
+ */
+
+export type { ConfigIssue, FieldSpec } from './config-validator'
+export {
+  ROUTE_CONFIG_SPEC,
+  FAULT_CONFIG_SPEC,
+  GATEWAY_CONFIG_SPEC,
+  formatConfigPath,
+  validateAgainstSpec,
+  validateRouteConfig,
+  validateGatewayConfig,
+} from './config-validator'
+
+export type {
+  GatewayConfigSettings,
+  ParseGatewayConfigOptions,
+} from './config-loader'
+export {
+  GatewayConfigError,
+  formatConfigIssue,
+  detectConfigFormat,
+  parseGatewayConfig,
+  parseGatewayConfigSettings,
+  loadGatewayConfig,
+  loadGatewayConfigSettings,
+} from './config-loader'
+
+export type {
+  GatewayConfigWatcher,
+  GatewayConfigWatcherOptions,
+} from './config-watcher'
+export { watchGatewayConfig } from './config-watcher'
+
+export type { ConfigFormat, SourcePosition } from './source-locator'
+export { locateConfigPath, locateSyntaxError } from './source-locator'
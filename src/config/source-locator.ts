@@ -0,0 +1,385 @@
+/**
+ * Configuration Source Locator
+ *
+ * Maps syntax errors and configuration key paths back to line/column positions
+ * in JSON, YAML and TOML sources. Bun's built-in parsers report what went wrong
+ * but not where, so positions are recovered here:
+ *
+ * - JSON syntax errors are found with a strict recursive-descent scan
+ * - YAML/TOML syntax errors are placed on the line after the longest parsable prefix
+ * - Key paths are resolved from a lightweight outline of the document
+ *   (block-style YAML, TOML tables/arrays of tables, any JSON)
+ */
+
+/**
+ * Supported configuration file formats
+ */
+export type ConfigFormat = 'json' | 'yaml' | 'toml'
+
+/**
+ * 1-based position in a source file
+ */
+export interface SourcePosition {
+  line: number
+  column: number
+}
+
+/**
+ * Converts a character offset into a 1-based line/column position
+ */
+export function offsetToPosition(
+  source: string,
+  offset: number,
+): SourcePosition {
+  let line = 1
+  let lineStart = 0
+  const end = Math.min(offset, source.length)
+  for (let i = 0; i < end; i++) {
+    if (source.charCodeAt(i) === 10) {
+      line++
+      lineStart = i + 1
+    }
+  }
+  return { line, column: end - lineStart + 1 }
+}
+
+/**
+ * Serializes a key path into a lookup key
+ */
+function pathKey(path: Array<string | number>): string {
+  return JSON.stringify(path)
+}
+
+class JSONScanError {
+  constructor(readonly offset: number) {}
+}
+
+/**
+ * Walks a JSON document, recording the offset of every key and array element.
+ * Throws JSONScanError at the first offset that is not valid JSON.
+ */
+function scanJSON(source: string, positions?: Map<string, number>): void {
+  let i = 0
+
+  const fail = (): never => {
+    throw new JSONScanError(i)
+  }
+  const skipWhitespace = () => {
+    while (i < source.length && ' \t\n\r'.includes(source[i]!)) i++
+  }
+  const expect = (char: string) => {
+    if (source[i] !== char) fail()
+    i++
+  }
+  const scanString = (): string => {
+    const start = i
+    expect('"')
+    while (i < source.length) {
+      const char = source[i]!
+      if (char === '"') {
+        i++
+        return JSON.parse(source.slice(start, i))
+      }
+      if (char === '\\') {
+        i++
+        if (source[i] === 'u') {
+          if (!/^[0-9a-fA-F]{4}$/.test(source.slice(i + 1, i + 5))) fail()
+          i += 5
+          continue
+        }
+        if (!'"\\/bfnrt'.includes(source[i] ?? '')) fail()
+      } else if (char.charCodeAt(0) < 0x20) {
+        fail()
+      }
+      i++
+    }
+    return fail()
+  }
+  const scanLiteral = () => {
+    const match =
+      /^(?:true|false|null|-?(?:0|[1-9]\d*)(?:\.\d+)?(?:[eE][+-]?\d+)?)/.exec(
+        source.slice(i, i + 64),
+      )
+    if (!match) fail()
+    i += match![0].length
+  }
+  const scanValue = (path: Array<string | number>) => {
+    skipWhitespace()
+    const char = source[i]
+    if (char === '{') {
+      i++
+      skipWhitespace()
+      if (source[i] === '}') {
+        i++
+        return
+      }
+      while (true) {
+        skipWhitespace()
+        const keyOffset = i
+        const key = scanString()
+        positions?.set(pathKey([...path, key]), keyOffset)
+        skipWhitespace()
+        expect(':')
+        scanValue([...path, key])
+        skipWhitespace()
+        if (source[i] === ',') {
+          i++
+          continue
+        }
+        expect('}')
+        return
+      }
+    }
+    if (char === '[') {
+      i++
+      skipWhitespace()
+      if (source[i] === ']') {
+        i++
+        return
+      }
+      for (let index = 0; ; index++) {
+        skipWhitespace()
+        positions?.set(pathKey([...path, index]), i)
+        scanValue([...path, index])
+        skipWhitespace()
+        if (source[i] === ',') {
+          i++
+          continue
+        }
+        expect(']')
+        return
+      }
+    }
+    if (char === '"') {
+      scanString()
+      return
+    }
+    scanLiteral()
+  }
+
+  scanValue([])
+  skipWhitespace()
+  if (i < source.length) fail()
+}
+
+/**
+ * Records the line of every key and sequence item in a block-style YAML document.
+ * Flow collections and multi-line scalars are treated as opaque values.
+ */
+function outlineYAML(source: string): Map<string, number> {
+  const positions = new Map<string, number>()
+  const itemCounts = new Map<string, number>()
+  const stack: Array<{
+    indent: number
+    path: Array<string | number>
+    isItem: boolean
+  }> = []
+
+  const keyPattern = /^(?:"([^"]*)"|'([^']*)'|([^\s"'#:][^:#]*?))\s*:(?:\s|$)/
+
+  source.split('\n').forEach((rawLine, lineIndex) => {
+    const line = rawLine.replace(/\r$/, '')
+    const trimmed = line.trimStart()
+    if (
+      !trimmed ||
+      trimmed.startsWith('#') ||
+      /^(---|\.\.\.)\s*$/.test(trimmed)
+    ) {
+      return
+    }
+
+    let column = line.length - trimmed.length
+    let content = trimmed
+
+    while (content === '-' || content.startsWith('- ')) {
+      while (
+        stack.length > 0 &&
+        (stack[stack.length - 1]!.indent > column ||
+          (stack[stack.length - 1]!.indent === column &&
+            stack[stack.length - 1]!.isItem))
+      ) {
+        stack.pop()
+      }
+      const parentPath = stack[stack.length - 1]?.path ?? []
+      const counterKey = pathKey(parentPath)
+      const index = itemCounts.get(counterKey) ?? 0
+      itemCounts.set(counterKey, index + 1)
+      const itemPath = [...parentPath, index]
+      positions.set(pathKey(itemPath), lineIndex + 1)
+      stack.push({ indent: column, path: itemPath, isItem: true })
+
+      const rest = content.slice(1)
+      const restTrimmed = rest.trimStart()
+      column += 1 + (rest.length - restTrimmed.length)
+      content = restTrimmed
+      if (!content) return
+    }
+
+    const match = keyPattern.exec(content)
+    if (!match) return
+    const key = match[1] ?? match[2] ?? match[3]!.trim()
+
+    while (stack.length > 0 && stack[stack.length - 1]!.indent >= column) {
+      stack.pop()
+    }
+    const keyPath = [...(stack[stack.length - 1]?.path ?? []), key]
+    positions.set(pathKey(keyPath), lineIndex + 1)
+    stack.push({ indent: column, path: keyPath, isItem: false })
+  })
+
+  return positions
+}
+
+/**
+ * Splits a TOML dotted key into its segments, honouring quoted segments
+ */
+function splitTOMLKey(key: string): string[] {
+  const segments: string[] = []
+  const pattern =
+    /\s*(?:"((?:[^"\\]|\\.)*)"|'([^']*)'|([A-Za-z0-9_-]+))\s*(?:\.|$)/y
+  let match: RegExpExecArray | null
+  while (pattern.lastIndex < key.length && (match = pattern.exec(key))) {
+    segments.push(match[1] ?? match[2] ?? match[3]!)
+  }
+  return segments
+}
+
+/**
+ * Records the line of every table header and key in a TOML document
+ */
+function outlineTOML(source: string): Map<string, number> {
+  const positions = new Map<string, number>()
+  const arrayCounts = new Map<string, number>()
+  let table: Array<string | number> = []
+
+  // Resolves header segments, stepping into the latest element of any
+  // array of tables along the way
+  const resolve = (segments: string[]): Array<string | number> => {
+    const resolved: Array<string | number> = []
+    for (const segment of segments) {
+      resolved.push(segment)
+      const count = arrayCounts.get(pathKey(resolved))
+      if (count !== undefined) resolved.push(count - 1)
+    }
+    return resolved
+  }
+
+  source.split('\n').forEach((rawLine, lineIndex) => {
+    const line = rawLine.trim()
+    if (!line || line.startsWith('#')) return
+
+    const arrayHeader = /^\[\[\s*([^\]]+?)\s*\]\]/.exec(line)
+    if (arrayHeader) {
+      const segments = splitTOMLKey(arrayHeader[1]!)
+      const parent = resolve(segments.slice(0, -1))
+      const arrayPath = [...parent, segments[segments.length - 1]!]
+      const count = arrayCounts.get(pathKey(arrayPath)) ?? 0
+      arrayCounts.set(pathKey(arrayPath), count + 1)
+      table = [...arrayPath, count]
+      if (!positions.has(pathKey(arrayPath))) {
+        positions.set(pathKey(arrayPath), lineIndex + 1)
+      }
+      positions.set(pathKey(table), lineIndex + 1)
+      return
+    }
+
+    const tableHeader = /^\[\s*([^\]]+?)\s*\]/.exec(line)
+    if (tableHeader) {
+      table = resolve(splitTOMLKey(tableHeader[1]!))
+      positions.set(pathKey(table), lineIndex + 1)
+      return
+    }
+
+    const assignment =
+      /^((?:"(?:[^"\\]|\\.)*"|'[^']*'|[A-Za-z0-9_.\s-])+?)\s*=/.exec(line)
+    if (assignment) {
+      const keyPath = [...table, ...splitTOMLKey(assignment[1]!)]
+      positions.set(pathKey(keyPath), lineIndex + 1)
+    }
+  })
+
+  return positions
+}
+
+/**
+ * Locates the first syntax error in a configuration source
+ *
+ * @param source - Raw file contents
+ * @param format - Source format
+ * @param parse - Parser used for YAML/TOML prefix probing
+ * @returns Position of the error, or undefined if the source parses
+ */
+export function locateSyntaxError(
+  source: string,
+  format: ConfigFormat,
+  parse: (text: string) => unknown,
+): SourcePosition | undefined {
+  if (format === 'json') {
+    try {
+      scanJSON(source)
+      return undefined
+    } catch (error) {
+      if (error instanceof JSONScanError) {
+        return offsetToPosition(source, error.offset)
+      }
+      throw error
+    }
+  }
+
+  // The error sits on the line following the longest prefix that still parses
+  const lines = source.split('\n')
+  for (let count = lines.length - 1; count >= 0; count--) {
+    try {
+      parse(lines.slice(0, count).join('\n'))
+      return { line: count + 1, column: 1 }
+    } catch {
+      // keep shrinking the prefix
+    }
+  }
+  return { line: 1, column: 1 }
+}
+
+/**
+ * Locates a configuration key path in the source
+ *
+ * Falls back to the closest located ancestor when the exact path cannot be
+ * found (for example values inside YAML flow collections or TOML inline tables).
+ *
+ * @param source - Raw file contents
+ * @param format - Source format
+ * @param path - Key path, e.g. ['routes', 2, 'target']
+ * @returns Position of the key, or undefined if no ancestor could be located
+ */
+export function locateConfigPath(
+  source: string,
+  format: ConfigFormat,
+  path: Array<string | number>,
+): SourcePosition | undefined {
+  let lines: Map<string, number> | undefined
+  let offsets: Map<string, number> | undefined
+
+  if (format === 'json') {
+    offsets = new Map()
+    try {
+      scanJSON(source, offsets)
+    } catch {
+      // positions collected before the error are still useful
+    }
+  } else {
+    lines = format === 'yaml' ? outlineYAML(source) : outlineTOML(source)
+  }
+
+  for (let length = path.length; length > 0; length--) {
+    const key = pathKey(path.slice(0, length))
+    const offset = offsets?.get(key)
+    if (offset !== undefined) {
+      return offsetToPosition(source, offset)
+    }
+    const line = lines?.get(key)
+    if (line !== undefined) {
+      const text = source.split('\n')[line - 1] ?? ''
+      return { line, column: text.length - text.trimStart().length + 1 }
+    }
+  }
+  return undefined
+}
@@ -0,0 +1,300 @@
+/**
+ * Fault Injector
+ *
+ * Injects faults into a route's traffic to rehearse outages: added latency,
+ * aborts with a chosen status code, and connection resets. Each fault applies
+ * to a percentage of requests, and `when` restricts injection to test traffic
+ * by header value or client IP.
+ *
+ * Injected faults are logged, counted in the `bungate_faults_injected_total`
+ * metric and marked with an `X-Fault-Injected` response header, so they are
+ * not mistaken for real failures. Faults can be switched on and off, or
+ * reconfigured, at runtime through the admin API.
+ */
+
+import type {
+  RequestHandler,
+  StepFunction,
+  ZeroRequest,
+} from '../interfaces/middleware'
+import type { Logger } from '../interfaces/logger'
+import { RouteMatcher, type MatchCondition } from '../routing/route-matcher'
+import { isIPInCIDR } from '../security/utils'
+
+/** Kind of an injected fault */
+export type FaultType = 'delay' | 'abort' | 'reset'
+
+/**
+ * Latency added before the request is handled
+ */
+export interface FaultDelayConfig {
+  /** Added latency in milliseconds */
+  duration: number
+  /**
+   * Random extra latency of up to this many milliseconds; without it the
+   * latency is fixed
+   * @default 0
+   */
+  jitter?: number
+  /**
+   * Percentage of requests delayed, from 0 to 100
+   * @default 100
+   */
+  percentage?: number
+}
+
+/**
+ * Requests answered with an error status instead of being handled
+ */
+export interface FaultAbortConfig {
+  /** Status code of the answer, e.g. 503 */
+  status: number
+  /**
+   * Body of the answer
+   * @default "Fault injected"
+   */
+  message?: string
+  /**
+   * Percentage of requests aborted, from 0 to 100
+   * @default 100
+   */
+  percentage?: number
+}
+
+/**
+ * Requests whose connection is reset instead of answered
+ */
+export interface FaultResetConfig {
+  /**
+   * Percentage of connections reset, from 0 to 100
+   * @default 100
+   */
+  percentage?: number
+}
+
+/**
+ * Restricts fault injection to matching requests; all conditions must hold
+ */
+export interface FaultConditions {
+  /**
+   * Conditions on request headers, as in route `match` conditions
+   * @example { 'x-chaos': 'on' }
+   */
+  headers?: Record<string, MatchCondition>
+  /** Client IPs or CIDR ranges */
+  clientIPs?: string[]
+}
+
+/**
+ * Fault injection settings of a route
+ */
+export interface FaultConfig {
+  /**
+   * Inject faults; can be changed at runtime through the admin API
+   * @default true
+   */
+  enabled?: boolean
+  delay?: FaultDelayConfig
+  abort?: FaultAbortConfig
+  reset?: FaultResetConfig
+  /** Only inject faults into matching requests */
+  when?: FaultConditions
+}
+
+/**
+ * Options for FaultInjector
+ */
+export interface FaultInjectorOptions {
+  /** Pattern of the route, used in logs and metrics */
+  route: string
+  /** Resolves the client IP used by `when.clientIPs` */
+  getClientIP: (req: ZeroRequest) => string
+  /** Called for every injected fault, e.g. to count it */
+  onFault?: (type: FaultType) => void
+  logger?: Logger
+  /** Random number source in [0, 1), replaceable for tests */
+  random?: () => number
+}
+
+/**
+ * Injects the configured faults into a route's requests
+ *
+ * @example
+ * ```ts
+ * const injector = new FaultInjector(
+ *   { abort: { status: 503, percentage: 10 }, when: { headers: { 'x-chaos': 'on' } } },
+ *   { route: '/orders/*', getClientIP: (req) => gateway.getClientIP(req) },
+ * )
+ * injector.setEnabled(false)
+ * ```
+ */
+export class FaultInjector {
+  private config!: FaultConfig
+  private matcher?: RouteMatcher
+  private readonly options: FaultInjectorOptions
+  private readonly random: () => number
+
+  constructor(config: FaultConfig, options: FaultInjectorOptions) {
+    this.options = options
+    this.random = options.random ?? Math.random
+    this.setConfig(config)
+  }
+
+  /**
+   * Current settings
+   */
+  getConfig(): FaultConfig {
+    return { ...this.config, enabled: this.isEnabled() }
+  }
+
+  isEnabled(): boolean {
+    return this.config.enabled !== false
+  }
+
+  setEnabled(enabled: boolean): void {
+    this.config = { ...this.config, enabled }
+  }
+
+  /**
+   * Replaces the settings
+   *
+   * @throws Error if a duration, status code or percentage is out of range
+   */
+  setConfig(config: FaultConfig): void {
+    validateFaultConfig(config)
+    this.config = { ...config }
+    this.matcher = config.when?.headers
+      ? new RouteMatcher({ headers: config.when.headers })
+      : undefined
+  }
+
+  /**
+   * Middleware injecting faults ahead of the rest of the chain
+   */
+  middleware(): RequestHandler {
+    return (req: ZeroRequest, next: StepFunction) => this.handle(req, next)
+  }
+
+  private async handle(
+    req: ZeroRequest,
+    next: StepFunction,
+  ): Promise<Response> {
+    const config = this.config
+    if (config.enabled === false || !this.applies(req, config.when)) {
+      return next()
+    }
+
+    const injected: FaultType[] = []
+    if (config.delay && this.roll(config.delay.percentage)) {
+      const delay =
+        config.delay.duration + this.random() * (config.delay.jitter ?? 0)
+      this.record(req, 'delay', { delay: Math.round(delay) })
+      injected.push('delay')
+      await Bun.sleep(delay)
+    }
+
+    if (config.reset && this.roll(config.reset.percentage)) {
+      this.record(req, 'reset')
+      // A body that fails before its first byte makes the server drop the
+      // connection without answering
+      return new Response(
+        new ReadableStream({
+          pull(controller) {
+            controller.error(undefined)
+          },
+        }),
+      )
+    }
+
+    if (config.abort && this.roll(config.abort.percentage)) {
+      this.record(req, 'abort', { status: config.abort.status })
+      injected.push('abort')
+      return new Response(config.abort.message ?? 'Fault injected', {
+        status: config.abort.status,
+        headers: {
+          'content-type': 'text/plain',
+          'x-fault-injected': injected.join(', '),
+        },
+      })
+    }
+
+    const response = await next()
+    if (injected.length === 0) {
+      return response
+    }
+    const marked = new Response(response.body, response)
+    marked.headers.set('x-fault-injected', injected.join(', '))
+    return marked
+  }
+
+  private applies(req: ZeroRequest, when?: FaultConditions): boolean {
+    if (this.matcher && !this.matcher.matches(req)) {
+      return false
+    }
+    if (when?.clientIPs && when.clientIPs.length > 0) {
+      const clientIP = this.options.getClientIP(req)
+      return when.clientIPs.some((range) => isIPInCIDR(clientIP, range))
+    }
+    return true
+  }
+
+  private roll(percentage = 100): boolean {
+    return this.random() * 100 < percentage
+  }
+
+  private record(
+    req: ZeroRequest,
+    type: FaultType,
+    details: Record<string, unknown> = {},
+  ): void {
+    this.options.logger?.warn('Injected fault', {
+      fault: type,
+      route: this.options.route,
+      method: req.method,
+      url: req.url,
+      ...details,
+    })
+    this.options.onFault?.(type)
+  }
+}
+
+/**
+ * Checks the ranges of fault settings
+ *
+ * @throws Error describing the first invalid setting
+ */
+function validateFaultConfig(config: FaultConfig): void {
+  const checkPercentage = (fault: string, percentage?: number) => {
+    if (
+      percentage !== undefined &&
+      !(typeof percentage === 'number' && percentage >= 0 && percentage <= 100)
+    ) {
+      throw new Error(`Fault ${fault}.percentage must be between 0 and 100`)
+    }
+  }
+
+  if (config.delay) {
+    const { duration, jitter = 0 } = config.delay
+    if (
+      typeof duration !== 'number' ||
+      duration < 0 ||
+      typeof jitter !== 'number' ||
+      jitter < 0
+    ) {
+      throw new Error('Fault delay.duration and delay.jitter must be >= 0')
+    }
+    checkPercentage('delay', config.delay.percentage)
+  }
+  if (config.abort) {
+    const { status } = config.abort
+    if (!Number.isInteger(status) || status < 200 || status > 599) {
+      throw new Error(
+        'Fault abort.status must be an HTTP status from 200 to 599',
+      )
+    }
+    checkPercentage('abort', config.abort.percentage)
+  }
+  if (config.reset) {
+    checkPercentage('reset', config.reset.percentage)
+  }
+}
@@ -0,0 +1,16 @@
+/**
+ * Bungate Faults Module
+ *
+ * Latency, abort and connection reset injection for chaos testing routes
+ */
+
+export {
+  FaultInjector,
+  type FaultAbortConfig,
+  type FaultConditions,
+  type FaultConfig,
+  type FaultDelayConfig,
+  type FaultInjectorOptions,
+  type FaultResetConfig,
+  type FaultType,
+} from './fault-injector'
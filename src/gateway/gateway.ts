@@ -36,10 +36,17 @@
 
 import http from '0http-bun'
 import type { Server } from 'bun'
-import type { Gateway, GatewayConfig } from '../interfaces/gateway'
+import type {
+  Gateway,
+  GatewayCloseOptions,
+  GatewayConfig,
+} from '../interfaces/gateway'
 import type { RouteConfig } from '../interfaces/route'
+import type { LoggerConfig } from '../interfaces/logger'
+import type { LoadBalancerTarget } from '../interfaces/load-balancer'
 import type {
   RequestHandler,
+  StepFunction,
   ZeroRequest,
   IRouter,
   IRouterConfig,
@@ -51,17 +58,19 @@ import {
   createJWTAuth,
   createCORS,
   createBodyParser,
-  createPrometheusMiddleware,
   type JWTAuthOptions,
   type CORSOptions,
-  type PrometheusMiddlewareOptions,
   createRateLimit,
 } from '0http-bun/lib/middleware'
 
 // Import our custom implementations
 import { createGatewayProxy } from '../proxy/gateway-proxy'
 import { HttpLoadBalancer } from '../load-balancer/http-load-balancer'
-import type { ProxyInstance } from '../interfaces/proxy'
+import type {
+  AfterCircuitBreakerHook,
+  CircuitBreakerResult,
+  ProxyInstance,
+} from '../interfaces/proxy'
 import { ClusterManager } from '../cluster/cluster-manager'
 import { TLSManager, createTLSManager } from '../security/tls-manager'
 import { mergeSecurityConfig, validateSecurityConfig } from '../security/config'
@@ -71,7 +80,154 @@ import {
   createTrustedProxyValidator,
 } from '../security/trusted-proxy'
 import { createErrorHandlerMiddleware } from '../security/error-handler-middleware'
-import { sanitizeHeader } from '../security/utils'
+import { generateRequestId, sanitizeHeader } from '../security/utils'
+import {
+  REQUEST_ID_HEADER,
+  currentRequestId,
+  isValidRequestId,
+  runWithRequestId,
+} from '../security/request-id'
+import { AdminServer, type AdminRouteHandle } from '../admin/admin-server'
+import { HealthEndpoints } from '../health/health-endpoints'
+import { GatewayMetrics } from '../metrics/gateway-metrics'
+import { ResponseCache } from '../cache/response-cache'
+import {
+  RetryPolicy,
+  type RetryAttempt,
+  type RetryAttemptResult,
+} from '../retry/retry-policy'
+import { HedgePolicy } from '../hedge/hedge-policy'
+import { TrafficSplitter, type SplitBackend } from '../split/traffic-splitter'
+import { TrafficMirror } from '../mirror/traffic-mirror'
+import {
+  WebSocketProxy,
+  isWebSocketUpgrade,
+  toWebSocketUrl,
+} from '../websocket/websocket-proxy'
+import { StreamRelay } from '../streaming/stream-relay'
+import { RouteMatcher } from '../routing/route-matcher'
+import { RequestAggregator } from '../aggregate/request-aggregator'
+import { ApiCatalog } from '../openapi/api-catalog'
+import { createSchemaValidationMiddleware } from '../validation/schema-validation'
+import { FaultInjector } from '../faults/fault-injector'
+import { RouteGroup, type RouteGroupConfig } from '../routing/route-group'
+import { PluginManager, type BunGatewayPlugin } from '../plugins/plugin-manager'
+import {
+  createHealthPlugin,
+  createMetricsPlugin,
+  createSecurityHeadersPlugin,
+} from '../plugins/builtin-plugins'
+import { Tracer, currentSpan } from '../tracing/tracer'
+import { AccessLog, recordUpstream } from '../logger/access-log'
+import { listenForConfigReloads } from '../cluster/config-reload'
+
+/** Milliseconds close() waits for in-flight requests by default */
+const DEFAULT_DRAIN_TIMEOUT = 10000
+
+/**
+ * A RouteConfig compiled into router handlers, together with the proxies and
+ * load balancers it owns. Compiled routes are the unit of runtime add/remove.
+ */
+interface CompiledRoute {
+  /** Identifier, stable for the lifetime of the compiled route */
+  id: number
+  /** Route configuration this entry was compiled from */
+  route: RouteConfig
+  /** Handler chains to mount on the router, one per HTTP method */
+  entries: Array<{
+    method: string
+    handlers: RequestHandler[]
+    /** One upstream, or one per backend of a traffic split */
+    upstreams: Array<{
+      backend?: string
+      proxy: ProxyInstance
+      loadBalancer?: HttpLoadBalancer
+    }>
+  }>
+  /** Traffic splitter, shared by the route's methods */
+  splitter?: TrafficSplitter
+  /** Fault injector, shared by the route's methods */
+  faults?: FaultInjector
+  /** Host, header, query and cookie conditions of the route */
+  matcher?: RouteMatcher
+  /** Proxy instances created for this route */
+  proxies: ProxyInstance[]
+  /** Load balancers created for this route */
+  loadBalancers: HttpLoadBalancer[]
+  /**
+   * Requests currently executing this route's handler chain, plus streamed
+   * responses still being relayed
+   */
+  inFlight: number
+  /** Set once the route has been removed from the active route table */
+  retired: boolean
+}
+
+/**
+ * Router registrations in the order they were made. The log is replayed onto a
+ * fresh router whenever the route table changes so ordering is preserved.
+ */
+type RouterRegistration =
+  | { type: 'use'; args: any[] }
+  | { type: 'on'; method: string; pattern: string; handlers: RequestHandler[] }
+  | { type: 'route'; compiled: CompiledRoute }
+
+/**
+ * Runs a route's handler chain only for requests meeting its match conditions;
+ * other requests pass on to the next route matching their path
+ */
+function guardHandlers(
+  matcher: RouteMatcher,
+  handlers: RequestHandler[],
+): RequestHandler {
+  return (req: ZeroRequest, next: StepFunction) => {
+    if (!matcher.matches(req as Request)) {
+      return next()
+    }
+    // Steps through the chain like the router does
+    const run = (index: number): Response | Promise<Response> =>
+      index < handlers.length
+        ? handlers[index]!(req, (error?: unknown) =>
+            error ? next(error) : run(index + 1),
+          )
+        : next()
+    return run(0)
+  }
+}
+
+/**
+ * Returns a copy of a response carrying the request ID header. WebSocket
+ * upgrade placeholders are returned as they are.
+ */
+function echoRequestId(response: Response, requestId: string): Response {
+  if (
+    response.status === 101 ||
+    response.headers.get(REQUEST_ID_HEADER) === requestId
+  ) {
+    return response
+  }
+  const headers = new Headers(response.headers)
+  headers.set(REQUEST_ID_HEADER, requestId)
+  return new Response(response.body, {
+    status: response.status,
+    statusText: response.statusText,
+    headers,
+  })
+}
+
+/**
+ * Returns a copy of a response with a Set-Cookie header appended; upstream
+ * response headers are immutable
+ */
+function appendSetCookie(response: Response, cookie: string): Response {
+  const headers = new Headers(response.headers)
+  headers.append('Set-Cookie', cookie)
+  return new Response(response.body, {
+    status: response.status,
+    statusText: response.statusText,
+    headers,
+  })
+}
 
 /**
  * Production-grade API Gateway implementation
@@ -84,12 +240,17 @@ export class BunGateway implements Gateway {
   private config: GatewayConfig
   /** 0http-bun router instance for high-performance request routing */
   private router: IRouter
+  /** Router configuration reused whenever the router is rebuilt */
+  private routerConfig: IRouterConfig
+  /** Global error handler, also answering errors of plugin hooks */
+  private errorHandler: (
+    err: Error,
+    req?: ZeroRequest,
+  ) => Response | Promise<Response>
+  /** Ordered log of middleware, handler and route registrations */
+  private registrations: RouterRegistration[] = []
   /** Bun server instance when using built-in server */
   private server: Server | null = null
-  /** Map of route patterns to their proxy instances */
-  private proxies: Map<string, ProxyInstance> = new Map()
-  /** Map of route patterns to their load balancer instances */
-  private loadBalancers: Map<string, HttpLoadBalancer> = new Map()
   /** Cluster manager for multi-process deployments */
   private clusterManager: ClusterManager | null = null
   /** Flag indicating if this process is the cluster master */
@@ -100,6 +261,44 @@ export class BunGateway implements Gateway {
   private httpRedirectManager: HTTPRedirectManager | null = null
   /** Trusted proxy validator for secure client IP extraction */
   private trustedProxyValidator: TrustedProxyValidator | null = null
+  /** Admin API listener, when configured */
+  private adminServer: AdminServer | null = null
+  /** Built-in liveness/readiness endpoints, when configured */
+  private healthEndpoints: HealthEndpoints | null = null
+  /** Prometheus metrics, when enabled */
+  private metrics: GatewayMetrics | null = null
+  /** Tracer of requests and upstream attempts, when tracing is enabled */
+  private tracer: Tracer | null = null
+  /** Access log writer, when configured */
+  private accessLog: AccessLog | null = null
+  /** OpenAPI document and catalog page, when configured */
+  private apiCatalog: ApiCatalog | null = null
+  /** Built-in and registered plugins */
+  private plugins: PluginManager
+  /** Completes once asynchronous plugin initialization has finished */
+  private pluginsReady: Promise<void> | undefined
+  /** Relays WebSocket connections of routes with `websocket` set */
+  private webSocketProxy: WebSocketProxy
+  /** Relays the responses of routes with `streaming` set */
+  private streamRelay = new StreamRelay()
+  /** Requests whose response is relayed as a stream */
+  private relayedRequests = new WeakSet<Request>()
+  /** Client IP of the requests made by aggregate routes */
+  private aggregateClients = new WeakMap<Request, string>()
+  /** Set once shutdown has begun; readiness reports not ready while draining */
+  private draining = false
+  /** Shutdown in progress or completed, shared by repeated close() calls */
+  private closing: Promise<void> | null = null
+  /** Responses being produced, awaited by close() */
+  private pendingRequests = new Set<Promise<Response>>()
+  /** SIGTERM listener installed by listen() outside cluster mode */
+  private signalHandler: (() => void) | null = null
+  /** Gateway-level rate limiter, when `rateLimit` is configured */
+  private globalRateLimit: RequestHandler | null = null
+  /** Stops applying configurations pushed by the cluster master */
+  private stopConfigReloads: (() => void) | null = null
+  /** Next identifier assigned to a compiled route */
+  private nextRouteId = 1
 
   /**
    * Initialize the API Gateway with comprehensive configuration
@@ -112,6 +311,9 @@ export class BunGateway implements Gateway {
   constructor(config: GatewayConfig = {}) {
     this.config = config
     this.isClusterMaster = !process.env.CLUSTER_WORKER
+    this.plugins = new PluginManager(
+      this.config.logger?.child({ component: 'PluginManager' }),
+    )
 
     // Merge and validate security configuration
     if (this.config.security) {
@@ -152,9 +354,116 @@ export class BunGateway implements Gateway {
       )
     }
 
+    // Apply configurations reloaded by the cluster master
+    if (process.env.CLUSTER_WORKER && process.send) {
+      this.stopConfigReloads = listenForConfigReloads(
+        ({ config, logger }) => this.applyConfig(config, logger?.level),
+        this.config.logger,
+      )
+    }
+
+    // Serve liveness/readiness endpoints if configured. Their plugin answers
+    // them ahead of the middleware chain so probes are not rate limited or
+    // subjected to JWT auth; access is governed by security.healthCheckAuth.
+    if (this.config.healthCheck && this.config.healthCheck.enabled !== false) {
+      this.healthEndpoints = new HealthEndpoints({
+        path: this.config.healthCheck.path,
+        auth: this.config.security?.healthCheckAuth,
+        getRoutes: () => this.getRouteHandles(),
+        isDraining: () => this.draining,
+        getClientIP: (req) => this.getClientIP(req as ZeroRequest),
+        logger: this.config.logger,
+      })
+    }
+
+    // Collect Prometheus metrics if enabled. The scrape endpoint is answered
+    // by its plugin ahead of the middleware chain, or by the admin API with
+    // exposeOn "admin".
+    if (this.config.metrics?.enabled === true) {
+      if (this.config.metrics.exposeOn === 'admin') {
+        if (!this.config.admin || this.config.admin.enabled === false) {
+          throw new Error(
+            'Serving metrics on the admin port requires the admin API to be enabled',
+          )
+        }
+        if (this.config.cluster?.enabled) {
+          // The admin API runs in the master, which serves no traffic
+          throw new Error(
+            'Serving metrics on the admin port is not supported in cluster mode',
+          )
+        }
+      }
+      this.metrics = new GatewayMetrics({
+        endpoint: this.config.metrics.endpoint,
+        collectDefaultMetrics: this.config.metrics.collectDefaultMetrics,
+        getRoutes: () => this.getRouteHandles(),
+      })
+    }
+
+    // Trace requests through the gateway to the upstreams if configured
+    if (this.config.tracing && this.config.tracing.enabled !== false) {
+      this.tracer = new Tracer(this.config.tracing, {
+        logger: this.config.logger?.child({ component: 'Tracer' }),
+      })
+    }
+
+    // Write an access log if configured
+    if (this.config.accessLog && this.config.accessLog.enabled !== false) {
+      this.accessLog = new AccessLog(this.config.accessLog, {
+        getClientIP: (req) => this.getClientIP(req as ZeroRequest),
+        logger: this.config.logger?.child({ component: 'AccessLog' }),
+      })
+    }
+
+    // Publish the route table as an OpenAPI document and catalog page if
+    // configured. Like the health endpoints, they are answered ahead of the
+    // middleware chain.
+    if (this.config.catalog && this.config.catalog.enabled !== false) {
+      this.apiCatalog = new ApiCatalog({
+        config: this.config.catalog,
+        getRoutes: () => this.getRoutes(),
+        auth: this.config.auth,
+        rateLimit: this.config.rateLimit,
+        logger: this.config.logger,
+      })
+    }
+
+    this.webSocketProxy = new WebSocketProxy({
+      logger: this.config.logger?.child({ component: 'WebSocketProxy' }),
+      metrics: this.metrics ?? undefined,
+    })
+
+    // Create the admin API listener if configured. Workers share the data-plane
+    // port, so only the master (or single) process serves the admin API.
+    if (this.config.admin && this.config.admin.enabled !== false) {
+      if (this.config.admin.port === (this.config.server?.port ?? 3000)) {
+        throw new Error('Admin API port must differ from the gateway port')
+      }
+      if (this.isClusterMaster) {
+        this.adminServer = new AdminServer({
+          config: this.config.admin,
+          getRoutes: () => this.getRouteHandles(),
+          getWorkerInfo: this.clusterManager
+            ? () => this.clusterManager!.getWorkerInfo()
+            : undefined,
+          reloadConfig: this.clusterManager
+            ? () => this.clusterManager!.reloadConfig()
+            : undefined,
+          logger: this.config.logger,
+          metrics:
+            this.config.metrics?.exposeOn === 'admin'
+              ? (this.metrics ?? undefined)
+              : undefined,
+        })
+      }
+    }
+
     // Create 0http-bun router with configuration
     // Build a proper global error handler from user config (or use secure defaults)
-    const errorHandlerFn =
+    const errorHandlerFn: (
+      err: Error,
+      req?: ZeroRequest,
+    ) => Response | Promise<Response> =
       typeof config.errorHandler === 'function'
         ? // User provided a custom error handler function — use it directly
           config.errorHandler
@@ -184,7 +493,8 @@ export class BunGateway implements Gateway {
             )
           }
 
-    const routerConfig: IRouterConfig = {
+    this.errorHandler = errorHandlerFn
+    this.routerConfig = {
       // Map gateway config to router config
       defaultRoute: config.defaultRoute
         ? (req: ZeroRequest) => config.defaultRoute!(req)
@@ -198,11 +508,10 @@ export class BunGateway implements Gateway {
       port: config.server?.port,
     }
 
-    const { router } = http(routerConfig)
-    this.router = router
+    this.router = http(this.routerConfig).router
 
     // Create logger middleware if configured
-    this.router.use(
+    this.use(
       createLogger({
         // @ts-ignore
         logger: config.logger?.pino,
@@ -210,18 +519,12 @@ export class BunGateway implements Gateway {
       }),
     )
 
-    // Add global rate limiting middleware if configured at the gateway level
-    if (this.config.rateLimit) {
-      const globalRateLimitKeyGenerator = (req: ZeroRequest) =>
-        this.getClientIP(req)
-      this.router.use(
-        createRateLimit({
-          ...this.config.rateLimit,
-          keyGenerator:
-            this.config.rateLimit.keyGenerator || globalRateLimitKeyGenerator,
-        }),
-      )
-    }
+    // Add global rate limiting middleware if configured at the gateway level.
+    // The limiter is looked up per request so applyConfig() can replace it.
+    this.globalRateLimit = this.createGlobalRateLimit(this.config.rateLimit)
+    this.use((req: ZeroRequest, next: StepFunction) =>
+      this.globalRateLimit ? this.globalRateLimit(req, next) : next(),
+    )
 
     // Add size limiter middleware with secure defaults (always enabled)
     const sizeLimits = this.config.security?.sizeLimits ?? {
@@ -234,82 +537,143 @@ export class BunGateway implements Gateway {
     const {
       createSizeLimiterMiddleware,
     } = require('../security/size-limiter-middleware')
-    this.router.use(createSizeLimiterMiddleware({ limits: sizeLimits }))
+    this.use(
+      createSizeLimiterMiddleware({
+        limits: sizeLimits,
+        onReject: (statusCode: number) =>
+          this.metrics?.recordSizeLimitRejection(statusCode),
+      }),
+    )
 
     // Add input validation middleware if configured
     if (this.config.security?.inputValidation) {
       const {
         createValidationMiddleware,
       } = require('../security/validation-middleware')
-      this.router.use(
+      this.use(
         createValidationMiddleware({
           rules: this.config.security.inputValidation,
         }),
       )
     }
 
-    // Add security headers middleware if configured
+    // Register the built-in plugins ahead of user plugins, so security
+    // headers wrap every response, the health and metrics endpoints included
+    const builtins: BunGatewayPlugin[] = []
     if (this.config.security?.securityHeaders?.enabled !== false) {
-      const {
-        SecurityHeadersMiddleware,
-      } = require('../security/security-headers')
       // Use the merged security config which has proper defaults
-      const headersConfig = this.config.security?.securityHeaders || {}
-      const securityHeaders = new SecurityHeadersMiddleware(headersConfig)
-
-      // Wrap the response to apply security headers
-      this.router.use(async (req: ZeroRequest, next) => {
-        const response = await next()
-        const url = new URL(req.url)
-        const isHttps =
-          url.protocol === 'https:' || this.config.security?.tls?.enabled
-        return securityHeaders.applyHeaders(response, isHttps)
-      })
+      builtins.push(
+        createSecurityHeadersPlugin(
+          this.config.security?.securityHeaders || {},
+          this.config.security?.tls?.enabled === true,
+        ),
+      )
     }
-
-    // Add Prometheus metrics middleware if enabled and NOT in development
-    if (
-      !this.config.server?.development &&
-      this.config.metrics?.enabled === true
-    ) {
-      const prometheusOptions: PrometheusMiddlewareOptions = {
-        excludePaths: ['/health', '/metrics', '/favicon.ico'],
-        collectDefaultMetrics:
-          this.config.metrics?.collectDefaultMetrics ?? true,
-      }
-      this.router.use(createPrometheusMiddleware(prometheusOptions))
+    if (this.healthEndpoints) {
+      builtins.push(createHealthPlugin(this.healthEndpoints))
+    }
+    if (this.metrics && this.config.metrics?.exposeOn !== 'admin') {
+      builtins.push(createMetricsPlugin(this.metrics))
+    }
+    this.plugins.register(...builtins)
+
+    // Add Prometheus HTTP request metrics if enabled
+    if (this.metrics) {
+      this.use(
+        this.metrics.createHttpMiddleware([
+          this.config.healthCheck?.path ?? '/health',
+          this.metrics.endpoint,
+          '/favicon.ico',
+        ]),
+      )
     }
 
     // Add authentication middleware if configured
     if (config.auth) {
-      this.router.use(createJWTAuth(config.auth))
+      this.use(this.traceMiddleware('auth', createJWTAuth(config.auth)))
     }
 
     // Add body parser middleware
     if (config.bodyParser) {
-      this.router.use(createBodyParser(config.bodyParser))
+      this.use(createBodyParser(config.bodyParser))
+    }
+
+    // Initialize configured plugins before the initial routes, so they are
+    // notified of them
+    if (config.plugins) {
+      this.plugins.register(...config.plugins)
+      this.initPlugins(config.plugins)
     }
 
-    // Register initial routes if provided
+    // Register initial routes if provided. No request has been served yet, so
+    // routes are mounted directly instead of rebuilding the router per route.
     if (config.routes) {
       for (const route of config.routes) {
-        if (this.config.proxy) {
-          route.proxy = {
-            ...this.config.proxy,
-            ...route.proxy,
-          }
-        }
-        this.addRoute(route)
+        const compiled = this.compileRoute(this.applyProxyDefaults(route))
+        this.registrations.push({ type: 'route', compiled })
+        this.mountRoute(this.router, compiled)
+        this.plugins.routeRegistered(compiled.route)
       }
     }
   }
 
-  fetch = (req: Request) => {
+  fetch = (req: Request): Promise<Response> => {
+    const requestId = this.assignRequestId(req)
+    const handle = () =>
+      this.plugins
+        .handle(req, (req) => this.dispatch(req))
+        // Errors of plugin hooks are answered like errors of the middleware
+        // chain
+        .catch((error) => this.errorHandler(error, req as ZeroRequest))
+    const traced = () =>
+      this.tracer ? this.tracer.traceRequest(req, handle) : handle()
+    const pending = runWithRequestId(requestId, () =>
+      this.accessLog ? this.accessLog.handle(req, traced) : traced(),
+    ).then((response: Response) => echoRequestId(response, requestId))
+    const settle = () => {
+      this.pendingRequests.delete(pending)
+    }
+    this.pendingRequests.add(pending)
+    pending.then(settle, settle)
+    return pending
+  }
+
+  /**
+   * Picks the ID of a request: the inbound X-Request-ID when a trusted proxy
+   * sent it, the ID of the request being handled for internal requests such
+   * as aggregate calls, or a fresh one
+   */
+  private assignRequestId(req: Request): string {
+    const current = currentRequestId()
+    if (current) {
+      return current
+    }
+    const inbound = req.headers.get(REQUEST_ID_HEADER)
+    if (inbound && this.trustedProxyValidator && isValidRequestId(inbound)) {
+      const directIP = this.server?.requestIP(req)?.address
+      if (directIP && this.trustedProxyValidator.validateProxy(directIP)) {
+        return inbound
+      }
+    }
+    return generateRequestId()
+  }
+
+  /**
+   * Routes a request that no plugin answered
+   */
+  private dispatch(req: Request): Response | Promise<Response> {
+    if (this.apiCatalog) {
+      const catalogPath = this.apiCatalog.match(req.url)
+      if (catalogPath) {
+        return this.apiCatalog.handle(req, catalogPath)
+      }
+    }
     // 0http-bun expects a Request, returns a Response
     return this.router.fetch(req)
   }
 
   use(...args: any[]): this {
+    this.registrations.push({ type: 'use', args })
     this.router.use(...args)
     return this
   }
@@ -317,6 +681,12 @@ export class BunGateway implements Gateway {
   on(method: string, pattern: string, ...handlers: RequestHandler[]): this {
     // Convert string method to Methods type (uppercase)
     const upperMethod = method.toUpperCase() as any
+    this.registrations.push({
+      type: 'on',
+      method: upperMethod,
+      pattern,
+      handlers,
+    })
     this.router.on(upperMethod, pattern, ...handlers)
     return this
   }
@@ -346,15 +716,446 @@ export class BunGateway implements Gateway {
     // For "all" methods, we need to register for each HTTP method
     const methods = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'HEAD', 'OPTIONS']
     for (const method of methods) {
-      this.router.on(method as any, pattern, ...handlers)
+      this.on(method, pattern, ...handlers)
     }
     return this
   }
 
   addRoute(route: RouteConfig): void {
+    const compiled = this.compileRoute(route)
+    this.registrations.push({ type: 'route', compiled })
+    this.rebuildRouter()
+    this.plugins.routeRegistered(compiled.route)
+  }
+
+  register(plugin: BunGatewayPlugin): this {
+    this.plugins.register(plugin)
+    this.initPlugins([plugin])
+    return this
+  }
+
+  group(
+    prefix: string,
+    config: RouteGroupConfig,
+    define: (group: RouteGroup) => void,
+  ): this {
+    define(new RouteGroup(prefix, config, (route) => this.addRoute(route)))
+    return this
+  }
+
+  removeRoute(pattern: string): boolean {
+    const removed: CompiledRoute[] = []
+    this.registrations = this.registrations.filter((registration) => {
+      if (
+        registration.type === 'route' &&
+        registration.compiled.route.pattern === pattern
+      ) {
+        removed.push(registration.compiled)
+        return false
+      }
+      return true
+    })
+
+    if (removed.length === 0) {
+      return false
+    }
+
+    this.rebuildRouter()
+    for (const compiled of removed) {
+      this.retireRoute(compiled)
+    }
+    this.config.logger?.info('Route removed', { pattern })
+    return true
+  }
+
+  applyConfig(
+    config: GatewayConfig,
+    logLevel: LoggerConfig['level'] = config.logger?.getLevel(),
+  ): void {
+    // Throws, leaving everything in place, if a route fails to compile
+    this.replaceRoutes(config.routes ?? [])
+
+    // Built once the routes are in place, so a rejected reload creates none
+    if (
+      JSON.stringify(config.rateLimit) !== JSON.stringify(this.config.rateLimit)
+    ) {
+      this.config.rateLimit = config.rateLimit
+      this.globalRateLimit = this.createGlobalRateLimit(config.rateLimit)
+    }
+    const logger = this.config.logger
+    if (logLevel && logger && logLevel !== logger.getLevel()) {
+      logger.setLevel(logLevel)
+    }
+  }
+
+  replaceRoutes(routes: RouteConfig[]): void {
+    // Compile the complete new table before touching the live one, so a route
+    // that fails validation leaves the current table in service.
+    const compiledRoutes: CompiledRoute[] = []
+    try {
+      for (const route of routes) {
+        compiledRoutes.push(this.compileRoute(this.applyProxyDefaults(route)))
+      }
+    } catch (error) {
+      for (const compiled of compiledRoutes) {
+        this.disposeRoute(compiled)
+      }
+      throw error
+    }
+
+    const previous: CompiledRoute[] = []
+    const registrations: RouterRegistration[] = []
+    let insertAt = -1
+    for (const registration of this.registrations) {
+      if (registration.type === 'route') {
+        if (insertAt === -1) insertAt = registrations.length
+        previous.push(registration.compiled)
+        continue
+      }
+      registrations.push(registration)
+    }
+    if (insertAt === -1) insertAt = registrations.length
+
+    registrations.splice(
+      insertAt,
+      0,
+      ...compiledRoutes.map(
+        (compiled): RouterRegistration => ({ type: 'route', compiled }),
+      ),
+    )
+    this.registrations = registrations
+
+    // Swapping the router reference is the atomic step: requests already
+    // dispatched finish on the old handlers, new requests see the new table.
+    this.rebuildRouter()
+    for (const compiled of previous) {
+      this.retireRoute(compiled)
+    }
+    for (const compiled of compiledRoutes) {
+      this.plugins.routeRegistered(compiled.route)
+    }
+
+    this.config.logger?.info('Route table replaced', {
+      previousRoutes: previous.length,
+      routes: compiledRoutes.length,
+    })
+  }
+
+  getRoutes(): RouteConfig[] {
+    return this.getCompiledRoutes().map((compiled) => compiled.route)
+  }
+
+  /**
+   * Returns the compiled routes currently present in the route table
+   */
+  private getCompiledRoutes(): CompiledRoute[] {
+    const compiledRoutes: CompiledRoute[] = []
+    for (const registration of this.registrations) {
+      if (registration.type === 'route') {
+        compiledRoutes.push(registration.compiled)
+      }
+    }
+    return compiledRoutes
+  }
+
+  /**
+   * Exposes the live route table, with each route's proxies and load
+   * balancers, to the admin API and readiness checks
+   */
+  private getRouteHandles(): AdminRouteHandle[] {
+    return this.getCompiledRoutes().map((compiled) => ({
+      id: compiled.id,
+      route: compiled.route,
+      methods: compiled.entries.flatMap((entry) =>
+        entry.upstreams.map((upstream) => ({
+          method: entry.method,
+          backend: upstream.backend,
+          proxy: upstream.proxy,
+          loadBalancer: upstream.loadBalancer,
+        })),
+      ),
+      split: compiled.splitter,
+      faults: compiled.faults,
+    }))
+  }
+
+  /**
+   * Calls the onInit hooks of newly registered plugins in plugin order. A
+   * hook after an asynchronous one waits for it; listen() waits for all.
+   */
+  private initPlugins(plugins: BunGatewayPlugin[]): void {
+    for (const plugin of this.plugins.list()) {
+      if (!plugins.includes(plugin) || !plugin.onInit) continue
+      const result = this.pluginsReady
+        ? this.pluginsReady.then(() => plugin.onInit!(this))
+        : plugin.onInit(this)
+      if (result instanceof Promise) {
+        this.pluginsReady = result.then(() => {})
+        // Failures surface from listen()
+        this.pluginsReady.catch(() => {})
+      }
+    }
+  }
+
+  /**
+   * Applies the gateway-level proxy defaults to a route, with route settings
+   * taking precedence
+   */
+  private applyProxyDefaults(route: RouteConfig): RouteConfig {
+    if (this.config.proxy) {
+      route.proxy = {
+        ...this.config.proxy,
+        ...route.proxy,
+      }
+    }
+    return route
+  }
+
+  /**
+   * Builds a fresh router from the registration log and swaps it in.
+   * The 0http-bun router caches path lookups, so routes added or removed on a
+   * live router would otherwise be invisible for already-seen paths.
+   */
+  private rebuildRouter(): void {
+    const router = http(this.routerConfig).router
+    for (const registration of this.registrations) {
+      switch (registration.type) {
+        case 'use':
+          router.use(...(registration.args as [any]))
+          break
+        case 'on':
+          router.on(
+            registration.method as any,
+            registration.pattern,
+            ...registration.handlers,
+          )
+          break
+        case 'route':
+          this.mountRoute(router, registration.compiled)
+          break
+      }
+    }
+    this.router = router
+  }
+
+  /**
+   * Mounts a compiled route's handler chains on the given router
+   */
+  private mountRoute(router: IRouter, compiled: CompiledRoute): void {
+    for (const entry of compiled.entries) {
+      const handlers = compiled.matcher
+        ? [guardHandlers(compiled.matcher, entry.handlers)]
+        : entry.handlers
+      router.on(entry.method as any, compiled.route.pattern, ...handlers)
+    }
+  }
+
+  /**
+   * Marks a route as removed and releases its resources. Health checks stop
+   * immediately; proxies and load balancers are released once the requests
+   * still executing on the route have completed.
+   */
+  private retireRoute(compiled: CompiledRoute): void {
+    compiled.retired = true
+    for (const loadBalancer of compiled.loadBalancers) {
+      loadBalancer.stopHealthChecks()
+    }
+    if (compiled.inFlight === 0) {
+      this.disposeRoute(compiled)
+    }
+  }
+
+  /**
+   * Relays a streamed upstream response. The route stays in flight and its
+   * afterResponse hook is deferred until the stream closes.
+   *
+   * @param onClose - Called first when the stream closes
+   */
+  private relayStream(
+    compiled: CompiledRoute,
+    req: ZeroRequest,
+    response: Response,
+    onClose?: () => void,
+  ): Response {
+    const { route } = compiled
+    this.relayedRequests.add(req as Request)
+    compiled.inFlight++
+    const relayed = this.streamRelay.relay(response, route.streaming!, () => {
+      onClose?.()
+      this.releaseRoute(compiled)
+      if (!route.hooks?.afterResponse) return
+      Promise.resolve()
+        .then(() => route.hooks!.afterResponse!(req, relayed, relayed.body))
+        .catch((error) => {
+          this.config.logger?.error(
+            'afterResponse hook failed',
+            error as Error,
+            { pattern: route.pattern },
+          )
+        })
+    })
+    return relayed
+  }
+
+  /**
+   * Ends one in-flight use of a route, disposing it if it was retired meanwhile
+   */
+  private releaseRoute(compiled: CompiledRoute): void {
+    compiled.inFlight--
+    if (compiled.retired && compiled.inFlight === 0) {
+      this.disposeRoute(compiled)
+    }
+  }
+
+  /**
+   * Destroys the load balancers and closes the proxies owned by a route
+   */
+  private disposeRoute(compiled: CompiledRoute): void {
+    for (const loadBalancer of compiled.loadBalancers) {
+      loadBalancer.destroy()
+    }
+    for (const proxy of compiled.proxies) {
+      try {
+        proxy.close()
+      } catch (error) {
+        this.config.logger?.warn('Failed to close route proxy', {
+          pattern: compiled.route.pattern,
+          error: (error as Error).message,
+        })
+      }
+    }
+    compiled.loadBalancers = []
+    compiled.proxies = []
+  }
+
+  /**
+   * Compiles a route configuration into router handler chains
+   *
+   * Creates the route's proxies and load balancers (one per method) and wraps
+   * each chain with in-flight tracking so a retired route is only disposed
+   * after its last request completes.
+   */
+  private compileRoute(route: RouteConfig): CompiledRoute {
     const methods =
       route.methods && route.methods.length > 0 ? route.methods : ['GET']
 
+    if (route.split && (route.target || route.loadBalancer)) {
+      throw new Error(
+        `Route ${route.pattern}: "split" cannot be combined with "target" or "loadBalancer"`,
+      )
+    }
+
+    if (route.streaming && route.validation?.response) {
+      throw new Error(
+        `Route ${route.pattern}: "validation.response" cannot be combined with "streaming"`,
+      )
+    }
+
+    const compiled: CompiledRoute = {
+      id: this.nextRouteId++,
+      route,
+      entries: [],
+      proxies: [],
+      loadBalancers: [],
+      inFlight: 0,
+      retired: false,
+      splitter: route.split
+        ? new TrafficSplitter(route.pattern, route.split)
+        : undefined,
+      matcher: route.match ? new RouteMatcher(route.match) : undefined,
+      faults: route.faults
+        ? new FaultInjector(route.faults, {
+            route: route.pattern,
+            getClientIP: (req) => this.getClientIP(req),
+            onFault: (type) => this.metrics?.recordFault(route.pattern, type),
+            logger: this.config.logger?.child({ component: 'FaultInjector' }),
+          })
+        : undefined,
+    }
+    const splitter = compiled.splitter
+
+    // A route proxies to one upstream, or to each backend of its traffic split
+    const backends: Array<Partial<SplitBackend>> = route.split?.backends ?? [
+      { target: route.target, loadBalancer: route.loadBalancer },
+    ]
+
+    // Methods of a route share one response cache per backend; streamed
+    // responses are never cached
+    const caches = new Map(
+      backends.map((backend) => [
+        backend.name,
+        route.cache && route.cache.enabled !== false && !route.streaming
+          ? new ResponseCache(route.cache)
+          : undefined,
+      ]),
+    )
+    const retryPolicy = route.retry ? new RetryPolicy(route.retry) : undefined
+    // Hedging applies to load-balanced upstreams only, which have another
+    // target to send the speculative request to
+    const hedgePolicy = route.hedge ? new HedgePolicy(route.hedge) : undefined
+    // Aggregate calls go through the live route table, like client requests
+    const aggregator = route.aggregate
+      ? new RequestAggregator(
+          route.aggregate,
+          (req, origin) => {
+            this.aggregateClients.set(
+              req,
+              this.getClientIP(origin as ZeroRequest),
+            )
+            return this.fetch(req)
+          },
+          this.config.logger?.child({ component: 'RequestAggregator' }),
+        )
+      : undefined
+    // Schemas are compiled once and shared by the route's methods
+    const schemaValidation = route.validation
+      ? createSchemaValidationMiddleware(
+          route.validation,
+          this.config.logger?.child({ component: 'SchemaValidation' }),
+        )
+      : undefined
+    const mirror = route.mirror
+      ? new TrafficMirror(
+          route.mirror,
+          this.config.logger?.child({ component: 'TrafficMirror' }),
+        )
+      : undefined
+
+    // Upstream path of a request: the original path and query string, unless
+    // pathRewrite explicitly changes them
+    const rewritePath = (req: ZeroRequest): string => {
+      const originalUrl = new URL(req.url)
+      let targetPath = originalUrl.pathname + originalUrl.search
+      if (route.proxy?.pathRewrite) {
+        if (typeof route.proxy.pathRewrite === 'function') {
+          targetPath = route.proxy.pathRewrite(targetPath)
+        } else {
+          for (const [pattern, replacement] of Object.entries(
+            route.proxy.pathRewrite,
+          )) {
+            targetPath = targetPath.replace(new RegExp(pattern), replacement)
+          }
+        }
+      }
+      return targetPath
+    }
+
+    const trackInFlight: RequestHandler = async (
+      req: ZeroRequest,
+      next: StepFunction,
+    ) => {
+      // Name the request's span after the route it matched
+      currentSpan()
+        ?.updateName(`${req.method} ${route.pattern}`)
+        .setAttribute('http.route', route.pattern)
+      compiled.inFlight++
+      try {
+        return await next()
+      } finally {
+        this.releaseRoute(compiled)
+      }
+    }
+
     for (const method of methods) {
       // Build middleware chain for this route
       // Security-critical middleware should run before custom route middleware
@@ -399,7 +1200,12 @@ export class BunGateway implements Gateway {
           jwtOptions.secret = new TextEncoder().encode(jwtOptions.secret)
         }
 
-        middlewares.push(createJWTAuth(jwtOptions as JWTAuthOptions))
+        middlewares.push(
+          this.traceMiddleware(
+            'auth',
+            createJWTAuth(jwtOptions as JWTAuthOptions),
+          ),
+        )
       }
 
       // Add rate limiting middleware if configured (before custom middleware)
@@ -410,11 +1216,17 @@ export class BunGateway implements Gateway {
         const rateLimitKeyGenerator = (req: ZeroRequest) => {
           return this.getClientIP(req)
         }
+        const rateLimiter = createRateLimit({
+          ...route.rateLimit,
+          keyGenerator: route.rateLimit.keyGenerator || rateLimitKeyGenerator,
+        })
         middlewares.push(
-          createRateLimit({
-            ...route.rateLimit,
-            keyGenerator: route.rateLimit.keyGenerator || rateLimitKeyGenerator,
-          }),
+          this.traceMiddleware(
+            'rate_limit',
+            this.metrics
+              ? this.metrics.instrumentRateLimit(rateLimiter, route.pattern)
+              : rateLimiter,
+          ),
         )
       }
 
@@ -423,40 +1235,303 @@ export class BunGateway implements Gateway {
         middlewares.push(...route.middlewares)
       }
 
-      // Create load balancer if configured
-      let loadBalancer: HttpLoadBalancer | undefined
-      if (
-        route.loadBalancer?.targets &&
-        route.loadBalancer.targets.length > 0
-      ) {
-        const balancerKey = `${route.pattern}-${method}`
-        loadBalancer = new HttpLoadBalancer({
-          logger: this.config.logger?.child({ component: 'HttpLoadBalancer' }),
-          ...route.loadBalancer,
-          trustedProxyValidator: this.trustedProxyValidator || undefined,
+      // Validate requests last, so responses are checked as the handler or
+      // upstream produced them
+      if (schemaValidation) {
+        middlewares.push(schemaValidation)
+      }
+
+      // Inject faults in place of the upstream, behind authentication and
+      // validation
+      if (compiled.faults) {
+        middlewares.push(compiled.faults.middleware())
+      }
+
+      // Create the load balancer, proxy and forwarding function of an upstream
+      const createUpstream = (backend: Partial<SplitBackend>) => {
+        // Create load balancer if configured
+        let loadBalancer: HttpLoadBalancer | undefined
+        if (
+          backend.loadBalancer?.targets &&
+          backend.loadBalancer.targets.length > 0
+        ) {
+          const onHealthCheck = backend.loadBalancer.onHealthCheck
+          loadBalancer = new HttpLoadBalancer({
+            logger: this.config.logger?.child({
+              component: 'HttpLoadBalancer',
+            }),
+            ...backend.loadBalancer,
+            trustedProxyValidator: this.trustedProxyValidator || undefined,
+            onHealthCheck: (url, healthy, duration) => {
+              this.metrics?.recordHealthCheck(
+                route.pattern,
+                method.toUpperCase(),
+                url,
+                healthy,
+              )
+              onHealthCheck?.(url, healthy, duration)
+            },
+          })
+          compiled.loadBalancers.push(loadBalancer)
+        }
+
+        // Create proxy if target is specified
+        const baseUrl = backend.target
+
+        const proxy = createGatewayProxy({
+          logger: this.config.logger?.pino.child({
+            component: 'GatewayProxy',
+          }) as any,
+          base: baseUrl,
+          timeout: route.timeout || route.proxy?.timeout || 30000,
+          // Default redirect following to OFF to prevent open-redirect / SSRF issues.
+          // Individual routes must explicitly opt in.
+          followRedirects: route.proxy?.followRedirects === true,
+          maxRedirects: route.proxy?.maxRedirects ?? 5,
+          headers: route.proxy?.headers || {},
+          circuitBreaker: route.circuitBreaker,
         })
-        this.loadBalancers.set(balancerKey, loadBalancer)
-      }
-
-      // Create proxy if target is specified
-      let proxy: ProxyInstance | undefined
-      const proxyKey = `${route.pattern}-${method}`
-      const baseUrl = route.target
-
-      proxy = createGatewayProxy({
-        logger: this.config.logger?.pino.child({
-          component: 'GatewayProxy',
-        }) as any,
-        base: baseUrl,
-        timeout: route.timeout || route.proxy?.timeout || 30000,
-        // Default redirect following to OFF to prevent open-redirect / SSRF issues.
-        // Individual routes must explicitly opt in.
-        followRedirects: route.proxy?.followRedirects === true,
-        maxRedirects: route.proxy?.maxRedirects ?? 5,
-        headers: route.proxy?.headers || {},
-        circuitBreaker: route.circuitBreaker,
-      })
-      this.proxies.set(proxyKey, proxy)
+        compiled.proxies.push(proxy)
+
+        // Forward the request to the upstream. `headers` replaces the
+        // inbound request headers; the response cache uses it to revalidate.
+        const forward = async (
+          req: ZeroRequest,
+          headers?: Headers,
+        ): Promise<Response> => {
+          const targetPath = rewritePath(req)
+
+          let attempt: RetryAttempt
+          if (loadBalancer) {
+            // Targets already tried, so retries and hedges go to another one
+            const tried = new Set<string>()
+            const selectTarget = () =>
+              this.traceTargetSelection(backend.loadBalancer!.strategy, () =>
+                loadBalancer.selectTarget(
+                  req as Request,
+                  this.getClientIP(req),
+                  tried,
+                ),
+              )
+            const pickTarget = () => {
+              const target = selectTarget()
+              if (target) {
+                tried.add(target.url)
+              }
+              return target
+            }
+
+            const sendTo = (
+              target: LoadBalancerTarget,
+              body: RequestInit['body'],
+              attemptNumber: number,
+              signal?: AbortSignal,
+            ): Promise<RetryAttemptResult> =>
+              this.traceUpstream(
+                req,
+                target.url + targetPath,
+                proxy,
+                attemptNumber,
+                () => send(target, body, signal),
+              )
+
+            const send = async (
+              target: LoadBalancerTarget,
+              body: RequestInit['body'],
+              signal?: AbortSignal,
+            ): Promise<RetryAttemptResult> => {
+              // Build sanitized request for upstream forwarding
+              const upstreamUrl = target.url + targetPath
+              let proxyReq = this.sanitizeProxyRequest(
+                req,
+                upstreamUrl,
+                route.proxy,
+                headers,
+                body,
+              )
+              if (signal) {
+                proxyReq = new Request(proxyReq, { signal })
+              }
+
+              // Measure end-to-end time to update latency metrics in the load balancer
+              const startedAt = Date.now()
+              let failure: Error | undefined
+              // The connection is released once, whether the request completes,
+              // fails or is aborted as a hedging loser; aborted requests are not
+              // counted against the target. Streamed responses hold the
+              // connection until the stream closes.
+              let connected = true
+              const disconnect = () => {
+                if (!connected) return
+                connected = false
+                loadBalancer.decrementConnections(target.url)
+              }
+              let released = false
+              const release = (error?: Error): boolean => {
+                if (!route.streaming || error || signal?.aborted) {
+                  disconnect()
+                }
+                if (released) return false
+                released = true
+                if (signal?.aborted) return false
+                const duration = Date.now() - startedAt
+                try {
+                  loadBalancer.recordResponse(target.url, duration, !!error)
+                } catch {}
+                if (!error) {
+                  hedgePolicy?.recordLatency(duration)
+                }
+                return true
+              }
+              signal?.addEventListener('abort', () => release(), { once: true })
+
+              loadBalancer.incrementConnections(target.url)
+              let response: Response
+              try {
+                response = await this.observeUpstream(
+                  route.pattern,
+                  target.url,
+                  startedAt,
+                  proxy.proxy(proxyReq as ZeroRequest, upstreamUrl, {
+                    afterCircuitBreakerExecution: this.traceCircuitBreaker(
+                      route.hooks?.afterCircuitBreakerExecution,
+                    ),
+                    beforeCircuitBreakerExecution:
+                      route.hooks?.beforeCircuitBreakerExecution,
+                    afterResponse: () => {
+                      release()
+                    },
+                    onError: (req: Request, error: Error) => {
+                      failure = error
+                      if (release(error) && route.hooks?.onError) {
+                        route.hooks.onError!(req, error)
+                      }
+                    },
+                  }),
+                  signal,
+                )
+              } catch (error) {
+                disconnect()
+                throw error
+              }
+              if (route.streaming && !failure) {
+                response = this.relayStream(compiled, req, response, disconnect)
+              }
+
+              // Attach sticky-session cookie if the load balancer generated one
+              const stickyCookie = loadBalancer.getStickySessionCookie(target)
+              if (stickyCookie) {
+                response = appendSetCookie(response, stickyCookie)
+              }
+              return { response, error: failure }
+            }
+
+            attempt = async (body, attemptNumber) => {
+              const target = pickTarget()
+              if (!target) {
+                throw new Error('No healthy targets available')
+              }
+
+              // A streamed body can only be sent once, so it is never hedged
+              if (
+                !hedgePolicy ||
+                !hedgePolicy.allowsMethod(req.method) ||
+                body instanceof ReadableStream
+              ) {
+                return sendTo(target, body, attemptNumber)
+              }
+              const copyBody = () =>
+                body instanceof Uint8Array ? body.slice() : body
+              return hedgePolicy.execute(
+                (signal) => sendTo(target, copyBody(), attemptNumber, signal),
+                (signal) => {
+                  // Hedge only to a target this request has not been sent to
+                  const other = selectTarget()
+                  if (!other || tried.has(other.url)) {
+                    return null
+                  }
+                  tried.add(other.url)
+                  return sendTo(other, copyBody(), attemptNumber, signal)
+                },
+                target.averageResponseTime,
+              )
+            }
+          } else {
+            attempt = (body, attemptNumber) =>
+              this.traceUpstream(
+                req,
+                backend.target + targetPath,
+                proxy,
+                attemptNumber,
+                () => send(body),
+              )
+            const send = async (
+              body: RequestInit['body'],
+            ): Promise<RetryAttemptResult> => {
+              const proxyReq = this.sanitizeProxyRequest(
+                req,
+                targetPath,
+                route.proxy,
+                headers,
+                body,
+              )
+
+              let failure: Error | undefined
+              let response = await this.observeUpstream(
+                route.pattern,
+                backend.target!,
+                Date.now(),
+                proxy.proxy(proxyReq as ZeroRequest, targetPath, {
+                  afterCircuitBreakerExecution: this.traceCircuitBreaker(
+                    route.hooks?.afterCircuitBreakerExecution,
+                  ),
+                  beforeCircuitBreakerExecution:
+                    route.hooks?.beforeCircuitBreakerExecution,
+                  onError: (req: Request, error: Error) => {
+                    failure = error
+                    if (route.hooks?.onError) {
+                      return route.hooks.onError!(req, error)
+                    }
+                  },
+                }),
+              )
+              if (route.streaming && !failure) {
+                response = this.relayStream(compiled, req, response)
+              }
+              return { response, error: failure }
+            }
+          }
+
+          return retryPolicy
+            ? retryPolicy.execute(req, attempt)
+            : (await attempt(req.body, 1)).response
+        }
+
+        return {
+          backend: backend.name,
+          target: backend.target,
+          proxy,
+          loadBalancer,
+          forward,
+          cache: caches.get(backend.name),
+        }
+      }
+      const upstreams = backends.map(createUpstream)
+
+      // Chooses the upstream of a request, by traffic split when configured
+      const selectUpstream = (req: ZeroRequest) => {
+        if (!splitter) {
+          return { upstream: upstreams[0]! }
+        }
+        const assignment = splitter.assign(
+          req as Request,
+          this.getClientIP(req),
+        )
+        const upstream = upstreams.find(
+          (candidate) => candidate.backend === assignment.backend,
+        )!
+        return { upstream, assignment }
+      }
 
       // Create the final handler
       const finalHandler: RequestHandler = async (req: ZeroRequest) => {
@@ -468,140 +1543,97 @@ export class BunGateway implements Gateway {
 
           let response: Response
 
+          // Streams outlive the server's idle timeout, which would cut them
+          // off; the relay applies the route's own timeouts instead
+          if (route.streaming) {
+            this.server?.timeout(req as Request, 0)
+          }
+
           // Handle direct handler
           if (route.handler) {
             // Route handlers might not take `next` parameter, so we need to adapt
             response = await (route.handler as any)(req)
           }
-          // Handle proxy with load balancer
-          else if (loadBalancer && proxy) {
-            const target = loadBalancer.selectTarget(
-              req as Request,
-              this.getClientIP(req),
+          // Merge the results of the route's aggregate calls
+          else if (aggregator) {
+            response = await aggregator.handle(req as Request, req.params)
+          }
+          // Relay WebSocket upgrades to the chosen upstream
+          else if (route.websocket && isWebSocketUpgrade(req as Request)) {
+            response = await this.proxyWebSocket(
+              req,
+              route,
+              selectUpstream(req).upstream,
+              rewritePath(req),
             )
-            if (!target) {
-              throw new Error('No healthy targets available')
+          }
+          // Proxy to the load balancer pool or target, through the cache
+          else if (splitter || upstreams[0]!.loadBalancer || route.target) {
+            const { upstream, assignment } = selectUpstream(req)
+
+            // Copy a sample of requests to the shadow upstream before the
+            // primary request consumes the body
+            const settleMirror = mirror?.sample(req as Request)
+              ? mirror.send(
+                  this.createMirrorRequest(
+                    req,
+                    mirror,
+                    rewritePath(req),
+                    route,
+                  ),
+                )
+              : undefined
+
+            const { cache, forward } = upstream
+            const cacheable = req.method === 'GET' || req.method === 'HEAD'
+            const startedAt = Date.now()
+            try {
+              response =
+                cache && cacheable
+                  ? await cache.handle(req, (headers) => forward(req, headers))
+                  : await forward(req)
+            } catch (error) {
+              settleMirror?.()
+              if (assignment) {
+                this.metrics?.observeSplit(
+                  route.pattern,
+                  assignment.backend,
+                  Date.now() - startedAt,
+                )
+              }
+              throw error
             }
+            settleMirror?.(response)
 
-            // Preserve original query string unless pathRewrite explicitly changes it
-            const originalUrl = new URL(req.url)
-            let targetPath = originalUrl.pathname + originalUrl.search
-            if (route.proxy?.pathRewrite) {
-              if (typeof route.proxy.pathRewrite === 'function') {
-                targetPath = route.proxy.pathRewrite(targetPath)
-              } else {
-                for (const [pattern, replacement] of Object.entries(
-                  route.proxy.pathRewrite,
-                )) {
-                  targetPath = targetPath.replace(
-                    new RegExp(pattern),
-                    replacement,
-                  )
-                }
+            // A successful unsafe request invalidates the cached URL
+            if (!cacheable && response.status < 400) {
+              for (const backendCache of caches.values()) {
+                backendCache?.invalidate(req.url)
               }
             }
 
-            // Build sanitized request for upstream forwarding
-            const upstreamUrl = target.url + targetPath
-            const proxyReq = this.sanitizeProxyRequest(
-              req,
-              upstreamUrl,
-              route.proxy,
-            )
-
-            // Measure end-to-end time to update latency metrics in the load balancer
-            const startedAt = Date.now()
-            loadBalancer.incrementConnections(target.url)
-            response = await proxy.proxy(proxyReq as ZeroRequest, upstreamUrl, {
-              afterCircuitBreakerExecution:
-                route.hooks?.afterCircuitBreakerExecution,
-              beforeCircuitBreakerExecution:
-                route.hooks?.beforeCircuitBreakerExecution,
-              afterResponse: (
-                req: Request,
-                res: Response,
-                body?: ReadableStream | null,
-              ) => {
-                loadBalancer.decrementConnections(target.url)
-                // Update latency stats for strategies like 'latency' and as tie-breakers
-                try {
-                  const duration = Date.now() - startedAt
-                  loadBalancer.recordResponse(target.url, duration, false)
-                } catch {}
-              },
-              onError: (req: Request, error: Error) => {
-                loadBalancer.decrementConnections(target.url)
-                // Record error with latency to penalize target appropriately
-                try {
-                  const duration = Date.now() - startedAt
-                  loadBalancer.recordResponse(target.url, duration, true)
-                } catch {}
-                if (route.hooks?.onError) {
-                  route.hooks.onError!(req, error)
-                }
-              },
-            })
-
-            // Attach sticky-session cookie if the load balancer generated one
-            const stickyCookie = loadBalancer.getStickySessionCookie(target)
-            if (stickyCookie) {
-              response = new Response(response.body, {
-                status: response.status,
-                statusText: response.statusText,
-                headers: (() => {
-                  const h = new Headers(response.headers)
-                  h.append('Set-Cookie', stickyCookie)
-                  return h
-                })(),
-              })
-            }
-          }
-          // Handle simple proxy
-          else if (route.target && proxy) {
-            const originalUrl = new URL(req.url)
-            let targetPath = originalUrl.pathname + originalUrl.search
-
-            // Apply path rewriting if configured
-            if (route.proxy?.pathRewrite) {
-              if (typeof route.proxy.pathRewrite === 'function') {
-                targetPath = route.proxy.pathRewrite(targetPath)
-              } else {
-                for (const [pattern, replacement] of Object.entries(
-                  route.proxy.pathRewrite,
-                )) {
-                  targetPath = targetPath.replace(
-                    new RegExp(pattern),
-                    replacement,
-                  )
-                }
+            if (assignment) {
+              this.metrics?.observeSplit(
+                route.pattern,
+                assignment.backend,
+                Date.now() - startedAt,
+                response.status,
+              )
+              if (assignment.setCookie) {
+                response = appendSetCookie(response, assignment.setCookie)
               }
             }
-
-            const proxyReq = this.sanitizeProxyRequest(
-              req,
-              targetPath,
-              route.proxy,
-            )
-
-            response = await proxy.proxy(proxyReq as ZeroRequest, targetPath, {
-              afterCircuitBreakerExecution:
-                route.hooks?.afterCircuitBreakerExecution,
-              beforeCircuitBreakerExecution:
-                route.hooks?.beforeCircuitBreakerExecution,
-              onError: (req: Request, error: Error) => {
-                if (route.hooks?.onError) {
-                  return route.hooks.onError!(req, error)
-                }
-              },
-            })
           }
           // No handler or proxy configured
           else {
             response = new Response('Not implemented', { status: 501 })
           }
 
-          // Call hooks
-          if (route.hooks?.afterResponse) {
+          // Call hooks; relayed streams call afterResponse once they close
+          if (
+            route.hooks?.afterResponse &&
+            !this.relayedRequests.has(req as Request)
+          ) {
             await route.hooks.afterResponse(req, response, response.body)
           }
 
@@ -617,8 +1649,173 @@ export class BunGateway implements Gateway {
         }
       }
 
-      // Add all middlewares and final handler to the route
-      this.on(method, route.pattern, ...middlewares, finalHandler)
+      compiled.entries.push({
+        method: method.toUpperCase(),
+        handlers: [trackInFlight, ...middlewares, finalHandler],
+        upstreams: upstreams.map(({ backend, proxy, loadBalancer }) => ({
+          backend,
+          proxy,
+          loadBalancer,
+        })),
+      })
+    }
+
+    return compiled
+  }
+
+  /**
+   * Records latency and errors of a proxied upstream request in the metrics
+   * and the access log; requests aborted through `signal` are not recorded
+   */
+  private async observeUpstream(
+    route: string,
+    target: string,
+    startedAt: number,
+    pending: Promise<Response>,
+    signal?: AbortSignal,
+  ): Promise<Response> {
+    if (!this.metrics && !this.accessLog) {
+      return pending
+    }
+    try {
+      const response = await pending
+      if (!signal?.aborted) {
+        const duration = Date.now() - startedAt
+        this.metrics?.observeUpstream(route, target, duration, response.status)
+        recordUpstream(target, duration, response.status)
+      }
+      return response
+    } catch (error) {
+      if (!signal?.aborted) {
+        const duration = Date.now() - startedAt
+        this.metrics?.observeUpstream(route, target, duration)
+        recordUpstream(target, duration)
+      }
+      throw error
+    }
+  }
+
+  /**
+   * Creates the gateway-level rate limiter, keyed by client IP unless a key
+   * generator is configured
+   */
+  private createGlobalRateLimit(
+    rateLimit: GatewayConfig['rateLimit'],
+  ): RequestHandler | null {
+    if (!rateLimit) {
+      return null
+    }
+    const rateLimiter = createRateLimit({
+      ...rateLimit,
+      keyGenerator:
+        rateLimit.keyGenerator || ((req: ZeroRequest) => this.getClientIP(req)),
+    })
+    return this.traceMiddleware(
+      'rate_limit',
+      this.metrics
+        ? this.metrics.instrumentRateLimit(rateLimiter)
+        : rateLimiter,
+    )
+  }
+
+  /**
+   * Records a middleware phase in a span when tracing is enabled
+   */
+  private traceMiddleware(
+    phase: string,
+    middleware: RequestHandler,
+  ): RequestHandler {
+    return this.tracer
+      ? this.tracer.instrumentMiddleware(phase, middleware)
+      : middleware
+  }
+
+  /**
+   * Records a load balancer target selection in a span when tracing is
+   * enabled
+   */
+  private traceTargetSelection(
+    strategy: string,
+    select: () => LoadBalancerTarget | null,
+  ): LoadBalancerTarget | null {
+    if (!this.tracer) {
+      return select()
+    }
+    const span = this.tracer.startSpan('load_balancer select', {
+      attributes: { 'bungate.load_balancer.strategy': strategy },
+    })
+    try {
+      const target = select()
+      if (target) {
+        span.setAttribute('bungate.target', target.url)
+      } else {
+        span.setStatus('error', 'No healthy targets available')
+      }
+      return target
+    } catch (error) {
+      span.recordError(error as Error)
+      throw error
+    } finally {
+      span.end()
+    }
+  }
+
+  /**
+   * Sends an upstream attempt in a client span when tracing is enabled. The
+   * span is active while the request is built, so its context is propagated
+   * upstream, and records the circuit breaker state the attempt met.
+   */
+  private traceUpstream(
+    req: ZeroRequest,
+    url: string,
+    proxy: ProxyInstance,
+    attemptNumber: number,
+    send: () => Promise<RetryAttemptResult>,
+  ): Promise<RetryAttemptResult> {
+    if (!this.tracer) {
+      return send()
+    }
+    return this.tracer.trace(
+      req.method,
+      {
+        kind: 'client',
+        attributes: {
+          'http.request.method': req.method,
+          'url.full': url,
+          'bungate.attempt': attemptNumber,
+          'bungate.circuit_breaker.state': proxy.getCircuitBreakerState(),
+        },
+      },
+      async (span) => {
+        const result = await send()
+        span.setAttribute('http.response.status_code', result.response.status)
+        if (result.error) {
+          span.recordError(result.error)
+        } else if (result.response.status >= 500) {
+          span.setStatus('error')
+        }
+        return result
+      },
+    )
+  }
+
+  /**
+   * Records the circuit breaker's decision on an upstream attempt in the
+   * attempt's span when tracing is enabled, then runs the route's hook
+   */
+  private traceCircuitBreaker(
+    hook?: AfterCircuitBreakerHook,
+  ): AfterCircuitBreakerHook | undefined {
+    if (!this.tracer) {
+      return hook
+    }
+    return (req: Request, result: CircuitBreakerResult) => {
+      currentSpan()?.addEvent('circuit_breaker', {
+        'bungate.circuit_breaker.state': result.state,
+        'bungate.circuit_breaker.success': result.success,
+        'bungate.circuit_breaker.duration_ms': result.executionTimeMs,
+      })
+      return hook?.(req, result)
     }
   }
 
@@ -674,13 +1871,19 @@ export class BunGateway implements Gateway {
    * - Strips sensitive authentication headers by default
    * - Rewrites Host to the upstream hostname
    * - Applies per-route proxy headers
+   *
+   * `headers` replaces the inbound request headers as the starting point, e.g.
+   * for cache revalidation requests; `body` replaces the inbound body, e.g. a
+   * buffered copy replayed by a retry.
    */
   private sanitizeProxyRequest(
     req: ZeroRequest,
     targetUrlOrPath: string,
     proxyConfig?: RouteConfig['proxy'],
+    headers: Headers = req.headers,
+    body: RequestInit['body'] = req.body,
   ): Request {
-    const incomingHeaders = new Headers(req.headers)
+    const incomingHeaders = new Headers(headers)
 
     // 1. Remove hop-by-hop headers
     const hopByHop = new Set([
@@ -737,6 +1940,17 @@ export class BunGateway implements Gateway {
     )
     sanitizedHeaders.set('x-forwarded-host', inboundUrl.host)
 
+    // Forward the gateway's request ID in place of any the client sent
+    const requestId = currentRequestId()
+    if (requestId) {
+      sanitizedHeaders.set(REQUEST_ID_HEADER, requestId)
+    } else {
+      sanitizedHeaders.delete(REQUEST_ID_HEADER)
+    }
+
+    // Propagate the trace context of the upstream attempt
+    this.tracer?.inject(sanitizedHeaders)
+
     // 4. Rewrite Host header to upstream hostname
     try {
       const upstreamHost = targetUrlOrPath.includes('://')
@@ -759,11 +1973,98 @@ export class BunGateway implements Gateway {
     return new Request(req.url, {
       method: req.method,
       headers: sanitizedHeaders,
-      body: req.body,
+      body,
+    })
+  }
+
+  /**
+   * Relays a WebSocket upgrade request to a target of the upstream; the
+   * target counts the connection until it closes
+   */
+  private async proxyWebSocket(
+    req: ZeroRequest,
+    route: RouteConfig,
+    upstream: { loadBalancer?: HttpLoadBalancer; target?: string },
+    targetPath: string,
+  ): Promise<Response> {
+    if (!this.server) {
+      return new Response('WebSocket proxying requires gateway.listen()', {
+        status: 501,
+      })
+    }
+
+    let base = upstream.target
+    let onClose: ((durationMs: number, error?: Error) => void) | undefined
+    const loadBalancer = upstream.loadBalancer
+    if (loadBalancer) {
+      const target = loadBalancer.selectTarget(
+        req as Request,
+        this.getClientIP(req),
+      )
+      if (!target) {
+        throw new Error('No healthy targets available')
+      }
+      base = target.url
+      loadBalancer.incrementConnections(target.url)
+      onClose = (durationMs, error) => {
+        loadBalancer.decrementConnections(target.url)
+        if (error) {
+          loadBalancer.recordResponse(target.url, durationMs, true)
+        }
+      }
+    }
+
+    const url = toWebSocketUrl(base + targetPath)
+    return this.webSocketProxy.upgrade(req as Request, this.server, {
+      route: route.pattern,
+      url,
+      headers: this.sanitizeProxyRequest(
+        req,
+        url,
+        route.proxy,
+        req.headers,
+        null,
+      ).headers,
+      config: route.websocket ?? {},
+      onClose,
+    })
+  }
+
+  /**
+   * Builds the shadow copy of a request for a route's traffic mirror
+   */
+  private createMirrorRequest(
+    req: ZeroRequest,
+    mirror: TrafficMirror,
+    targetPath: string,
+    route: RouteConfig,
+  ): Request {
+    const headers = new Headers(req.headers)
+    if (!mirror.includeBody) {
+      headers.delete('content-length')
+    }
+    const url = mirror.target + targetPath
+    const shadowReq = this.sanitizeProxyRequest(
+      req,
+      url,
+      route.proxy,
+      headers,
+      mirror.includeBody ? req.clone().body : null,
+    )
+    return new Request(url, {
+      method: shadowReq.method,
+      headers: shadowReq.headers,
+      body: shadowReq.body,
     })
   }
 
   private getClientIP(req: ZeroRequest): string {
+    // Aggregate calls have no socket; they act for the client of their route
+    const aggregateClient = this.aggregateClients.get(req as Request)
+    if (aggregateClient) {
+      return aggregateClient
+    }
+
     // Always derive the direct peer address from the underlying socket when available.
     const socketInfo = this.server?.requestIP(req as Request)
     const directIP = socketInfo?.address ?? 'unknown'
@@ -798,17 +2099,19 @@ export class BunGateway implements Gateway {
     return directIP
   }
 
-  removeRoute(pattern: string): void {
-    // Not implemented in the underlying router yet
-    throw new Error('removeRoute is not implemented')
-  }
-
   getConfig(): GatewayConfig {
     return this.config
   }
 
   async listen(port?: number): Promise<Server> {
     const listenPort = port || this.config.server?.port || 3000
+    this.draining = false
+    this.closing = null
+    await this.pluginsReady
+
+    if (this.adminServer && !this.adminServer.isRunning()) {
+      this.adminServer.start()
+    }
 
     // If cluster mode is enabled and we're the master, start the cluster
     if (this.clusterManager && this.isClusterMaster) {
@@ -839,6 +2142,7 @@ export class BunGateway implements Gateway {
     const serverOptions: any = {
       port: listenPort,
       fetch: this.fetch,
+      websocket: this.webSocketProxy.handler,
       // Enable port sharing for cluster mode
       reusePort: !!process.env.CLUSTER_WORKER,
       // Honor configured bind hostname to avoid accidental 0.0.0.0 exposure
@@ -883,13 +2187,42 @@ export class BunGateway implements Gateway {
       )
     }
 
+    // Cluster workers are stopped by the cluster manager
+    if (
+      !process.env.CLUSTER_WORKER &&
+      this.config.server?.shutdownOnSignal !== false
+    ) {
+      this.installSignalHandler()
+    }
+
+    await this.plugins.listen(this.server)
     return this.server
   }
 
-  async close(): Promise<void> {
+  close(options: GatewayCloseOptions = {}): Promise<void> {
+    this.closing ??= this.shutdown(
+      options.drainTimeout ??
+        this.config.server?.drainTimeout ??
+        DEFAULT_DRAIN_TIMEOUT,
+    )
+    return this.closing
+  }
+
+  /**
+   * Stops accepting connections, waits up to `drainTimeout` milliseconds
+   * for in-flight requests and then streams, and releases every resource
+   */
+  private async shutdown(drainTimeout: number): Promise<void> {
+    const deadline = Date.now() + drainTimeout
+    // Readiness fails from here on, so load balancers stop sending traffic
+    this.draining = true
+    this.removeSignalHandler()
+    this.adminServer?.stop()
+
     if (this.clusterManager && this.isClusterMaster) {
       // In cluster mode, the cluster manager handles shutdown
       // This will be handled by the cluster manager's signal handlers
+      await this.releaseResources()
       return
     }
 
@@ -900,8 +2233,87 @@ export class BunGateway implements Gateway {
     }
 
     if (this.server) {
-      this.server.stop()
+      // Stop listening; open connections finish their requests
+      void this.server.stop()
+      this.webSocketProxy.closeAll()
+    }
+
+    const inFlight = this.pendingRequests.size
+    if (inFlight > 0) {
+      this.config.logger?.info('Draining in-flight requests', {
+        inFlight,
+        drainTimeout,
+      })
+    }
+    await this.waitForRequests(deadline)
+    if (this.pendingRequests.size > 0) {
+      this.config.logger?.warn('Drain timeout reached, closing connections', {
+        inFlight: this.pendingRequests.size,
+      })
+    }
+    await this.streamRelay.drain(Math.max(0, deadline - Date.now()))
+
+    if (this.server) {
+      await this.server.stop(true)
       this.server = null
     }
+    await this.releaseResources()
+  }
+
+  /**
+   * Waits until the requests in flight have been answered, or the deadline
+   */
+  private async waitForRequests(deadline: number): Promise<void> {
+    let timer: ReturnType<typeof setTimeout> | undefined
+    await Promise.race([
+      Promise.allSettled([...this.pendingRequests]),
+      new Promise<void>((resolve) => {
+        timer = setTimeout(resolve, Math.max(0, deadline - Date.now()))
+      }),
+    ])
+    clearTimeout(timer)
+  }
+
+  /**
+   * Destroys the load balancers and proxies of every route, and closes the
+   * plugins, the tracer and the access log
+   */
+  private async releaseResources(): Promise<void> {
+    this.stopConfigReloads?.()
+    this.stopConfigReloads = null
+    for (const compiled of this.getCompiledRoutes()) {
+      this.disposeRoute(compiled)
+    }
+    await this.plugins.close()
+    await this.tracer?.close()
+    await this.accessLog?.close()
+  }
+
+  /**
+   * Closes the gateway on SIGTERM, then exits unless `server.exitOnShutdown`
+   * is false
+   */
+  private installSignalHandler(): void {
+    if (this.signalHandler) return
+    this.signalHandler = () => {
+      this.config.logger?.info('Received SIGTERM, shutting down gracefully')
+      this.close()
+        .catch((error) => {
+          this.config.logger?.error('Graceful shutdown failed', error as Error)
+        })
+        .finally(() => {
+          if (this.config.server?.exitOnShutdown !== false) {
+            process.exit(0)
+          }
+        })
+    }
+    process.on('SIGTERM', this.signalHandler)
+  }
+
+  private removeSignalHandler(): void {
+    if (this.signalHandler) {
+      process.off('SIGTERM', this.signalHandler)
+      this.signalHandler = null
+    }
   }
 }
@@ -0,0 +1,270 @@
+/**
+ * Gateway Health Endpoints
+ *
+ * Built-in liveness and readiness endpoints served under `healthCheck.path`:
+ *
+ * - `{path}` and `{path}/live`: liveness, 200 while the process can serve requests
+ * - `{path}/ready`: readiness, 503 while draining for shutdown, when a route's
+ *   load balancer has no healthy target, or when a route's circuit breaker is open
+ *
+ * Response detail follows `healthCheckAuth.detailLevel` and access is guarded by
+ * `healthCheckAuth` (credentials and IP whitelist), with `publicEndpoints`
+ * reachable without credentials so orchestrator probes keep working.
+ */
+
+import type { RouteConfig } from '../interfaces/route'
+import type { LoadBalancer } from '../interfaces/load-balancer'
+import type { ProxyInstance } from '../interfaces/proxy'
+import type { Logger } from '../interfaces/logger'
+import type { HealthCheckAuthConfig } from '../security/config'
+import {
+  createEndpointAuthenticator,
+  type EndpointAuthResult,
+} from '../security/endpoint-auth'
+
+/**
+ * Amount of information included in health responses
+ */
+export type HealthDetailLevel = 'minimal' | 'standard' | 'detailed'
+
+/**
+ * Runtime state of a route inspected by the readiness check
+ */
+export interface HealthRouteSource {
+  route: RouteConfig
+  methods: Array<{
+    proxy: Pick<ProxyInstance, 'getCircuitBreakerState'>
+    loadBalancer?: Pick<LoadBalancer, 'getTargets' | 'getHealthyTargets'>
+  }>
+}
+
+/**
+ * Readiness of a single route
+ */
+export interface RouteReadiness {
+  pattern: string
+  /**
+   * Healthy targets across the route's load balancers; undefined for routes
+   * without a load balancer
+   */
+  healthyTargets?: number
+  totalTargets?: number
+  /** Whether any of the route's circuit breakers is open */
+  circuitOpen: boolean
+  ready: boolean
+}
+
+/**
+ * Result of a readiness evaluation
+ */
+export interface ReadinessReport {
+  ready: boolean
+  draining: boolean
+  routes: RouteReadiness[]
+}
+
+/**
+ * Options for HealthEndpoints
+ */
+export interface HealthEndpointsOptions {
+  /**
+   * Base path of the health endpoints
+   * @default "/health"
+   */
+  path?: string
+  /** Access control and detail level */
+  auth?: HealthCheckAuthConfig
+  /** Returns the routes currently in the route table */
+  getRoutes: () => HealthRouteSource[]
+  /** Whether the gateway is draining for shutdown */
+  isDraining: () => boolean
+  /** Resolves the client IP used for the IP whitelist */
+  getClientIP: (req: Request) => string
+  logger?: Logger
+}
+
+function json(body: unknown, status: number, method: string): Response {
+  return new Response(method === 'HEAD' ? null : JSON.stringify(body), {
+    status,
+    headers: {
+      'content-type': 'application/json',
+      'cache-control': 'no-store',
+    },
+  })
+}
+
+/**
+ * Serves the gateway's liveness and readiness endpoints
+ */
+export class HealthEndpoints {
+  private readonly options: HealthEndpointsOptions
+  private readonly basePath: string
+  private readonly livePath: string
+  private readonly readyPath: string
+  private readonly detailLevel: HealthDetailLevel
+  private readonly publicEndpoints: Set<string>
+  private readonly authenticate?: (
+    req: Request,
+    clientIP: string,
+  ) => EndpointAuthResult
+  private readonly startedAt = Date.now()
+
+  constructor(options: HealthEndpointsOptions) {
+    this.options = options
+    const path = options.path ?? '/health'
+    if (!path.startsWith('/')) {
+      throw new Error(`Health check path must start with "/": ${path}`)
+    }
+    this.basePath = path.length > 1 ? path.replace(/\/+$/, '') : path
+    const prefix = this.basePath === '/' ? '' : this.basePath
+    this.livePath = `${prefix}/live`
+    this.readyPath = `${prefix}/ready`
+
+    const auth = options.auth
+    this.detailLevel = auth?.detailLevel ?? 'minimal'
+    this.publicEndpoints = new Set(auth?.publicEndpoints ?? [])
+    if (auth?.enabled) {
+      this.authenticate = createEndpointAuthenticator({
+        auth: auth.authentication && {
+          type: auth.authentication.type,
+          credentials: auth.authentication.credentials ?? {},
+        },
+        ipWhitelist: auth.ipWhitelist,
+        logger: options.logger,
+      })
+    }
+  }
+
+  /**
+   * Returns the request path if the URL targets one of the health endpoints
+   */
+  match(url: string): string | undefined {
+    // Cheap substring test first so regular traffic skips URL parsing
+    if (!url.includes(this.basePath)) {
+      return undefined
+    }
+    const pathname = new URL(url).pathname
+    return pathname === this.basePath ||
+      pathname === this.livePath ||
+      pathname === this.readyPath
+      ? pathname
+      : undefined
+  }
+
+  /**
+   * Handles a health request
+   *
+   * @param req - Incoming request
+   * @param pathname - Request path returned by match()
+   */
+  handle(req: Request, pathname: string): Response {
+    const method = req.method
+    if (method !== 'GET' && method !== 'HEAD') {
+      const response = json({ error: 'Method not allowed' }, 405, method)
+      response.headers.set('allow', 'GET, HEAD')
+      return response
+    }
+
+    if (this.authenticate && !this.publicEndpoints.has(pathname)) {
+      const result = this.authenticate(req, this.options.getClientIP(req))
+      if (!result.allowed) {
+        return json({ error: result.reason }, result.status!, method)
+      }
+    }
+
+    if (pathname === this.readyPath) {
+      const report = this.evaluateReadiness()
+      return json(
+        this.describeReadiness(report),
+        report.ready ? 200 : 503,
+        method,
+      )
+    }
+
+    return json(this.describeLiveness(), 200, method)
+  }
+
+  /**
+   * Evaluates readiness from draining state and every route's upstreams
+   */
+  evaluateReadiness(): ReadinessReport {
+    const draining = this.options.isDraining()
+    const routes = this.options.getRoutes().map((source): RouteReadiness => {
+      const circuitOpen = source.methods.some(
+        (entry) =>
+          String(entry.proxy.getCircuitBreakerState()).toUpperCase() === 'OPEN',
+      )
+      // Methods share their backend's load balancer; split routes have one
+      // per backend, each of which must have a healthy target
+      const loadBalancers = new Set(
+        source.methods.flatMap((entry) =>
+          entry.loadBalancer ? [entry.loadBalancer] : [],
+        ),
+      )
+      let healthyTargets: number | undefined
+      let totalTargets: number | undefined
+      let unavailable = false
+      for (const loadBalancer of loadBalancers) {
+        const healthy = loadBalancer.getHealthyTargets().length
+        healthyTargets = (healthyTargets ?? 0) + healthy
+        totalTargets = (totalTargets ?? 0) + loadBalancer.getTargets().length
+        unavailable ||= healthy === 0
+      }
+      return {
+        pattern: source.route.pattern,
+        healthyTargets,
+        totalTargets,
+        circuitOpen,
+        ready: !circuitOpen && !unavailable,
+      }
+    })
+
+    return {
+      ready: !draining && routes.every((route) => route.ready),
+      draining,
+      routes,
+    }
+  }
+
+  private describeLiveness(): Record<string, unknown> {
+    const body: Record<string, unknown> = { status: 'ok' }
+    if (this.detailLevel !== 'minimal') {
+      body.timestamp = new Date().toISOString()
+    }
+    if (this.detailLevel === 'detailed') {
+      body.uptime = Math.round((Date.now() - this.startedAt) / 1000)
+      body.pid = process.pid
+    }
+    return body
+  }
+
+  private describeReadiness(report: ReadinessReport): Record<string, unknown> {
+    const body: Record<string, unknown> = {
+      status: report.ready ? 'ready' : 'not_ready',
+    }
+    if (this.detailLevel === 'minimal') {
+      return body
+    }
+
+    const unavailable = report.routes.filter(
+      (route) => route.healthyTargets === 0,
+    ).length
+    const open = report.routes.filter((route) => route.circuitOpen).length
+    body.timestamp = new Date().toISOString()
+    body.checks = {
+      draining: { status: report.draining ? 'fail' : 'pass' },
+      upstreams: {
+        status: unavailable > 0 ? 'fail' : 'pass',
+        routes: report.routes.length,
+        unavailable,
+      },
+      circuitBreakers: { status: open > 0 ? 'fail' : 'pass', open },
+    }
+
+    if (this.detailLevel === 'detailed') {
+      body.uptime = Math.round((Date.now() - this.startedAt) / 1000)
+      body.routes = report.routes
+    }
+    return body
+  }
+}
@@ -0,0 +1,14 @@
+/**
+ * Bungate Health Module
+ *
+ * Liveness and readiness endpoints reflecting upstream and shutdown state
+ */
+
+export {
+  HealthEndpoints,
+  type HealthDetailLevel,
+  type HealthEndpointsOptions,
+  type HealthRouteSource,
+  type ReadinessReport,
+  type RouteReadiness,
+} from './health-endpoints'
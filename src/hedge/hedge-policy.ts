@@ -0,0 +1,272 @@
+/**
+ * Hedge Policy
+ *
+ * Speculative "hedged" requests for latency-sensitive load-balanced routes. If
+ * the first upstream has not answered after a delay, a second request goes to
+ * another target; the first response wins and the other request is aborted.
+ *
+ * The delay is either fixed or derived from a percentile of recent upstream
+ * latencies, so only the slowest requests are hedged. Hedges are capped by a
+ * budget expressed as a share of the route's traffic.
+ */
+
+import type { RetryAttemptResult } from '../retry/retry-policy'
+
+/**
+ * Hedging configuration of a load-balanced route
+ */
+export interface HedgeConfig {
+  /**
+   * Fixed delay in milliseconds before the hedged request is sent; when
+   * omitted the delay is derived from recent latencies
+   */
+  delay?: number
+  /**
+   * Percentile of recent upstream latencies used as the delay
+   * @default 95
+   */
+  percentile?: number
+  /**
+   * Lower bound of the derived delay in milliseconds
+   * @default 10
+   */
+  minDelay?: number
+  /**
+   * Upper bound of the derived delay in milliseconds
+   * @default 1000
+   */
+  maxDelay?: number
+  /**
+   * Largest share of requests, in percent, that may be hedged
+   * @default 10
+   */
+  budgetPercent?: number
+  /**
+   * Methods that are hedged; only idempotent methods should be listed
+   * @default ['GET', 'HEAD', 'OPTIONS']
+   */
+  methods?: string[]
+}
+
+/**
+ * Sends one of the competing upstream requests
+ *
+ * @param signal - Aborted when the other request wins
+ * @returns The outcome, or null when the request could not be sent, e.g. when
+ *   no other target is available for the hedge
+ */
+export type HedgeRequest = (
+  signal: AbortSignal,
+) => Promise<RetryAttemptResult> | null
+
+const DEFAULT_METHODS = ['GET', 'HEAD', 'OPTIONS']
+/** Latency samples kept for the percentile */
+const SAMPLE_SIZE = 512
+/** Samples needed before the percentile replaces the target's average */
+const MIN_SAMPLES = 20
+/** Samples recorded before the percentile is recomputed */
+const RECOMPUTE_EVERY = 32
+/** Period over which the hedge budget is accounted */
+const BUDGET_WINDOW_MS = 10_000
+
+/**
+ * Hedge policy of a route
+ *
+ * @example
+ * ```ts
+ * const policy = new HedgePolicy({ percentile: 95, budgetPercent: 5 })
+ * const result = await policy.execute(
+ *   (signal) => send(primaryTarget, signal),
+ *   (signal) => send(otherTarget, signal),
+ * )
+ * ```
+ */
+export class HedgePolicy {
+  private readonly fixedDelay?: number
+  private readonly percentile: number
+  private readonly minDelay: number
+  private readonly maxDelay: number
+  private readonly budgetPercent: number
+  private readonly methods: Set<string>
+
+  private readonly samples: number[] = []
+  private nextSample = 0
+  private samplesSinceCompute = 0
+  private percentileDelay?: number
+
+  private windowStart = Date.now()
+  private windowRequests = 0
+  private windowHedges = 0
+
+  constructor(config: HedgeConfig = {}) {
+    this.fixedDelay =
+      config.delay === undefined ? undefined : Math.max(0, config.delay)
+    this.percentile = Math.min(100, Math.max(1, config.percentile ?? 95))
+    this.minDelay = Math.max(0, config.minDelay ?? 10)
+    this.maxDelay = Math.max(this.minDelay, config.maxDelay ?? 1000)
+    this.budgetPercent = Math.min(100, Math.max(0, config.budgetPercent ?? 10))
+    this.methods = new Set(
+      (config.methods ?? DEFAULT_METHODS).map((m) => m.toUpperCase()),
+    )
+  }
+
+  /**
+   * Returns true if requests with this method may be hedged
+   */
+  allowsMethod(method: string): boolean {
+    return this.budgetPercent > 0 && this.methods.has(method.toUpperCase())
+  }
+
+  /**
+   * Records the latency of a completed upstream request
+   */
+  recordLatency(durationMs: number): void {
+    if (this.samples.length < SAMPLE_SIZE) {
+      this.samples.push(durationMs)
+    } else {
+      this.samples[this.nextSample] = durationMs
+      this.nextSample = (this.nextSample + 1) % SAMPLE_SIZE
+    }
+    if (++this.samplesSinceCompute >= RECOMPUTE_EVERY) {
+      this.percentileDelay = undefined
+    }
+  }
+
+  /**
+   * Delay before a hedged request is sent
+   *
+   * @param averageResponseTime - Average latency of the primary target, used
+   *   until enough latencies have been recorded for the percentile
+   */
+  delay(averageResponseTime?: number): number {
+    if (this.fixedDelay !== undefined) {
+      return this.fixedDelay
+    }
+
+    let delay: number
+    if (this.samples.length >= MIN_SAMPLES) {
+      if (this.percentileDelay === undefined) {
+        const sorted = [...this.samples].sort((a, b) => a - b)
+        const index = Math.ceil((this.percentile / 100) * sorted.length) - 1
+        this.percentileDelay = sorted[Math.max(0, index)]!
+        this.samplesSinceCompute = 0
+      }
+      delay = this.percentileDelay
+    } else {
+      delay = averageResponseTime || this.maxDelay
+    }
+    return Math.min(this.maxDelay, Math.max(this.minDelay, delay))
+  }
+
+  /**
+   * Sends the primary request, and a hedged request when the primary has not
+   * answered within the delay and the budget allows it
+   *
+   * A response reported as failed by the proxy does not win while the other
+   * request is pending. The losing request is aborted and its body released.
+   */
+  async execute(
+    primary: (signal: AbortSignal) => Promise<RetryAttemptResult>,
+    hedge: HedgeRequest,
+    averageResponseTime?: number,
+  ): Promise<RetryAttemptResult> {
+    this.rollBudgetWindow()
+    this.windowRequests++
+
+    const primaryController = new AbortController()
+    const first = primary(primaryController.signal)
+
+    let timer: ReturnType<typeof setTimeout> | undefined
+    const answered = await Promise.race([
+      first.then(
+        () => true,
+        () => true,
+      ),
+      new Promise<boolean>((resolve) => {
+        timer = setTimeout(
+          () => resolve(false),
+          this.delay(averageResponseTime),
+        )
+      }),
+    ])
+    clearTimeout(timer)
+
+    if (answered || !this.hasBudget()) {
+      return first
+    }
+
+    const hedgeController = new AbortController()
+    const second = hedge(hedgeController.signal)
+    if (!second) {
+      return first
+    }
+    this.windowHedges++
+
+    return race([
+      { promise: first, controller: primaryController },
+      { promise: second, controller: hedgeController },
+    ])
+  }
+
+  /**
+   * Returns true if one more hedge stays within the budget
+   */
+  private hasBudget(): boolean {
+    return (
+      (this.windowHedges + 1) * 100 <= this.windowRequests * this.budgetPercent
+    )
+  }
+
+  private rollBudgetWindow(): void {
+    const now = Date.now()
+    if (now - this.windowStart >= BUDGET_WINDOW_MS) {
+      this.windowStart = now
+      this.windowRequests = 0
+      this.windowHedges = 0
+    }
+  }
+}
+
+/**
+ * Resolves with the first successful outcome, aborting the other contenders;
+ * failures only settle the race once every contender has failed
+ */
+function race(
+  contenders: Array<{
+    promise: Promise<RetryAttemptResult>
+    controller: AbortController
+  }>,
+): Promise<RetryAttemptResult> {
+  return new Promise((resolve, reject) => {
+    let pending = contenders.length
+    let settled = false
+
+    const settle = (winner: number) => {
+      settled = true
+      contenders.forEach(({ controller }, i) => {
+        if (i !== winner) controller.abort()
+      })
+    }
+
+    contenders.forEach(({ promise }, i) => {
+      promise.then(
+        (result) => {
+          pending--
+          if (!settled && (!result.error || pending === 0)) {
+            settle(i)
+            resolve(result)
+          } else {
+            result.response.body?.cancel().catch(() => {})
+          }
+        },
+        (error) => {
+          pending--
+          if (!settled && pending === 0) {
+            settle(i)
+            reject(error)
+          }
+        },
+      )
+    })
+  })
+}
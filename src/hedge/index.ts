@@ -0,0 +1,11 @@
+/**
+ * Bungate Hedge Module
+ *
+ * Speculative hedged requests for latency-sensitive load-balanced routes
+ */
+
+export {
+  HedgePolicy,
+  type HedgeConfig,
+  type HedgeRequest,
+} from './hedge-policy'
@@ -112,11 +112,37 @@ export { GatewayProxy, createGatewayProxy } from './proxy/gateway-proxy'
  */
 export { BunGateLogger, createLogger } from './logger/pino-logger'
 
+/**
+ * Access log in Common, Combined or custom formats, written to rotated files
+ */
+export {
+  AccessLog,
+  ACCESS_LOG_FORMATS,
+  recordUpstream,
+  type AccessLogConfig,
+  type AccessLogOptions,
+  type AccessLogEntry,
+} from './logger/access-log'
+export {
+  RotatingFileWriter,
+  type LogRotationConfig,
+  type RotatingFileWriterOptions,
+} from './logger/rotating-file-writer'
+
 /**
  * Multi-process cluster manager for horizontal scaling
  * Provides automatic worker management and graceful restarts
  */
 export { ClusterManager } from './cluster/cluster-manager'
+export {
+  listenForConfigReloads,
+  isConfigReloadMessage,
+  isConfigReloadReply,
+  type ConfigReloadMessage,
+  type ConfigReloadReply,
+  type ConfigReloadSummary,
+  type WorkerReloadResult,
+} from './cluster/config-reload'
 // ==================== CONVENIENCE EXPORTS ====================
 
 /**
@@ -134,6 +160,134 @@ export * from './interfaces/index'
  */
 export * from './security/index'
 
+// ==================== CONFIGURATION MODULE ====================
+
+/**
+ * Declarative gateway configuration from JSON, YAML or TOML files
+ * Includes validation with file/line context and hot reload of routes
+ */
+export * from './config/index'
+
+// ==================== ADMIN MODULE ====================
+
+/**
+ * Authenticated admin REST API for inspecting and controlling a live gateway
+ */
+export * from './admin/index'
+
+// ==================== HEALTH MODULE ====================
+
+/**
+ * Liveness and readiness endpoints reflecting upstream and shutdown state
+ */
+export * from './health/index'
+
+// ==================== METRICS MODULE ====================
+
+/**
+ * Prometheus scrape endpoint with upstream, circuit breaker and rejection series
+ */
+export * from './metrics/index'
+
+// ==================== CACHE MODULE ====================
+
+/**
+ * HTTP response cache for proxied GET/HEAD routes
+ */
+export * from './cache/index'
+
+// ==================== RETRY MODULE ====================
+
+/**
+ * Retry policy with backoff that fails over to other load balancer targets
+ */
+export * from './retry/index'
+
+// ==================== HEDGE MODULE ====================
+
+/**
+ * Speculative hedged requests for latency-sensitive load-balanced routes
+ */
+export * from './hedge/index'
+
+// ==================== SPLIT MODULE ====================
+
+/**
+ * Weighted traffic splitting and canary releases between route backends
+ */
+export * from './split/index'
+
+// ==================== MIRROR MODULE ====================
+
+/**
+ * Fire-and-forget traffic mirroring to a shadow upstream
+ */
+export * from './mirror/index'
+
+// ==================== WEBSOCKET MODULE ====================
+
+/**
+ * WebSocket proxying with idle timeouts, message size limits and metrics
+ */
+export * from './websocket/index'
+
+// ==================== STREAMING MODULE ====================
+
+/**
+ * Server-Sent Events and long-lived streaming responses
+ */
+export * from './streaming/index'
+
+// ==================== ROUTING MODULE ====================
+
+/**
+ * Host, header, query and cookie based route matching, and route groups
+ */
+export * from './routing/index'
+
+// ==================== AGGREGATE MODULE ====================
+
+/**
+ * Backend-for-frontend routes merging several upstream calls
+ */
+export * from './aggregate/index'
+
+// ==================== VALIDATION MODULE ====================
+
+/**
+ * Compiled JSON Schema validation and per-route request and response validation
+ */
+export * from './validation/index'
+
+// ==================== OPENAPI MODULE ====================
+
+/**
+ * Route generation and request validation from OpenAPI documents, and the
+ * gateway's API catalog
+ */
+export * from './openapi/index'
+
+// ==================== FAULTS MODULE ====================
+
+/**
+ * Latency, abort and connection reset injection for chaos testing routes
+ */
+export * from './faults/index'
+
+// ==================== PLUGINS MODULE ====================
+
+/**
+ * Plugins hooking into the gateway lifecycle, requests and responses
+ */
+export * from './plugins/index'
+
+// ==================== TRACING MODULE ====================
+
+/**
+ * Distributed tracing with W3C Trace Context propagation and OTLP export
+ */
+export * from './tracing/index'
+
 // ==================== DEFAULT EXPORT ====================
 
 /**
@@ -7,8 +7,14 @@ import type {
   ZeroRequest,
 } from './middleware'
 import type { ProxyOptions } from './proxy'
-import type { Logger } from './logger'
+import type { Logger, LoggerConfig } from './logger'
 import type { SecurityConfig } from '../security/config'
+import type { AdminConfig } from '../admin/admin-server'
+import type { ApiCatalogConfig } from '../openapi/api-catalog'
+import type { RouteGroup, RouteGroupConfig } from '../routing/route-group'
+import type { BunGatewayPlugin } from '../plugins/plugin-manager'
+import type { TracingConfig } from '../tracing/tracer'
+import type { AccessLogConfig } from '../logger/access-log'
 
 /**
  * Cluster configuration for multi-process gateway deployment
@@ -85,6 +91,18 @@ export interface ClusterConfig {
    * match one of these paths to prevent accidental execution of arbitrary files.
    */
   workerScriptAllowlist?: string[]
+
+  /**
+   * Gateway configuration file the master re-reads, validates and pushes to
+   * the workers on SIGHUP or `ClusterManager.reloadConfig()`
+   */
+  configFile?: string
+
+  /**
+   * Milliseconds to wait for each worker to apply a reloaded configuration
+   * @default 10000
+   */
+  reloadTimeout?: number
 }
 
 /**
@@ -111,6 +129,24 @@ export interface GatewayConfig {
      * @default false
      */
     development?: boolean
+    /**
+     * Milliseconds close() waits for in-flight requests and streams before
+     * ending the connections still open
+     * @default 10000
+     */
+    drainTimeout?: number
+    /**
+     * Close the gateway on SIGTERM when it runs outside cluster mode; in
+     * cluster mode the cluster manager handles signals. Turn it off when the
+     * application handles SIGTERM itself.
+     * @default true
+     */
+    shutdownOnSignal?: boolean
+    /**
+     * Exit the process once a SIGTERM shutdown has completed
+     * @default true
+     */
+    exitOnShutdown?: boolean
   }
 
   /**
@@ -279,13 +315,62 @@ export interface GatewayConfig {
      * @default true
      */
     collectDefaultMetrics?: boolean
+    /**
+     * Listener serving the metrics endpoint
+     * - gateway: the data-plane port, answered ahead of the middleware chain
+     * - admin: the admin API port, behind admin authentication
+     * @default "gateway"
+     */
+    exposeOn?: 'gateway' | 'admin'
   }
 
+  /**
+   * Distributed tracing of requests through the gateway to the upstreams
+   * Spans are exported in OTLP/HTTP JSON to an OpenTelemetry collector
+   */
+  tracing?: TracingConfig
+
+  /**
+   * Access log of every request, written to a file in a standard or custom
+   * format, with size and time based rotation
+   */
+  accessLog?: AccessLogConfig
+
   /**
    * Security configuration for the gateway
    * Includes TLS, input validation, error handling, and more
    */
   security?: SecurityConfig
+
+  /**
+   * Admin REST API served on a separate, authenticated listener
+   * Exposes the route table, load balancer and circuit breaker state, and
+   * operational controls. In cluster mode it runs in the master process.
+   */
+  admin?: AdminConfig
+
+  /**
+   * OpenAPI document and HTML catalog of the route table, built from each
+   * route's meta, auth and rate limit settings
+   */
+  catalog?: ApiCatalogConfig
+
+  /**
+   * Plugins registered when the gateway is created, before `routes`, so they
+   * are notified of every route. They may depend on each other in any order.
+   */
+  plugins?: BunGatewayPlugin[]
+}
+
+/**
+ * Options of a gateway shutdown
+ */
+export interface GatewayCloseOptions {
+  /**
+   * Milliseconds to wait for in-flight requests and streams
+   * @default server.drainTimeout, or 10000
+   */
+  drainTimeout?: number
 }
 
 /**
@@ -430,12 +515,92 @@ export interface Gateway {
   addRoute(route: RouteConfig): void
 
   /**
-   * Remove a route dynamically by pattern
-   * Note: This feature depends on 0http-bun router capabilities
-   * @param pattern - URL pattern to remove
-   * @deprecated This method may not be fully implemented yet
+   * Add routes sharing a path prefix and settings
+   * Patterns of the group's routes are relative to the prefix. The group's
+   * auth, rateLimit, proxy and circuitBreaker settings apply to every route,
+   * with the route's own fields taking precedence; group middlewares run
+   * before the route's. Groups can be nested.
+   * @param prefix - Path prefix, e.g. '/api/v2'
+   * @param config - Settings shared by the group's routes
+   * @param define - Adds the group's routes
+   * @example
+   * ```ts
+   * gateway.group('/api/v2', { auth: { secret }, rateLimit: { max: 100 } }, (api) => {
+   *   api.addRoute({ pattern: '/users/*', target: 'http://user-service:3000' })
+   * })
+   * ```
+   */
+  group(
+    prefix: string,
+    config: RouteGroupConfig,
+    define: (group: RouteGroup) => void,
+  ): this
+
+  /**
+   * Register a plugin and call its onInit hook
+   * The plugin is notified of routes added from then on. Its dependencies
+   * must already be registered.
+   * @param plugin - Plugin to register
+   * @throws Error if the name is taken, a dependency is missing or the
+   *   ordering constraints form a cycle
+   * @example
+   * ```ts
+   * gateway.register({
+   *   name: 'audit',
+   *   onResponse: (req, res) => auditLog.write(req.url, res.status),
+   * })
+   * ```
+   */
+  register(plugin: BunGatewayPlugin): this
+
+  /**
+   * Remove the routes registered from RouteConfigs with the given pattern
+   * The route's load balancers stop health checking immediately, and its
+   * proxies are closed once in-flight requests on the route complete.
+   * Handlers registered with `on()`/`get()`/etc. are not affected.
+   * @param pattern - URL pattern of the routes to remove
+   * @returns true if at least one route was removed
+   * @example
+   * ```ts
+   * gateway.removeRoute('/api/legacy/*')
+   * ```
+   */
+  removeRoute(pattern: string): boolean
+
+  /**
+   * Atomically replace every RouteConfig-based route with a new set
+   * The new table is compiled before the swap, so requests see either the old
+   * or the new table, never a mix. If any route fails to compile, the current
+   * table stays in place. Resources of the old routes are released as for
+   * `removeRoute()`.
+   * @param routes - Complete new set of route configurations
+   * @example
+   * ```ts
+   * gateway.replaceRoutes([
+   *   { pattern: '/api/users/*', target: 'http://user-service-v2:3000' },
+   * ])
+   * ```
+   */
+  replaceRoutes(routes: RouteConfig[]): void
+
+  /**
+   * Apply the sections of a configuration that can change at runtime: routes
+   * with their targets and rate limits, the global rate limit and the log
+   * level. Routes are replaced as with `replaceRoutes()`, so a configuration
+   * whose routes fail to compile changes nothing. Other sections take effect
+   * on restart. Cluster workers apply configurations pushed by the master
+   * with this method.
+   * @param config - Configuration, e.g. from `loadGatewayConfig()`
+   * @param logLevel - Log level to apply; that of `config.logger` by default
+   */
+  applyConfig(config: GatewayConfig, logLevel?: LoggerConfig['level']): void
+
+  /**
+   * Get the RouteConfigs currently in the route table
+   * Reflects runtime changes made with addRoute/removeRoute/replaceRoutes
+   * @returns Route configurations in registration order
    */
-  removeRoute(pattern: string): void
+  getRoutes(): RouteConfig[]
 
   /**
    * Get the current gateway configuration
@@ -459,10 +624,12 @@ export interface Gateway {
 
   /**
    * Gracefully stop the gateway server
-   * Closes all connections and performs cleanup
+   * Stops accepting connections, fails readiness, waits for in-flight
+   * requests and streams, then releases load balancers, proxies and timers.
+   * Further calls return the same shutdown.
    * @returns Promise that resolves when server is fully stopped
    */
-  close(): Promise<void>
+  close(options?: GatewayCloseOptions): Promise<void>
 }
 
 /**
@@ -17,7 +17,12 @@
  */
 
 // Core Gateway Interface
-export type { Gateway, GatewayConfig, ClusterConfig } from './gateway'
+export type {
+  Gateway,
+  GatewayConfig,
+  GatewayCloseOptions,
+  ClusterConfig,
+} from './gateway'
 
 // Route Management
 export type { RouteConfig } from './route'
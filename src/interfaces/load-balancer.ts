@@ -179,6 +179,14 @@ export interface LoadBalancerConfig {
    */
   logger?: Logger
 
+  /**
+   * Called with the outcome of every health check probe
+   * @param url - Target URL
+   * @param healthy - Whether the probe succeeded
+   * @param duration - Probe duration in milliseconds
+   */
+  onHealthCheck?: (url: string, healthy: boolean, duration: number) => void
+
   /**
    * Trusted proxy validator for secure client IP extraction
    * Used for IP-based strategies and session affinity
@@ -226,8 +234,14 @@ export interface LoadBalancer {
    * Select next target based on strategy
    * @param request - The incoming HTTP request
    * @param clientIP - Optional pre-validated client IP from the gateway socket
+   * @param exclude - URLs of targets to avoid, e.g. ones that already failed
+   *   this request; ignored when every healthy target is excluded
    */
-  selectTarget(request: Request, clientIP?: string): LoadBalancerTarget | null
+  selectTarget(
+    request: Request,
+    clientIP?: string,
+    exclude?: ReadonlySet<string>,
+  ): LoadBalancerTarget | null
 
   /**
    * Add a target to the load balancer
@@ -94,6 +94,12 @@ export interface ProxyHandler {
    * Useful for forcing reconnection to updated services
    */
   clearURLCache(): void
+
+  /**
+   * Reset the circuit breaker to the closed state with no recorded failures
+   * Requests already in flight complete unaffected
+   */
+  resetCircuitBreaker(): void
 }
 
 /**
@@ -111,4 +117,6 @@ export interface ProxyInstance {
   getCircuitBreakerFailures: ProxyHandler['getCircuitBreakerFailures']
   /** URL cache management */
   clearURLCache: ProxyHandler['clearURLCache']
+  /** Circuit breaker reset */
+  resetCircuitBreaker: ProxyHandler['resetCircuitBreaker']
 }
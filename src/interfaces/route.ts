@@ -4,6 +4,17 @@ import type {
   CircuitBreakerOptions,
 } from 'fetch-gate'
 import type { LoadBalancerConfig } from './load-balancer'
+import type { ResponseCacheConfig } from '../cache/response-cache'
+import type { RetryConfig } from '../retry/retry-policy'
+import type { HedgeConfig } from '../hedge/hedge-policy'
+import type { TrafficSplitConfig } from '../split/traffic-splitter'
+import type { MirrorConfig } from '../mirror/traffic-mirror'
+import type { WebSocketRouteConfig } from '../websocket/websocket-proxy'
+import type { StreamingConfig } from '../streaming/stream-relay'
+import type { RouteMatchConfig } from '../routing/route-matcher'
+import type { AggregateConfig } from '../aggregate/request-aggregator'
+import type { RouteValidationConfig } from '../validation/schema-validation'
+import type { FaultConfig } from '../faults/fault-injector'
 import type {
   JWTAuthOptions,
   RateLimitOptions,
@@ -44,6 +55,12 @@ export interface RouteConfig {
    */
   handler?: RequestHandler
 
+  /**
+   * Answer with the merged JSON results of several calls through the gateway
+   * (alternative to proxying), e.g. to serve a mobile screen in one request
+   */
+  aggregate?: AggregateConfig
+
   /**
    * HTTP methods allowed for this route
    * @default ['GET', 'POST', 'PUT', 'DELETE', 'PATCH', 'HEAD', 'OPTIONS']
@@ -51,6 +68,23 @@ export interface RouteConfig {
    */
   methods?: string[]
 
+  /**
+   * Conditions on the Host, headers, query parameters and cookies a request
+   * must meet, in addition to `pattern` and `methods`. Routes matching a
+   * request's path are tried in registration order; a route whose conditions
+   * fail passes the request on to the next one.
+   * @example { host: '*.tenant.example.com', headers: { 'x-api-version': '2' } }
+   */
+  match?: RouteMatchConfig
+
+  /**
+   * JSON Schemas the request body, query string and route parameters must
+   * match, answering invalid requests with 400; optionally also checks
+   * upstream responses against their contract
+   * @example { body: { type: 'object', required: ['email'] }, response: { body: userSchema, mode: 'log' } }
+   */
+  validation?: RouteValidationConfig
+
   /**
    * Route-specific middleware functions
    * These middlewares run only for this route, in addition to global middlewares
@@ -133,7 +167,8 @@ export interface RouteConfig {
     ) => void | Promise<void>
 
     /**
-     * Called after the response is received from the target service
+     * Called after the response is received from the target service, or
+     * once the stream closes on routes with `streaming` set
      * Allows inspection or modification of the response
      * @param req - The original request object
      * @param res - The response from the target service
@@ -194,11 +229,65 @@ export interface RouteConfig {
    */
   rateLimit?: RateLimitOptions
 
+  /**
+   * Response cache for proxied GET/HEAD requests
+   * Honors upstream Cache-Control, Expires and Vary; shared by all methods of the route
+   */
+  cache?: ResponseCacheConfig
+
+  /**
+   * Retry policy for failed upstream requests
+   * Each retry goes to a different load balancer target when one is available
+   */
+  retry?: RetryConfig
+
+  /**
+   * Speculative hedged requests to a second load balancer target when the
+   * first one is slow; requires `loadBalancer`
+   */
+  hedge?: HedgeConfig
+
+  /**
+   * Weighted traffic split between named backends, e.g. stable and canary
+   * Replaces `target` and `loadBalancer`; weights can be changed at runtime
+   */
+  split?: TrafficSplitConfig
+
+  /**
+   * Copies a sample of proxied requests to a shadow upstream; shadow
+   * responses are discarded and never affect the client response
+   */
+  mirror?: MirrorConfig
+
+  /**
+   * Injects latency, aborts or connection resets into a percentage of
+   * requests for chaos testing; can be toggled at runtime through the admin API
+   * @example { abort: { status: 503, percentage: 20 }, when: { headers: { 'x-chaos': 'on' } } }
+   */
+  faults?: FaultConfig
+
+  /**
+   * Relays WebSocket upgrade requests to the route's target or load balancer
+   * pool; requires the gateway to serve requests through `listen()`
+   */
+  websocket?: WebSocketRouteConfig
+
+  /**
+   * Streaming mode for Server-Sent Events and other long-lived responses;
+   * `timeout` then only bounds the wait for the response headers
+   */
+  streaming?: StreamingConfig
+
   /**
    * Route metadata for documentation and introspection
    * Useful for API documentation generation and monitoring
    */
   meta?: {
+    /**
+     * Unique identifier of the operation, as in OpenAPI
+     * @example 'getUserProfile'
+     */
+    operationId?: string
     /**
      * Human-readable name for this route
      * @example 'Get User Profile'
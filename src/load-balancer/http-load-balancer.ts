@@ -255,11 +255,17 @@ export class HttpLoadBalancer implements LoadBalancer {
    *
    * @param request - The incoming HTTP request to route
    * @param clientIP - Optional pre-validated client IP from the gateway socket
+   * @param exclude - URLs of targets to avoid, e.g. ones that already failed
+   *   this request; ignored when every healthy target is excluded
    * @returns Selected target or null if no healthy targets available
    */
-  selectTarget(request: Request, clientIP?: string): LoadBalancerTarget | null {
+  selectTarget(
+    request: Request,
+    clientIP?: string,
+    exclude?: ReadonlySet<string>,
+  ): LoadBalancerTarget | null {
     const startTime = Date.now()
-    const healthyTargets = this.getHealthyTargets()
+    let healthyTargets = this.getHealthyTargets()
 
     if (healthyTargets.length === 0) {
       this.logger.warn('No healthy targets available', {
@@ -269,6 +275,13 @@ export class HttpLoadBalancer implements LoadBalancer {
       return null
     }
 
+    if (exclude && exclude.size > 0) {
+      const remaining = healthyTargets.filter((t) => !exclude.has(t.url))
+      if (remaining.length > 0) {
+        healthyTargets = remaining
+      }
+    }
+
     // Fast path: only one healthy target
     if (healthyTargets.length === 1) {
       const only = healthyTargets[0]!
@@ -285,7 +298,12 @@ export class HttpLoadBalancer implements LoadBalancer {
     let stickySetCookie: string | undefined
     if (this.config.stickySession?.enabled) {
       const stickyResult = this.getStickyTarget(request)
-      if (stickyResult?.target) {
+      const stickyUrl = stickyResult?.target?.url
+      // An excluded sticky target is left for the strategy to replace
+      if (
+        stickyResult?.target &&
+        healthyTargets.some((t) => t.url === stickyUrl)
+      ) {
         this.recordRequest(stickyResult.target.url)
         this.logger.logLoadBalancing(
           this.config.strategy,
@@ -1034,7 +1052,7 @@ export class HttpLoadBalancer implements LoadBalancer {
               this.applyHealthState(target.url, true)
             }
 
-            this.logger.logHealthCheck(target.url, bodyMatches, duration)
+            this.reportHealthCheck(target.url, bodyMatches, duration)
           } else {
             if (isHealthy) {
               target.consecutiveSuccesses++
@@ -1055,7 +1073,7 @@ export class HttpLoadBalancer implements LoadBalancer {
               this.applyHealthState(target.url, true)
             }
 
-            this.logger.logHealthCheck(
+            this.reportHealthCheck(
               target.url,
               isHealthy,
               duration,
@@ -1077,12 +1095,7 @@ export class HttpLoadBalancer implements LoadBalancer {
             )
           }
 
-          this.logger.logHealthCheck(
-            target.url,
-            false,
-            duration,
-            error as Error,
-          )
+          this.reportHealthCheck(target.url, false, duration, error as Error)
         }
       },
     )
@@ -1090,6 +1103,21 @@ export class HttpLoadBalancer implements LoadBalancer {
     await Promise.allSettled(promises)
   }
 
+  /**
+   * Logs a health check result and notifies the onHealthCheck observer
+   */
+  private reportHealthCheck(
+    url: string,
+    healthy: boolean,
+    duration: number,
+    error?: Error,
+  ): void {
+    this.logger.logHealthCheck(url, healthy, duration, error)
+    try {
+      this.config.onHealthCheck?.(url, healthy, duration)
+    } catch {}
+  }
+
   /**
    * Reads at most `maxBytes` from a response body to prevent memory exhaustion.
    */
@@ -0,0 +1,332 @@
+/**
+ * Access Log
+ *
+ * Writes one line per request in the Common or Combined Log Format, or in a
+ * custom template with nginx-style `$variables` that can include the
+ * upstream targets and their latency, the cache status and the request ID.
+ *
+ * Lines go to a file through a RotatingFileWriter, so logging never blocks
+ * the request path. Cluster workers each write to a file of their own, named
+ * after the configured path with the worker ID, e.g. `access.worker-2.log`.
+ */
+
+import { AsyncLocalStorage } from 'node:async_hooks'
+import { extname } from 'node:path'
+import type { Logger } from '../interfaces/logger'
+import { currentRequestId } from '../security/request-id'
+import {
+  RotatingFileWriter,
+  type LogRotationConfig,
+} from './rotating-file-writer'
+
+/** Templates of the standard formats */
+export const ACCESS_LOG_FORMATS = {
+  common:
+    '$remote_addr - $remote_user [$time_local] "$request" $status $body_bytes_sent',
+  combined:
+    '$remote_addr - $remote_user [$time_local] "$request" $status $body_bytes_sent "$http_referer" "$http_user_agent"',
+} as const
+
+/**
+ * Access log configuration
+ */
+export interface AccessLogConfig {
+  /**
+   * Enable the access log
+   * @default true
+   */
+  enabled?: boolean
+  /** File the log is written to */
+  path: string
+  /**
+   * "common", "combined" or a template of `$variables`:
+   * - `$remote_addr`, `$remote_user` (always "-"), `$time_local`,
+   *   `$time_iso8601`, `$request`, `$request_method`, `$request_uri`,
+   *   `$status`, `$body_bytes_sent`, `$http_referer`, `$http_user_agent`
+   * - `$request_time`: seconds from receiving the request to its response
+   * - `$request_id`: the gateway's request ID
+   * - `$upstream_addr`, `$upstream_status`, `$upstream_response_time`:
+   *   each upstream attempt, comma separated
+   * - `$upstream_cache_status`: the response cache's X-Cache value
+   * @default "combined"
+   */
+  format?: keyof typeof ACCESS_LOG_FORMATS | (string & {})
+  rotation?: LogRotationConfig
+  /**
+   * Milliseconds between writes of buffered lines
+   * @default 1000
+   */
+  flushInterval?: number
+  /**
+   * Bytes buffered while waiting for a write; further lines are dropped
+   * @default 8388608 (8 MiB)
+   */
+  maxBufferSize?: number
+}
+
+/**
+ * Access log dependencies
+ */
+export interface AccessLogOptions {
+  /** Resolves the client address, honoring trusted proxies */
+  getClientIP: (req: Request) => string
+  logger?: Logger
+  /**
+   * Cluster worker writing the log; defaults to CLUSTER_WORKER_ID
+   */
+  workerId?: string
+}
+
+/**
+ * A request and its response as recorded in the access log
+ */
+export interface AccessLogEntry {
+  remoteAddr: string
+  method: string
+  /** Path and query string */
+  uri: string
+  /** Milliseconds since the epoch the request was received at */
+  startTime: number
+  /** Milliseconds until the response */
+  duration: number
+  status: number
+  /** Response body size from Content-Length, when known */
+  bytes?: number
+  referer?: string
+  userAgent?: string
+  requestId?: string
+  cacheStatus?: string
+  /** Upstream attempts in the order they were sent */
+  upstreams: Array<{ target: string; duration: number; status?: number }>
+}
+
+const entries = new AsyncLocalStorage<AccessLogEntry>()
+
+/**
+ * Records an upstream attempt of the request being handled in its access log
+ * entry
+ *
+ * @param status - Response status; undefined when the attempt failed
+ */
+export function recordUpstream(
+  target: string,
+  duration: number,
+  status?: number,
+): void {
+  entries.getStore()?.upstreams.push({ target, duration, status })
+}
+
+/**
+ * Writes the access log
+ *
+ * @example
+ * ```ts
+ * const accessLog = new AccessLog(
+ *   { path: '/var/log/bungate/access.log', rotation: { interval: 'daily' } },
+ *   { getClientIP: (req) => server.requestIP(req)?.address ?? 'unknown' },
+ * )
+ * const response = await accessLog.handle(req, () => router.fetch(req))
+ * ```
+ */
+export class AccessLog {
+  private readonly template: string
+  private readonly writer: RotatingFileWriter
+  private readonly getClientIP: (req: Request) => string
+
+  constructor(config: AccessLogConfig, options: AccessLogOptions) {
+    const format = config.format ?? 'combined'
+    this.template =
+      format in ACCESS_LOG_FORMATS
+        ? ACCESS_LOG_FORMATS[format as keyof typeof ACCESS_LOG_FORMATS]
+        : format
+    this.getClientIP = options.getClientIP
+    this.writer = new RotatingFileWriter({
+      path: workerLogPath(
+        config.path,
+        options.workerId ?? process.env.CLUSTER_WORKER_ID,
+      ),
+      rotation: config.rotation,
+      flushInterval: config.flushInterval,
+      maxBufferSize: config.maxBufferSize,
+      logger: options.logger,
+    })
+  }
+
+  /**
+   * File the log is written to
+   */
+  get path(): string {
+    return this.writer.path
+  }
+
+  /**
+   * Handles a request and logs it once its response is ready. Requests the
+   * gateway sends itself, such as aggregate calls, are not logged; their
+   * upstream attempts are recorded with the request they serve.
+   */
+  async handle(req: Request, next: () => Promise<Response>): Promise<Response> {
+    if (entries.getStore()) {
+      return next()
+    }
+    const url = new URL(req.url)
+    const entry: AccessLogEntry = {
+      remoteAddr: this.getClientIP(req),
+      method: req.method,
+      uri: url.pathname + url.search,
+      startTime: Date.now(),
+      duration: 0,
+      status: 500,
+      referer: req.headers.get('referer') ?? undefined,
+      userAgent: req.headers.get('user-agent') ?? undefined,
+      requestId: currentRequestId(),
+      upstreams: [],
+    }
+    try {
+      const response = await entries.run(entry, next)
+      entry.status = response.status
+      const length = response.headers.get('content-length')
+      entry.bytes = length ? Number(length) : undefined
+      entry.cacheStatus = response.headers.get('x-cache') ?? undefined
+      return response
+    } finally {
+      entry.duration = Date.now() - entry.startTime
+      this.writer.write(this.format(entry))
+    }
+  }
+
+  /**
+   * Formats an entry with the log's template
+   */
+  format(entry: AccessLogEntry): string {
+    return this.template.replace(/\$([a-z0-9_]+)/g, (variable, name) => {
+      const value = formatVariable(entry, name)
+      return value === undefined ? variable : escape(value)
+    })
+  }
+
+  /**
+   * Rotates the log file now
+   */
+  rotate(): Promise<void> {
+    return this.writer.rotate()
+  }
+
+  /**
+   * Writes the buffered lines and closes the file
+   */
+  close(): Promise<void> {
+    return this.writer.close()
+  }
+}
+
+/**
+ * Value of a template variable, or undefined for unknown variables, which
+ * are left as written
+ */
+function formatVariable(
+  entry: AccessLogEntry,
+  name: string,
+): string | undefined {
+  const upstreams = (
+    format: (upstream: AccessLogEntry['upstreams'][number]) => string,
+  ) =>
+    entry.upstreams.length > 0 ? entry.upstreams.map(format).join(', ') : '-'
+
+  switch (name) {
+    case 'remote_addr':
+      return entry.remoteAddr
+    case 'remote_user':
+      return '-'
+    case 'time_local':
+      return formatLocalTime(new Date(entry.startTime))
+    case 'time_iso8601':
+      return new Date(entry.startTime).toISOString()
+    case 'request':
+      return `${entry.method} ${entry.uri} HTTP/1.1`
+    case 'request_method':
+      return entry.method
+    case 'request_uri':
+      return entry.uri
+    case 'status':
+      return String(entry.status)
+    case 'body_bytes_sent':
+      return entry.bytes ? String(entry.bytes) : '-'
+    case 'http_referer':
+      return entry.referer ?? '-'
+    case 'http_user_agent':
+      return entry.userAgent ?? '-'
+    case 'request_time':
+      return seconds(entry.duration)
+    case 'request_id':
+      return entry.requestId ?? '-'
+    case 'upstream_addr':
+      return upstreams((upstream) => upstream.target)
+    case 'upstream_status':
+      return upstreams((upstream) =>
+        upstream.status === undefined ? '-' : String(upstream.status),
+      )
+    case 'upstream_response_time':
+      return upstreams((upstream) => seconds(upstream.duration))
+    case 'upstream_cache_status':
+      return entry.cacheStatus ?? '-'
+    default:
+      return undefined
+  }
+}
+
+/** Milliseconds as seconds with millisecond precision, e.g. 0.042 */
+function seconds(milliseconds: number): string {
+  return (milliseconds / 1000).toFixed(3)
+}
+
+const MONTHS = [
+  'Jan',
+  'Feb',
+  'Mar',
+  'Apr',
+  'May',
+  'Jun',
+  'Jul',
+  'Aug',
+  'Sep',
+  'Oct',
+  'Nov',
+  'Dec',
+]
+
+/**
+ * Formats a time as in the Common Log Format, e.g. 10/Oct/2026:13:55:36 +0200
+ */
+function formatLocalTime(date: Date): string {
+  const pad = (value: number) => String(value).padStart(2, '0')
+  const offset = -date.getTimezoneOffset()
+  const sign = offset >= 0 ? '+' : '-'
+  return (
+    `${pad(date.getDate())}/${MONTHS[date.getMonth()]}/${date.getFullYear()}` +
+    `:${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}` +
+    ` ${sign}${pad(Math.floor(Math.abs(offset) / 60))}${pad(Math.abs(offset) % 60)}`
+  )
+}
+
+/**
+ * Escapes quotes, backslashes and non-printable characters, so client
+ * supplied values cannot forge log lines or fields
+ */
+function escape(value: string): string {
+  return value.replace(/["\\]|[^\x20-\x7e]/g, (char) =>
+    char === '"' || char === '\\'
+      ? `\\${char}`
+      : `\\x${char.charCodeAt(0).toString(16).padStart(2, '0')}`,
+  )
+}
+
+/**
+ * Log path of a cluster worker, e.g. access.log gives access.worker-2.log
+ */
+function workerLogPath(path: string, workerId: string | undefined): string {
+  if (!workerId) {
+    return path
+  }
+  const extension = extname(path)
+  return `${path.slice(0, path.length - extension.length)}.worker-${workerId}${extension}`
+}
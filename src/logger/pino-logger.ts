@@ -31,6 +31,7 @@ import pino from 'pino'
 import type { LoggerOptions, Logger as PinoLogger } from 'pino'
 import type { Logger, LoggerConfig } from '../interfaces/logger'
 import { safeMerge } from '../security/utils'
+import { currentRequestId } from '../security/request-id'
 
 /**
  * Enhanced Pino logger with gateway-specific functionality
@@ -63,6 +64,11 @@ export class BunGateLogger implements Logger {
     // Configure Pino logger with gateway-optimized settings
     const pinoConfig: any = {
       level: this.config.level,
+      // Tag every line logged while handling a request with its ID
+      mixin: () => {
+        const requestId = currentRequestId()
+        return requestId ? { requestId } : {}
+      },
       ...config,
       // Redact sensitive information from logs
       redact: {
@@ -0,0 +1,316 @@
+/**
+ * Rotating File Writer
+ *
+ * Appends lines to a log file without blocking the caller: lines are
+ * buffered in memory and written in the background, in order. The file is
+ * rotated when it reaches a size limit or when an hourly or daily period
+ * ends; rotated files can be gzip-compressed and are pruned by count and age.
+ *
+ * A writer owns its file. Processes sharing a log directory, such as cluster
+ * workers, must write to files of their own.
+ */
+
+import { createReadStream, createWriteStream } from 'node:fs'
+import {
+  open,
+  readdir,
+  rename,
+  stat,
+  unlink,
+  type FileHandle,
+} from 'node:fs/promises'
+import { basename, dirname, join } from 'node:path'
+import { pipeline } from 'node:stream/promises'
+import { createGzip } from 'node:zlib'
+import type { Logger } from '../interfaces/logger'
+
+/**
+ * When log files are rotated and how many rotated files are kept
+ */
+export interface LogRotationConfig {
+  /** Rotate once the file would grow beyond this many bytes */
+  maxSize?: number
+  /** Rotate at the start of every UTC hour or day */
+  interval?: 'hourly' | 'daily'
+  /**
+   * Gzip rotated files
+   * @default false
+   */
+  compress?: boolean
+  /** Rotated files kept; older ones are deleted */
+  maxFiles?: number
+  /** Milliseconds rotated files are kept */
+  maxAge?: number
+}
+
+/**
+ * Rotating file writer settings
+ */
+export interface RotatingFileWriterOptions {
+  /** File lines are appended to */
+  path: string
+  rotation?: LogRotationConfig
+  /**
+   * Milliseconds between writes of buffered lines
+   * @default 1000
+   */
+  flushInterval?: number
+  /**
+   * Bytes buffered while waiting for a write; further lines are dropped
+   * @default 8388608 (8 MiB)
+   */
+  maxBufferSize?: number
+  logger?: Logger
+  /** Clock, replaceable in tests */
+  now?: () => number
+}
+
+/** Buffered bytes that trigger a write ahead of the flush interval */
+const WRITE_THRESHOLD = 64 * 1024
+
+/**
+ * Appends lines to a log file in the background, rotating it
+ *
+ * @example
+ * ```ts
+ * const writer = new RotatingFileWriter({
+ *   path: '/var/log/bungate/access.log',
+ *   rotation: { interval: 'daily', compress: true, maxFiles: 14 },
+ * })
+ * writer.write('GET /health 200')
+ * await writer.close()
+ * ```
+ */
+export class RotatingFileWriter {
+  readonly path: string
+  private readonly rotation: LogRotationConfig
+  private readonly maxBufferSize: number
+  private readonly logger?: Logger
+  private readonly now: () => number
+  private buffer: string[] = []
+  private bufferedBytes = 0
+  /** Lines dropped on a full buffer since the last write */
+  private dropped = 0
+  private file?: FileHandle
+  /** Size of the open file */
+  private size = 0
+  /** End of the rotation period of the open file */
+  private periodEnd?: number
+  /** Writes, rotations and compressions, run one at a time in order */
+  private queue: Promise<void> = Promise.resolve()
+  private timer?: ReturnType<typeof setInterval>
+  private closed = false
+
+  constructor(options: RotatingFileWriterOptions) {
+    this.path = options.path
+    this.rotation = options.rotation ?? {}
+    this.maxBufferSize = options.maxBufferSize ?? 8 * 1024 * 1024
+    this.logger = options.logger
+    this.now = options.now ?? Date.now
+    this.timer = setInterval(() => {
+      void this.flush()
+    }, options.flushInterval ?? 1000)
+    // Buffered lines must not keep the process alive
+    this.timer.unref?.()
+  }
+
+  /**
+   * Buffers a line for writing; a newline is appended
+   */
+  write(line: string): void {
+    if (this.closed) return
+    const data = line + '\n'
+    const bytes = Buffer.byteLength(data)
+    if (this.bufferedBytes + bytes > this.maxBufferSize) {
+      this.dropped++
+      return
+    }
+    this.buffer.push(data)
+    this.bufferedBytes += bytes
+    if (this.bufferedBytes >= WRITE_THRESHOLD) {
+      void this.flush()
+    }
+  }
+
+  /**
+   * Writes the buffered lines
+   */
+  flush(): Promise<void> {
+    if (this.buffer.length === 0) {
+      return this.queue
+    }
+    const data = this.buffer.join('')
+    this.buffer = []
+    this.bufferedBytes = 0
+    return this.enqueue(() => this.append(data))
+  }
+
+  /**
+   * Rotates the file now, e.g. on a signal from an external log shipper
+   */
+  async rotate(): Promise<void> {
+    await this.flush()
+    return this.enqueue(() => this.rotateFile())
+  }
+
+  /**
+   * Writes the buffered lines and closes the file
+   */
+  async close(): Promise<void> {
+    clearInterval(this.timer)
+    await this.flush()
+    this.closed = true
+    await this.enqueue(async () => {
+      await this.file?.close()
+      this.file = undefined
+    })
+  }
+
+  private enqueue(task: () => Promise<void>): Promise<void> {
+    this.queue = this.queue.then(task).catch((error) => {
+      this.logger?.error('Log file write failed', error as Error, {
+        path: this.path,
+      })
+    })
+    return this.queue
+  }
+
+  private async append(data: string): Promise<void> {
+    if (this.dropped > 0) {
+      this.logger?.warn('Log buffer full, lines dropped', {
+        path: this.path,
+        dropped: this.dropped,
+      })
+      this.dropped = 0
+    }
+    const file = await this.openFile()
+    const bytes = Buffer.byteLength(data)
+    if (this.isRotationDue(bytes)) {
+      await this.rotateFile()
+      return this.append(data)
+    }
+    await file.write(data)
+    this.size += bytes
+  }
+
+  private async openFile(): Promise<FileHandle> {
+    if (!this.file) {
+      this.file = await open(this.path, 'a')
+      this.size = (await this.file.stat()).size
+      this.periodEnd = this.rotation.interval
+        ? nextPeriodStart(this.now(), this.rotation.interval)
+        : undefined
+    }
+    return this.file
+  }
+
+  private isRotationDue(bytes: number): boolean {
+    if (this.size === 0) {
+      return false
+    }
+    if (this.rotation.maxSize && this.size + bytes > this.rotation.maxSize) {
+      return true
+    }
+    return this.periodEnd !== undefined && this.now() >= this.periodEnd
+  }
+
+  /**
+   * Renames the file aside, then compresses and prunes rotated files
+   */
+  private async rotateFile(): Promise<void> {
+    await this.file?.close()
+    this.file = undefined
+    const rotated = await this.rotatedPath()
+    try {
+      await rename(this.path, rotated)
+    } catch (error) {
+      // Nothing written since the last rotation
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return
+      throw error
+    }
+    if (this.rotation.compress) {
+      await pipeline(
+        createReadStream(rotated),
+        createGzip(),
+        createWriteStream(`${rotated}.gz`),
+      )
+      await unlink(rotated)
+    }
+    await this.prune()
+  }
+
+  /**
+   * Path of the next rotated file: the file name with a UTC timestamp, and
+   * a counter when several rotations fall in the same second
+   */
+  private async rotatedPath(): Promise<string> {
+    const timestamp = new Date(this.now())
+      .toISOString()
+      .replace(/[-:]/g, '')
+      .replace(/\..*$/, '')
+    const base = `${this.path}.${timestamp}`
+    for (let counter = 0; ; counter++) {
+      const candidate = counter === 0 ? base : `${base}-${counter}`
+      if (!(await exists(candidate)) && !(await exists(`${candidate}.gz`))) {
+        return candidate
+      }
+    }
+  }
+
+  /**
+   * Deletes rotated files beyond maxFiles or older than maxAge
+   */
+  private async prune(): Promise<void> {
+    const { maxFiles, maxAge } = this.rotation
+    if (maxFiles === undefined && maxAge === undefined) {
+      return
+    }
+    const directory = dirname(this.path)
+    const prefix = `${basename(this.path)}.`
+    const rotated = await Promise.all(
+      (await readdir(directory))
+        .filter(
+          (name) =>
+            name.startsWith(prefix) &&
+            ROTATED_SUFFIX.test(name.slice(prefix.length)),
+        )
+        .map(async (name) => {
+          const path = join(directory, name)
+          return { path, modified: (await stat(path)).mtimeMs }
+        }),
+    )
+    // Newest first; names order rotations within the same timestamp
+    rotated.sort(
+      (a, b) => b.modified - a.modified || b.path.localeCompare(a.path),
+    )
+    const now = this.now()
+    for (const [index, file] of rotated.entries()) {
+      if (
+        (maxFiles !== undefined && index >= maxFiles) ||
+        (maxAge !== undefined && now - file.modified > maxAge)
+      ) {
+        await unlink(file.path)
+      }
+    }
+  }
+}
+
+/** Suffix of rotated files after the log file name, e.g. 20261019T130000-1.gz */
+const ROTATED_SUFFIX = /^\d{8}T\d{6}(-\d+)?(\.gz)?$/
+
+/**
+ * Start of the UTC hour or day after a time
+ */
+function nextPeriodStart(time: number, interval: 'hourly' | 'daily'): number {
+  const period = interval === 'hourly' ? 3_600_000 : 86_400_000
+  return (Math.floor(time / period) + 1) * period
+}
+
+async function exists(path: string): Promise<boolean> {
+  try {
+    await stat(path)
+    return true
+  } catch {
+    return false
+  }
+}
@@ -0,0 +1,541 @@
+/**
+ * Gateway Metrics
+ *
+ * Prometheus series for a gateway instance, kept in a registry owned by that
+ * instance so several gateways can live in one process:
+ *
+ * - HTTP request series recorded by the 0http-bun Prometheus middleware
+ * - Upstream latency and errors per route and target
+ * - In-flight connections and health of load balancer targets
+ * - Load balancer health-check outcomes
+ * - Circuit breaker state per route and method
+ * - Rate-limit and size-limit rejections
+ * - Latency, status and weight of traffic split backends
+ * - Proxied WebSocket connections, their duration and relayed messages
+ * - Faults injected into routes for chaos testing
+ *
+ * Gauges that mirror live state are read from the route table on each scrape.
+ */
+
+import {
+  Counter,
+  Gauge,
+  Histogram,
+  Registry,
+  collectDefaultMetrics,
+} from 'prom-client'
+import {
+  createPrometheusMiddleware,
+  type PrometheusMetrics,
+} from '0http-bun/lib/middleware'
+import type {
+  RequestHandler,
+  StepFunction,
+  ZeroRequest,
+} from '../interfaces/middleware'
+import type { RouteConfig } from '../interfaces/route'
+import type { LoadBalancer } from '../interfaces/load-balancer'
+import type { ProxyInstance } from '../interfaces/proxy'
+import type { TrafficSplitter } from '../split/traffic-splitter'
+import type { FaultType } from '../faults/fault-injector'
+
+/**
+ * Runtime state of a route read when metrics are scraped
+ */
+export interface MetricsRouteSource {
+  route: RouteConfig
+  methods: Array<{
+    method: string
+    /** Traffic split backend the proxy and load balancer belong to */
+    backend?: string
+    proxy: Pick<ProxyInstance, 'getCircuitBreakerState'>
+    loadBalancer?: Pick<LoadBalancer, 'getTargets'>
+  }>
+  split?: Pick<TrafficSplitter, 'getWeights'>
+}
+
+/**
+ * Options for GatewayMetrics
+ */
+export interface GatewayMetricsOptions {
+  /**
+   * Path of the scrape endpoint
+   * @default "/metrics"
+   */
+  endpoint?: string
+  /**
+   * Collect default Bun/Node.js runtime metrics
+   * @default true
+   */
+  collectDefaultMetrics?: boolean
+  /** Returns the routes currently in the route table */
+  getRoutes: () => MetricsRouteSource[]
+}
+
+/** Numeric value of each circuit breaker state */
+const CIRCUIT_STATE_VALUES: Record<string, number> = {
+  CLOSED: 0,
+  HALF_OPEN: 1,
+  OPEN: 2,
+}
+
+const LATENCY_BUCKETS = [
+  0.001, 0.005, 0.015, 0.05, 0.1, 0.2, 0.3, 0.4, 0.5, 1, 2, 5, 10,
+]
+const SIZE_BUCKETS = [1, 10, 100, 1000, 10000, 100000, 1000000, 10000000]
+const CONNECTION_DURATION_BUCKETS = [1, 10, 60, 300, 900, 1800, 3600, 14400]
+
+/** Direction of a relayed WebSocket message */
+export type WebSocketDirection = 'upstream' | 'downstream'
+
+/**
+ * Prometheus metrics of a gateway instance
+ */
+export class GatewayMetrics {
+  /** Registry holding every series of this gateway */
+  readonly registry = new Registry()
+  readonly endpoint: string
+  private readonly upstreamDuration: Histogram<string>
+  private readonly upstreamErrors: Counter<string>
+  private readonly healthChecks: Counter<string>
+  private readonly rateLimitRejections: Counter<string>
+  private readonly sizeLimitRejections: Counter<string>
+  private readonly faultsInjected: Counter<string>
+  private readonly splitDuration: Histogram<string>
+  private readonly webSocketConnections: Counter<string>
+  private readonly webSocketActive: Gauge<string>
+  private readonly webSocketDuration: Histogram<string>
+  private readonly webSocketMessages: Counter<string>
+  private readonly webSocketBytes: Counter<string>
+
+  constructor(options: GatewayMetricsOptions) {
+    const endpoint = options.endpoint ?? '/metrics'
+    if (!endpoint.startsWith('/')) {
+      throw new Error(`Metrics endpoint must start with "/": ${endpoint}`)
+    }
+    this.endpoint = endpoint
+
+    if (options.collectDefaultMetrics ?? true) {
+      collectDefaultMetrics({ register: this.registry })
+    }
+
+    const registers = [this.registry]
+
+    this.upstreamDuration = new Histogram({
+      name: 'bungate_upstream_request_duration_seconds',
+      help: 'Duration of proxied upstream requests in seconds',
+      labelNames: ['route', 'target', 'status_code'],
+      buckets: LATENCY_BUCKETS,
+      registers,
+    })
+
+    this.upstreamErrors = new Counter({
+      name: 'bungate_upstream_errors_total',
+      help: 'Upstream requests that failed or returned a 5xx status',
+      labelNames: ['route', 'target'],
+      registers,
+    })
+
+    this.healthChecks = new Counter({
+      name: 'bungate_health_checks_total',
+      help: 'Load balancer health checks by outcome',
+      labelNames: ['route', 'method', 'target', 'result'],
+      registers,
+    })
+
+    this.rateLimitRejections = new Counter({
+      name: 'bungate_rate_limit_rejections_total',
+      help: 'Requests rejected by a rate limiter',
+      labelNames: ['scope', 'route'],
+      registers,
+    })
+
+    this.sizeLimitRejections = new Counter({
+      name: 'bungate_size_limit_rejections_total',
+      help: 'Requests rejected by the size limiter',
+      labelNames: ['status_code'],
+      registers,
+    })
+
+    this.faultsInjected = new Counter({
+      name: 'bungate_faults_injected_total',
+      help: 'Faults injected into requests for chaos testing',
+      labelNames: ['route', 'type'],
+      registers,
+    })
+
+    this.splitDuration = new Histogram({
+      name: 'bungate_split_request_duration_seconds',
+      help: 'Duration of requests to traffic split backends in seconds',
+      labelNames: ['route', 'backend', 'status_code'],
+      buckets: LATENCY_BUCKETS,
+      registers,
+    })
+
+    this.webSocketConnections = new Counter({
+      name: 'bungate_websocket_connections_total',
+      help: 'Proxied WebSocket connection attempts by outcome',
+      labelNames: ['route', 'result'],
+      registers,
+    })
+
+    this.webSocketActive = new Gauge({
+      name: 'bungate_websocket_active_connections',
+      help: 'Proxied WebSocket connections currently open',
+      labelNames: ['route'],
+      registers,
+    })
+
+    this.webSocketDuration = new Histogram({
+      name: 'bungate_websocket_connection_duration_seconds',
+      help: 'Lifetime of proxied WebSocket connections in seconds',
+      labelNames: ['route'],
+      buckets: CONNECTION_DURATION_BUCKETS,
+      registers,
+    })
+
+    this.webSocketMessages = new Counter({
+      name: 'bungate_websocket_messages_total',
+      help: 'WebSocket messages relayed to the upstream or the client',
+      labelNames: ['route', 'direction'],
+      registers,
+    })
+
+    this.webSocketBytes = new Counter({
+      name: 'bungate_websocket_message_bytes_total',
+      help: 'Bytes of WebSocket messages relayed to the upstream or the client',
+      labelNames: ['route', 'direction'],
+      registers,
+    })
+
+    const getRoutes = options.getRoutes
+
+    new Gauge({
+      name: 'bungate_upstream_in_flight',
+      help: 'Requests in flight to each load balancer target',
+      labelNames: ['route', 'method', 'backend', 'target'],
+      registers,
+      collect() {
+        this.reset()
+        for (const { labels, target } of eachTarget(getRoutes())) {
+          this.set(labels, target.connections ?? 0)
+        }
+      },
+    })
+
+    new Gauge({
+      name: 'bungate_upstream_target_healthy',
+      help: 'Whether a load balancer target is healthy (1) or not (0)',
+      labelNames: ['route', 'method', 'backend', 'target'],
+      registers,
+      collect() {
+        this.reset()
+        for (const { labels, target } of eachTarget(getRoutes())) {
+          this.set(labels, target.healthy === false ? 0 : 1)
+        }
+      },
+    })
+
+    new Gauge({
+      name: 'bungate_circuit_breaker_state',
+      help: 'Circuit breaker state per route and method (0 closed, 1 half-open, 2 open)',
+      labelNames: ['route', 'method', 'backend'],
+      registers,
+      collect() {
+        this.reset()
+        for (const source of getRoutes()) {
+          for (const entry of source.methods) {
+            const state = String(
+              entry.proxy.getCircuitBreakerState(),
+            ).toUpperCase()
+            this.set(
+              withBackend(
+                { route: source.route.pattern, method: entry.method },
+                entry.backend,
+              ),
+              CIRCUIT_STATE_VALUES[state] ?? 0,
+            )
+          }
+        }
+      },
+    })
+
+    new Gauge({
+      name: 'bungate_split_weight',
+      help: 'Current weight of each traffic split backend',
+      labelNames: ['route', 'backend'],
+      registers,
+      collect() {
+        this.reset()
+        for (const source of getRoutes()) {
+          const weights = source.split?.getWeights() ?? {}
+          for (const [backend, weight] of Object.entries(weights)) {
+            this.set({ route: source.route.pattern, backend }, weight)
+          }
+        }
+      },
+    })
+  }
+
+  /**
+   * Creates the HTTP request metrics middleware recording into this registry
+   *
+   * @param excludePaths - Path prefixes that are not recorded
+   */
+  createHttpMiddleware(excludePaths: string[]): RequestHandler {
+    const registers = [this.registry]
+    const metrics: PrometheusMetrics = {
+      httpRequestDuration: new Histogram({
+        name: 'http_request_duration_seconds',
+        help: 'Duration of HTTP requests in seconds',
+        labelNames: ['method', 'route', 'status_code'],
+        buckets: LATENCY_BUCKETS,
+        registers,
+      }),
+      httpRequestTotal: new Counter({
+        name: 'http_requests_total',
+        help: 'Total number of HTTP requests',
+        labelNames: ['method', 'route', 'status_code'],
+        registers,
+      }),
+      httpRequestSize: new Histogram({
+        name: 'http_request_size_bytes',
+        help: 'Size of HTTP requests in bytes',
+        labelNames: ['method', 'route'],
+        buckets: SIZE_BUCKETS,
+        registers,
+      }),
+      httpResponseSize: new Histogram({
+        name: 'http_response_size_bytes',
+        help: 'Size of HTTP responses in bytes',
+        labelNames: ['method', 'route', 'status_code'],
+        buckets: SIZE_BUCKETS,
+        registers,
+      }),
+      httpActiveConnections: new Gauge({
+        name: 'http_active_connections',
+        help: 'Number of active HTTP connections',
+        registers,
+      }),
+    }
+
+    return createPrometheusMiddleware({
+      metrics,
+      excludePaths,
+      // Runtime metrics are registered on this registry by the constructor
+      collectDefaultMetrics: false,
+    })
+  }
+
+  /**
+   * Records a proxied upstream request
+   *
+   * @param route - Route pattern
+   * @param target - Upstream base URL
+   * @param durationMs - Time until the upstream response or failure
+   * @param status - Upstream status; undefined when no response was received
+   */
+  observeUpstream(
+    route: string,
+    target: string,
+    durationMs: number,
+    status?: number,
+  ): void {
+    this.upstreamDuration.observe(
+      {
+        route,
+        target,
+        status_code: status === undefined ? 'error' : String(status),
+      },
+      durationMs / 1000,
+    )
+    if (status === undefined || status >= 500) {
+      this.upstreamErrors.inc({ route, target })
+    }
+  }
+
+  /**
+   * Records a request served by a traffic split backend, including retries
+   * and cache hits
+   *
+   * @param status - Response status; undefined when the request failed
+   */
+  observeSplit(
+    route: string,
+    backend: string,
+    durationMs: number,
+    status?: number,
+  ): void {
+    this.splitDuration.observe(
+      {
+        route,
+        backend,
+        status_code: status === undefined ? 'error' : String(status),
+      },
+      durationMs / 1000,
+    )
+  }
+
+  /**
+   * Records a proxied WebSocket connection whose upstream could not be
+   * reached
+   */
+  recordWebSocketFailure(route: string): void {
+    this.webSocketConnections.inc({ route, result: 'failed' })
+  }
+
+  /**
+   * Records a proxied WebSocket connection that was opened
+   */
+  openWebSocket(route: string): void {
+    this.webSocketConnections.inc({ route, result: 'opened' })
+    this.webSocketActive.inc({ route })
+  }
+
+  /**
+   * Records the end of a proxied WebSocket connection
+   *
+   * @param durationMs - Time since the connection was opened
+   */
+  closeWebSocket(route: string, durationMs: number): void {
+    this.webSocketActive.dec({ route })
+    this.webSocketDuration.observe({ route }, durationMs / 1000)
+  }
+
+  /**
+   * Records a relayed WebSocket message
+   */
+  observeWebSocketMessage(
+    route: string,
+    direction: WebSocketDirection,
+    bytes: number,
+  ): void {
+    this.webSocketMessages.inc({ route, direction })
+    this.webSocketBytes.inc({ route, direction }, bytes)
+  }
+
+  /**
+   * Records the outcome of a load balancer health check
+   */
+  recordHealthCheck(
+    route: string,
+    method: string,
+    target: string,
+    healthy: boolean,
+  ): void {
+    this.healthChecks.inc({
+      route,
+      method,
+      target,
+      result: healthy ? 'success' : 'failure',
+    })
+  }
+
+  /**
+   * Records a request rejected by the size limiter
+   */
+  recordSizeLimitRejection(statusCode: number): void {
+    this.sizeLimitRejections.inc({ status_code: String(statusCode) })
+  }
+
+  /**
+   * Records a fault injected into a route's request
+   */
+  recordFault(route: string, type: FaultType): void {
+    this.faultsInjected.inc({ route, type })
+  }
+
+  /**
+   * Wraps a rate limit middleware so its rejections are counted
+   *
+   * A request counts as rejected when the limiter answers 429 without passing
+   * it down the chain, so 429 responses from upstreams are not miscounted.
+   *
+   * @param middleware - Rate limit middleware
+   * @param route - Route pattern for route-level limiters; omitted for the
+   *   gateway-wide limiter
+   */
+  instrumentRateLimit(
+    middleware: RequestHandler,
+    route?: string,
+  ): RequestHandler {
+    const labels = route
+      ? { scope: 'route', route }
+      : { scope: 'gateway', route: '' }
+
+    return async (req: ZeroRequest, next: StepFunction) => {
+      let passed = false
+      const response = await middleware(req, () => {
+        passed = true
+        return next()
+      })
+      if (!passed && response instanceof Response && response.status === 429) {
+        this.rateLimitRejections.inc(labels)
+      }
+      return response
+    }
+  }
+
+  /**
+   * Returns true if the URL targets the scrape endpoint
+   */
+  match(url: string): boolean {
+    // Cheap substring test first so regular traffic skips URL parsing
+    return (
+      url.includes(this.endpoint) && new URL(url).pathname === this.endpoint
+    )
+  }
+
+  /**
+   * Serves the scrape endpoint
+   */
+  async handle(req: Request): Promise<Response> {
+    if (req.method !== 'GET' && req.method !== 'HEAD') {
+      return new Response('Method not allowed', {
+        status: 405,
+        headers: { allow: 'GET, HEAD' },
+      })
+    }
+    const body = await this.registry.metrics()
+    return new Response(req.method === 'HEAD' ? null : body, {
+      headers: {
+        'content-type': this.registry.contentType,
+        'cache-control': 'no-store',
+      },
+    })
+  }
+}
+
+/**
+ * Iterates the targets of every load balancer; each method of a route has its
+ * own load balancer with separate connection counts and health state
+ */
+function* eachTarget(routes: MetricsRouteSource[]) {
+  for (const source of routes) {
+    for (const entry of source.methods) {
+      for (const target of entry.loadBalancer?.getTargets() ?? []) {
+        yield {
+          labels: withBackend(
+            {
+              route: source.route.pattern,
+              method: entry.method,
+              target: target.url,
+            },
+            entry.backend,
+          ),
+          target,
+        }
+      }
+    }
+  }
+}
+
+/**
+ * Adds the backend label to series of traffic split routes only
+ */
+function withBackend(
+  labels: Record<string, string>,
+  backend: string | undefined,
+): Record<string, string> {
+  return backend === undefined ? labels : { ...labels, backend }
+}
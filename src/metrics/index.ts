@@ -0,0 +1,12 @@
+/**
+ * Bungate Metrics Module
+ *
+ * Prometheus scrape endpoint and gateway-specific series
+ */
+
+export {
+  GatewayMetrics,
+  type GatewayMetricsOptions,
+  type MetricsRouteSource,
+  type WebSocketDirection,
+} from './gateway-metrics'
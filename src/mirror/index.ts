@@ -0,0 +1,13 @@
+/**
+ * Bungate Mirror Module
+ *
+ * Traffic mirroring of proxied requests to a shadow upstream
+ */
+
+export {
+  TrafficMirror,
+  type MirrorComparison,
+  type MirrorConfig,
+  type MirrorSettle,
+  type MirroredResponse,
+} from './traffic-mirror'
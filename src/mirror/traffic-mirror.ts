@@ -0,0 +1,281 @@
+/**
+ * Traffic Mirror
+ *
+ * Copies a sample of a route's requests to a shadow upstream, e.g. a new
+ * service version under test. Mirroring is fire-and-forget: shadow responses
+ * are discarded, and shadow latency or failures never reach the client. The
+ * number of outstanding shadow requests is bounded; requests beyond the bound
+ * are not mirrored.
+ */
+
+import type { Logger } from '../interfaces/logger'
+
+/**
+ * Response of the primary or the shadow upstream, as passed to `onCompare`
+ */
+export interface MirroredResponse {
+  status: number
+  headers: Headers
+  /**
+   * Response body; undefined when the body exceeded `maxBodyBytes` or could
+   * not be read
+   */
+  body?: string
+}
+
+/**
+ * Outcome of a mirrored request, for diffing the primary and shadow upstreams
+ */
+export interface MirrorComparison {
+  /** Request as sent to the shadow upstream, without its body */
+  request: Request
+  /** Primary response; undefined when the primary request failed */
+  primary?: MirroredResponse
+  /** Shadow response; undefined when the shadow request failed */
+  shadow?: MirroredResponse
+  /** Error of the shadow request */
+  error?: Error
+  /** Milliseconds the shadow request took */
+  shadowDuration: number
+}
+
+/**
+ * Traffic mirroring configuration of a route
+ */
+export interface MirrorConfig {
+  /** Base URL of the shadow upstream */
+  target: string
+  /**
+   * Share of requests mirrored, in percent
+   * @default 100
+   */
+  percentage?: number
+  /**
+   * Mirror request bodies; bodies without a Content-Length or larger than
+   * `maxBodyBytes` are never mirrored
+   * @default false
+   */
+  includeBody?: boolean
+  /**
+   * Largest number of outstanding shadow requests
+   * @default 50
+   */
+  maxConcurrent?: number
+  /**
+   * Shadow request timeout in milliseconds
+   * @default 5000
+   */
+  timeout?: number
+  /**
+   * Largest request body mirrored, and largest response body passed to
+   * `onCompare`, in bytes
+   * @default 1048576 (1 MiB)
+   */
+  maxBodyBytes?: number
+  /**
+   * Called with the primary and shadow responses once both completed;
+   * reading the primary body for it buffers a copy of every mirrored response
+   */
+  onCompare?: (comparison: MirrorComparison) => void | Promise<void>
+}
+
+/**
+ * Completes a mirrored request with the primary response, or with nothing
+ * when the primary request failed
+ */
+export type MirrorSettle = (primary?: Response) => void
+
+const DEFAULT_MAX_BODY_BYTES = 1024 * 1024
+
+/**
+ * Traffic mirror of a route
+ *
+ * @example
+ * ```ts
+ * const mirror = new TrafficMirror({ target: 'http://api-v2:3000', percentage: 10 })
+ * if (mirror.sample(req)) {
+ *   const settle = mirror.send(shadowRequest)
+ *   const response = await forward(req)
+ *   settle(response)
+ * }
+ * ```
+ */
+export class TrafficMirror {
+  readonly target: string
+  readonly includeBody: boolean
+  private readonly percentage: number
+  private readonly maxConcurrent: number
+  private readonly timeout: number
+  private readonly maxBodyBytes: number
+  private readonly onCompare?: MirrorConfig['onCompare']
+  private readonly logger?: Logger
+  private outstanding = 0
+
+  constructor(config: MirrorConfig, logger?: Logger) {
+    this.target = config.target.replace(/\/+$/, '')
+    this.includeBody = config.includeBody === true
+    this.percentage = Math.min(100, Math.max(0, config.percentage ?? 100))
+    this.maxConcurrent = Math.max(1, config.maxConcurrent ?? 50)
+    this.timeout = config.timeout ?? 5000
+    this.maxBodyBytes = config.maxBodyBytes ?? DEFAULT_MAX_BODY_BYTES
+    this.onCompare = config.onCompare
+    this.logger = logger
+  }
+
+  /**
+   * Number of shadow requests that have not completed yet
+   */
+  get pending(): number {
+    return this.outstanding
+  }
+
+  /**
+   * Decides whether a request is mirrored: it must fall into the sample, a
+   * shadow request slot must be free, and a mirrored body must have a known
+   * size within `maxBodyBytes`
+   */
+  sample(req: Request): boolean {
+    if (this.outstanding >= this.maxConcurrent) {
+      return false
+    }
+    if (this.percentage < 100 && Math.random() * 100 >= this.percentage) {
+      return false
+    }
+    if (this.includeBody && req.body) {
+      const length = req.headers.get('content-length')
+      if (length === null || !(Number(length) <= this.maxBodyBytes)) {
+        return false
+      }
+    }
+    return true
+  }
+
+  /**
+   * Sends a shadow request without waiting for it
+   *
+   * @param request - Request addressed to the shadow upstream
+   * @returns Function to call with the primary response once it is available;
+   *   it must be called before the primary response body is consumed
+   */
+  send(request: Request): MirrorSettle {
+    this.outstanding++
+    const startedAt = Date.now()
+    const signal = AbortSignal.timeout(this.timeout)
+
+    const shadow = fetch(request, { signal, redirect: 'manual' }).then(
+      async (response): Promise<MirroredResponse> => ({
+        status: response.status,
+        headers: response.headers,
+        body: this.onCompare
+          ? await readBody(response, this.maxBodyBytes)
+          : await discardBody(response),
+      }),
+    )
+
+    let settlePrimary!: (primary?: MirroredResponse) => void
+    const primary = new Promise<MirroredResponse | undefined>((resolve) => {
+      settlePrimary = resolve
+    })
+
+    void this.complete(
+      new Request(request.url, {
+        method: request.method,
+        headers: request.headers,
+      }),
+      shadow,
+      primary,
+      startedAt,
+    )
+
+    return (response) => {
+      if (!this.onCompare || !response) {
+        settlePrimary(undefined)
+        return
+      }
+      const copy = response.clone() as Response
+      readBody(copy, this.maxBodyBytes).then((body) =>
+        settlePrimary({
+          status: copy.status,
+          headers: copy.headers,
+          body,
+        }),
+      )
+    }
+  }
+
+  private async complete(
+    request: Request,
+    shadow: Promise<MirroredResponse>,
+    primary: Promise<MirroredResponse | undefined>,
+    startedAt: number,
+  ): Promise<void> {
+    let comparison: MirrorComparison
+    try {
+      comparison = {
+        request,
+        shadow: await shadow,
+        shadowDuration: Date.now() - startedAt,
+      }
+    } catch (error) {
+      comparison = {
+        request,
+        error: error as Error,
+        shadowDuration: Date.now() - startedAt,
+      }
+      this.logger?.debug('Mirrored request failed', {
+        url: request.url,
+        error: (error as Error).message,
+      })
+    } finally {
+      this.outstanding--
+    }
+
+    if (!this.onCompare) {
+      return
+    }
+    try {
+      comparison.primary = await primary
+      await this.onCompare(comparison)
+    } catch (error) {
+      this.logger?.warn('Mirror comparison failed', {
+        url: request.url,
+        error: (error as Error).message,
+      })
+    }
+  }
+}
+
+/**
+ * Reads a response body as text, up to `limit` bytes
+ */
+async function readBody(
+  response: Response,
+  limit: number,
+): Promise<string | undefined> {
+  if (!response.body) {
+    return ''
+  }
+  const chunks: Uint8Array[] = []
+  let size = 0
+  const reader = response.body.getReader()
+  try {
+    for (;;) {
+      const { done, value } = await reader.read()
+      if (done) break
+      size += value.byteLength
+      if (size > limit) {
+        await reader.cancel()
+        return undefined
+      }
+      chunks.push(value)
+    }
+  } catch {
+    return undefined
+  }
+  return new TextDecoder().decode(Buffer.concat(chunks))
+}
+
+async function discardBody(response: Response): Promise<undefined> {
+  await response.body?.cancel().catch(() => {})
+  return undefined
+}
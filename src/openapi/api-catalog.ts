@@ -0,0 +1,693 @@
+/**
+ * API Catalog
+ *
+ * Publishes an OpenAPI 3 document describing the gateway's live route table,
+ * together with a minimal HTML catalog page:
+ *
+ * - `{path}` (default '/openapi.json'): the OpenAPI document
+ * - `{catalogPath}` (default '/catalog'): an HTML page listing every operation
+ *
+ * Each route contributes one operation per method, described by its `meta`
+ * (operationId, name, description, version and tags). Routes with `auth` are
+ * marked with the matching security schemes and routes with `rateLimit` carry
+ * an `x-rate-limit` extension and a 429 response. Both documents are built on
+ * request, so routes added or replaced at runtime show up immediately.
+ *
+ * With `upstreamSpecs` enabled, the OpenAPI document of each wildcard route's
+ * upstream is fetched, mapped back through the route's `pathRewrite` rules and
+ * merged in place of the route's generic entry.
+ */
+
+import type { RouteConfig } from '../interfaces/route'
+import type { Logger } from '../interfaces/logger'
+import type { JWTAuthOptions, RateLimitOptions } from '../interfaces/middleware'
+import {
+  OPENAPI_METHODS,
+  type OpenAPIDocument,
+  type OpenAPIMethod,
+  type OpenAPIOperation,
+  type OpenAPIParameter,
+  type OpenAPIPathItem,
+} from './types'
+
+/**
+ * Fetching of upstream OpenAPI documents
+ */
+export interface UpstreamSpecsConfig {
+  /**
+   * Path of the OpenAPI document on each upstream, relative to its target URL
+   * @default "/openapi.json"
+   */
+  path?: string
+  /**
+   * Time to wait for an upstream document in milliseconds
+   * @default 2000
+   */
+  timeout?: number
+  /**
+   * How long a fetched document, or a failed fetch, is reused in milliseconds
+   * @default 60000
+   */
+  ttl?: number
+}
+
+/**
+ * API catalog configuration
+ */
+export interface ApiCatalogConfig {
+  /**
+   * Publish the catalog
+   * @default true when the catalog section is present
+   */
+  enabled?: boolean
+  /**
+   * Path of the OpenAPI document
+   * @default "/openapi.json"
+   */
+  path?: string
+  /**
+   * Path of the HTML catalog page
+   * @default "/catalog"
+   */
+  catalogPath?: string
+  /**
+   * Title of the API
+   * @default "Bungate API"
+   */
+  title?: string
+  /**
+   * Version of the API
+   * @default "1.0.0"
+   */
+  version?: string
+  /** Description of the API */
+  description?: string
+  /** Public URLs the gateway is reachable at */
+  servers?: Array<{ url: string; description?: string }>
+  /**
+   * Merge the OpenAPI documents published by the upstreams of wildcard routes
+   * @default false
+   */
+  upstreamSpecs?: boolean | UpstreamSpecsConfig
+}
+
+/**
+ * Options for ApiCatalog
+ */
+export interface ApiCatalogOptions {
+  config: ApiCatalogConfig
+  /** Returns the routes currently in the route table */
+  getRoutes: () => RouteConfig[]
+  /** Gateway-wide authentication, applying to routes without their own */
+  auth?: JWTAuthOptions
+  /** Gateway-wide rate limit, applying to routes without their own */
+  rateLimit?: RateLimitOptions
+  logger?: Logger
+}
+
+interface CachedSpec {
+  document?: OpenAPIDocument
+  expiresAt: number
+}
+
+interface CatalogOperation {
+  path: string
+  method: OpenAPIMethod
+  operation: OpenAPIOperation
+}
+
+const DEFAULT_UPSTREAM_SPECS: Required<UpstreamSpecsConfig> = {
+  path: '/openapi.json',
+  timeout: 2000,
+  ttl: 60000,
+}
+
+/**
+ * Serves the OpenAPI document and HTML catalog of the gateway's routes
+ */
+export class ApiCatalog {
+  private readonly options: ApiCatalogOptions
+  private readonly documentPath: string
+  private readonly catalogPath: string
+  private readonly upstreamSpecs?: Required<UpstreamSpecsConfig>
+  /** Upstream documents by URL */
+  private readonly specCache = new Map<string, CachedSpec>()
+
+  constructor(options: ApiCatalogOptions) {
+    this.options = options
+    const { config } = options
+    this.documentPath = normalizePath(config.path ?? '/openapi.json')
+    this.catalogPath = normalizePath(config.catalogPath ?? '/catalog')
+    if (this.documentPath === this.catalogPath) {
+      throw new Error('API catalog path and catalogPath must differ')
+    }
+    if (config.upstreamSpecs) {
+      this.upstreamSpecs = {
+        ...DEFAULT_UPSTREAM_SPECS,
+        ...(config.upstreamSpecs === true ? {} : config.upstreamSpecs),
+      }
+    }
+  }
+
+  /**
+   * Returns the request path if the URL targets the document or catalog page
+   */
+  match(url: string): string | undefined {
+    // Cheap substring test first so regular traffic skips URL parsing
+    if (!url.includes(this.documentPath) && !url.includes(this.catalogPath)) {
+      return undefined
+    }
+    const pathname = new URL(url).pathname
+    return pathname === this.documentPath || pathname === this.catalogPath
+      ? pathname
+      : undefined
+  }
+
+  /**
+   * Handles a catalog request
+   *
+   * @param req - Incoming request
+   * @param pathname - Request path returned by match()
+   */
+  async handle(req: Request, pathname: string): Promise<Response> {
+    const method = req.method
+    if (method !== 'GET' && method !== 'HEAD') {
+      return new Response(JSON.stringify({ error: 'Method not allowed' }), {
+        status: 405,
+        headers: { 'content-type': 'application/json', allow: 'GET, HEAD' },
+      })
+    }
+
+    const document = await this.generate()
+    const isCatalog = pathname === this.catalogPath
+    const body = isCatalog
+      ? renderCatalog(document, this.documentPath)
+      : JSON.stringify(document)
+    return new Response(method === 'HEAD' ? null : body, {
+      headers: {
+        'content-type': isCatalog
+          ? 'text/html; charset=utf-8'
+          : 'application/json',
+        'cache-control': 'no-store',
+      },
+    })
+  }
+
+  /**
+   * Builds the OpenAPI document of the current route table
+   */
+  async generate(): Promise<OpenAPIDocument> {
+    const { config } = this.options
+    const document: OpenAPIDocument = {
+      openapi: '3.0.3',
+      info: {
+        title: config.title ?? 'Bungate API',
+        version: config.version ?? '1.0.0',
+        ...(config.description ? { description: config.description } : {}),
+      },
+      ...(config.servers ? { servers: config.servers } : {}),
+      paths: {},
+    }
+
+    const routes = this.options.getRoutes()
+    const upstreams = await Promise.all(
+      routes.map((route) => this.fetchUpstreamSpec(route)),
+    )
+
+    routes.forEach((route, index) => {
+      const upstream = upstreams[index]
+      const operations =
+        (upstream && this.mergeUpstream(document, route, upstream)) ||
+        this.describeRoute(route)
+      for (const { path, method, operation } of operations) {
+        const pathItem = (document.paths![path] ??= {})
+        // Routes sharing a path and method (e.g. with different `match`
+        // conditions) are tried in order; the first one is documented
+        pathItem[method] ??= this.decorate(document, route, operation)
+      }
+    })
+
+    const tags = new Set<string>()
+    for (const pathItem of Object.values(document.paths!)) {
+      for (const method of OPENAPI_METHODS) {
+        pathItem[method]?.tags?.forEach((tag) => tags.add(tag))
+      }
+    }
+    if (tags.size > 0) {
+      document.tags = [...tags].sort().map((name) => ({ name }))
+    }
+    return document
+  }
+
+  /**
+   * Describes the operations of a route from its pattern, methods and meta
+   */
+  private describeRoute(route: RouteConfig): CatalogOperation[] {
+    const { path, params } = toOpenAPIPath(route.pattern)
+    const methods =
+      route.methods && route.methods.length > 0 ? route.methods : ['GET']
+    const meta = route.meta ?? {}
+
+    return methods
+      .map((method) => method.toLowerCase() as OpenAPIMethod)
+      .filter((method) => OPENAPI_METHODS.includes(method))
+      .map((method) => {
+        const operation: OpenAPIOperation = {
+          responses: {
+            default: {
+              description:
+                route.target || route.loadBalancer || route.split
+                  ? 'Response of the upstream service'
+                  : 'Response',
+            },
+          },
+        }
+        if (meta.operationId) {
+          // Operation ids must be unique across the document
+          operation.operationId =
+            methods.length > 1
+              ? `${meta.operationId}_${method}`
+              : meta.operationId
+        }
+        if (meta.name) operation.summary = meta.name
+        if (meta.description) operation.description = meta.description
+        if (meta.tags) operation.tags = [...meta.tags]
+        if (params.length > 0) {
+          operation.parameters = params.map(
+            (name): OpenAPIParameter => ({
+              name,
+              in: 'path',
+              required: true,
+              schema: { type: 'string' },
+              ...(name === 'wild'
+                ? { description: 'Remainder of the path' }
+                : {}),
+            }),
+          )
+        }
+        return { path, method, operation }
+      })
+  }
+
+  /**
+   * Adds the gateway's authentication, rate limit and version information to
+   * an operation of a route
+   */
+  private decorate(
+    document: OpenAPIDocument,
+    route: RouteConfig,
+    operation: OpenAPIOperation,
+  ): OpenAPIOperation {
+    const auth = route.auth ?? this.options.auth
+    const rateLimit = route.rateLimit ?? this.options.rateLimit
+    const responses = { ...operation.responses }
+
+    if (route.meta?.version) {
+      operation['x-version'] = route.meta.version
+    }
+    if (auth) {
+      const schemes = securitySchemes(auth)
+      document.components ??= {}
+      document.components.securitySchemes ??= {}
+      Object.assign(document.components.securitySchemes, schemes)
+      operation.security = Object.keys(schemes).map((name) => ({ [name]: [] }))
+      if (auth.optional) {
+        operation.security.push({})
+      }
+      responses['401'] ??= { description: 'Authentication required' }
+    }
+    if (rateLimit) {
+      operation['x-rate-limit'] = {
+        max: rateLimit.max ?? 100,
+        windowMs: rateLimit.windowMs ?? 900000,
+      }
+      responses['429'] ??= { description: 'Rate limit exceeded' }
+    }
+    operation.responses = responses
+    return operation
+  }
+
+  /**
+   * Maps the operations of an upstream document to gateway paths; returns
+   * undefined when none of them is reachable through the route
+   */
+  private mergeUpstream(
+    document: OpenAPIDocument,
+    route: RouteConfig,
+    upstream: OpenAPIDocument,
+  ): CatalogOperation[] | undefined {
+    const base = route.pattern.slice(0, -1)
+    const serverPath = upstreamBasePath(upstream)
+    const reachable: Array<[string, OpenAPIPathItem]> = []
+    for (const [upstreamPath, pathItem] of Object.entries(
+      upstream.paths ?? {},
+    )) {
+      const path = gatewayPath(route, serverPath + upstreamPath)
+      if (path?.startsWith(base)) reachable.push([path, pathItem])
+    }
+    if (reachable.length === 0) {
+      return undefined
+    }
+
+    const renames = mergeComponents(document, upstream)
+    const operations: CatalogOperation[] = []
+    for (const [path, pathItem] of reachable) {
+      const shared = rewriteRefs(pathItem.parameters, renames) as
+        | OpenAPIPathItem['parameters']
+        | undefined
+      for (const method of OPENAPI_METHODS) {
+        const source = pathItem[method]
+        if (!source) continue
+        const operation = rewriteRefs(source, renames) as OpenAPIOperation
+        if (shared) {
+          // Path item parameters do not carry over to the gateway's path item
+          operation.parameters = [
+            ...shared.filter(
+              (parameter) =>
+                !operation.parameters?.some(
+                  (own) =>
+                    'name' in own &&
+                    'name' in parameter &&
+                    own.name === parameter.name &&
+                    own.in === parameter.in,
+                ),
+            ),
+            ...(operation.parameters ?? []),
+          ]
+        }
+        operation.tags ??= route.meta?.tags && [...route.meta.tags]
+        operation.responses ??= { default: { description: 'Response' } }
+        operations.push({ path, method, operation })
+      }
+    }
+    return operations
+  }
+
+  /**
+   * Returns the OpenAPI document of a wildcard route's upstream, if
+   * upstream specs are enabled and it could be fetched
+   */
+  private async fetchUpstreamSpec(
+    route: RouteConfig,
+  ): Promise<OpenAPIDocument | undefined> {
+    const target = route.target ?? route.loadBalancer?.targets[0]?.url
+    if (!this.upstreamSpecs || !target || !route.pattern.endsWith('/*')) {
+      return undefined
+    }
+
+    const url = target.replace(/\/+$/, '') + this.upstreamSpecs.path
+    const cached = this.specCache.get(url)
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.document
+    }
+
+    let document: OpenAPIDocument | undefined
+    try {
+      const response = await fetch(url, {
+        headers: { accept: 'application/json' },
+        signal: AbortSignal.timeout(this.upstreamSpecs.timeout),
+      })
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`)
+      }
+      const body = (await response.json()) as OpenAPIDocument
+      if (typeof body?.openapi !== 'string' || !body.openapi.startsWith('3.')) {
+        throw new Error('not an OpenAPI 3 document')
+      }
+      document = body
+    } catch (error) {
+      this.options.logger?.warn('Failed to fetch upstream OpenAPI document', {
+        route: route.pattern,
+        url,
+        error: error instanceof Error ? error.message : String(error),
+      })
+    }
+    // Failures are cached too, so an unavailable upstream is not asked on
+    // every catalog request
+    this.specCache.set(url, {
+      document,
+      expiresAt: Date.now() + this.upstreamSpecs.ttl,
+    })
+    return document
+  }
+}
+
+/**
+ * Translates a router pattern into an OpenAPI path template
+ *
+ * @example toOpenAPIPath('/users/:id/*') // { path: '/users/{id}/{wild}', params: ['id', 'wild'] }
+ */
+export function toOpenAPIPath(pattern: string): {
+  path: string
+  params: string[]
+} {
+  const params: string[] = []
+  const path = pattern
+    .replace(/:(\w+)\??/g, (_, name: string) => {
+      params.push(name)
+      return `{${name}}`
+    })
+    .replace(/\*/g, () => {
+      params.push('wild')
+      return '{wild}'
+    })
+  return { path, params }
+}
+
+/**
+ * Security schemes accepted by a JWT authentication configuration, by name
+ */
+function securitySchemes(
+  auth: JWTAuthOptions,
+): Record<string, Record<string, unknown>> {
+  const schemes: Record<string, Record<string, unknown>> = {}
+  if (auth.secret || auth.jwks || auth.jwksUri) {
+    if (auth.tokenHeader) {
+      schemes[schemeName('header', auth.tokenHeader)] = {
+        type: 'apiKey',
+        in: 'header',
+        name: auth.tokenHeader,
+        description: 'JSON Web Token',
+      }
+    } else {
+      schemes.bearerAuth = {
+        type: 'http',
+        scheme: 'bearer',
+        bearerFormat: 'JWT',
+      }
+    }
+    if (auth.tokenQuery) {
+      schemes[schemeName('query', auth.tokenQuery)] = {
+        type: 'apiKey',
+        in: 'query',
+        name: auth.tokenQuery,
+        description: 'JSON Web Token',
+      }
+    }
+  }
+  if (auth.apiKeys || auth.apiKeyValidator || auth.validateApiKey) {
+    const header = auth.apiKeyHeader ?? 'x-api-key'
+    schemes[schemeName('header', header)] = {
+      type: 'apiKey',
+      in: 'header',
+      name: header,
+    }
+  }
+  return schemes
+}
+
+function schemeName(location: string, name: string): string {
+  return `${location}_${name.replace(/[^\w.-]/g, '_')}`
+}
+
+/**
+ * Path prefix of an upstream document's first server URL, e.g. '/v1'
+ */
+function upstreamBasePath(upstream: OpenAPIDocument): string {
+  const url = upstream.servers?.[0]?.url
+  if (!url) {
+    return ''
+  }
+  try {
+    return new URL(url, 'http://upstream').pathname.replace(/\/+$/, '')
+  } catch {
+    return ''
+  }
+}
+
+/**
+ * Finds the gateway path that a route rewrites into an upstream path, by
+ * reversing literal `^prefix` rewrite rules; functions cannot be reversed
+ */
+function gatewayPath(
+  route: RouteConfig,
+  upstreamPath: string,
+): string | undefined {
+  const rewrite = route.proxy?.pathRewrite
+  if (!rewrite) {
+    return upstreamPath
+  }
+  if (typeof rewrite === 'function') {
+    return rewrite(upstreamPath) === upstreamPath ? upstreamPath : undefined
+  }
+  for (const [from, to] of Object.entries(rewrite)) {
+    if (!/^\^[\w/.-]*$/.test(from) || !upstreamPath.startsWith(to)) continue
+    const candidate = from.slice(1) + upstreamPath.slice(to.length)
+    if (candidate.replace(new RegExp(from), to) === upstreamPath) {
+      return candidate
+    }
+  }
+  return undefined
+}
+
+/**
+ * Adds an upstream document's components to the gateway document. Components
+ * whose name is taken by a different definition are renamed; returns the
+ * references to rewrite.
+ */
+function mergeComponents(
+  document: OpenAPIDocument,
+  upstream: OpenAPIDocument,
+): Map<string, string> {
+  const renames = new Map<string, string>()
+  const added: Array<[Record<string, unknown>, string, unknown]> = []
+
+  for (const [section, entries] of Object.entries(upstream.components ?? {})) {
+    if (typeof entries !== 'object' || entries === null) continue
+    document.components ??= {}
+    const target = (document.components[section] ??= {}) as Record<
+      string,
+      unknown
+    >
+    for (const [name, definition] of Object.entries(entries)) {
+      let merged = name
+      for (let n = 2; merged in target; n++) {
+        if (JSON.stringify(target[merged]) === JSON.stringify(definition)) {
+          break
+        }
+        merged = `${name}_${n}`
+      }
+      if (merged !== name) {
+        renames.set(
+          `#/components/${section}/${name}`,
+          `#/components/${section}/${merged}`,
+        )
+      }
+      if (!(merged in target)) {
+        // Reserve the name; the definition is added once references are known
+        target[merged] = definition
+        added.push([target, merged, definition])
+      }
+    }
+  }
+  for (const [target, name, definition] of added) {
+    target[name] = rewriteRefs(definition, renames)
+  }
+  return renames
+}
+
+/**
+ * Copies a document fragment, replacing renamed `$ref`s
+ */
+function rewriteRefs(value: unknown, renames: Map<string, string>): unknown {
+  if (Array.isArray(value)) {
+    return value.map((item) => rewriteRefs(item, renames))
+  }
+  if (typeof value !== 'object' || value === null) {
+    return value
+  }
+  const copy: Record<string, unknown> = {}
+  for (const [key, item] of Object.entries(value)) {
+    if (key === '$ref' && typeof item === 'string') {
+      const ref = [...renames].find(
+        ([from]) => item === from || item.startsWith(`${from}/`),
+      )
+      copy[key] = ref ? ref[1] + item.slice(ref[0].length) : item
+    } else {
+      copy[key] = rewriteRefs(item, renames)
+    }
+  }
+  return copy
+}
+
+function normalizePath(path: string): string {
+  if (!path.startsWith('/')) {
+    throw new Error(`API catalog path must start with "/": ${path}`)
+  }
+  return path.length > 1 ? path.replace(/\/+$/, '') : path
+}
+
+function escapeHTML(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+}
+
+/**
+ * Renders the catalog page: the document's operations grouped by tag
+ */
+function renderCatalog(document: OpenAPIDocument, documentPath: string) {
+  const groups = new Map<string, string[]>()
+  for (const [path, pathItem] of Object.entries(document.paths ?? {})) {
+    for (const method of OPENAPI_METHODS) {
+      const operation = pathItem[method]
+      if (!operation) continue
+
+      const badges: string[] = []
+      if (operation.security?.length) badges.push('auth')
+      const rateLimit = operation['x-rate-limit'] as
+        | { max: number; windowMs: number }
+        | undefined
+      if (rateLimit) {
+        badges.push(`${rateLimit.max} req / ${rateLimit.windowMs / 1000}s`)
+      }
+      const row =
+        `<tr><td class="method">${method.toUpperCase()}</td>` +
+        `<td><code>${escapeHTML(path)}</code></td>` +
+        `<td>${escapeHTML(operation.summary ?? operation.operationId ?? '')}` +
+        (operation.description
+          ? `<div class="description">${escapeHTML(operation.description)}</div>`
+          : '') +
+        `</td><td>${badges.map((badge) => `<span class="badge">${escapeHTML(badge)}</span>`).join(' ')}</td></tr>`
+
+      for (const tag of operation.tags?.length ? operation.tags : ['default']) {
+        if (!groups.has(tag)) groups.set(tag, [])
+        groups.get(tag)!.push(row)
+      }
+    }
+  }
+
+  const sections = [...groups.keys()]
+    .sort()
+    .map(
+      (tag) =>
+        `<h2>${escapeHTML(tag)}</h2><table>${groups.get(tag)!.join('')}</table>`,
+    )
+    .join('\n')
+  const { title, version, description } = document.info
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHTML(title)}</title>
+<style>
+body { font-family: system-ui, sans-serif; margin: 2rem auto; max-width: 960px; color: #222; }
+table { border-collapse: collapse; width: 100%; }
+td { border-top: 1px solid #ddd; padding: 0.4rem; vertical-align: top; }
+.method { font-weight: bold; width: 5rem; }
+.description { color: #666; font-size: 0.9em; }
+.badge { background: #eee; border-radius: 3px; font-size: 0.8em; padding: 0 0.3rem; white-space: nowrap; }
+</style>
+</head>
+<body>
+<h1>${escapeHTML(title)} <small>${escapeHTML(version)}</small></h1>
+${description ? `<p>${escapeHTML(description)}</p>` : ''}
+<p><a href="${escapeHTML(documentPath)}">OpenAPI document</a></p>
+${sections || '<p>No routes are registered.</p>'}
+</body>
+</html>
+`
+}
@@ -0,0 +1,24 @@
+/**
+ * Bungate OpenAPI Module
+ *
+ * Route generation and request validation from OpenAPI 3 documents, and an
+ * OpenAPI document and catalog of the gateway's own route table
+ */
+
+export {
+  routesFromOpenAPI,
+  toRoutePattern,
+  type OpenAPIImportOptions,
+} from './openapi-import'
+export {
+  createOpenAPIValidationMiddleware,
+  type OpenAPIValidationError,
+} from './openapi-validator'
+export {
+  ApiCatalog,
+  toOpenAPIPath,
+  type ApiCatalogConfig,
+  type ApiCatalogOptions,
+  type UpstreamSpecsConfig,
+} from './api-catalog'
+export * from './types'
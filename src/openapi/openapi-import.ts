@@ -0,0 +1,166 @@
+/**
+ * OpenAPI Import
+ *
+ * Generates gateway routes from an OpenAPI 3 document: one route per path and
+ * method, proxying to the service the document describes. Path templates such
+ * as `/users/{id}` become router patterns such as `/users/:id`, and each
+ * operation's operationId, summary, description and tags are carried into the
+ * route's `meta`. Optionally, requests are validated against the operation
+ * before they are proxied.
+ */
+
+import type { RouteConfig } from '../interfaces/route'
+import type { LoadBalancerConfig } from '../interfaces/load-balancer'
+import { createOpenAPIValidationMiddleware } from './openapi-validator'
+import { OPENAPI_METHODS, type OpenAPIDocument } from './types'
+
+export interface OpenAPIImportOptions {
+  /** Upstream URL of the service, including the base path of its server */
+  target?: string
+  /** Load-balanced upstream pool of the service, instead of `target` */
+  loadBalancer?: LoadBalancerConfig
+  /**
+   * Prefix the routes are served under, e.g. '/users-service'; it is
+   * stripped again before requests are proxied
+   */
+  prefix?: string
+  /**
+   * Validate path, query, header and cookie parameters and JSON bodies
+   * against the document, answering invalid requests with 400
+   * @default false
+   */
+  validate?: boolean
+  /**
+   * Settings shared by every generated route, e.g. `auth`, `rateLimit` or
+   * `timeout`; `middlewares` run before request validation
+   */
+  defaults?: Partial<RouteConfig>
+}
+
+/**
+ * Generates routes for every operation of an OpenAPI 3 document
+ *
+ * Routes are ordered so that literal path segments take precedence over
+ * templated ones: `/users/me` is matched before `/users/{id}`.
+ *
+ * @throws Error if neither `target` nor `loadBalancer` is given, the document
+ *   is not OpenAPI 3, or validation is enabled and a `$ref` does not resolve
+ *
+ * @example
+ * ```ts
+ * const spec = await Bun.file('users.openapi.json').json()
+ * for (const route of routesFromOpenAPI(spec, {
+ *   target: 'http://users:3000',
+ *   prefix: '/users-service',
+ *   validate: true,
+ * })) {
+ *   gateway.addRoute(route)
+ * }
+ * ```
+ */
+export function routesFromOpenAPI(
+  document: OpenAPIDocument,
+  options: OpenAPIImportOptions,
+): RouteConfig[] {
+  if (!options.target && !options.loadBalancer) {
+    throw new Error('routesFromOpenAPI requires a "target" or a "loadBalancer"')
+  }
+  if (
+    typeof document.openapi !== 'string' ||
+    !document.openapi.startsWith('3.')
+  ) {
+    throw new Error('Only OpenAPI 3 documents can be imported')
+  }
+
+  const prefix = (options.prefix ?? '').replace(/\/+$/, '')
+  const { defaults = {} } = options
+  const routes: RouteConfig[] = []
+
+  const paths = Object.keys(document.paths ?? {}).sort(comparePaths)
+  for (const path of paths) {
+    const pathItem = document.paths![path]!
+    const { pattern, params } = toRoutePattern(path)
+
+    for (const method of OPENAPI_METHODS) {
+      const operation = pathItem[method]
+      if (!operation) continue
+
+      const middlewares = [...(defaults.middlewares ?? [])]
+      if (options.validate) {
+        middlewares.push(
+          createOpenAPIValidationMiddleware(document, path, method, params),
+        )
+      }
+
+      const route: RouteConfig = {
+        ...defaults,
+        pattern: prefix + pattern,
+        methods: [method.toUpperCase()],
+        meta: {
+          ...defaults.meta,
+          operationId: operation.operationId,
+          name: operation.summary ?? pathItem.summary ?? defaults.meta?.name,
+          description:
+            operation.description ??
+            pathItem.description ??
+            defaults.meta?.description,
+          version: document.info?.version ?? defaults.meta?.version,
+          tags: operation.tags ?? defaults.meta?.tags,
+        },
+      }
+      if (options.target) route.target = options.target
+      if (options.loadBalancer) route.loadBalancer = options.loadBalancer
+      if (middlewares.length > 0) route.middlewares = middlewares
+      if (prefix) {
+        route.proxy = {
+          ...defaults.proxy,
+          pathRewrite: { [`^${escapeRegExp(prefix)}`]: '' },
+        }
+      }
+      routes.push(route)
+    }
+  }
+  return routes
+}
+
+/**
+ * Translates an OpenAPI path template into a router pattern. Template
+ * parameter names that are not valid router parameter names are renamed;
+ * `params` maps the original names to the router names.
+ *
+ * @example toRoutePattern('/users/{user-id}') // { pattern: '/users/:user_id', ... }
+ */
+export function toRoutePattern(path: string): {
+  pattern: string
+  params: Record<string, string>
+} {
+  const params: Record<string, string> = {}
+  const pattern = path.replace(/\{([^}]+)\}/g, (_, name: string) => {
+    const routerName = name.replace(/\W/g, '_')
+    params[name] = routerName
+    return `:${routerName}`
+  })
+  return { pattern, params }
+}
+
+/**
+ * Orders paths segment by segment: at the first differing segment a literal
+ * segment sorts before a templated one, and segments of the same kind sort
+ * alphabetically; a path sorts before the paths it is a prefix of
+ */
+function comparePaths(a: string, b: string): number {
+  const left = a.split('/')
+  const right = b.split('/')
+  for (let i = 0; i < Math.min(left.length, right.length); i++) {
+    if (left[i] === right[i]) continue
+    const leftTemplated = left[i]!.includes('{')
+    const rightTemplated = right[i]!.includes('{')
+    if (leftTemplated !== rightTemplated) return leftTemplated ? 1 : -1
+    return left[i]! < right[i]! ? -1 : 1
+  }
+  return left.length - right.length
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
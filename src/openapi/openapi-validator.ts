@@ -0,0 +1,268 @@
+/**
+ * OpenAPI Request Validator
+ *
+ * Validates the path, query, header and cookie parameters and the JSON body
+ * of requests against an OpenAPI operation before they are proxied. Schemas
+ * are compiled once, when the middleware is created. Parameter values arrive
+ * as strings and are converted to the type their schema declares first, so
+ * `?limit=10` satisfies `{ type: 'integer' }`.
+ *
+ * Only `form` style query parameters and `simple` style path and header
+ * parameters are understood; arrays are taken from repeated query parameters
+ * or comma-separated values.
+ */
+
+import type { RequestHandler, ZeroRequest } from '../interfaces/middleware'
+import {
+  compileSchema,
+  resolvePointer,
+  type SchemaValidator,
+} from '../validation/json-schema'
+import {
+  coerceParameter,
+  validationErrorResponse,
+  type RequestValidationError,
+} from '../validation/schema-validation'
+import type {
+  OpenAPIDocument,
+  OpenAPIMethod,
+  OpenAPIParameter,
+  OpenAPIReference,
+  OpenAPIRequestBody,
+} from './types'
+
+/**
+ * A part of a request that does not conform to the OpenAPI operation
+ */
+export type OpenAPIValidationError = RequestValidationError
+
+interface CompiledParameter {
+  name: string
+  in: OpenAPIParameter['in']
+  required: boolean
+  /** Schema with its top-level `$ref` resolved, used for type conversion */
+  schema: Record<string, unknown>
+  validate: SchemaValidator
+}
+
+/**
+ * Creates a middleware validating requests against an OpenAPI operation;
+ * invalid requests are answered with 400 and a list of errors
+ *
+ * @param document - OpenAPI document the operation is part of
+ * @param path - Path template of the operation, e.g. '/users/{id}'
+ * @param method - Method of the operation
+ * @param pathParams - Router parameter name of each path template parameter,
+ *   when they differ
+ * @throws Error if the operation does not exist or a `$ref` does not resolve
+ */
+export function createOpenAPIValidationMiddleware(
+  document: OpenAPIDocument,
+  path: string,
+  method: OpenAPIMethod,
+  pathParams: Record<string, string> = {},
+): RequestHandler {
+  const pathItem = document.paths?.[path]
+  const operation = pathItem?.[method]
+  if (!pathItem || !operation) {
+    throw new Error(
+      `OpenAPI operation ${method.toUpperCase()} ${path} not found`,
+    )
+  }
+
+  // Operation parameters override path item parameters of the same name
+  const parameters = new Map<string, OpenAPIParameter>()
+  for (const parameter of [
+    ...(pathItem.parameters ?? []),
+    ...(operation.parameters ?? []),
+  ]) {
+    const resolved = resolve<OpenAPIParameter>(document, parameter)
+    parameters.set(`${resolved.in}:${resolved.name}`, resolved)
+  }
+  const compiled: CompiledParameter[] = [...parameters.values()].map(
+    (parameter) => ({
+      name: parameter.name,
+      in: parameter.in,
+      required: parameter.in === 'path' || parameter.required === true,
+      schema: isRecord(parameter.schema)
+        ? resolve<Record<string, unknown>>(document, parameter.schema)
+        : {},
+      validate: compileSchema(parameter.schema ?? true, { root: document }),
+    }),
+  )
+
+  const requestBody = operation.requestBody
+    ? resolve<OpenAPIRequestBody>(document, operation.requestBody)
+    : undefined
+  const bodyTypes = new Map<string, SchemaValidator>()
+  for (const [type, media] of Object.entries(requestBody?.content ?? {})) {
+    bodyTypes.set(
+      type.toLowerCase(),
+      compileSchema(media.schema ?? true, { root: document }),
+    )
+  }
+
+  return async (req: ZeroRequest, next) => {
+    const errors: OpenAPIValidationError[] = []
+    const url = new URL(req.url)
+    let cookies: Map<string, string> | undefined
+
+    for (const parameter of compiled) {
+      let raw: string[]
+      switch (parameter.in) {
+        case 'path': {
+          const value =
+            req.params?.[pathParams[parameter.name] ?? parameter.name]
+          raw = value === undefined ? [] : [decode(value)]
+          break
+        }
+        case 'query':
+          raw = url.searchParams.getAll(parameter.name)
+          break
+        case 'header': {
+          const value = req.headers.get(parameter.name)
+          raw = value === null ? [] : [value]
+          break
+        }
+        case 'cookie': {
+          cookies ??= parseCookies(req.headers.get('cookie'))
+          const value = cookies.get(parameter.name)
+          raw = value === undefined ? [] : [value]
+          break
+        }
+      }
+
+      if (raw.length === 0) {
+        if (parameter.required) {
+          errors.push({
+            in: parameter.in,
+            name: parameter.name,
+            message: 'is required',
+          })
+        }
+        continue
+      }
+      const value = coerceParameter(raw, parameter.schema, (schema) =>
+        isRecord(schema) ? resolve(document, schema) : {},
+      )
+      for (const error of parameter.validate(value)) {
+        errors.push({
+          in: parameter.in,
+          name: parameter.name,
+          ...(error.pointer ? { pointer: error.pointer } : {}),
+          message: error.message,
+        })
+      }
+    }
+
+    if (requestBody) {
+      errors.push(...(await validateBody(req, requestBody, bodyTypes)))
+    }
+
+    return errors.length === 0 ? next() : validationErrorResponse(errors)
+  }
+}
+
+async function validateBody(
+  req: ZeroRequest,
+  requestBody: OpenAPIRequestBody,
+  bodyTypes: Map<string, SchemaValidator>,
+): Promise<OpenAPIValidationError[]> {
+  const contentLength = req.headers.get('content-length')
+  const hasBody = req.body !== null && contentLength !== '0'
+  if (!hasBody) {
+    return requestBody.required ? [{ in: 'body', message: 'is required' }] : []
+  }
+
+  const contentType = (req.headers.get('content-type') ?? '')
+    .split(';')[0]!
+    .trim()
+    .toLowerCase()
+  const validate = mediaTypeValidator(bodyTypes, contentType)
+  if (!validate) {
+    return [
+      {
+        in: 'body',
+        message: `content type "${contentType}" is not accepted`,
+      },
+    ]
+  }
+  // Only JSON bodies are validated; other declared media types pass
+  if (!isJSON(contentType)) {
+    return []
+  }
+
+  let body: unknown
+  try {
+    // Read a copy so the body can still be proxied
+    body = JSON.parse(await (req.clone() as Request).text())
+  } catch {
+    return [{ in: 'body', message: 'must be valid JSON' }]
+  }
+  return validate(body).map((error) => ({
+    in: 'body' as const,
+    pointer: error.pointer,
+    message: error.message,
+  }))
+}
+
+/**
+ * Finds the validator of a content type: exact media types first, then
+ * ranges such as 'application/*' and '*\/*'
+ */
+function mediaTypeValidator(
+  bodyTypes: Map<string, SchemaValidator>,
+  contentType: string,
+): SchemaValidator | undefined {
+  return (
+    bodyTypes.get(contentType) ??
+    bodyTypes.get(`${contentType.split('/')[0]}/*`) ??
+    bodyTypes.get('*/*')
+  )
+}
+
+function isJSON(contentType: string): boolean {
+  return contentType === 'application/json' || contentType.endsWith('+json')
+}
+
+/**
+ * Follows the `$ref` of a document object, if it has one
+ */
+function resolve<T>(document: OpenAPIDocument, value: unknown): T {
+  const seen = new Set<string>()
+  while (isRecord(value) && typeof value.$ref === 'string') {
+    const ref = (value as unknown as OpenAPIReference).$ref
+    if (seen.has(ref)) {
+      throw new Error(`Circular $ref "${ref}"`)
+    }
+    seen.add(ref)
+    value = resolvePointer(document, ref)
+  }
+  return value as T
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function decode(value: string): string {
+  try {
+    return decodeURIComponent(value)
+  } catch {
+    return value
+  }
+}
+
+function parseCookies(header: string | null): Map<string, string> {
+  const cookies = new Map<string, string>()
+  if (!header) {
+    return cookies
+  }
+  for (const part of header.split(';')) {
+    const index = part.indexOf('=')
+    if (index > 0) {
+      cookies.set(part.slice(0, index).trim(), part.slice(index + 1).trim())
+    }
+  }
+  return cookies
+}
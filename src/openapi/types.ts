@@ -0,0 +1,96 @@
+/**
+ * OpenAPI 3 document types
+ *
+ * The subset of the OpenAPI 3.0 / 3.1 object model the gateway reads and
+ * writes. Unknown properties are preserved, so documents round-trip.
+ */
+
+import type { JSONSchema } from '../validation/json-schema'
+
+/**
+ * A `$ref` to another part of the document, e.g.
+ * '#/components/parameters/Limit'
+ */
+export interface OpenAPIReference {
+  $ref: string
+}
+
+export interface OpenAPIParameter {
+  name: string
+  in: 'path' | 'query' | 'header' | 'cookie'
+  required?: boolean
+  description?: string
+  deprecated?: boolean
+  schema?: JSONSchema
+  [key: string]: unknown
+}
+
+export interface OpenAPIMediaType {
+  schema?: JSONSchema
+  [key: string]: unknown
+}
+
+export interface OpenAPIRequestBody {
+  required?: boolean
+  description?: string
+  content: Record<string, OpenAPIMediaType>
+  [key: string]: unknown
+}
+
+export interface OpenAPIResponse {
+  description: string
+  headers?: Record<string, unknown>
+  content?: Record<string, OpenAPIMediaType>
+  [key: string]: unknown
+}
+
+export interface OpenAPIOperation {
+  operationId?: string
+  summary?: string
+  description?: string
+  tags?: string[]
+  deprecated?: boolean
+  parameters?: Array<OpenAPIParameter | OpenAPIReference>
+  requestBody?: OpenAPIRequestBody | OpenAPIReference
+  responses?: Record<string, OpenAPIResponse | OpenAPIReference>
+  security?: Array<Record<string, string[]>>
+  [key: string]: unknown
+}
+
+/** Lower-case HTTP methods an OpenAPI path item can define */
+export const OPENAPI_METHODS = [
+  'get',
+  'put',
+  'post',
+  'delete',
+  'options',
+  'head',
+  'patch',
+  'trace',
+] as const
+
+export type OpenAPIMethod = (typeof OPENAPI_METHODS)[number]
+
+export type OpenAPIPathItem = {
+  summary?: string
+  description?: string
+  parameters?: Array<OpenAPIParameter | OpenAPIReference>
+} & { [method in OpenAPIMethod]?: OpenAPIOperation }
+
+export interface OpenAPIDocument {
+  openapi: string
+  info: { title: string; version: string; description?: string }
+  servers?: Array<{ url: string; description?: string }>
+  paths?: Record<string, OpenAPIPathItem>
+  components?: {
+    schemas?: Record<string, JSONSchema>
+    parameters?: Record<string, OpenAPIParameter>
+    requestBodies?: Record<string, OpenAPIRequestBody>
+    responses?: Record<string, OpenAPIResponse>
+    securitySchemes?: Record<string, Record<string, unknown>>
+    [key: string]: unknown
+  }
+  security?: Array<Record<string, string[]>>
+  tags?: Array<{ name: string; description?: string }>
+  [key: string]: unknown
+}
@@ -0,0 +1,62 @@
+/**
+ * Built-in Plugins
+ *
+ * The gateway's security headers, health endpoints and metrics scrape
+ * endpoint, packaged as plugins. The gateway registers them from its
+ * configuration; other plugins can order themselves around them by name.
+ */
+
+import type { HealthEndpoints } from '../health/health-endpoints'
+import type { GatewayMetrics } from '../metrics/gateway-metrics'
+import type { SecurityHeadersConfig } from '../security/config'
+import { SecurityHeadersMiddleware } from '../security/security-headers'
+import { BUILTIN_PLUGINS, type BunGatewayPlugin } from './plugin-manager'
+
+/**
+ * Adds security headers to every response, including those of the health
+ * and metrics endpoints
+ *
+ * @param tls - Whether the gateway terminates TLS, so HSTS applies to all
+ *   responses
+ */
+export function createSecurityHeadersPlugin(
+  config: Partial<SecurityHeadersConfig>,
+  tls: boolean,
+): BunGatewayPlugin {
+  const securityHeaders = new SecurityHeadersMiddleware(config)
+  return {
+    name: BUILTIN_PLUGINS.securityHeaders,
+    onResponse: (req, res) =>
+      securityHeaders.applyHeaders(
+        res,
+        tls || new URL(req.url).protocol === 'https:',
+      ),
+  }
+}
+
+/**
+ * Answers liveness and readiness probes ahead of routing, so probes are not
+ * rate limited or subjected to authentication
+ */
+export function createHealthPlugin(
+  endpoints: HealthEndpoints,
+): BunGatewayPlugin {
+  return {
+    name: BUILTIN_PLUGINS.health,
+    onRequest: (req) => {
+      const path = endpoints.match(req.url)
+      return path ? endpoints.handle(req, path) : undefined
+    },
+  }
+}
+
+/**
+ * Answers the Prometheus scrape endpoint ahead of routing
+ */
+export function createMetricsPlugin(metrics: GatewayMetrics): BunGatewayPlugin {
+  return {
+    name: BUILTIN_PLUGINS.metrics,
+    onRequest: (req) =>
+      metrics.match(req.url) ? metrics.handle(req) : undefined,
+  }
+}
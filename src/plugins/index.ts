@@ -0,0 +1,16 @@
+/**
+ * Bungate Plugins Module
+ *
+ * Gateway plugins with lifecycle hooks, and the built-in plugins
+ */
+
+export {
+  BUILTIN_PLUGINS,
+  PluginManager,
+  type BunGatewayPlugin,
+} from './plugin-manager'
+export {
+  createHealthPlugin,
+  createMetricsPlugin,
+  createSecurityHeadersPlugin,
+} from './builtin-plugins'
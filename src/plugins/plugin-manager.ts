@@ -0,0 +1,238 @@
+/**
+ * Gateway Plugins
+ *
+ * Packages cross-cutting features such as audit logging, custom
+ * authentication or tenancy as plugins hooking into the gateway's lifecycle:
+ * initialization, route registration, listening, each request and response,
+ * and shutdown.
+ *
+ * Plugins run in a resolved order: after the plugins they depend on or name
+ * in `after`, before those they name in `before`, and otherwise in
+ * registration order. Request hooks run in that order and response hooks in
+ * reverse, so the first plugin wraps all others. The built-in security
+ * headers, health and metrics features are plugins too and take part in the
+ * ordering under the names in BUILTIN_PLUGINS.
+ */
+
+import type { Server } from 'bun'
+import type { Gateway } from '../interfaces/gateway'
+import type { RouteConfig } from '../interfaces/route'
+import type { Logger } from '../interfaces/logger'
+
+/**
+ * A gateway plugin
+ *
+ * @example
+ * ```ts
+ * const audit: BunGatewayPlugin = {
+ *   name: 'audit',
+ *   after: ['tenancy'],
+ *   onResponse: (req, res) => {
+ *     auditLog.write({ url: req.url, status: res.status })
+ *   },
+ * }
+ * gateway.register(audit)
+ * ```
+ */
+export interface BunGatewayPlugin {
+  /** Unique name, referenced by other plugins' ordering constraints */
+  name: string
+  /** Plugins that must be registered, and run before this one */
+  dependencies?: string[]
+  /** Plugins this one runs before, when they are registered */
+  before?: string[]
+  /** Plugins this one runs after, when they are registered */
+  after?: string[]
+  /**
+   * Called when the plugin is registered. `listen()` waits for asynchronous
+   * initialization to complete.
+   */
+  onInit?(gateway: Gateway): void | Promise<void>
+  /** Called for each route added to the route table after registration */
+  onRouteRegistered?(route: RouteConfig): void
+  /** Called once the gateway's server is listening */
+  onListen?(server: Server): void | Promise<void>
+  /**
+   * Called for each request before it is routed. Returning a response
+   * answers the request without routing it further.
+   */
+  onRequest?(req: Request): Response | void | Promise<Response | void>
+  /**
+   * Called with each response; returning a response replaces it
+   */
+  onResponse?(
+    req: Request,
+    res: Response,
+  ): Response | void | Promise<Response | void>
+  /** Called when the gateway closes, in reverse order */
+  onClose?(): void | Promise<void>
+}
+
+/** Names of the built-in plugins, in their default order */
+export const BUILTIN_PLUGINS = {
+  securityHeaders: 'bungate:security-headers',
+  health: 'bungate:health',
+  metrics: 'bungate:metrics',
+} as const
+
+/**
+ * Registers plugins, resolves their order and runs their hooks
+ */
+export class PluginManager {
+  /** Plugins in registration order */
+  private readonly registered: BunGatewayPlugin[] = []
+  /** Plugins in resolved order */
+  private ordered: BunGatewayPlugin[] = []
+  private readonly logger?: Logger
+
+  constructor(logger?: Logger) {
+    this.logger = logger
+  }
+
+  /**
+   * Adds plugins and resolves the new order. Plugins registered together
+   * may depend on each other in any order.
+   *
+   * @throws Error if a name is taken, a dependency is not registered or the
+   *   ordering constraints form a cycle; no plugin is added then
+   */
+  register(...plugins: BunGatewayPlugin[]): void {
+    const candidates = [...this.registered]
+    for (const plugin of plugins) {
+      if (!plugin?.name || typeof plugin.name !== 'string') {
+        throw new Error('Plugin must have a name')
+      }
+      if (candidates.some((other) => other.name === plugin.name)) {
+        throw new Error(`Plugin "${plugin.name}" is already registered`)
+      }
+      candidates.push(plugin)
+    }
+    this.ordered = resolveOrder(candidates)
+    this.registered.push(...plugins)
+  }
+
+  /**
+   * Plugins in resolved order
+   */
+  list(): BunGatewayPlugin[] {
+    return [...this.ordered]
+  }
+
+  /**
+   * Notifies plugins of a route added to the route table. Plugin errors are
+   * logged and do not undo the registration.
+   */
+  routeRegistered(route: RouteConfig): void {
+    for (const plugin of this.ordered) {
+      if (!plugin.onRouteRegistered) continue
+      try {
+        plugin.onRouteRegistered(route)
+      } catch (error) {
+        this.logger?.error(
+          'Plugin onRouteRegistered hook failed',
+          error as Error,
+          { plugin: plugin.name, route: route.pattern },
+        )
+      }
+    }
+  }
+
+  /**
+   * Runs the onListen hooks in order
+   */
+  async listen(server: Server): Promise<void> {
+    for (const plugin of this.ordered) {
+      await plugin.onListen?.(server)
+    }
+  }
+
+  /**
+   * Runs the onClose hooks in reverse order. Every plugin is closed; errors
+   * are logged.
+   */
+  async close(): Promise<void> {
+    for (const plugin of [...this.ordered].reverse()) {
+      try {
+        await plugin.onClose?.()
+      } catch (error) {
+        this.logger?.error('Plugin onClose hook failed', error as Error, {
+          plugin: plugin.name,
+        })
+      }
+    }
+  }
+
+  /**
+   * Handles a request through the plugins' request and response hooks
+   *
+   * @param next - Routes the request when no plugin answered it
+   */
+  async handle(
+    req: Request,
+    next: (req: Request) => Response | Promise<Response>,
+  ): Promise<Response> {
+    const plugins = this.ordered
+    let response: Response | undefined
+    let entered = 0
+    for (; entered < plugins.length && !response; entered++) {
+      response = (await plugins[entered]!.onRequest?.(req)) ?? undefined
+    }
+    response ??= await next(req)
+
+    // Only plugins whose request hook ran see the response
+    for (let index = entered - 1; index >= 0; index--) {
+      response = (await plugins[index]!.onResponse?.(req, response)) ?? response
+    }
+    return response
+  }
+}
+
+/**
+ * Orders plugins after their dependencies and `after` plugins and before
+ * their `before` plugins, keeping registration order otherwise
+ *
+ * @throws Error on a missing dependency or an ordering cycle
+ */
+function resolveOrder(plugins: BunGatewayPlugin[]): BunGatewayPlugin[] {
+  const byName = new Map(plugins.map((plugin) => [plugin.name, plugin]))
+  // Plugins each plugin must run after
+  const predecessors = new Map<string, Set<string>>(
+    plugins.map((plugin) => [plugin.name, new Set()]),
+  )
+  for (const plugin of plugins) {
+    for (const dependency of plugin.dependencies ?? []) {
+      if (!byName.has(dependency)) {
+        throw new Error(
+          `Plugin "${plugin.name}" depends on "${dependency}", which is not registered`,
+        )
+      }
+      predecessors.get(plugin.name)!.add(dependency)
+    }
+    for (const name of plugin.after ?? []) {
+      if (byName.has(name)) predecessors.get(plugin.name)!.add(name)
+    }
+    for (const name of plugin.before ?? []) {
+      if (byName.has(name)) predecessors.get(name)!.add(plugin.name)
+    }
+  }
+
+  const ordered: BunGatewayPlugin[] = []
+  const remaining = [...plugins]
+  while (remaining.length > 0) {
+    // The earliest registered plugin whose predecessors have all been placed
+    const index = remaining.findIndex((plugin) =>
+      [...predecessors.get(plugin.name)!].every((name) =>
+        ordered.some((placed) => placed.name === name),
+      ),
+    )
+    if (index === -1) {
+      throw new Error(
+        `Plugin ordering constraints form a cycle between ${remaining
+          .map((plugin) => `"${plugin.name}"`)
+          .join(', ')}`,
+      )
+    }
+    ordered.push(remaining.splice(index, 1)[0]!)
+  }
+  return ordered
+}
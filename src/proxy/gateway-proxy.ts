@@ -51,6 +51,12 @@ import type { ZeroRequest } from '../interfaces/middleware'
 export class GatewayProxy implements ProxyHandler {
   /** Underlying fetch-gate proxy instance for core functionality */
   private fetchProxy: FetchProxy
+  /** Options used to create the underlying proxy */
+  private options: ProxyOptions
+  /** Requests in flight on each fetch-gate instance that has any */
+  private inFlight = new Map<FetchProxy, number>()
+  /** Instances replaced by a circuit breaker reset, closed once idle */
+  private replaced = new Set<FetchProxy>()
 
   /**
    * Initialize the gateway proxy with fetch-gate options
@@ -58,6 +64,7 @@ export class GatewayProxy implements ProxyHandler {
    * @param options - Proxy configuration including timeouts, circuit breaker, and hooks
    */
   constructor(options: ProxyOptions) {
+    this.options = options
     this.fetchProxy = new FetchProxy(options)
   }
 
@@ -74,8 +81,14 @@ export class GatewayProxy implements ProxyHandler {
     source?: string,
     opts?: ProxyRequestOptions,
   ): Promise<Response> {
-    // Cast ZeroRequest to standard Request for fetch-gate compatibility
-    return this.fetchProxy.proxy(req as Request, source, opts)
+    const fetchProxy = this.fetchProxy
+    this.inFlight.set(fetchProxy, (this.inFlight.get(fetchProxy) ?? 0) + 1)
+    try {
+      // Cast ZeroRequest to standard Request for fetch-gate compatibility
+      return await fetchProxy.proxy(req as Request, source, opts)
+    } finally {
+      this.settle(fetchProxy)
+    }
   }
 
   /**
@@ -84,6 +97,10 @@ export class GatewayProxy implements ProxyHandler {
    */
   close(): void {
     this.fetchProxy.close()
+    for (const fetchProxy of this.replaced) {
+      fetchProxy.close()
+    }
+    this.replaced.clear()
   }
 
   /**
@@ -111,6 +128,39 @@ export class GatewayProxy implements ProxyHandler {
   clearURLCache(): void {
     this.fetchProxy.clearURLCache()
   }
+
+  /**
+   * Reset the circuit breaker to the closed state
+   *
+   * fetch-gate keeps breaker state private to each FetchProxy, so a fresh proxy
+   * is created from the same options. Requests already in flight complete on
+   * the previous instance, which is closed once they have settled.
+   */
+  resetCircuitBreaker(): void {
+    const previous = this.fetchProxy
+    this.fetchProxy = new FetchProxy(this.options)
+    if (this.inFlight.has(previous)) {
+      this.replaced.add(previous)
+    } else {
+      previous.close()
+    }
+  }
+
+  /**
+   * Counts a request on an instance as settled, closing a replaced instance
+   * when it was the last one
+   */
+  private settle(fetchProxy: FetchProxy): void {
+    const remaining = (this.inFlight.get(fetchProxy) ?? 1) - 1
+    if (remaining > 0) {
+      this.inFlight.set(fetchProxy, remaining)
+      return
+    }
+    this.inFlight.delete(fetchProxy)
+    if (this.replaced.delete(fetchProxy)) {
+      fetchProxy.close()
+    }
+  }
 }
 
 /**
@@ -141,5 +191,6 @@ export function createGatewayProxy(options: ProxyOptions): ProxyInstance {
     getCircuitBreakerState: handler.getCircuitBreakerState.bind(handler),
     getCircuitBreakerFailures: handler.getCircuitBreakerFailures.bind(handler),
     clearURLCache: handler.clearURLCache.bind(handler),
+    resetCircuitBreaker: handler.resetCircuitBreaker.bind(handler),
   }
 }
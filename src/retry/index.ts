@@ -0,0 +1,14 @@
+/**
+ * Bungate Retry Module
+ *
+ * Retry policy that fails over proxied requests to other upstream targets
+ */
+
+export {
+  RetryPolicy,
+  classifyRetryError,
+  type RetryAttempt,
+  type RetryAttemptResult,
+  type RetryConfig,
+  type RetryErrorType,
+} from './retry-policy'
@@ -0,0 +1,295 @@
+/**
+ * Retry Policy
+ *
+ * Retries failed upstream requests of a route with exponential backoff and
+ * full jitter. Only idempotent methods are retried by default; request bodies
+ * are buffered up to a limit so they can be replayed on every attempt.
+ *
+ * The gateway picks a different load balancer target for each attempt, so a
+ * retry fails over to another upstream instead of hitting the same one again.
+ */
+
+/**
+ * Kinds of upstream failure a retry can be triggered by
+ *
+ * - `connection`: the upstream refused, reset or dropped the connection
+ * - `timeout`: the upstream did not answer within the route timeout
+ * - `circuit-open`: the route's circuit breaker rejected the request
+ */
+export type RetryErrorType = 'connection' | 'timeout' | 'circuit-open'
+
+/**
+ * Retry configuration of a route
+ */
+export interface RetryConfig {
+  /**
+   * Total attempts including the first one
+   * @default 3
+   */
+  maxAttempts?: number
+  /**
+   * Upstream statuses that are retried
+   * @default [502, 503, 504]
+   */
+  statusCodes?: number[]
+  /**
+   * Failures that are retried
+   * @default ['connection', 'timeout']
+   */
+  errors?: RetryErrorType[]
+  /**
+   * Methods that are retried; non-idempotent methods must be listed explicitly
+   * @default ['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE']
+   */
+  methods?: string[]
+  /**
+   * Backoff before the first retry in milliseconds; doubles on every retry
+   * @default 100
+   */
+  baseDelay?: number
+  /**
+   * Upper bound of the backoff in milliseconds
+   * @default 2000
+   */
+  maxDelay?: number
+  /**
+   * Largest request body buffered for replay; requests with a larger body are
+   * sent once without retries
+   * @default 1048576 (1 MiB)
+   */
+  maxBodyBytes?: number
+}
+
+/**
+ * Outcome of a single upstream attempt
+ */
+export interface RetryAttemptResult {
+  response: Response
+  /** Error reported by the proxy when `response` was generated by it */
+  error?: Error
+}
+
+/**
+ * Sends one upstream attempt
+ *
+ * @param body - Request body to send; a fresh copy on every attempt
+ * @param attempt - 1-based attempt number
+ */
+export type RetryAttempt = (
+  body: RequestInit['body'],
+  attempt: number,
+) => Promise<RetryAttemptResult>
+
+const DEFAULT_STATUS_CODES = [502, 503, 504]
+const DEFAULT_ERRORS: RetryErrorType[] = ['connection', 'timeout']
+const IDEMPOTENT_METHODS = ['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE']
+
+/** Error codes of failed connections reported by Bun and Node.js */
+const CONNECTION_ERROR_CODES = new Set([
+  'ConnectionRefused',
+  'ConnectionClosed',
+  'FailedToOpenSocket',
+  'ECONNREFUSED',
+  'ECONNRESET',
+  'ENOTFOUND',
+  'EPIPE',
+  'EHOSTUNREACH',
+  'ENETUNREACH',
+])
+
+/**
+ * Classifies an upstream failure
+ *
+ * @returns The failure kind, or undefined when it is not a transport failure
+ *   (e.g. an error thrown by a hook), which is never retried
+ */
+export function classifyRetryError(error: unknown): RetryErrorType | undefined {
+  if (!(error instanceof Error)) {
+    return undefined
+  }
+  const message = error.message.toLowerCase()
+  if (message.includes('circuit breaker')) {
+    return 'circuit-open'
+  }
+  if (
+    error.name === 'TimeoutError' ||
+    error.name === 'AbortError' ||
+    message.includes('timeout') ||
+    message.includes('timed out')
+  ) {
+    return 'timeout'
+  }
+  const code = (error as Error & { code?: unknown }).code
+  if (
+    (typeof code === 'string' && CONNECTION_ERROR_CODES.has(code)) ||
+    message.includes('unable to connect') ||
+    message.includes('socket') ||
+    message.includes('connection')
+  ) {
+    return 'connection'
+  }
+  return undefined
+}
+
+/**
+ * Retry policy of a route
+ *
+ * @example
+ * ```ts
+ * const policy = new RetryPolicy({ maxAttempts: 3 })
+ * const response = await policy.execute(req, async (body) => ({
+ *   response: await fetch(upstreamUrl, { method: req.method, body }),
+ * }))
+ * ```
+ */
+export class RetryPolicy {
+  readonly maxAttempts: number
+  private readonly statusCodes: Set<number>
+  private readonly errors: Set<RetryErrorType>
+  private readonly methods: Set<string>
+  private readonly baseDelay: number
+  private readonly maxDelay: number
+  private readonly maxBodyBytes: number
+
+  constructor(config: RetryConfig = {}) {
+    this.maxAttempts = Math.max(1, Math.floor(config.maxAttempts ?? 3))
+    this.statusCodes = new Set(config.statusCodes ?? DEFAULT_STATUS_CODES)
+    this.errors = new Set(config.errors ?? DEFAULT_ERRORS)
+    this.methods = new Set(
+      (config.methods ?? IDEMPOTENT_METHODS).map((m) => m.toUpperCase()),
+    )
+    this.baseDelay = Math.max(0, config.baseDelay ?? 100)
+    this.maxDelay = Math.max(this.baseDelay, config.maxDelay ?? 2000)
+    this.maxBodyBytes = Math.max(0, config.maxBodyBytes ?? 1024 * 1024)
+  }
+
+  /**
+   * Returns true if requests with this method may be retried
+   */
+  allowsMethod(method: string): boolean {
+    return this.maxAttempts > 1 && this.methods.has(method.toUpperCase())
+  }
+
+  /**
+   * Returns true if the outcome of an attempt should be retried
+   */
+  isRetryable(result: RetryAttemptResult): boolean {
+    if (result.error) {
+      const type = classifyRetryError(result.error)
+      return type !== undefined && this.errors.has(type)
+    }
+    return this.statusCodes.has(result.response.status)
+  }
+
+  /**
+   * Backoff before the given retry: a random delay up to
+   * `baseDelay * 2^(retry - 1)`, capped at `maxDelay`
+   *
+   * @param retry - 1-based retry number
+   */
+  backoff(retry: number): number {
+    const ceiling = Math.min(
+      this.maxDelay,
+      this.baseDelay * Math.pow(2, retry - 1),
+    )
+    return Math.floor(Math.random() * ceiling)
+  }
+
+  /**
+   * Sends a request, retrying retryable outcomes
+   *
+   * Requests whose method is not retried, or whose body exceeds
+   * `maxBodyBytes`, are sent once with the original body stream. Thrown errors
+   * are retried like proxy-reported ones; the last outcome is returned, or its
+   * error rethrown.
+   */
+  async execute(req: Request, attempt: RetryAttempt): Promise<Response> {
+    if (!this.allowsMethod(req.method)) {
+      return (await attempt(req.body, 1)).response
+    }
+
+    const buffered = await bufferRequestBody(req, this.maxBodyBytes)
+    if ('stream' in buffered) {
+      return (await attempt(buffered.stream, 1)).response
+    }
+
+    for (let n = 1; ; n++) {
+      const body = buffered.body ? buffered.body.slice() : null
+      let result: RetryAttemptResult
+      try {
+        result = await attempt(body, n)
+      } catch (error) {
+        const type = classifyRetryError(error)
+        if (n >= this.maxAttempts || !type || !this.errors.has(type)) {
+          throw error
+        }
+        await Bun.sleep(this.backoff(n))
+        continue
+      }
+
+      if (n >= this.maxAttempts || !this.isRetryable(result)) {
+        return result.response
+      }
+      // Release the discarded response's connection before retrying
+      await result.response.body?.cancel().catch(() => {})
+      await Bun.sleep(this.backoff(n))
+    }
+  }
+}
+
+/**
+ * Reads a request body, giving up once it exceeds `limit` bytes
+ *
+ * @returns The body (null when the request has none), or a stream replaying
+ *   what was read followed by the rest of the body when it is too large
+ */
+async function bufferRequestBody(
+  req: Request,
+  limit: number,
+): Promise<
+  { body: Uint8Array | null } | { stream: ReadableStream<Uint8Array> }
+> {
+  if (!req.body) {
+    return { body: null }
+  }
+
+  const declared = Number(req.headers.get('content-length'))
+  if (Number.isFinite(declared) && declared > limit) {
+    return { stream: req.body }
+  }
+
+  const reader = req.body.getReader()
+  const chunks: Uint8Array[] = []
+  let total = 0
+  while (true) {
+    const { done, value } = await reader.read()
+    if (done) break
+    chunks.push(value)
+    total += value.byteLength
+    if (total > limit) {
+      return {
+        stream: new ReadableStream<Uint8Array>({
+          start(controller) {
+            for (const chunk of chunks) controller.enqueue(chunk)
+          },
+          async pull(controller) {
+            const next = await reader.read()
+            if (next.done) controller.close()
+            else controller.enqueue(next.value)
+          },
+          cancel(reason) {
+            return reader.cancel(reason)
+          },
+        }),
+      }
+    }
+  }
+
+  const body = new Uint8Array(total)
+  let offset = 0
+  for (const chunk of chunks) {
+    body.set(chunk, offset)
+    offset += chunk.byteLength
+  }
+  return { body }
+}
@@ -0,0 +1,13 @@
+/**
+ * Bungate Routing Module
+ *
+ * Host, header, query and cookie match conditions of routes, and route groups
+ * sharing a path prefix and settings
+ */
+
+export {
+  RouteMatcher,
+  type MatchCondition,
+  type RouteMatchConfig,
+} from './route-matcher'
+export { RouteGroup, type RouteGroupConfig } from './route-group'
@@ -0,0 +1,136 @@
+/**
+ * Route Groups
+ *
+ * Registers routes under a shared path prefix with shared settings, so routes
+ * of one API need not repeat their authentication, rate limits, proxy options
+ * and middlewares. Groups can be nested; settings of inner groups and of the
+ * routes themselves take precedence, merged the way the gateway applies its
+ * `proxy` defaults: each top-level field of the route replaces the group's.
+ */
+
+import type { RouteConfig } from '../interfaces/route'
+
+/**
+ * Settings shared by the routes of a group
+ */
+export type RouteGroupConfig = Pick<
+  RouteConfig,
+  'auth' | 'rateLimit' | 'middlewares' | 'proxy' | 'circuitBreaker'
+>
+
+/** Merged field by field, with the route's fields taking precedence */
+const MERGED_SETTINGS = [
+  'auth',
+  'rateLimit',
+  'proxy',
+  'circuitBreaker',
+] as const
+
+type MergedSetting = (typeof MERGED_SETTINGS)[number]
+
+/**
+ * Registers routes within a group
+ *
+ * @example
+ * ```ts
+ * gateway.group('/api/v2', { auth: { secret }, rateLimit: { max: 100 } }, (api) => {
+ *   api.addRoute({ pattern: '/users/*', target: 'http://users:3000' })
+ *   api.group('/admin', { middlewares: [audit] }, (admin) => {
+ *     admin.addRoute({ pattern: '/stats', target: 'http://stats:3000' })
+ *   })
+ * })
+ * ```
+ */
+export class RouteGroup {
+  readonly prefix: string
+  private readonly config: RouteGroupConfig
+  private readonly register: (route: RouteConfig) => void
+
+  /**
+   * @param prefix - Path prefix of the group's route patterns, e.g. '/api/v2'
+   * @param config - Settings shared by the group's routes
+   * @param register - Adds a route, with the group's settings applied, to the
+   *   route table
+   * @throws Error if the prefix does not start with "/"
+   */
+  constructor(
+    prefix: string,
+    config: RouteGroupConfig,
+    register: (route: RouteConfig) => void,
+  ) {
+    if (!prefix.startsWith('/')) {
+      throw new Error(`Route group prefix must start with "/": ${prefix}`)
+    }
+    this.prefix = prefix.replace(/\/+$/, '')
+    this.config = config
+    this.register = register
+  }
+
+  /**
+   * Adds a route whose pattern is relative to the group's prefix
+   */
+  addRoute(route: RouteConfig): this {
+    this.register(this.apply(route))
+    return this
+  }
+
+  /**
+   * Defines a nested group, whose prefix and settings extend this group's
+   */
+  group(
+    prefix: string,
+    config: RouteGroupConfig,
+    define: (group: RouteGroup) => void,
+  ): this {
+    define(new RouteGroup(prefix, config, (route) =>
+      this.register(this.apply(route)),
+    ))
+    return this
+  }
+
+  /**
+   * Applies the group's prefix and settings to a route
+   */
+  apply(route: RouteConfig): RouteConfig {
+    const applied: RouteConfig = {
+      ...route,
+      pattern: joinPattern(this.prefix, route.pattern),
+    }
+    for (const setting of MERGED_SETTINGS) {
+      mergeSetting(applied, this.config, setting)
+    }
+    // Group middlewares run before the route's own
+    if (this.config.middlewares?.length) {
+      applied.middlewares = [
+        ...this.config.middlewares,
+        ...(route.middlewares ?? []),
+      ]
+    }
+    return applied
+  }
+}
+
+/**
+ * Merges a group setting into a route, with the route's fields taking
+ * precedence
+ */
+function mergeSetting<K extends MergedSetting>(
+  route: RouteConfig,
+  group: RouteGroupConfig,
+  setting: K,
+): void {
+  if (group[setting] !== undefined) {
+    route[setting] = { ...group[setting], ...route[setting] }
+  }
+}
+
+/**
+ * Prefixes a route pattern, e.g. '/api' and '/users/:id' give
+ * '/api/users/:id', and '/api' and '/' give '/api'
+ */
+function joinPattern(prefix: string, pattern: string): string {
+  if (pattern === '' || pattern === '/') {
+    return prefix || '/'
+  }
+  return `${prefix}${pattern.startsWith('/') ? '' : '/'}${pattern}`
+}
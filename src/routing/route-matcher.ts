@@ -0,0 +1,173 @@
+/**
+ * Route Matcher
+ *
+ * Match conditions that narrow a route beyond its path pattern and methods:
+ * the Host (virtual hosts), header values, query parameters and cookies. Routes
+ * sharing a path pattern are told apart by their conditions.
+ *
+ * Conditions are evaluated in a fixed order, host first, then headers, query
+ * parameters and cookies, each map in its key order. The first condition that
+ * fails rejects the request, and all of them must hold for the route to match.
+ */
+
+/**
+ * Condition on a header, query parameter or cookie: a string matches that exact
+ * value, an array any of its values, `true` requires the value to be present
+ * and `false` requires it to be absent
+ */
+export type MatchCondition = string | string[] | boolean
+
+/**
+ * Match conditions of a route
+ */
+export interface RouteMatchConfig {
+  /**
+   * Host names the route serves, compared case-insensitively without the
+   * port. A leading wildcard label matches any subdomain: `*.example.com`
+   * matches `a.example.com` and `a.b.example.com`, but not `example.com`.
+   * @example ['api.example.com', '*.tenant.example.com']
+   */
+  host?: string | string[]
+  /** Conditions on request headers; names are case-insensitive */
+  headers?: Record<string, MatchCondition>
+  /**
+   * Conditions on query parameters; a repeated parameter matches when any of
+   * its values does
+   */
+  query?: Record<string, MatchCondition>
+  /** Conditions on cookies */
+  cookies?: Record<string, MatchCondition>
+}
+
+type Lookup = (name: string) => string[]
+
+/**
+ * Evaluates the match conditions of a route against requests
+ *
+ * @example
+ * ```ts
+ * const matcher = new RouteMatcher({
+ *   host: '*.tenant.example.com',
+ *   headers: { 'x-api-version': ['2', '3'] },
+ * })
+ * matcher.matches(req)
+ * ```
+ */
+export class RouteMatcher {
+  private readonly hosts: Array<{ name: string; wildcard: boolean }>
+  private readonly headers: Array<[string, MatchCondition]>
+  private readonly query: Array<[string, MatchCondition]>
+  private readonly cookies: Array<[string, MatchCondition]>
+
+  constructor(config: RouteMatchConfig) {
+    const hosts =
+      config.host === undefined
+        ? []
+        : Array.isArray(config.host)
+          ? config.host
+          : [config.host]
+    this.hosts = hosts.map((host) => {
+      const name = host.toLowerCase()
+      return name.startsWith('*.')
+        ? { name: name.slice(1), wildcard: true }
+        : { name, wildcard: false }
+    })
+    this.headers = Object.entries(config.headers ?? {}).map(
+      ([name, condition]) => [name.toLowerCase(), condition],
+    )
+    this.query = Object.entries(config.query ?? {})
+    this.cookies = Object.entries(config.cookies ?? {})
+  }
+
+  /**
+   * Returns true if the request meets every condition
+   */
+  matches(req: Request): boolean {
+    if (this.hosts.length > 0 && !this.matchesHost(req)) {
+      return false
+    }
+    if (
+      this.headers.length > 0 &&
+      !satisfies(this.headers, (name) => {
+        const value = req.headers.get(name)
+        return value === null ? [] : [value]
+      })
+    ) {
+      return false
+    }
+    if (this.query.length > 0) {
+      const params = new URL(req.url).searchParams
+      if (!satisfies(this.query, (name) => params.getAll(name))) {
+        return false
+      }
+    }
+    if (this.cookies.length > 0) {
+      const cookies = parseCookies(req.headers.get('cookie'))
+      if (!satisfies(this.cookies, (name) => cookies.get(name) ?? [])) {
+        return false
+      }
+    }
+    return true
+  }
+
+  private matchesHost(req: Request): boolean {
+    const host = hostName(req.headers.get('host') ?? new URL(req.url).host)
+    return this.hosts.some(({ name, wildcard }) =>
+      wildcard
+        ? host.endsWith(name) && host.length > name.length
+        : host === name,
+    )
+  }
+}
+
+/**
+ * Returns true if every condition holds for the values `lookup` finds
+ */
+function satisfies(
+  conditions: Array<[string, MatchCondition]>,
+  lookup: Lookup,
+): boolean {
+  for (const [name, condition] of conditions) {
+    const values = lookup(name)
+    if (typeof condition === 'boolean') {
+      if (values.length > 0 !== condition) return false
+    } else if (Array.isArray(condition)) {
+      if (!values.some((value) => condition.includes(value))) return false
+    } else if (!values.includes(condition)) {
+      return false
+    }
+  }
+  return true
+}
+
+/**
+ * Lower-cases a Host header value and strips its port and trailing dot
+ */
+function hostName(host: string): string {
+  let name = host.toLowerCase()
+  if (name.startsWith('[')) {
+    // IPv6 literal, e.g. [::1]:8080
+    name = name.slice(0, name.indexOf(']') + 1)
+  } else {
+    const colon = name.indexOf(':')
+    if (colon !== -1) name = name.slice(0, colon)
+  }
+  return name.endsWith('.') ? name.slice(0, -1) : name
+}
+
+function parseCookies(header: string | null): Map<string, string[]> {
+  const cookies = new Map<string, string[]>()
+  if (!header) {
+    return cookies
+  }
+  for (const part of header.split(';')) {
+    const index = part.indexOf('=')
+    if (index > 0) {
+      const name = part.slice(0, index).trim()
+      const values = cookies.get(name) ?? []
+      values.push(part.slice(index + 1).trim())
+      cookies.set(name, values)
+    }
+  }
+  return cookies
+}
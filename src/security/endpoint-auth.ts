@@ -0,0 +1,174 @@
+/**
+ * Endpoint Authentication
+ *
+ * Credential checks for operational endpoints (admin API, health details) that
+ * are protected by static credentials rather than JWTs. All comparisons are
+ * constant-time.
+ */
+
+import type { Logger } from '../interfaces/logger'
+import { isIPInCIDR, isValidIP, timingSafeEqual } from './utils'
+
+/**
+ * Static credential authentication settings
+ */
+export interface EndpointAuthConfig {
+  /**
+   * Authentication scheme
+   * - basic: `Authorization: Basic`, credentials map usernames to passwords
+   * - bearer: `Authorization: Bearer`, any credential value is an accepted token
+   * - apikey: API key header, any credential value is an accepted key
+   */
+  type: 'basic' | 'bearer' | 'apikey'
+  /** Accepted credentials */
+  credentials: Record<string, string>
+  /**
+   * Header carrying the API key for the apikey scheme
+   * @default "x-api-key"
+   */
+  apiKeyHeader?: string
+}
+
+/**
+ * Result of an endpoint authentication check
+ */
+export interface EndpointAuthResult {
+  /** Whether the request may proceed */
+  allowed: boolean
+  /** HTTP status to use when rejected */
+  status?: 401 | 403
+  /** Rejection reason, safe to return to the client */
+  reason?: string
+}
+
+/**
+ * Options for createEndpointAuthenticator
+ */
+export interface EndpointAuthOptions {
+  /** Credential check; omitted means no credentials are required */
+  auth?: EndpointAuthConfig
+  /** Client IPs or CIDR ranges allowed to call the endpoint */
+  ipWhitelist?: string[]
+  /** Logger for rejected attempts */
+  logger?: Logger
+}
+
+function matchesAny(candidate: string, accepted: string[]): boolean {
+  // Compare against every value so timing does not reveal which one matched
+  let matched = false
+  for (const value of accepted) {
+    if (timingSafeEqual(candidate, value)) {
+      matched = true
+    }
+  }
+  return matched
+}
+
+function isWhitelisted(clientIP: string, whitelist: string[]): boolean {
+  if (!isValidIP(clientIP)) {
+    return false
+  }
+  return whitelist.some((entry) =>
+    entry.includes('/') ? isIPInCIDR(clientIP, entry) : entry === clientIP,
+  )
+}
+
+/**
+ * Creates a request authenticator for operational endpoints
+ *
+ * @param options - Credentials and IP whitelist
+ * @returns Function checking a request and its client IP
+ *
+ * @example
+ * ```ts
+ * const authenticate = createEndpointAuthenticator({
+ *   auth: { type: 'bearer', credentials: { ops: process.env.ADMIN_TOKEN! } },
+ *   ipWhitelist: ['10.0.0.0/8'],
+ * })
+ *
+ * const result = authenticate(req, clientIP)
+ * if (!result.allowed) return new Response(null, { status: result.status })
+ * ```
+ */
+export function createEndpointAuthenticator(
+  options: EndpointAuthOptions,
+): (req: Request, clientIP: string) => EndpointAuthResult {
+  const { auth, ipWhitelist, logger } = options
+
+  if (auth && Object.keys(auth.credentials).length === 0) {
+    throw new Error('Endpoint authentication requires at least one credential')
+  }
+
+  const apiKeyHeader = auth?.apiKeyHeader ?? 'x-api-key'
+  const acceptedSecrets = auth ? Object.values(auth.credentials) : []
+
+  const checkCredentials = (req: Request): boolean => {
+    if (!auth) {
+      return true
+    }
+
+    if (auth.type === 'apikey') {
+      const key = req.headers.get(apiKeyHeader)
+      return key !== null && matchesAny(key, acceptedSecrets)
+    }
+
+    const header = req.headers.get('authorization') ?? ''
+    const separator = header.indexOf(' ')
+    if (separator === -1) {
+      return false
+    }
+    const scheme = header.slice(0, separator).toLowerCase()
+    const value = header.slice(separator + 1).trim()
+
+    if (auth.type === 'bearer') {
+      return scheme === 'bearer' && matchesAny(value, acceptedSecrets)
+    }
+
+    if (scheme !== 'basic') {
+      return false
+    }
+    let decoded: string
+    try {
+      decoded = atob(value)
+    } catch {
+      return false
+    }
+    const colon = decoded.indexOf(':')
+    if (colon === -1) {
+      return false
+    }
+    const username = decoded.slice(0, colon)
+    const password = decoded.slice(colon + 1)
+    const expected = Object.prototype.hasOwnProperty.call(
+      auth.credentials,
+      username,
+    )
+      ? auth.credentials[username]!
+      : undefined
+    // Still run a comparison for unknown users to keep timing uniform
+    const passwordMatches = timingSafeEqual(password, expected ?? password)
+    return expected !== undefined && passwordMatches
+  }
+
+  return (req: Request, clientIP: string): EndpointAuthResult => {
+    if (ipWhitelist && ipWhitelist.length > 0) {
+      if (!isWhitelisted(clientIP, ipWhitelist)) {
+        logger?.warn('Endpoint access denied for client IP', {
+          clientIP,
+          path: new URL(req.url).pathname,
+        })
+        return { allowed: false, status: 403, reason: 'Forbidden' }
+      }
+    }
+
+    if (!checkCredentials(req)) {
+      logger?.warn('Endpoint authentication failed', {
+        clientIP,
+        path: new URL(req.url).pathname,
+      })
+      return { allowed: false, status: 401, reason: 'Unauthorized' }
+    }
+
+    return { allowed: true }
+  }
+}
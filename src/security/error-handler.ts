@@ -12,6 +12,7 @@ import {
   generateRequestId,
   redactSensitiveData,
 } from './utils'
+import { currentRequestId } from './request-id'
 
 /**
  * Default error messages for common HTTP status codes
@@ -109,7 +110,8 @@ export class SecureErrorHandler {
    */
   sanitizeError(error: Error, context?: ErrorContext): SafeError {
     const statusCode = this.getStatusCode(error)
-    const requestId = context?.requestId || generateRequestId()
+    const requestId =
+      context?.requestId || currentRequestId() || generateRequestId()
     const timestamp = Date.now()
 
     let message: string
@@ -181,7 +183,10 @@ export class SecureErrorHandler {
     })
 
     return {
-      requestId: req.headers.get('X-Request-ID') || generateRequestId(),
+      requestId:
+        currentRequestId() ||
+        req.headers.get('X-Request-ID') ||
+        generateRequestId(),
       clientIP: this.extractClientIP(req),
       method: req.method,
       url: url.pathname + url.search,
@@ -351,7 +356,7 @@ export class SecureErrorHandler {
    */
   sanitizeCircuitBreakerError(error: Error): SafeError {
     const statusCode = 503
-    const requestId = generateRequestId()
+    const requestId = currentRequestId() ?? generateRequestId()
     const timestamp = Date.now()
 
     let message: string
@@ -375,7 +380,7 @@ export class SecureErrorHandler {
    */
   sanitizeBackendServiceError(error: Error, backendUrl?: string): SafeError {
     const statusCode = this.getStatusCode(error)
-    const requestId = generateRequestId()
+    const requestId = currentRequestId() ?? generateRequestId()
     const timestamp = Date.now()
 
     let message: string
@@ -60,6 +60,14 @@ export {
   extractDomain,
 } from './utils'
 
+// Export request IDs
+export {
+  REQUEST_ID_HEADER,
+  currentRequestId,
+  isValidRequestId,
+  runWithRequestId,
+} from './request-id'
+
 // Export TLS manager
 export {
   TLSManager,
@@ -147,3 +155,11 @@ export {
   createTokenVerifier,
   type JWTKeyRotationMiddlewareOptions,
 } from './jwt-key-rotation-middleware'
+
+// Export endpoint authentication
+export {
+  createEndpointAuthenticator,
+  type EndpointAuthConfig,
+  type EndpointAuthOptions,
+  type EndpointAuthResult,
+} from './endpoint-auth'
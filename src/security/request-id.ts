@@ -0,0 +1,42 @@
+/**
+ * Request IDs
+ *
+ * The gateway assigns every request an ID: the inbound `X-Request-ID` when a
+ * trusted proxy sent it, or a fresh one. The ID is forwarded upstream, echoed
+ * in the response, added to every log line of the gateway's logger and used
+ * in error bodies. It is carried in an async context for the lifetime of the
+ * request, so any code running on behalf of the request can read it.
+ */
+
+import { AsyncLocalStorage } from 'node:async_hooks'
+
+/** Header carrying the request ID, inbound, upstream and in responses */
+export const REQUEST_ID_HEADER = 'x-request-id'
+
+/** Printable ASCII without spaces, so IDs are safe in headers and logs */
+const VALID_REQUEST_ID = /^[\x21-\x7e]{1,200}$/
+
+const context = new AsyncLocalStorage<string>()
+
+/**
+ * Runs a function with a request ID as the current request ID of everything
+ * it calls, synchronously or asynchronously
+ */
+export function runWithRequestId<T>(requestId: string, fn: () => T): T {
+  return context.run(requestId, fn)
+}
+
+/**
+ * The ID of the request being handled, or undefined outside a request
+ */
+export function currentRequestId(): string | undefined {
+  return context.getStore()
+}
+
+/**
+ * Whether an inbound request ID may be adopted: 1 to 200 printable ASCII
+ * characters
+ */
+export function isValidRequestId(requestId: string): boolean {
+  return VALID_REQUEST_ID.test(requestId)
+}
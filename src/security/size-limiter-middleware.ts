@@ -7,6 +7,7 @@ import type { RequestHandler, ZeroRequest } from '../interfaces/middleware'
 import type { SizeLimits } from './config'
 import { SizeLimiter } from './size-limiter'
 import { generateRequestId } from './utils'
+import { currentRequestId } from './request-id'
 import { defaultLogger } from '../logger/pino-logger'
 
 /**
@@ -26,6 +27,11 @@ export interface SizeLimiterMiddlewareConfig {
     req: ZeroRequest,
     statusCode: number,
   ) => Response
+
+  /**
+   * Called for every rejected request, before the response is built
+   */
+  onReject?: (statusCode: number, errors: string[]) => void
 }
 
 /**
@@ -54,11 +60,11 @@ function getStatusCodeForError(error: string): number {
 export function createSizeLimiterMiddleware(
   config: SizeLimiterMiddlewareConfig = {},
 ): RequestHandler {
-  const { limits, onSizeExceeded } = config
+  const { limits, onSizeExceeded, onReject } = config
   const limiter = new SizeLimiter(limits)
 
   return async (req: ZeroRequest, next): Promise<Response> => {
-    const requestId = generateRequestId()
+    const requestId = currentRequestId() ?? generateRequestId()
 
     try {
       // Validate all request size constraints
@@ -69,6 +75,7 @@ export function createSizeLimiterMiddleware(
         // Determine the most appropriate status code
         // Use the first error to determine status code
         const statusCode = getStatusCodeForError(result.errors[0] ?? '')
+        onReject?.(statusCode, result.errors)
 
         // Use custom error handler if provided
         if (onSizeExceeded) {
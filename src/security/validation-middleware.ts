@@ -7,6 +7,7 @@ import type { RequestHandler, ZeroRequest } from '../interfaces/middleware'
 import type { ValidationRules } from './types'
 import { InputValidator } from './input-validator'
 import { generateRequestId } from './utils'
+import { currentRequestId } from './request-id'
 import { defaultLogger } from '../logger/pino-logger'
 
 /**
@@ -58,7 +59,7 @@ export function createValidationMiddleware(
 
   return async (req: ZeroRequest, next): Promise<Response> => {
     const allErrors: string[] = []
-    const requestId = generateRequestId()
+    const requestId = currentRequestId() ?? generateRequestId()
 
     try {
       const url = new URL(req.url)
@@ -0,0 +1,13 @@
+/**
+ * Bungate Split Module
+ *
+ * Weighted traffic splitting and canary releases between route backends
+ */
+
+export {
+  TrafficSplitter,
+  type SplitAssignment,
+  type SplitBackend,
+  type SplitOverride,
+  type TrafficSplitConfig,
+} from './traffic-splitter'
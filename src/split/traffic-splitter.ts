@@ -0,0 +1,336 @@
+/**
+ * Traffic Splitter
+ *
+ * Splits a route's traffic between named backends, e.g. "stable" and
+ * "canary", by weight. Clients are assigned by hashing a stable client key, so
+ * a client keeps its backend while the weights stay the same, and raising a
+ * backend's weight only moves clients onto it. Overrides pin requests to a
+ * backend by header, cookie or JWT claim.
+ */
+
+import type { LoadBalancerConfig } from '../interfaces/load-balancer'
+
+/**
+ * A named backend traffic is split to
+ */
+export interface SplitBackend {
+  /** Backend name, e.g. "stable" or "canary" */
+  name: string
+  /** Relative share of traffic; 0 takes the backend out of the split */
+  weight: number
+  /** Upstream URL; one of `target` or `loadBalancer` is required */
+  target?: string
+  /** Load-balanced upstream pool */
+  loadBalancer?: LoadBalancerConfig
+}
+
+/**
+ * Pins matching requests to a backend
+ *
+ * With `value` and `backend`, requests whose header, cookie or claim equals
+ * `value` go to `backend`. Without them, the header, cookie or claim itself
+ * names the backend. Exactly one of `header`, `cookie` or `claim` is required.
+ */
+export interface SplitOverride {
+  /** Request header name */
+  header?: string
+  /** Cookie name */
+  cookie?: string
+  /** JWT claim of the authenticated user; dots select nested claims */
+  claim?: string
+  /** Value to match; array claims match when they contain it */
+  value?: string
+  /** Backend that matching requests go to */
+  backend?: string
+}
+
+/**
+ * Traffic split configuration of a route
+ */
+export interface TrafficSplitConfig {
+  /** Backends in a fixed order; at least one needs a positive weight */
+  backends: SplitBackend[]
+  /** Overrides, checked in order before the weighted split */
+  overrides?: SplitOverride[]
+  /**
+   * Client key keeping a client on one backend: a random id stored in a
+   * cookie, or the client IP
+   * @default "cookie"
+   */
+  stickyBy?: 'cookie' | 'ip'
+  /**
+   * Name of the client id cookie
+   * @default "bungate_split"
+   */
+  cookieName?: string
+  /**
+   * Lifetime of the client id cookie in seconds
+   * @default 2592000 (30 days)
+   */
+  cookieMaxAge?: number
+}
+
+/**
+ * Backend chosen for a request
+ */
+export interface SplitAssignment {
+  backend: string
+  /** Whether an override or the weighted split chose the backend */
+  reason: 'override' | 'weight'
+  /** Set-Cookie header issuing a new client id, when one was generated */
+  setCookie?: string
+}
+
+/** Resolution of the weighted split, in hundredths of a percent */
+const BUCKETS = 10000
+const CLIENT_ID_PATTERN = /^[A-Za-z0-9-]{1,64}$/
+
+/**
+ * Assigns requests of a route to its backends
+ *
+ * @example
+ * ```ts
+ * const splitter = new TrafficSplitter('/api/*', {
+ *   backends: [
+ *     { name: 'stable', weight: 95, target: 'http://api-v1:3000' },
+ *     { name: 'canary', weight: 5, target: 'http://api-v2:3000' },
+ *   ],
+ *   overrides: [{ header: 'x-version' }],
+ * })
+ * const { backend } = splitter.assign(req, clientIP)
+ * ```
+ */
+export class TrafficSplitter {
+  private readonly key: string
+  private readonly names: string[]
+  private readonly weights = new Map<string, number>()
+  private readonly overrides: SplitOverride[]
+  private readonly stickyBy: 'cookie' | 'ip'
+  private readonly cookieName: string
+  private readonly cookieMaxAge: number
+
+  /**
+   * @param key - Identifies the route, so that clients are spread
+   *   independently on every split route
+   */
+  constructor(key: string, config: TrafficSplitConfig) {
+    if (!config.backends || config.backends.length === 0) {
+      throw new Error('Traffic split requires at least one backend')
+    }
+    this.key = key
+    this.names = config.backends.map((backend) => backend.name)
+    if (new Set(this.names).size !== this.names.length) {
+      throw new Error('Traffic split backend names must be unique')
+    }
+    for (const backend of config.backends) {
+      if (!backend.target === !backend.loadBalancer) {
+        throw new Error(
+          `Traffic split backend "${backend.name}" requires either target or loadBalancer`,
+        )
+      }
+    }
+
+    for (const override of config.overrides ?? []) {
+      const sources = [override.header, override.cookie, override.claim]
+      if (sources.filter((source) => source !== undefined).length !== 1) {
+        throw new Error(
+          'Traffic split override requires exactly one of header, cookie or claim',
+        )
+      }
+      if ((override.value === undefined) !== (override.backend === undefined)) {
+        throw new Error(
+          'Traffic split override requires both value and backend, or neither',
+        )
+      }
+      if (override.backend !== undefined && !this.has(override.backend)) {
+        throw new Error(
+          `Traffic split override names unknown backend: ${override.backend}`,
+        )
+      }
+    }
+
+    this.overrides = config.overrides ?? []
+    this.stickyBy = config.stickyBy ?? 'cookie'
+    this.cookieName = config.cookieName ?? 'bungate_split'
+    this.cookieMaxAge = config.cookieMaxAge ?? 30 * 24 * 60 * 60
+    this.setWeights(
+      Object.fromEntries(
+        config.backends.map((backend) => [backend.name, backend.weight]),
+      ),
+    )
+  }
+
+  /**
+   * Returns true if the split has a backend with this name
+   */
+  has(name: string): boolean {
+    return this.names.includes(name)
+  }
+
+  /**
+   * Current weight of every backend
+   */
+  getWeights(): Record<string, number> {
+    return Object.fromEntries(this.weights)
+  }
+
+  /**
+   * Changes backend weights; backends left out keep their weight
+   *
+   * @throws Error if a backend is unknown, a weight is negative, or no
+   *   backend would be left with a positive weight
+   */
+  setWeights(weights: Record<string, number>): void {
+    const next = new Map(this.weights)
+    for (const [name, weight] of Object.entries(weights)) {
+      if (!this.has(name)) {
+        throw new Error(`Unknown traffic split backend: ${name}`)
+      }
+      if (
+        typeof weight !== 'number' ||
+        !Number.isFinite(weight) ||
+        weight < 0
+      ) {
+        throw new Error(
+          `Traffic split weight of "${name}" must be a non-negative number`,
+        )
+      }
+      next.set(name, weight)
+    }
+    let total = 0
+    for (const weight of next.values()) total += weight
+    if (total <= 0) {
+      throw new Error('Traffic split requires a backend with a positive weight')
+    }
+
+    this.weights.clear()
+    for (const name of this.names) {
+      this.weights.set(name, next.get(name) ?? 0)
+    }
+  }
+
+  /**
+   * Chooses the backend of a request
+   *
+   * @param req - Request; its `ctx.user` holds the JWT claims when the route
+   *   authenticates requests
+   * @param clientIP - Trusted client IP, used with `stickyBy: "ip"`
+   */
+  assign(req: Request, clientIP: string): SplitAssignment {
+    const cookies = parseCookies(req.headers.get('cookie'))
+
+    for (const override of this.overrides) {
+      const backend = this.matchOverride(override, req, cookies)
+      if (backend) {
+        return { backend, reason: 'override' }
+      }
+    }
+
+    let clientKey: string
+    let setCookie: string | undefined
+    if (this.stickyBy === 'ip') {
+      clientKey = clientIP
+    } else {
+      const existing = cookies.get(this.cookieName)
+      if (existing && CLIENT_ID_PATTERN.test(existing)) {
+        clientKey = existing
+      } else {
+        clientKey = crypto.randomUUID()
+        setCookie = [
+          `${this.cookieName}=${clientKey}`,
+          `Max-Age=${this.cookieMaxAge}`,
+          'Path=/',
+          'HttpOnly',
+          'Secure',
+          'SameSite=Lax',
+        ].join('; ')
+      }
+    }
+
+    return { backend: this.pick(clientKey), reason: 'weight', setCookie }
+  }
+
+  /**
+   * Maps a client key onto the cumulative weights in backend order
+   */
+  private pick(clientKey: string): string {
+    let total = 0
+    for (const weight of this.weights.values()) total += weight
+
+    const bucket = (fnv1a(`${this.key}:${clientKey}`) % BUCKETS) / BUCKETS
+    let cumulative = 0
+    let last = this.names[0]!
+    for (const [name, weight] of this.weights) {
+      if (weight <= 0) continue
+      cumulative += weight / total
+      last = name
+      if (bucket < cumulative) {
+        return name
+      }
+    }
+    // Rounding can leave the top bucket just past the last boundary
+    return last
+  }
+
+  private matchOverride(
+    override: SplitOverride,
+    req: Request,
+    cookies: Map<string, string>,
+  ): string | undefined {
+    let actual: unknown
+    if (override.header !== undefined) {
+      actual = req.headers.get(override.header) ?? undefined
+    } else if (override.cookie !== undefined) {
+      actual = cookies.get(override.cookie)
+    } else {
+      actual = readClaim(
+        (req as { ctx?: { user?: unknown } }).ctx?.user,
+        override.claim!,
+      )
+    }
+    if (actual === undefined || actual === null) {
+      return undefined
+    }
+
+    const values = Array.isArray(actual) ? actual.map(String) : [String(actual)]
+    if (override.value !== undefined) {
+      return values.includes(override.value) ? override.backend : undefined
+    }
+    return values.find((value) => this.has(value))
+  }
+}
+
+function parseCookies(header: string | null): Map<string, string> {
+  const cookies = new Map<string, string>()
+  if (!header) {
+    return cookies
+  }
+  for (const part of header.split(';')) {
+    const index = part.indexOf('=')
+    if (index > 0) {
+      cookies.set(part.slice(0, index).trim(), part.slice(index + 1).trim())
+    }
+  }
+  return cookies
+}
+
+function readClaim(claims: unknown, path: string): unknown {
+  let value = claims
+  for (const segment of path.split('.')) {
+    if (!value || typeof value !== 'object') {
+      return undefined
+    }
+    value = (value as Record<string, unknown>)[segment]
+  }
+  return value
+}
+
+/** 32-bit FNV-1a hash */
+function fnv1a(input: string): number {
+  let hash = 0x811c9dc5
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return hash >>> 0
+}
@@ -0,0 +1,11 @@
+/**
+ * Bungate Streaming Module
+ *
+ * Relaying of Server-Sent Events and other long-lived streaming responses
+ */
+
+export {
+  StreamRelay,
+  isEventStream,
+  type StreamingConfig,
+} from './stream-relay'
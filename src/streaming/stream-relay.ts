@@ -0,0 +1,329 @@
+/**
+ * Stream Relay
+ *
+ * Relays long-lived streaming responses such as Server-Sent Events from an
+ * upstream to the client. Chunks are passed on as the client reads them,
+ * without buffering, and the stream is bounded by an idle timeout and an
+ * optional total duration instead of the route's request timeout. Idle
+ * Server-Sent Event streams get heartbeat comments so that intermediaries do
+ * not close them.
+ *
+ * Streams that time out or are drained on shutdown end cleanly when they are
+ * Server-Sent Events, at an event boundary, so clients reconnect. Other
+ * streams are aborted, so clients can tell the body is incomplete.
+ */
+
+import type { ReadableStreamDefaultReader } from 'stream/web'
+
+/**
+ * Streaming settings of a route
+ */
+export interface StreamingConfig {
+  /**
+   * Milliseconds without a chunk from the upstream before the stream is
+   * ended; 0 disables the timeout
+   * @default 60000
+   */
+  idleTimeout?: number
+  /**
+   * Largest lifetime of a stream in milliseconds; 0 means unlimited
+   * @default 0
+   */
+  maxDuration?: number
+  /**
+   * Milliseconds without a chunk sent to the client before a heartbeat
+   * comment is sent on Server-Sent Event streams; 0 disables heartbeats
+   * @default 15000
+   */
+  heartbeatInterval?: number
+}
+
+const HEARTBEAT = new TextEncoder().encode(':\n\n')
+const LF = 10
+const CR = 13
+
+/**
+ * Returns true if the content type is that of Server-Sent Events
+ */
+export function isEventStream(contentType: string | null): boolean {
+  return contentType?.toLowerCase().startsWith('text/event-stream') ?? false
+}
+
+/**
+ * Tracks the relayed streams of a gateway so they can be drained on shutdown
+ *
+ * @example
+ * ```ts
+ * const relay = new StreamRelay()
+ * const response = relay.relay(await fetch(upstreamUrl), { idleTimeout: 30000 })
+ * // On shutdown
+ * await relay.drain()
+ * ```
+ */
+export class StreamRelay {
+  private readonly streams = new Set<RelayedStream>()
+
+  /**
+   * Number of streams currently relayed
+   */
+  get active(): number {
+    return this.streams.size
+  }
+
+  /**
+   * Wraps the body of an upstream response in a relayed stream
+   *
+   * @param onClose - Called once when the stream ends, is cancelled by the
+   *   client or fails; with an error when it did not complete
+   */
+  relay(
+    response: Response,
+    config: StreamingConfig,
+    onClose?: (error?: Error) => void,
+  ): Response {
+    if (!response.body) {
+      onClose?.()
+      return response
+    }
+
+    const headers = new Headers(response.headers)
+    // Ask reverse proxies in front of the gateway not to buffer the stream
+    headers.set('x-accel-buffering', 'no')
+    const stream = new RelayedStream(
+      response.body,
+      config,
+      isEventStream(headers.get('content-type')),
+      (error) => {
+        this.streams.delete(stream)
+        onClose?.(error)
+      },
+    )
+    this.streams.add(stream)
+
+    return new Response(stream.body, {
+      status: response.status,
+      statusText: response.statusText,
+      headers,
+    })
+  }
+
+  /**
+   * Ends every relayed stream: Server-Sent Event streams at their next event
+   * boundary, other streams once they complete. Streams still open after
+   * `timeout` milliseconds are ended at once.
+   */
+  async drain(timeout = 5000): Promise<void> {
+    const streams = [...this.streams]
+    for (const stream of streams) {
+      stream.drain()
+    }
+
+    let timer: ReturnType<typeof setTimeout> | undefined
+    await Promise.race([
+      Promise.all(streams.map((stream) => stream.closed)),
+      new Promise<void>((resolve) => {
+        timer = setTimeout(resolve, timeout)
+      }),
+    ])
+    clearTimeout(timer)
+
+    for (const stream of this.streams) {
+      stream.terminate('Gateway shutting down')
+    }
+  }
+}
+
+/**
+ * One relayed response body, pulled from the upstream as the client reads
+ */
+class RelayedStream {
+  readonly body: ReadableStream<Uint8Array>
+  /** Resolves once the stream has ended */
+  readonly closed: Promise<void>
+  private controller!: ReadableStreamDefaultController<Uint8Array>
+  private readonly reader: ReadableStreamDefaultReader<Uint8Array>
+  private readonly idleTimeout: number
+  private readonly heartbeatInterval: number
+  private idleTimer?: ReturnType<typeof setTimeout>
+  private heartbeatTimer?: ReturnType<typeof setInterval>
+  private durationTimer?: ReturnType<typeof setTimeout>
+  private lastReceived = Date.now()
+  private lastSent = Date.now()
+  /** Last bytes sent, to find Server-Sent Event boundaries across chunks */
+  private tail = new Uint8Array(0)
+  private draining = false
+  private finished = false
+  private resolveClosed!: () => void
+
+  constructor(
+    upstream: ReadableStream<Uint8Array>,
+    config: StreamingConfig,
+    private readonly eventStream: boolean,
+    private readonly onFinish: (error?: Error) => void,
+  ) {
+    this.reader = upstream.getReader()
+    this.idleTimeout = config.idleTimeout ?? 60000
+    this.heartbeatInterval = config.heartbeatInterval ?? 15000
+    this.closed = new Promise((resolve) => {
+      this.resolveClosed = resolve
+    })
+
+    this.body = new ReadableStream<Uint8Array>(
+      {
+        start: (controller) => {
+          this.controller = controller
+        },
+        pull: () => this.pull(),
+        cancel: () => {
+          this.reader.cancel().catch(() => {})
+          this.finish(new Error('Stream cancelled by the client'))
+        },
+      },
+      // Read from the upstream only when the client is ready for more
+      { highWaterMark: 0 },
+    )
+
+    if (this.idleTimeout > 0) {
+      this.scheduleIdleCheck()
+    }
+    if (this.eventStream && this.heartbeatInterval > 0) {
+      this.heartbeatTimer = setInterval(
+        () => this.heartbeat(),
+        this.heartbeatInterval,
+      )
+    }
+    if (config.maxDuration && config.maxDuration > 0) {
+      this.durationTimer = setTimeout(
+        () => this.terminate('Stream exceeded its maximum duration'),
+        config.maxDuration,
+      )
+    }
+  }
+
+  /**
+   * Ends the stream at the next Server-Sent Event boundary; other streams
+   * are left to complete
+   */
+  drain(): void {
+    this.draining = true
+    if (this.eventStream && this.atEventBoundary()) {
+      this.end()
+    }
+  }
+
+  /**
+   * Ends the stream now: cleanly for Server-Sent Events, with an error
+   * otherwise
+   */
+  terminate(reason: string): void {
+    if (this.finished) return
+    if (this.eventStream) {
+      this.end()
+      return
+    }
+    const error = new Error(reason)
+    this.reader.cancel().catch(() => {})
+    try {
+      this.controller.error(error)
+    } catch {}
+    this.finish(error)
+  }
+
+  private async pull(): Promise<void> {
+    let chunk: Uint8Array | undefined
+    try {
+      const { done, value } = await this.reader.read()
+      chunk = done ? undefined : value
+    } catch (error) {
+      if (this.finished) return
+      try {
+        this.controller.error(error)
+      } catch {}
+      this.finish(error as Error)
+      return
+    }
+    if (this.finished) return
+
+    if (!chunk) {
+      this.controller.close()
+      this.finish()
+      return
+    }
+    this.lastReceived = Date.now()
+    this.send(chunk)
+    if (this.draining && this.eventStream && this.atEventBoundary()) {
+      this.end()
+    }
+  }
+
+  private send(chunk: Uint8Array): void {
+    this.controller.enqueue(chunk)
+    this.lastSent = Date.now()
+    if (this.eventStream) {
+      const joined = new Uint8Array(this.tail.length + chunk.length)
+      joined.set(this.tail)
+      joined.set(chunk, this.tail.length)
+      this.tail = joined.slice(-4)
+    }
+  }
+
+  private heartbeat(): void {
+    if (
+      Date.now() - this.lastSent >= this.heartbeatInterval &&
+      this.atEventBoundary()
+    ) {
+      this.send(HEARTBEAT)
+    }
+  }
+
+  /**
+   * Returns true if everything sent so far ends with a complete event
+   */
+  private atEventBoundary(): boolean {
+    const t = this.tail
+    const n = t.length
+    if (n === 0) return true
+    return (
+      (n >= 2 && t[n - 1] === LF && t[n - 2] === LF) ||
+      (n >= 2 && t[n - 1] === CR && t[n - 2] === CR) ||
+      (n >= 4 &&
+        t[n - 1] === LF &&
+        t[n - 2] === CR &&
+        t[n - 3] === LF &&
+        t[n - 4] === CR)
+    )
+  }
+
+  private scheduleIdleCheck(): void {
+    const remaining = this.lastReceived + this.idleTimeout - Date.now()
+    this.idleTimer = setTimeout(() => {
+      if (this.lastReceived + this.idleTimeout <= Date.now()) {
+        this.terminate('Stream idle timeout')
+      } else {
+        this.scheduleIdleCheck()
+      }
+    }, remaining)
+  }
+
+  /**
+   * Closes the client stream cleanly and stops reading from the upstream
+   */
+  private end(): void {
+    if (this.finished) return
+    this.reader.cancel().catch(() => {})
+    try {
+      this.controller.close()
+    } catch {}
+    this.finish()
+  }
+
+  private finish(error?: Error): void {
+    if (this.finished) return
+    this.finished = true
+    clearTimeout(this.idleTimer)
+    clearInterval(this.heartbeatTimer)
+    clearTimeout(this.durationTimer)
+    this.onFinish(error)
+    this.resolveClosed()
+  }
+}
@@ -0,0 +1,32 @@
+/**
+ * Bungate Tracing Module
+ *
+ * W3C Trace Context propagation and span export over OTLP/HTTP
+ */
+
+export {
+  Tracer,
+  Span,
+  currentSpan,
+  type TracingConfig,
+  type TracerOptions,
+  type SpanKind,
+  type SpanAttributeValue,
+  type SpanStatusCode,
+  type SpanEvent,
+  type SpanOptions,
+} from './tracer'
+export {
+  OTLPExporter,
+  type OTLPExporterConfig,
+  type SpanExporter,
+} from './otlp-exporter'
+export {
+  TRACEPARENT_HEADER,
+  TRACESTATE_HEADER,
+  parseTraceContext,
+  formatTraceparent,
+  generateTraceId,
+  generateSpanId,
+  type SpanContext,
+} from './trace-context'
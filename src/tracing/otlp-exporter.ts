@@ -0,0 +1,226 @@
+/**
+ * OTLP Span Exporter
+ *
+ * Sends finished spans to an OpenTelemetry collector over OTLP/HTTP with the
+ * JSON encoding. Spans are batched and sent when a batch is full or on an
+ * interval; export failures are logged and the spans dropped, so a collector
+ * outage never affects traffic.
+ */
+
+import type { Logger } from '../interfaces/logger'
+import type { Span, SpanAttributeValue } from './tracer'
+
+/**
+ * Collector endpoint and batching of the OTLP exporter
+ */
+export interface OTLPExporterConfig {
+  /**
+   * Traces endpoint of the collector
+   * @example "http://localhost:4318/v1/traces"
+   */
+  url: string
+  /** Headers sent with each export, e.g. collector credentials */
+  headers?: Record<string, string>
+  /**
+   * Spans sent per export request
+   * @default 512
+   */
+  batchSize?: number
+  /**
+   * Milliseconds between exports of incomplete batches
+   * @default 5000
+   */
+  flushInterval?: number
+  /**
+   * Spans held while waiting for export; further spans are dropped
+   * @default 2048
+   */
+  maxQueueSize?: number
+  /**
+   * Export request timeout in milliseconds
+   * @default 10000
+   */
+  timeout?: number
+}
+
+/**
+ * Receives finished, sampled spans
+ */
+export interface SpanExporter {
+  export(span: Span): void
+  /** Sends spans not yet exported */
+  flush(): Promise<void>
+  /** Flushes and stops exporting */
+  close(): Promise<void>
+}
+
+/** OTLP span kinds, by SpanKind */
+const OTLP_SPAN_KIND = { internal: 1, server: 2, client: 3 } as const
+
+/** OTLP status codes, by span status */
+const OTLP_STATUS_CODE = { unset: 0, ok: 1, error: 2 } as const
+
+/**
+ * Exports spans in OTLP/HTTP JSON
+ */
+export class OTLPExporter implements SpanExporter {
+  private readonly config: Required<Omit<OTLPExporterConfig, 'headers'>> &
+    Pick<OTLPExporterConfig, 'headers'>
+  private readonly serviceName: string
+  private readonly logger?: Logger
+  private queue: Span[] = []
+  /** Spans dropped on a full queue since the last export */
+  private dropped = 0
+  private timer?: ReturnType<typeof setInterval>
+  /** Exports in flight, awaited by flush() */
+  private readonly pending = new Set<Promise<void>>()
+
+  /**
+   * @param serviceName - Reported as the `service.name` resource attribute
+   */
+  constructor(
+    config: OTLPExporterConfig,
+    serviceName: string,
+    logger?: Logger,
+  ) {
+    this.config = {
+      batchSize: 512,
+      flushInterval: 5000,
+      maxQueueSize: 2048,
+      timeout: 10000,
+      ...config,
+    }
+    this.serviceName = serviceName
+    this.logger = logger
+    this.timer = setInterval(() => {
+      void this.flush()
+    }, this.config.flushInterval)
+    // Pending spans must not keep the process alive
+    this.timer.unref?.()
+  }
+
+  export(span: Span): void {
+    if (this.queue.length >= this.config.maxQueueSize) {
+      this.dropped++
+      return
+    }
+    this.queue.push(span)
+    if (this.queue.length >= this.config.batchSize) {
+      void this.send(this.queue.splice(0, this.config.batchSize))
+    }
+  }
+
+  async flush(): Promise<void> {
+    while (this.queue.length > 0) {
+      void this.send(this.queue.splice(0, this.config.batchSize))
+    }
+    await Promise.all(this.pending)
+  }
+
+  async close(): Promise<void> {
+    clearInterval(this.timer)
+    await this.flush()
+  }
+
+  private send(spans: Span[]): Promise<void> {
+    if (this.dropped > 0) {
+      this.logger?.warn('Span export queue full, spans dropped', {
+        dropped: this.dropped,
+      })
+      this.dropped = 0
+    }
+    const sending = this.post(spans).finally(() => {
+      this.pending.delete(sending)
+    })
+    this.pending.add(sending)
+    return sending
+  }
+
+  private async post(spans: Span[]): Promise<void> {
+    try {
+      const response = await fetch(this.config.url, {
+        method: 'POST',
+        headers: { ...this.config.headers, 'content-type': 'application/json' },
+        body: JSON.stringify(this.encode(spans)),
+        signal: AbortSignal.timeout(this.config.timeout),
+      })
+      if (!response.ok) {
+        this.logger?.warn('Span export rejected by collector', {
+          status: response.status,
+          spans: spans.length,
+        })
+      }
+      await response.body?.cancel()
+    } catch (error) {
+      this.logger?.warn('Span export failed', {
+        error: (error as Error).message,
+        spans: spans.length,
+      })
+    }
+  }
+
+  /**
+   * Encodes spans as an OTLP ExportTraceServiceRequest
+   */
+  encode(spans: Span[]): object {
+    return {
+      resourceSpans: [
+        {
+          resource: {
+            attributes: encodeAttributes({ 'service.name': this.serviceName }),
+          },
+          scopeSpans: [
+            {
+              scope: { name: 'bungate' },
+              spans: spans.map((span) => ({
+                traceId: span.context.traceId,
+                spanId: span.context.spanId,
+                ...(span.parentSpanId
+                  ? { parentSpanId: span.parentSpanId }
+                  : {}),
+                ...(span.context.traceState
+                  ? { traceState: span.context.traceState }
+                  : {}),
+                name: span.name,
+                kind: OTLP_SPAN_KIND[span.kind],
+                startTimeUnixNano: toUnixNano(span.startTime),
+                endTimeUnixNano: toUnixNano(span.endTime ?? span.startTime),
+                attributes: encodeAttributes(span.attributes),
+                events: span.events.map((event) => ({
+                  name: event.name,
+                  timeUnixNano: toUnixNano(event.time),
+                  attributes: encodeAttributes(event.attributes ?? {}),
+                })),
+                status: {
+                  code: OTLP_STATUS_CODE[span.status.code],
+                  ...(span.status.message
+                    ? { message: span.status.message }
+                    : {}),
+                },
+              })),
+            },
+          ],
+        },
+      ],
+    }
+  }
+}
+
+function encodeAttributes(attributes: Record<string, SpanAttributeValue>) {
+  return Object.entries(attributes).map(([key, value]) => ({
+    key,
+    value:
+      typeof value === 'string'
+        ? { stringValue: value }
+        : typeof value === 'boolean'
+          ? { boolValue: value }
+          : Number.isInteger(value)
+            ? { intValue: String(value) }
+            : { doubleValue: value },
+  }))
+}
+
+/** Milliseconds since the epoch to the nanosecond string OTLP JSON expects */
+function toUnixNano(milliseconds: number): string {
+  return (BigInt(Math.round(milliseconds * 1000)) * 1000n).toString()
+}
@@ -0,0 +1,100 @@
+/**
+ * W3C Trace Context
+ *
+ * Parses and formats the `traceparent` and `tracestate` headers of the W3C
+ * Trace Context recommendation, which carry the trace a request belongs to
+ * across services.
+ *
+ * @see https://www.w3.org/TR/trace-context/
+ */
+
+/** Header carrying the trace ID, parent span ID and trace flags */
+export const TRACEPARENT_HEADER = 'traceparent'
+
+/** Header carrying vendor-specific trace state */
+export const TRACESTATE_HEADER = 'tracestate'
+
+/**
+ * Identifies a span within a trace
+ */
+export interface SpanContext {
+  /** 32 lowercase hex characters */
+  traceId: string
+  /** 16 lowercase hex characters */
+  spanId: string
+  /** Whether the span is recorded and exported */
+  sampled: boolean
+  /** Vendor-specific trace state, propagated unchanged */
+  traceState?: string
+}
+
+const TRACEPARENT =
+  /^([0-9a-f]{2})-([0-9a-f]{32})-([0-9a-f]{16})-([0-9a-f]{2})(-.*)?$/
+const INVALID_TRACE_ID = '0'.repeat(32)
+const INVALID_SPAN_ID = '0'.repeat(16)
+/** Longer tracestate values may be dropped under the recommendation */
+const MAX_TRACESTATE_LENGTH = 512
+
+/**
+ * Parses the trace context of a request
+ *
+ * @returns The context of the caller's span, or undefined when the headers
+ *   carry no valid `traceparent`
+ */
+export function parseTraceContext(headers: Headers): SpanContext | undefined {
+  const traceparent = headers.get(TRACEPARENT_HEADER)?.trim()
+  const match = traceparent ? TRACEPARENT.exec(traceparent) : null
+  if (!match) {
+    return undefined
+  }
+  const [, version, traceId, spanId, flags, rest] = match
+  // Version ff is invalid; version 00 has exactly four fields, while later
+  // versions may append more
+  if (version === 'ff' || (version === '00' && rest !== undefined)) {
+    return undefined
+  }
+  if (traceId === INVALID_TRACE_ID || spanId === INVALID_SPAN_ID) {
+    return undefined
+  }
+
+  const context: SpanContext = {
+    traceId: traceId!,
+    spanId: spanId!,
+    sampled: (parseInt(flags!, 16) & 1) === 1,
+  }
+  const traceState = headers.get(TRACESTATE_HEADER)?.trim()
+  if (traceState && traceState.length <= MAX_TRACESTATE_LENGTH) {
+    context.traceState = traceState
+  }
+  return context
+}
+
+/**
+ * Formats a span context as a version 00 `traceparent` header value
+ */
+export function formatTraceparent(context: SpanContext): string {
+  return `00-${context.traceId}-${context.spanId}-${context.sampled ? '01' : '00'}`
+}
+
+/**
+ * Generates a random trace ID
+ */
+export function generateTraceId(): string {
+  return randomHex(16)
+}
+
+/**
+ * Generates a random span ID
+ */
+export function generateSpanId(): string {
+  return randomHex(8)
+}
+
+function randomHex(bytes: number): string {
+  let hex = ''
+  // An all-zero ID is invalid; the odds of generating one are negligible
+  for (const byte of crypto.getRandomValues(new Uint8Array(bytes))) {
+    hex += byte.toString(16).padStart(2, '0')
+  }
+  return hex
+}
@@ -0,0 +1,437 @@
+/**
+ * Distributed Tracing
+ *
+ * Records spans of the gateway's work on a request: the request itself, the
+ * authentication and rate limit middleware phases, load balancer target
+ * selection, and each upstream attempt with its circuit breaker decision.
+ * Spans join the caller's trace from the W3C `traceparent` header, and each
+ * upstream attempt propagates its own context to the upstream, so a request
+ * can be followed from the client through the gateway into the services.
+ *
+ * Sampled spans are exported to an OpenTelemetry collector in OTLP/HTTP
+ * JSON. The active span is carried in an async context, so code running on
+ * behalf of a request starts its spans as children of the right parent.
+ */
+
+import { AsyncLocalStorage } from 'node:async_hooks'
+import type {
+  RequestHandler,
+  StepFunction,
+  ZeroRequest,
+} from '../interfaces/middleware'
+import type { Logger } from '../interfaces/logger'
+import { currentRequestId } from '../security/request-id'
+import {
+  TRACEPARENT_HEADER,
+  TRACESTATE_HEADER,
+  formatTraceparent,
+  generateSpanId,
+  generateTraceId,
+  parseTraceContext,
+  type SpanContext,
+} from './trace-context'
+import {
+  OTLPExporter,
+  type OTLPExporterConfig,
+  type SpanExporter,
+} from './otlp-exporter'
+
+/**
+ * Tracing configuration
+ */
+export interface TracingConfig {
+  /**
+   * Enable tracing
+   * @default true
+   */
+  enabled?: boolean
+  /**
+   * Reported as the `service.name` of exported spans
+   * @default "bungate"
+   */
+  serviceName?: string
+  /**
+   * Fraction of traces started by the gateway that are sampled, from 0 to 1
+   * @default 1
+   */
+  sampleRate?: number
+  /**
+   * Follow the sampling decision of the caller's `traceparent` instead of
+   * `sampleRate` for requests that join a trace
+   * @default true
+   */
+  parentBased?: boolean
+  /** Collector receiving the spans */
+  exporter: OTLPExporterConfig
+}
+
+/**
+ * Tracer dependencies, replaceable in tests
+ */
+export interface TracerOptions {
+  logger?: Logger
+  /** Receives finished, sampled spans; defaults to an OTLPExporter */
+  exporter?: SpanExporter
+  /** Random source for sampling, returning values in [0, 1) */
+  random?: () => number
+}
+
+/** Role of a span: work within the gateway, a request served, or a request sent */
+export type SpanKind = 'internal' | 'server' | 'client'
+
+export type SpanAttributeValue = string | number | boolean
+
+/** Outcome of a span; unset unless the operation failed or was marked ok */
+export type SpanStatusCode = 'unset' | 'ok' | 'error'
+
+/**
+ * A point in time during a span
+ */
+export interface SpanEvent {
+  name: string
+  /** Milliseconds since the epoch */
+  time: number
+  attributes?: Record<string, SpanAttributeValue>
+}
+
+/**
+ * Options of a new span
+ */
+export interface SpanOptions {
+  /** @default "internal" */
+  kind?: SpanKind
+  attributes?: Record<string, SpanAttributeValue | undefined>
+  /**
+   * Parent of the span; by default the active span, and a new trace with
+   * null
+   */
+  parent?: SpanContext | null
+}
+
+/**
+ * A timed operation within a trace. Spans are recorded until ended; changes
+ * after that are ignored.
+ */
+export class Span {
+  readonly context: SpanContext
+  readonly parentSpanId?: string
+  readonly kind: SpanKind
+  name: string
+  /** Milliseconds since the epoch */
+  readonly startTime: number
+  endTime?: number
+  readonly attributes: Record<string, SpanAttributeValue> = {}
+  readonly events: SpanEvent[] = []
+  status: { code: SpanStatusCode; message?: string } = { code: 'unset' }
+  private readonly onEnd: (span: Span) => void
+
+  constructor(
+    name: string,
+    kind: SpanKind,
+    context: SpanContext,
+    parentSpanId: string | undefined,
+    onEnd: (span: Span) => void,
+  ) {
+    this.name = name
+    this.kind = kind
+    this.context = context
+    this.parentSpanId = parentSpanId
+    this.onEnd = onEnd
+    this.startTime = now()
+  }
+
+  get ended(): boolean {
+    return this.endTime !== undefined
+  }
+
+  /**
+   * Sets an attribute; undefined values are skipped
+   */
+  setAttribute(key: string, value: SpanAttributeValue | undefined): this {
+    if (!this.ended && value !== undefined) {
+      this.attributes[key] = value
+    }
+    return this
+  }
+
+  setAttributes(
+    attributes: Record<string, SpanAttributeValue | undefined>,
+  ): this {
+    for (const [key, value] of Object.entries(attributes)) {
+      this.setAttribute(key, value)
+    }
+    return this
+  }
+
+  addEvent(
+    name: string,
+    attributes?: Record<string, SpanAttributeValue>,
+  ): this {
+    if (!this.ended) {
+      this.events.push({ name, time: now(), attributes })
+    }
+    return this
+  }
+
+  setStatus(code: SpanStatusCode, message?: string): this {
+    if (!this.ended) {
+      this.status = { code, message }
+    }
+    return this
+  }
+
+  /**
+   * Marks the span failed and records the error as an `exception` event
+   */
+  recordError(error: Error): this {
+    this.addEvent('exception', {
+      'exception.type': error.name,
+      'exception.message': error.message,
+    })
+    return this.setStatus('error', error.message)
+  }
+
+  updateName(name: string): this {
+    if (!this.ended) {
+      this.name = name
+    }
+    return this
+  }
+
+  /**
+   * Ends the span; only the first call has an effect
+   */
+  end(): void {
+    if (this.ended) return
+    this.endTime = now()
+    this.onEnd(this)
+  }
+}
+
+const activeSpan = new AsyncLocalStorage<Span>()
+
+/**
+ * The span active in the current async context, if any
+ */
+export function currentSpan(): Span | undefined {
+  return activeSpan.getStore()
+}
+
+/**
+ * Starts spans, propagates trace context and exports sampled spans
+ *
+ * @example
+ * ```ts
+ * const tracer = new Tracer({
+ *   serviceName: 'edge-gateway',
+ *   sampleRate: 0.1,
+ *   exporter: { url: 'http://otel-collector:4318/v1/traces' },
+ * })
+ * await tracer.trace('reload config', {}, () => loadConfig())
+ * ```
+ */
+export class Tracer {
+  private readonly sampleRate: number
+  private readonly parentBased: boolean
+  private readonly exporter: SpanExporter
+  private readonly random: () => number
+
+  constructor(config: TracingConfig, options: TracerOptions = {}) {
+    this.sampleRate = config.sampleRate ?? 1
+    this.parentBased = config.parentBased !== false
+    this.random = options.random ?? Math.random
+    this.exporter =
+      options.exporter ??
+      new OTLPExporter(
+        config.exporter,
+        config.serviceName ?? 'bungate',
+        options.logger,
+      )
+  }
+
+  /**
+   * Starts a span; it is not active until run through withSpan()
+   */
+  startSpan(name: string, options: SpanOptions = {}): Span {
+    const parent =
+      options.parent === undefined ? currentSpan()?.context : options.parent
+    const context: SpanContext = {
+      traceId: parent?.traceId ?? generateTraceId(),
+      spanId: generateSpanId(),
+      sampled: parent ? parent.sampled : this.random() < this.sampleRate,
+      traceState: parent?.traceState,
+    }
+    const span = new Span(
+      name,
+      options.kind ?? 'internal',
+      context,
+      parent?.spanId,
+      (ended) => {
+        if (ended.context.sampled) {
+          this.exporter.export(ended)
+        }
+      },
+    )
+    if (options.attributes) {
+      span.setAttributes(options.attributes)
+    }
+    return span
+  }
+
+  /**
+   * Runs a function with a span active
+   */
+  withSpan<T>(span: Span, fn: () => T): T {
+    return activeSpan.run(span, fn)
+  }
+
+  /**
+   * Runs a function in a new active span, which ends when the function
+   * settles and records the error when it throws
+   */
+  async trace<T>(
+    name: string,
+    options: SpanOptions,
+    fn: (span: Span) => T | Promise<T>,
+  ): Promise<T> {
+    const span = this.startSpan(name, options)
+    try {
+      return await this.withSpan(span, () => fn(span))
+    } catch (error) {
+      span.recordError(error as Error)
+      throw error
+    } finally {
+      span.end()
+    }
+  }
+
+  /**
+   * Reads the caller's span context from request headers
+   */
+  extract(headers: Headers): SpanContext | undefined {
+    return parseTraceContext(headers)
+  }
+
+  /**
+   * Writes a span's context to outgoing request headers, replacing any
+   * trace context they carry
+   *
+   * @param span - Span the outgoing request belongs to; the active span by
+   *   default
+   */
+  inject(headers: Headers, span: Span | undefined = currentSpan()): void {
+    headers.delete(TRACEPARENT_HEADER)
+    headers.delete(TRACESTATE_HEADER)
+    if (!span) return
+    headers.set(TRACEPARENT_HEADER, formatTraceparent(span.context))
+    if (span.context.traceState) {
+      headers.set(TRACESTATE_HEADER, span.context.traceState)
+    }
+  }
+
+  /**
+   * Handles a request in a server span. The span joins the caller's trace,
+   * or the active span's for requests the gateway sends itself, such as
+   * aggregate calls.
+   */
+  traceRequest(
+    req: Request,
+    handle: () => Promise<Response>,
+  ): Promise<Response> {
+    const url = new URL(req.url)
+    return this.trace(
+      req.method,
+      {
+        kind: 'server',
+        parent: currentSpan()?.context ?? this.joinTrace(req.headers),
+        attributes: {
+          'http.request.method': req.method,
+          'url.path': url.pathname,
+          'url.scheme': url.protocol.replace(':', ''),
+          'bungate.request_id': currentRequestId(),
+        },
+      },
+      async (span) => {
+        const response = await handle()
+        span.setAttribute('http.response.status_code', response.status)
+        if (response.status >= 500) {
+          span.setStatus('error')
+        }
+        return response
+      },
+    )
+  }
+
+  /**
+   * The parent of a request joining the caller's trace, with the sampling
+   * decision the gateway makes for it, or null to start a new trace
+   */
+  private joinTrace(headers: Headers): SpanContext | null {
+    const remote = this.extract(headers)
+    if (!remote) {
+      return null
+    }
+    return this.parentBased
+      ? remote
+      : { ...remote, sampled: this.random() < this.sampleRate }
+  }
+
+  /**
+   * Records a middleware phase, such as authentication or rate limiting, in
+   * a span ending when the middleware passes the request on or answers it.
+   * The rest of the chain runs outside the phase's span.
+   *
+   * @param phase - Name of the phase, e.g. "auth"
+   */
+  instrumentMiddleware(
+    phase: string,
+    middleware: RequestHandler,
+  ): RequestHandler {
+    return async (req: ZeroRequest, next: StepFunction) => {
+      const parent = currentSpan()
+      const span = this.startSpan(`middleware ${phase}`, {
+        attributes: { 'bungate.middleware': phase },
+      })
+      let passed = false
+      const proceed: StepFunction = () => {
+        passed = true
+        span.end()
+        return parent ? this.withSpan(parent, next) : next()
+      }
+
+      try {
+        const response = await this.withSpan(span, () =>
+          middleware(req, proceed),
+        )
+        if (!passed) {
+          span.setAttribute('http.response.status_code', response.status)
+          span.setAttribute('bungate.middleware.rejected', true)
+        }
+        return response
+      } catch (error) {
+        span.recordError(error as Error)
+        throw error
+      } finally {
+        span.end()
+      }
+    }
+  }
+
+  /**
+   * Exports the spans not yet exported
+   */
+  flush(): Promise<void> {
+    return this.exporter.flush()
+  }
+
+  /**
+   * Flushes and stops the exporter
+   */
+  close(): Promise<void> {
+    return this.exporter.close()
+  }
+}
+
+function now(): number {
+  return performance.timeOrigin + performance.now()
+}
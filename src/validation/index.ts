@@ -0,0 +1,23 @@
+/**
+ * Bungate Validation Module
+ *
+ * JSON Schema validation compiled ahead of time, and per-route request and
+ * response validation
+ */
+
+export {
+  compileSchema,
+  resolvePointer,
+  type CompileSchemaOptions,
+  type JSONSchema,
+  type SchemaError,
+  type SchemaValidator,
+} from './json-schema'
+export {
+  coerceParameter,
+  createSchemaValidationMiddleware,
+  validationErrorResponse,
+  type RequestValidationError,
+  type ResponseValidationConfig,
+  type RouteValidationConfig,
+} from './schema-validation'
@@ -0,0 +1,608 @@
+/**
+ * JSON Schema Validator
+ *
+ * Compiles JSON Schema (draft 2020-12) into validation functions, so a schema
+ * is walked once rather than on every request. OpenAPI 3.0 schemas are
+ * accepted as well: `nullable` and boolean `exclusiveMinimum` /
+ * `exclusiveMaximum` are understood.
+ *
+ * Supported are the assertion and applicator keywords used to describe API
+ * payloads: type, enum, const, the numeric, string, array and object
+ * keywords, allOf / anyOf / oneOf / not, if / then / else and local `$ref`s
+ * (`#/$defs/...`, `#/components/schemas/...`). The `format` keyword asserts
+ * date-time, date, time, email, uuid, uri, ipv4 and ipv6, and ignores other
+ * formats. `unevaluatedProperties`, `unevaluatedItems` and dynamic or remote
+ * references are not supported.
+ */
+
+/**
+ * A JSON Schema; `true` accepts and `false` rejects every value
+ */
+export type JSONSchema = boolean | { [keyword: string]: unknown }
+
+/**
+ * A value that does not conform to a schema
+ */
+export interface SchemaError {
+  /** JSON Pointer to the offending value, e.g. '/items/0/id'; '' for the root */
+  pointer: string
+  /** Description of the problem, e.g. 'must be >= 1' */
+  message: string
+}
+
+/**
+ * Validates a value, returning its errors; an empty list means valid
+ */
+export type SchemaValidator = (value: unknown) => SchemaError[]
+
+export interface CompileSchemaOptions {
+  /**
+   * Document `#` references resolve against, e.g. a whole OpenAPI document
+   * @default the schema itself
+   */
+  root?: unknown
+}
+
+type Check = (value: unknown, pointer: string, errors: SchemaError[]) => void
+
+const FORMATS: Record<string, RegExp | ((value: string) => boolean)> = {
+  'date-time': (value) =>
+    /^\d{4}-\d{2}-\d{2}[Tt ]\d{2}:\d{2}:\d{2}(\.\d+)?([Zz]|[+-]\d{2}:\d{2})$/.test(
+      value,
+    ) && !Number.isNaN(Date.parse(value)),
+  date: (value) =>
+    /^\d{4}-\d{2}-\d{2}$/.test(value) && !Number.isNaN(Date.parse(value)),
+  time: /^\d{2}:\d{2}:\d{2}(\.\d+)?([Zz]|[+-]\d{2}:\d{2})?$/,
+  email: /^[^\s@]+@[^\s@]+\.[^\s@]+$/,
+  uuid: /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i,
+  uri: (value) => {
+    try {
+      return Boolean(new URL(value).protocol)
+    } catch {
+      return false
+    }
+  },
+  ipv4: /^((25[0-5]|2[0-4]\d|1\d\d|[1-9]?\d)\.){3}(25[0-5]|2[0-4]\d|1\d\d|[1-9]?\d)$/,
+  ipv6: (value) => {
+    try {
+      return value.includes(':') && new URL(`http://[${value}]`).hostname !== ''
+    } catch {
+      return false
+    }
+  },
+}
+
+/**
+ * Compiles a JSON Schema into a validator
+ *
+ * @throws Error if the schema contains a `$ref` that cannot be resolved
+ *
+ * @example
+ * ```ts
+ * const validate = compileSchema({
+ *   type: 'object',
+ *   required: ['id'],
+ *   properties: { id: { type: 'integer', minimum: 1 } },
+ * })
+ * validate({ id: 0 }) // [{ pointer: '/id', message: 'must be >= 1' }]
+ * ```
+ */
+export function compileSchema(
+  schema: JSONSchema,
+  options: CompileSchemaOptions = {},
+): SchemaValidator {
+  const compiler = new SchemaCompiler(options.root ?? schema)
+  const check = compiler.compile(schema)
+  return (value) => {
+    const errors: SchemaError[] = []
+    check(value, '', errors)
+    return errors
+  }
+}
+
+/**
+ * Compiles schemas and the schemas their references point to
+ */
+class SchemaCompiler {
+  /** Compiled references; filled before compiling, so cycles terminate */
+  private readonly references = new Map<string, Check>()
+
+  constructor(private readonly root: unknown) {}
+
+  compile(schema: JSONSchema): Check {
+    if (schema === true) return () => {}
+    if (schema === false) {
+      return (_, pointer, errors) =>
+        errors.push({ pointer, message: 'must not be present' })
+    }
+    if (!schema || typeof schema !== 'object') {
+      throw new Error('Schema must be an object or a boolean')
+    }
+
+    const checks: Check[] = []
+    if (typeof schema.$ref === 'string') {
+      checks.push(this.reference(schema.$ref))
+    }
+    this.compileType(schema, checks)
+    this.compileValues(schema, checks)
+    this.compileNumber(schema, checks)
+    this.compileString(schema, checks)
+    this.compileArray(schema, checks)
+    this.compileObject(schema, checks)
+    this.compileCombinators(schema, checks)
+
+    // OpenAPI 3.0: null is valid in addition to whatever the schema allows
+    if (schema.nullable === true) {
+      return (value, pointer, errors) => {
+        if (value === null) return
+        for (const check of checks) check(value, pointer, errors)
+      }
+    }
+    return (value, pointer, errors) => {
+      for (const check of checks) check(value, pointer, errors)
+    }
+  }
+
+  private reference(ref: string): Check {
+    const cached = this.references.get(ref)
+    if (cached) return cached
+
+    let compiled: Check | undefined
+    const check: Check = (value, pointer, errors) =>
+      compiled!(value, pointer, errors)
+    this.references.set(ref, check)
+    compiled = this.compile(resolvePointer(this.root, ref) as JSONSchema)
+    return check
+  }
+
+  private compileType(schema: Record<string, unknown>, checks: Check[]): void {
+    if (schema.type === undefined) return
+    const types = (
+      Array.isArray(schema.type) ? schema.type : [schema.type]
+    ) as string[]
+    checks.push((value, pointer, errors) => {
+      if (!types.some((type) => hasType(value, type))) {
+        errors.push({ pointer, message: `must be ${types.join(' or ')}` })
+      }
+    })
+  }
+
+  private compileValues(
+    schema: Record<string, unknown>,
+    checks: Check[],
+  ): void {
+    if (Array.isArray(schema.enum)) {
+      const allowed = schema.enum
+      checks.push((value, pointer, errors) => {
+        if (!allowed.some((candidate) => deepEqual(candidate, value))) {
+          errors.push({
+            pointer,
+            message: 'must be equal to one of the allowed values',
+          })
+        }
+      })
+    }
+    if ('const' in schema) {
+      const expected = schema.const
+      checks.push((value, pointer, errors) => {
+        if (!deepEqual(expected, value)) {
+          errors.push({ pointer, message: 'must be equal to constant' })
+        }
+      })
+    }
+  }
+
+  private compileNumber(
+    schema: Record<string, unknown>,
+    checks: Check[],
+  ): void {
+    const bounds: Array<[number, string, (value: number) => boolean]> = []
+    const { minimum, maximum, exclusiveMinimum, exclusiveMaximum } = schema
+    if (typeof minimum === 'number') {
+      bounds.push(
+        exclusiveMinimum === true
+          ? [minimum, '>', (value) => value > minimum]
+          : [minimum, '>=', (value) => value >= minimum],
+      )
+    }
+    if (typeof maximum === 'number') {
+      bounds.push(
+        exclusiveMaximum === true
+          ? [maximum, '<', (value) => value < maximum]
+          : [maximum, '<=', (value) => value <= maximum],
+      )
+    }
+    if (typeof exclusiveMinimum === 'number') {
+      bounds.push([exclusiveMinimum, '>', (value) => value > exclusiveMinimum])
+    }
+    if (typeof exclusiveMaximum === 'number') {
+      bounds.push([exclusiveMaximum, '<', (value) => value < exclusiveMaximum])
+    }
+    for (const [limit, operator, test] of bounds) {
+      checks.push((value, pointer, errors) => {
+        if (typeof value === 'number' && !test(value)) {
+          errors.push({ pointer, message: `must be ${operator} ${limit}` })
+        }
+      })
+    }
+    if (typeof schema.multipleOf === 'number') {
+      const divisor = schema.multipleOf
+      checks.push((value, pointer, errors) => {
+        if (typeof value !== 'number') return
+        const quotient = value / divisor
+        if (Math.abs(quotient - Math.round(quotient)) > 1e-9) {
+          errors.push({ pointer, message: `must be multiple of ${divisor}` })
+        }
+      })
+    }
+  }
+
+  private compileString(
+    schema: Record<string, unknown>,
+    checks: Check[],
+  ): void {
+    const { minLength, maxLength, pattern, format } = schema
+    if (typeof minLength === 'number') {
+      checks.push((value, pointer, errors) => {
+        if (typeof value === 'string' && [...value].length < minLength) {
+          errors.push({
+            pointer,
+            message: `must NOT have fewer than ${minLength} characters`,
+          })
+        }
+      })
+    }
+    if (typeof maxLength === 'number') {
+      checks.push((value, pointer, errors) => {
+        if (typeof value === 'string' && [...value].length > maxLength) {
+          errors.push({
+            pointer,
+            message: `must NOT have more than ${maxLength} characters`,
+          })
+        }
+      })
+    }
+    if (typeof pattern === 'string') {
+      const regex = new RegExp(pattern, 'u')
+      checks.push((value, pointer, errors) => {
+        if (typeof value === 'string' && !regex.test(value)) {
+          errors.push({ pointer, message: `must match pattern "${pattern}"` })
+        }
+      })
+    }
+    const test = typeof format === 'string' ? FORMATS[format] : undefined
+    if (test) {
+      const matches =
+        test instanceof RegExp ? (value: string) => test.test(value) : test
+      checks.push((value, pointer, errors) => {
+        if (typeof value === 'string' && !matches(value)) {
+          errors.push({ pointer, message: `must match format "${format}"` })
+        }
+      })
+    }
+  }
+
+  private compileArray(schema: Record<string, unknown>, checks: Check[]): void {
+    const prefixItems = Array.isArray(schema.prefixItems)
+      ? (schema.prefixItems as JSONSchema[]).map((item) => this.compile(item))
+      : []
+    const items =
+      schema.items !== undefined && !Array.isArray(schema.items)
+        ? this.compile(schema.items as JSONSchema)
+        : undefined
+    if (prefixItems.length > 0 || items) {
+      checks.push((value, pointer, errors) => {
+        if (!Array.isArray(value)) return
+        value.forEach((item, index) => {
+          const check = index < prefixItems.length ? prefixItems[index] : items
+          check?.(item, `${pointer}/${index}`, errors)
+        })
+      })
+    }
+
+    const { minItems, maxItems, uniqueItems } = schema
+    if (typeof minItems === 'number') {
+      checks.push((value, pointer, errors) => {
+        if (Array.isArray(value) && value.length < minItems) {
+          errors.push({
+            pointer,
+            message: `must NOT have fewer than ${minItems} items`,
+          })
+        }
+      })
+    }
+    if (typeof maxItems === 'number') {
+      checks.push((value, pointer, errors) => {
+        if (Array.isArray(value) && value.length > maxItems) {
+          errors.push({
+            pointer,
+            message: `must NOT have more than ${maxItems} items`,
+          })
+        }
+      })
+    }
+    if (uniqueItems === true) {
+      checks.push((value, pointer, errors) => {
+        if (!Array.isArray(value)) return
+        const duplicate = value.some((item, index) =>
+          value.slice(0, index).some((other) => deepEqual(item, other)),
+        )
+        if (duplicate) {
+          errors.push({ pointer, message: 'must NOT have duplicate items' })
+        }
+      })
+    }
+    if (schema.contains !== undefined) {
+      const contains = this.compile(schema.contains as JSONSchema)
+      checks.push((value, pointer, errors) => {
+        if (!Array.isArray(value)) return
+        const found = value.some((item, index) => {
+          const itemErrors: SchemaError[] = []
+          contains(item, `${pointer}/${index}`, itemErrors)
+          return itemErrors.length === 0
+        })
+        if (!found) {
+          errors.push({ pointer, message: 'must contain a valid item' })
+        }
+      })
+    }
+  }
+
+  private compileObject(
+    schema: Record<string, unknown>,
+    checks: Check[],
+  ): void {
+    const properties = new Map<string, Check>()
+    for (const [name, property] of Object.entries(
+      (schema.properties ?? {}) as Record<string, JSONSchema>,
+    )) {
+      properties.set(name, this.compile(property))
+    }
+    const patterns = Object.entries(
+      (schema.patternProperties ?? {}) as Record<string, JSONSchema>,
+    ).map(
+      ([pattern, property]) =>
+        [new RegExp(pattern, 'u'), this.compile(property)] as const,
+    )
+    const additional =
+      schema.additionalProperties !== undefined
+        ? this.compile(schema.additionalProperties as JSONSchema)
+        : undefined
+    const propertyNames =
+      schema.propertyNames !== undefined
+        ? this.compile(schema.propertyNames as JSONSchema)
+        : undefined
+
+    if (properties.size > 0 || patterns.length > 0 || additional) {
+      checks.push((value, pointer, errors) => {
+        if (!isObject(value)) return
+        for (const [name, property] of Object.entries(value)) {
+          const at = `${pointer}/${escapePointer(name)}`
+          let evaluated = false
+          const check = properties.get(name)
+          if (check) {
+            evaluated = true
+            check(property, at, errors)
+          }
+          for (const [regex, patternCheck] of patterns) {
+            if (regex.test(name)) {
+              evaluated = true
+              patternCheck(property, at, errors)
+            }
+          }
+          if (!evaluated && additional) {
+            if (schema.additionalProperties === false) {
+              errors.push({
+                pointer: at,
+                message: 'must NOT have additional properties',
+              })
+            } else {
+              additional(property, at, errors)
+            }
+          }
+        }
+      })
+    }
+    if (propertyNames) {
+      checks.push((value, pointer, errors) => {
+        if (!isObject(value)) return
+        for (const name of Object.keys(value)) {
+          propertyNames(name, `${pointer}/${escapePointer(name)}`, errors)
+        }
+      })
+    }
+
+    if (Array.isArray(schema.required)) {
+      const required = schema.required as string[]
+      checks.push((value, pointer, errors) => {
+        if (!isObject(value)) return
+        for (const name of required) {
+          if (!(name in value)) {
+            errors.push({
+              pointer,
+              message: `must have required property "${name}"`,
+            })
+          }
+        }
+      })
+    }
+    if (isObject(schema.dependentRequired)) {
+      const dependencies = Object.entries(
+        schema.dependentRequired as Record<string, string[]>,
+      )
+      checks.push((value, pointer, errors) => {
+        if (!isObject(value)) return
+        for (const [name, required] of dependencies) {
+          if (!(name in value)) continue
+          for (const other of required) {
+            if (!(other in value)) {
+              errors.push({
+                pointer,
+                message: `must have property "${other}" when property "${name}" is present`,
+              })
+            }
+          }
+        }
+      })
+    }
+
+    const { minProperties, maxProperties } = schema
+    if (typeof minProperties === 'number') {
+      checks.push((value, pointer, errors) => {
+        if (isObject(value) && Object.keys(value).length < minProperties) {
+          errors.push({
+            pointer,
+            message: `must NOT have fewer than ${minProperties} properties`,
+          })
+        }
+      })
+    }
+    if (typeof maxProperties === 'number') {
+      checks.push((value, pointer, errors) => {
+        if (isObject(value) && Object.keys(value).length > maxProperties) {
+          errors.push({
+            pointer,
+            message: `must NOT have more than ${maxProperties} properties`,
+          })
+        }
+      })
+    }
+  }
+
+  private compileCombinators(
+    schema: Record<string, unknown>,
+    checks: Check[],
+  ): void {
+    const compileAll = (schemas: unknown) =>
+      Array.isArray(schemas)
+        ? (schemas as JSONSchema[]).map((item) => this.compile(item))
+        : []
+    const allOf = compileAll(schema.allOf)
+    const anyOf = compileAll(schema.anyOf)
+    const oneOf = compileAll(schema.oneOf)
+
+    for (const check of allOf) {
+      checks.push(check)
+    }
+    if (anyOf.length > 0) {
+      checks.push((value, pointer, errors) => {
+        if (!anyOf.some((check) => passes(check, value, pointer))) {
+          errors.push({
+            pointer,
+            message: 'must match a schema in anyOf',
+          })
+        }
+      })
+    }
+    if (oneOf.length > 0) {
+      checks.push((value, pointer, errors) => {
+        const matches = oneOf.filter((check) =>
+          passes(check, value, pointer),
+        ).length
+        if (matches !== 1) {
+          errors.push({
+            pointer,
+            message: 'must match exactly one schema in oneOf',
+          })
+        }
+      })
+    }
+    if (schema.not !== undefined) {
+      const not = this.compile(schema.not as JSONSchema)
+      checks.push((value, pointer, errors) => {
+        if (passes(not, value, pointer)) {
+          errors.push({ pointer, message: 'must NOT be valid' })
+        }
+      })
+    }
+    if (schema.if !== undefined) {
+      const condition = this.compile(schema.if as JSONSchema)
+      const then =
+        schema.then !== undefined
+          ? this.compile(schema.then as JSONSchema)
+          : undefined
+      const otherwise =
+        schema.else !== undefined
+          ? this.compile(schema.else as JSONSchema)
+          : undefined
+      checks.push((value, pointer, errors) => {
+        const branch = passes(condition, value, pointer) ? then : otherwise
+        branch?.(value, pointer, errors)
+      })
+    }
+  }
+}
+
+function passes(check: Check, value: unknown, pointer: string): boolean {
+  const errors: SchemaError[] = []
+  check(value, pointer, errors)
+  return errors.length === 0
+}
+
+function hasType(value: unknown, type: string): boolean {
+  switch (type) {
+    case 'null':
+      return value === null
+    case 'boolean':
+      return typeof value === 'boolean'
+    case 'integer':
+      return Number.isInteger(value)
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value)
+    case 'string':
+      return typeof value === 'string'
+    case 'array':
+      return Array.isArray(value)
+    case 'object':
+      return isObject(value)
+    default:
+      return false
+  }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function deepEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return (
+      a.length === b.length &&
+      a.every((item, index) => deepEqual(item, b[index]))
+    )
+  }
+  if (isObject(a) && isObject(b)) {
+    const keys = Object.keys(a)
+    return (
+      keys.length === Object.keys(b).length &&
+      keys.every((key) => key in b && deepEqual(a[key], b[key]))
+    )
+  }
+  return false
+}
+
+function escapePointer(segment: string): string {
+  return segment.replace(/~/g, '~0').replace(/\//g, '~1')
+}
+
+/**
+ * Resolves a local reference such as '#/components/schemas/User'
+ *
+ * @throws Error if the reference is not local or does not resolve
+ */
+export function resolvePointer(root: unknown, ref: string): unknown {
+  if (!ref.startsWith('#')) {
+    throw new Error(`Unsupported $ref "${ref}": only local references resolve`)
+  }
+  let value = root
+  const path = decodeURIComponent(ref.slice(1))
+  for (const segment of path.split('/').slice(1)) {
+    const key = segment.replace(/~1/g, '/').replace(/~0/g, '~')
+    if (!value || typeof value !== 'object' || !(key in value)) {
+      throw new Error(`Unresolved $ref "${ref}"`)
+    }
+    value = (value as Record<string, unknown>)[key]
+  }
+  return value
+}
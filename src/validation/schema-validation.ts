@@ -0,0 +1,363 @@
+/**
+ * Route Schema Validation
+ *
+ * Validates the JSON body, query string and route parameters of requests
+ * against JSON Schemas before they reach the route's handler or upstream,
+ * answering invalid requests with 400. Query and route parameter values
+ * arrive as strings and are converted to the types their schemas declare
+ * first, so `?limit=10` satisfies `{ type: 'integer' }`.
+ *
+ * Successful JSON responses can be checked against a schema too, to catch
+ * upstreams drifting from their contract: mismatches are logged, or answered
+ * with 502 in `reject` mode.
+ */
+
+import type { RequestHandler, ZeroRequest } from '../interfaces/middleware'
+import type { Logger } from '../interfaces/logger'
+import { generateRequestId } from '../security/utils'
+import { currentRequestId } from '../security/request-id'
+import { defaultLogger } from '../logger/pino-logger'
+import {
+  compileSchema,
+  resolvePointer,
+  type JSONSchema,
+  type SchemaValidator,
+} from './json-schema'
+
+/**
+ * Validation of successful upstream responses
+ */
+export interface ResponseValidationConfig {
+  /** Schema of 2xx JSON response bodies */
+  body: JSONSchema
+  /**
+   * What happens to a response that does not match
+   * - log: log the mismatch and deliver the response unchanged
+   * - reject: log the mismatch and answer 502 instead
+   * @default "log"
+   */
+  mode?: 'log' | 'reject'
+}
+
+/**
+ * JSON Schemas (draft 2020-12) a route's requests and responses must conform to
+ */
+export interface RouteValidationConfig {
+  /**
+   * Schema of the JSON request body. GET, HEAD, OPTIONS and DELETE requests
+   * may omit the body; other requests must send one.
+   */
+  body?: JSONSchema
+  /** Schema of the query string, as an object of parameter values */
+  query?: JSONSchema
+  /** Schema of the route parameters, e.g. `:id`, as an object */
+  params?: JSONSchema
+  /** Validation of upstream responses */
+  response?: ResponseValidationConfig
+}
+
+/**
+ * A part of a request that does not conform to its schema
+ */
+export interface RequestValidationError {
+  /** Part of the request: a parameter location or the body */
+  in: 'path' | 'query' | 'header' | 'cookie' | 'body'
+  /** Parameter name; absent for the body */
+  name?: string
+  /** JSON Pointer to the offending value within the body or parameter */
+  pointer?: string
+  message: string
+}
+
+/** Methods whose requests may be sent without a body */
+const BODYLESS_METHODS = new Set(['GET', 'HEAD', 'OPTIONS', 'DELETE'])
+
+/**
+ * Creates a middleware validating requests, and optionally responses, against
+ * the schemas of a route. The schemas are compiled once, when the middleware
+ * is created.
+ *
+ * @throws Error if a schema is invalid or a `$ref` does not resolve
+ */
+export function createSchemaValidationMiddleware(
+  config: RouteValidationConfig,
+  logger: Logger = defaultLogger,
+): RequestHandler {
+  const body =
+    config.body !== undefined ? compileSchema(config.body) : undefined
+  const query =
+    config.query !== undefined ? compileParameters(config.query) : undefined
+  const params =
+    config.params !== undefined ? compileParameters(config.params) : undefined
+  const response = config.response
+    ? {
+        validate: compileSchema(config.response.body),
+        reject: config.response.mode === 'reject',
+      }
+    : undefined
+
+  return async (req: ZeroRequest, next) => {
+    const errors: RequestValidationError[] = []
+    if (params) {
+      errors.push(
+        ...params(
+          'path',
+          Object.entries(req.params ?? {}).map(([name, value]) => [
+            name,
+            [value],
+          ]),
+        ),
+      )
+    }
+    if (query) {
+      const searchParams = new URL(req.url).searchParams
+      errors.push(
+        ...query(
+          'query',
+          [...new Set(searchParams.keys())].map((name) => [
+            name,
+            searchParams.getAll(name),
+          ]),
+        ),
+      )
+    }
+    if (body) {
+      errors.push(...(await validateBody(req, body)))
+    }
+    if (errors.length > 0) {
+      return validationErrorResponse(errors)
+    }
+
+    const res = await next()
+    if (!response || req.method === 'HEAD' || !res.ok || res.body === null) {
+      return res
+    }
+
+    const check = validateResponse(res, response.validate).then((issues) => {
+      if (issues.length > 0) {
+        logger.warn('Response does not match the route schema', {
+          method: req.method,
+          url: req.url,
+          status: res.status,
+          errors: issues,
+        })
+      }
+      return issues
+    })
+    if (!response.reject) {
+      // Logging only: deliver the response without waiting for the check
+      check.catch(() => {})
+      return res
+    }
+    if ((await check).length === 0) {
+      return res
+    }
+    const requestId = currentRequestId() ?? generateRequestId()
+    return new Response(
+      JSON.stringify({
+        error: {
+          code: 'RESPONSE_VALIDATION_ERROR',
+          message: 'Upstream response does not match the route contract',
+          requestId,
+          timestamp: Date.now(),
+        },
+      }),
+      {
+        status: 502,
+        headers: {
+          'Content-Type': 'application/json',
+          'X-Request-ID': requestId,
+        },
+      },
+    )
+  }
+}
+
+/**
+ * Builds the 400 answer to an invalid request
+ */
+export function validationErrorResponse(
+  errors: RequestValidationError[],
+): Response {
+  const requestId = currentRequestId() ?? generateRequestId()
+  return new Response(
+    JSON.stringify({
+      error: {
+        code: 'VALIDATION_ERROR',
+        message: 'Request validation failed',
+        requestId,
+        timestamp: Date.now(),
+        details: errors,
+      },
+    }),
+    {
+      status: 400,
+      headers: {
+        'Content-Type': 'application/json',
+        'X-Request-ID': requestId,
+      },
+    },
+  )
+}
+
+/**
+ * Converts raw parameter strings to the type a parameter schema declares.
+ * Arrays are taken from repeated values or comma-separated values; other
+ * types use the first value.
+ *
+ * @param raw - Values of the parameter, at least one
+ * @param schema - Parameter schema, with its `$ref` resolved
+ * @param resolve - Resolves the `$ref` of the schema's `items`
+ */
+export function coerceParameter(
+  raw: string[],
+  schema: Record<string, unknown>,
+  resolve: (schema: unknown) => Record<string, unknown> = (schema) =>
+    isRecord(schema) ? schema : {},
+): unknown {
+  if (typesOf(schema).includes('array')) {
+    const values = raw.length === 1 ? raw[0]!.split(',') : raw
+    const items = resolve(schema.items)
+    return values.map((value) => coerceValue(value, items))
+  }
+  return coerceValue(raw[0]!, schema)
+}
+
+/**
+ * Compiles the schema of an object of string parameters into a function
+ * converting and validating their values
+ */
+function compileParameters(
+  schema: JSONSchema,
+): (
+  location: 'path' | 'query',
+  values: Array<[string, string[]]>,
+) => RequestValidationError[] {
+  const validate = compileSchema(schema)
+  const resolve = (value: unknown): Record<string, unknown> => {
+    const seen = new Set<unknown>()
+    while (isRecord(value) && typeof value.$ref === 'string') {
+      if (seen.has(value.$ref)) {
+        throw new Error(`Circular $ref "${value.$ref}"`)
+      }
+      seen.add(value.$ref)
+      value = resolvePointer(schema, value.$ref)
+    }
+    return isRecord(value) ? value : {}
+  }
+  const properties = resolve(schema).properties
+  const additional = resolve(schema).additionalProperties
+
+  return (location, values) => {
+    const object: Record<string, unknown> = {}
+    for (const [name, raw] of values) {
+      const property = isRecord(properties) ? properties[name] : undefined
+      object[name] = coerceParameter(
+        raw,
+        resolve(property ?? additional),
+        resolve,
+      )
+    }
+    return validate(object).map((error) => {
+      // The first pointer segment names the parameter
+      const [, name, ...rest] = error.pointer.split('/')
+      return {
+        in: location,
+        ...(name !== undefined
+          ? { name: name.replace(/~1/g, '/').replace(/~0/g, '~') }
+          : {}),
+        ...(rest.length > 0 ? { pointer: `/${rest.join('/')}` } : {}),
+        message: error.message,
+      }
+    })
+  }
+}
+
+async function validateBody(
+  req: ZeroRequest,
+  validate: SchemaValidator,
+): Promise<RequestValidationError[]> {
+  const contentLength = req.headers.get('content-length')
+  if (req.body === null || contentLength === '0') {
+    return BODYLESS_METHODS.has(req.method)
+      ? []
+      : [{ in: 'body', message: 'is required' }]
+  }
+
+  const contentType = mediaType(req.headers)
+  if (!isJSON(contentType)) {
+    return [
+      { in: 'body', message: `content type "${contentType}" is not accepted` },
+    ]
+  }
+
+  let body: unknown
+  try {
+    // Read a copy so the body can still be proxied
+    body = JSON.parse(await (req.clone() as Request).text())
+  } catch {
+    return [{ in: 'body', message: 'must be valid JSON' }]
+  }
+  return validate(body).map((error) => ({
+    in: 'body' as const,
+    pointer: error.pointer,
+    message: error.message,
+  }))
+}
+
+/**
+ * Validates a copy of a response's body, so the response can still be
+ * delivered
+ */
+async function validateResponse(
+  res: Response,
+  validate: SchemaValidator,
+): Promise<Array<{ pointer: string; message: string }>> {
+  const contentType = mediaType(res.headers)
+  if (!isJSON(contentType)) {
+    return [
+      { pointer: '', message: `content type "${contentType}" is not JSON` },
+    ]
+  }
+  try {
+    return validate(JSON.parse(await (res.clone() as Response).text()))
+  } catch {
+    return [{ pointer: '', message: 'must be valid JSON' }]
+  }
+}
+
+/**
+ * Media type of a message, without parameters, e.g. 'application/json'
+ */
+function mediaType(headers: Headers): string {
+  return (headers.get('content-type') ?? '').split(';')[0]!.trim().toLowerCase()
+}
+
+function isJSON(contentType: string): boolean {
+  return contentType === 'application/json' || contentType.endsWith('+json')
+}
+
+function coerceValue(value: string, schema: Record<string, unknown>): unknown {
+  const types = typesOf(schema)
+  if (
+    (types.includes('integer') || types.includes('number')) &&
+    /^-?\d+(\.\d+)?([eE][+-]?\d+)?$/.test(value)
+  ) {
+    return Number(value)
+  }
+  if (types.includes('boolean') && (value === 'true' || value === 'false')) {
+    return value === 'true'
+  }
+  if (types.includes('null') && value === '') {
+    return null
+  }
+  return value
+}
+
+function typesOf(schema: Record<string, unknown>): unknown[] {
+  return Array.isArray(schema.type) ? schema.type : [schema.type]
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
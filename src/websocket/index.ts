@@ -0,0 +1,14 @@
+/**
+ * Bungate WebSocket Module
+ *
+ * Relaying of WebSocket connections to upstream services
+ */
+
+export {
+  WebSocketProxy,
+  isWebSocketUpgrade,
+  toWebSocketUrl,
+  type WebSocketProxyOptions,
+  type WebSocketRouteConfig,
+  type WebSocketUpstream,
+} from './websocket-proxy'
@@ -0,0 +1,444 @@
+/**
+ * WebSocket Proxy
+ *
+ * Relays WebSocket connections between clients and upstream services. The
+ * upstream connection is opened first, so an unreachable upstream is answered
+ * with 502 instead of an upgraded connection that closes at once. The client
+ * connection is then upgraded with the subprotocol the upstream selected, and
+ * messages are relayed in both directions.
+ *
+ * Bun's WebSocket APIs cannot pause reading from a peer, so backpressure is
+ * bounded buffering: messages queue on the slow side up to `maxBufferedBytes`,
+ * and a peer that falls further behind has its connection closed with 1013.
+ */
+
+import type { Server, ServerWebSocket, WebSocketHandler } from 'bun'
+import type { Logger } from '../interfaces/logger'
+import type {
+  GatewayMetrics,
+  WebSocketDirection,
+} from '../metrics/gateway-metrics'
+
+/**
+ * WebSocket settings of a route
+ */
+export interface WebSocketRouteConfig {
+  /**
+   * Milliseconds without a message in either direction before the connection
+   * is closed; 0 disables the timeout
+   * @default 60000
+   */
+  idleTimeout?: number
+  /**
+   * Largest message relayed in bytes; a larger message closes the connection
+   * with 1009
+   * @default 1048576 (1 MiB)
+   */
+  maxMessageSize?: number
+  /**
+   * Largest amount of data queued toward either peer in bytes; a peer that
+   * falls further behind has its connection closed with 1013
+   * @default 1048576 (1 MiB)
+   */
+  maxBufferedBytes?: number
+  /**
+   * Milliseconds to wait for the upstream handshake
+   * @default 10000
+   */
+  connectTimeout?: number
+}
+
+/**
+ * Upstream of a WebSocket connection to relay
+ */
+export interface WebSocketUpstream {
+  /** Route pattern, used in metrics and logs */
+  route: string
+  /** Upstream WebSocket URL */
+  url: string
+  /** Headers sent to the upstream with the handshake */
+  headers: Headers
+  config: WebSocketRouteConfig
+  /**
+   * Called once when the connection ends, or when the upstream could not be
+   * reached, in which case `error` is set
+   */
+  onClose?: (durationMs: number, error?: Error) => void
+}
+
+/**
+ * Options for WebSocketProxy
+ */
+export interface WebSocketProxyOptions {
+  logger?: Logger
+  metrics?: GatewayMetrics
+}
+
+type Message = string | ArrayBuffer | Uint8Array
+
+const DEFAULT_MAX_BYTES = 1024 * 1024
+
+/** Handshake headers the upstream WebSocket client sets itself */
+const HANDSHAKE_HEADERS = [
+  'host',
+  'content-length',
+  'sec-websocket-key',
+  'sec-websocket-version',
+  'sec-websocket-extensions',
+  'sec-websocket-protocol',
+]
+
+/**
+ * Returns true if the request asks to upgrade to a WebSocket
+ */
+export function isWebSocketUpgrade(req: Request): boolean {
+  return req.headers.get('upgrade')?.toLowerCase() === 'websocket'
+}
+
+/**
+ * Converts an http(s) upstream URL to its ws(s) equivalent
+ */
+export function toWebSocketUrl(url: string): string {
+  return url.replace(/^http(s?):\/\//i, 'ws$1://')
+}
+
+/**
+ * Relays the proxied WebSocket connections of a gateway
+ *
+ * `handler` must be passed as the `websocket` option of the `Bun.serve`
+ * server whose requests are upgraded.
+ *
+ * @example
+ * ```ts
+ * const proxy = new WebSocketProxy({ logger })
+ * Bun.serve({
+ *   fetch: (req, server) =>
+ *     proxy.upgrade(req, server, {
+ *       route: '/chat',
+ *       url: 'ws://chat-service:3000/chat',
+ *       headers: new Headers(),
+ *       config: { idleTimeout: 30000 },
+ *     }),
+ *   websocket: proxy.handler,
+ * })
+ * ```
+ */
+export class WebSocketProxy {
+  readonly handler: WebSocketHandler<WebSocketSession>
+  private readonly sessions = new Set<WebSocketSession>()
+  private readonly logger?: Logger
+  private readonly metrics?: GatewayMetrics
+
+  constructor(options: WebSocketProxyOptions = {}) {
+    this.logger = options.logger
+    this.metrics = options.metrics
+    this.handler = {
+      // Idle connections are closed per route by the sessions
+      idleTimeout: 0,
+      open: (ws) => ws.data.open(ws),
+      message: (ws, message) => ws.data.fromClient(message),
+      drain: (ws) => ws.data.drain(),
+      close: (ws, code, reason) => ws.data.close(code, reason),
+    }
+  }
+
+  /**
+   * Number of relayed connections currently open
+   */
+  get connections(): number {
+    return this.sessions.size
+  }
+
+  /**
+   * Connects to the upstream and upgrades the client connection
+   *
+   * @returns A 101 placeholder, which Bun ignores once the connection is
+   *   upgraded; 502 when the upstream could not be reached; 400 when the
+   *   request could not be upgraded
+   */
+  async upgrade(
+    req: Request,
+    server: Server,
+    upstream: WebSocketUpstream,
+  ): Promise<Response> {
+    const startedAt = Date.now()
+    const protocols = (req.headers.get('sec-websocket-protocol') ?? '')
+      .split(',')
+      .map((protocol) => protocol.trim())
+      .filter(Boolean)
+
+    let socket: WebSocket
+    try {
+      socket = await connect(
+        upstream,
+        protocols,
+        upstream.config.connectTimeout ?? 10000,
+      )
+    } catch (error) {
+      this.metrics?.recordWebSocketFailure(upstream.route)
+      this.logger?.warn('WebSocket upstream unreachable', {
+        route: upstream.route,
+        url: upstream.url,
+        error: (error as Error).message,
+      })
+      upstream.onClose?.(Date.now() - startedAt, error as Error)
+      return new Response('Bad Gateway', { status: 502 })
+    }
+
+    const session = new WebSocketSession(socket, upstream, this)
+    const upgraded = server.upgrade(req, {
+      data: session,
+      headers: socket.protocol
+        ? { 'Sec-WebSocket-Protocol': socket.protocol }
+        : undefined,
+    })
+    if (!upgraded) {
+      session.close(1011, 'Client upgrade failed')
+      return new Response('WebSocket upgrade failed', { status: 400 })
+    }
+    return new Response(null, { status: 101 })
+  }
+
+  /**
+   * Closes every relayed connection, e.g. on shutdown
+   */
+  closeAll(code = 1001, reason = 'Gateway shutting down'): void {
+    for (const session of [...this.sessions]) {
+      session.close(code, reason)
+    }
+  }
+
+  /** @internal */
+  opened(session: WebSocketSession): void {
+    this.sessions.add(session)
+    this.metrics?.openWebSocket(session.upstream.route)
+  }
+
+  /** @internal */
+  closed(session: WebSocketSession, code: number, durationMs: number): void {
+    if (this.sessions.delete(session)) {
+      this.metrics?.closeWebSocket(session.upstream.route, durationMs)
+    }
+    this.logger?.info('WebSocket connection closed', {
+      route: session.upstream.route,
+      url: session.upstream.url,
+      code,
+      durationMs,
+      ...session.stats,
+    })
+  }
+
+  /** @internal */
+  relayed(route: string, direction: WebSocketDirection, bytes: number): void {
+    this.metrics?.observeWebSocketMessage(route, direction, bytes)
+  }
+}
+
+/**
+ * One relayed connection: the client connection upgraded by the server and
+ * the upstream connection opened for it
+ */
+class WebSocketSession {
+  readonly stats = {
+    messagesUpstream: 0,
+    messagesDownstream: 0,
+    bytesUpstream: 0,
+    bytesDownstream: 0,
+  }
+  private client?: ServerWebSocket<WebSocketSession>
+  /** Upstream messages that arrived before the client connection opened */
+  private queued: Message[] = []
+  private queuedBytes = 0
+  private readonly openedAt = Date.now()
+  private lastActivity = Date.now()
+  private idleTimer?: ReturnType<typeof setTimeout>
+  private closed = false
+  private readonly idleTimeout: number
+  private readonly maxMessageSize: number
+  private readonly maxBufferedBytes: number
+
+  constructor(
+    private readonly socket: WebSocket,
+    readonly upstream: WebSocketUpstream,
+    private readonly proxy: WebSocketProxy,
+  ) {
+    const config = upstream.config
+    this.idleTimeout = config.idleTimeout ?? 60000
+    this.maxMessageSize = config.maxMessageSize ?? DEFAULT_MAX_BYTES
+    this.maxBufferedBytes = config.maxBufferedBytes ?? DEFAULT_MAX_BYTES
+
+    socket.onmessage = (event) => this.fromUpstream(event.data as Message)
+    socket.onclose = (event) => this.close(event.code, event.reason)
+    socket.onerror = () => this.close(1014, 'Upstream error')
+  }
+
+  open(client: ServerWebSocket<WebSocketSession>): void {
+    if (this.closed) {
+      client.close(1014, 'Upstream closed')
+      return
+    }
+    this.client = client
+    this.proxy.opened(this)
+    for (const message of this.queued) {
+      this.sendToClient(message)
+    }
+    this.queued = []
+    this.queuedBytes = 0
+    this.scheduleIdleCheck()
+  }
+
+  fromClient(message: string | Buffer): void {
+    const size = byteLength(message)
+    if (size > this.maxMessageSize) {
+      this.close(1009, 'Message too big')
+      return
+    }
+    if (this.socket.bufferedAmount + size > this.maxBufferedBytes) {
+      this.close(1013, 'Upstream is not keeping up')
+      return
+    }
+    this.touch()
+    this.socket.send(message)
+    this.stats.messagesUpstream++
+    this.stats.bytesUpstream += size
+    this.proxy.relayed(this.upstream.route, 'upstream', size)
+  }
+
+  drain(): void {
+    this.touch()
+  }
+
+  /**
+   * Closes both connections once, forwarding the close code to the peer that
+   * did not close
+   */
+  close(code: number, reason: string): void {
+    if (this.closed) return
+    this.closed = true
+    clearTimeout(this.idleTimer)
+
+    try {
+      this.socket.close(upstreamCloseCode(code), reason)
+    } catch {}
+    try {
+      this.client?.close(clientCloseCode(code), reason)
+    } catch {}
+
+    const durationMs = Date.now() - this.openedAt
+    if (this.client) {
+      this.proxy.closed(this, code, durationMs)
+    }
+    this.upstream.onClose?.(durationMs)
+  }
+
+  private fromUpstream(message: Message): void {
+    const size = byteLength(message)
+    if (size > this.maxMessageSize) {
+      this.close(1009, 'Message too big')
+      return
+    }
+    if (!this.client) {
+      this.queuedBytes += size
+      if (this.queuedBytes > this.maxBufferedBytes) {
+        this.close(1013, 'Client is not keeping up')
+      } else {
+        this.queued.push(message)
+      }
+      return
+    }
+    this.touch()
+    this.sendToClient(message)
+  }
+
+  private sendToClient(message: Message): void {
+    const client = this.client!
+    const size = byteLength(message)
+    if (client.getBufferedAmount() + size > this.maxBufferedBytes) {
+      this.close(1013, 'Client is not keeping up')
+      return
+    }
+    client.send(message)
+    this.stats.messagesDownstream++
+    this.stats.bytesDownstream += size
+    this.proxy.relayed(this.upstream.route, 'downstream', size)
+  }
+
+  private touch(): void {
+    this.lastActivity = Date.now()
+  }
+
+  private scheduleIdleCheck(): void {
+    if (this.idleTimeout <= 0) return
+    const remaining = this.lastActivity + this.idleTimeout - Date.now()
+    this.idleTimer = setTimeout(() => {
+      if (this.lastActivity + this.idleTimeout <= Date.now()) {
+        this.close(1001, 'Idle timeout')
+      } else {
+        this.scheduleIdleCheck()
+      }
+    }, remaining)
+  }
+}
+
+/**
+ * Opens the upstream connection, offering the client's subprotocols
+ */
+function connect(
+  upstream: WebSocketUpstream,
+  protocols: string[],
+  timeout: number,
+): Promise<WebSocket> {
+  const headers: Record<string, string> = {}
+  upstream.headers.forEach((value, name) => {
+    if (!HANDSHAKE_HEADERS.includes(name.toLowerCase())) {
+      headers[name] = value
+    }
+  })
+
+  return new Promise((resolve, reject) => {
+    const socket = new WebSocket(upstream.url, {
+      headers,
+      protocols: protocols.length > 0 ? protocols : undefined,
+    })
+    socket.binaryType = 'arraybuffer'
+
+    const timer = setTimeout(() => {
+      socket.close()
+      reject(new Error(`WebSocket upstream timeout after ${timeout}ms`))
+    }, timeout)
+    socket.onopen = () => {
+      clearTimeout(timer)
+      resolve(socket)
+    }
+    const fail = () => {
+      clearTimeout(timer)
+      reject(new Error('WebSocket upstream connection failed'))
+    }
+    socket.onerror = fail
+    socket.onclose = fail
+  })
+}
+
+function byteLength(message: Message): number {
+  return typeof message === 'string'
+    ? Buffer.byteLength(message)
+    : message.byteLength
+}
+
+/**
+ * Close code sent to the upstream; WebSocket clients may only send 1000 and
+ * application codes
+ */
+function upstreamCloseCode(code: number): number {
+  return code === 1000 || (code >= 3000 && code <= 4999) ? code : 1000
+}
+
+/**
+ * Close code sent to the client; codes reserved for reporting a closure
+ * cannot be sent
+ */
+function clientCloseCode(code: number): number {
+  if (code === 1005) return 1000
+  if (code === 1006 || code === 1015) return 1014
+  return code
+}
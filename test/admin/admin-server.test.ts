@@ -0,0 +1,486 @@
+/**
+ * Admin API server tests
+ */
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test'
+import {
+  AdminServer,
+  type AdminRouteHandle,
+} from '../../src/admin/admin-server'
+import { HttpLoadBalancer } from '../../src/load-balancer/http-load-balancer'
+import { BunGateLogger } from '../../src/logger/pino-logger'
+import type { ProxyInstance } from '../../src/interfaces/proxy'
+import { TrafficSplitter } from '../../src/split/traffic-splitter'
+import { FaultInjector } from '../../src/faults/fault-injector'
+
+const TOKEN = 'admin-token-for-tests'
+
+function createFakeProxy() {
+  const state = { failures: 3, resets: 0 }
+  const proxy = {
+    proxy: async () => new Response('ok'),
+    close: () => {},
+    getCircuitBreakerState: () => (state.failures > 0 ? 'OPEN' : 'CLOSED'),
+    getCircuitBreakerFailures: () => state.failures,
+    clearURLCache: () => {},
+    resetCircuitBreaker: () => {
+      state.failures = 0
+      state.resets++
+    },
+  } as unknown as ProxyInstance
+  return { proxy, state }
+}
+
+describe('AdminServer', () => {
+  let admin: AdminServer
+  let baseUrl: string
+  let loadBalancer: HttpLoadBalancer
+  let proxyState: { failures: number; resets: number }
+  let logger: BunGateLogger
+  let routes: AdminRouteHandle[]
+
+  const request = (path: string, init: RequestInit = {}) =>
+    fetch(`${baseUrl}${path}`, {
+      ...init,
+      headers: {
+        authorization: `Bearer ${TOKEN}`,
+        'content-type': 'application/json',
+        ...init.headers,
+      },
+    })
+
+  beforeEach(() => {
+    loadBalancer = new HttpLoadBalancer({
+      strategy: 'round-robin',
+      targets: [
+        { url: 'http://backend-1:3000' },
+        { url: 'http://backend-2:3000' },
+      ],
+    })
+    const fake = createFakeProxy()
+    proxyState = fake.state
+    logger = new BunGateLogger({ level: 'error' })
+    routes = [
+      {
+        id: 7,
+        route: {
+          pattern: '/api/*',
+          loadBalancer: {
+            strategy: 'round-robin',
+            targets: loadBalancer.getTargets(),
+          },
+        },
+        methods: [{ method: 'GET', proxy: fake.proxy, loadBalancer }],
+      },
+      {
+        id: 8,
+        route: { pattern: '/direct', target: 'http://direct:3000' },
+        methods: [{ method: 'GET', proxy: createFakeProxy().proxy }],
+      },
+    ]
+
+    admin = new AdminServer({
+      config: {
+        port: 0,
+        auth: { type: 'bearer', credentials: { ops: TOKEN } },
+      },
+      getRoutes: () => routes,
+      logger,
+    })
+    const server = admin.start()
+    baseUrl = `http://127.0.0.1:${server.port}`
+  })
+
+  afterEach(() => {
+    admin.stop()
+    loadBalancer.destroy()
+  })
+
+  test('rejects requests without valid credentials', async () => {
+    const missing = await fetch(`${baseUrl}/routes`)
+    expect(missing.status).toBe(401)
+    const wrong = await fetch(`${baseUrl}/routes`, {
+      headers: { authorization: 'Bearer nope' },
+    })
+    expect(wrong.status).toBe(401)
+    expect(await wrong.json()).toEqual({
+      error: { code: 'UNAUTHORIZED', message: 'Unauthorized' },
+    })
+  })
+
+  test('requires authentication to be configured', () => {
+    expect(
+      () =>
+        new AdminServer({
+          config: { port: 0 } as any,
+          getRoutes: () => [],
+        }),
+    ).toThrow('Admin API requires authentication')
+  })
+
+  test('lists the route table', async () => {
+    const response = await request('/routes')
+    expect(response.status).toBe(200)
+    const body = (await response.json()) as any
+    expect(body.routes.map((route: any) => [route.id, route.pattern])).toEqual([
+      [7, '/api/*'],
+      [8, '/direct'],
+    ])
+    expect(body.routes[0].loadBalancer.targets).toHaveLength(2)
+    expect(body.routes[1].target).toBe('http://direct:3000')
+  })
+
+  test('returns route details with stats and circuit breaker state', async () => {
+    const body = (await (await request('/routes/7')).json()) as any
+    expect(body.methods[0].method).toBe('GET')
+    expect(body.methods[0].circuitBreaker).toEqual({
+      state: 'OPEN',
+      failures: 3,
+    })
+    expect(body.methods[0].loadBalancer.totalTargets).toBe(2)
+
+    expect((await request('/routes/99')).status).toBe(404)
+  })
+
+  test('marks a target unhealthy and healthy again', async () => {
+    const response = await request('/routes/7/targets/health', {
+      method: 'PUT',
+      body: JSON.stringify({ url: 'http://backend-1:3000', healthy: false }),
+    })
+    expect(response.status).toBe(200)
+    expect(loadBalancer.getHealthyTargets().map((t) => t.url)).toEqual([
+      'http://backend-2:3000',
+    ])
+
+    await request('/routes/7/targets/health', {
+      method: 'PUT',
+      body: JSON.stringify({ url: 'http://backend-1:3000', healthy: true }),
+    })
+    expect(loadBalancer.getHealthyTargets()).toHaveLength(2)
+
+    const unknown = await request('/routes/7/targets/health', {
+      method: 'PUT',
+      body: JSON.stringify({ url: 'http://other:3000', healthy: true }),
+    })
+    expect(unknown.status).toBe(404)
+  })
+
+  test('adds and removes targets', async () => {
+    const added = await request('/routes/7/targets', {
+      method: 'POST',
+      body: JSON.stringify({ url: 'http://backend-3:3000', weight: 2 }),
+    })
+    expect(added.status).toBe(201)
+    expect(loadBalancer.getTargets().map((t) => t.url)).toContain(
+      'http://backend-3:3000',
+    )
+
+    const duplicate = await request('/routes/7/targets', {
+      method: 'POST',
+      body: JSON.stringify({ url: 'http://backend-3:3000' }),
+    })
+    expect(duplicate.status).toBe(409)
+
+    const invalid = await request('/routes/7/targets', {
+      method: 'POST',
+      body: JSON.stringify({ url: 'file:///etc/passwd' }),
+    })
+    expect(invalid.status).toBe(400)
+
+    const removed = await request(
+      `/routes/7/targets?url=${encodeURIComponent('http://backend-3:3000')}`,
+      { method: 'DELETE' },
+    )
+    expect(removed.status).toBe(200)
+    expect(loadBalancer.getTargets()).toHaveLength(2)
+  })
+
+  test('rejects target operations on routes without a load balancer', async () => {
+    const response = await request('/routes/8/targets', {
+      method: 'POST',
+      body: JSON.stringify({ url: 'http://backend-3:3000' }),
+    })
+    expect(response.status).toBe(409)
+  })
+
+  test('reads and changes traffic split weights', async () => {
+    const split = {
+      backends: [
+        { name: 'stable', weight: 90, target: 'http://stable:3000' },
+        { name: 'canary', weight: 10, target: 'http://canary:3000' },
+      ],
+    }
+    routes.push({
+      id: 9,
+      route: { pattern: '/shop', split },
+      methods: [],
+      split: new TrafficSplitter('/shop', split),
+    })
+
+    expect(await (await request('/routes/9/split')).json()).toEqual({
+      weights: { stable: 90, canary: 10 },
+    })
+
+    const changed = await request('/routes/9/split', {
+      method: 'PUT',
+      body: JSON.stringify({ weights: { canary: 50 } }),
+    })
+    expect(changed.status).toBe(200)
+    expect(await changed.json()).toEqual({
+      weights: { stable: 90, canary: 50 },
+    })
+
+    const unknown = await request('/routes/9/split', {
+      method: 'PUT',
+      body: JSON.stringify({ weights: { beta: 1 } }),
+    })
+    expect(unknown.status).toBe(400)
+    expect((await request('/routes/8/split')).status).toBe(409)
+  })
+
+  test('reads, changes and toggles fault injection', async () => {
+    const faults = { abort: { status: 503, percentage: 10 } }
+    routes.push({
+      id: 9,
+      route: { pattern: '/orders', target: 'http://orders:3000', faults },
+      methods: [],
+      faults: new FaultInjector(faults, {
+        route: '/orders',
+        getClientIP: () => '127.0.0.1',
+      }),
+    })
+
+    expect(await (await request('/routes/9/faults')).json()).toEqual({
+      abort: { status: 503, percentage: 10 },
+      enabled: true,
+    })
+
+    const changed = await request('/routes/9/faults', {
+      method: 'PUT',
+      body: JSON.stringify({ delay: { duration: 500 } }),
+    })
+    expect(changed.status).toBe(200)
+    expect(await changed.json()).toEqual({
+      delay: { duration: 500 },
+      enabled: true,
+    })
+
+    const disabled = await request('/routes/9/faults/enabled', {
+      method: 'PUT',
+      body: JSON.stringify({ enabled: false }),
+    })
+    expect(await disabled.json()).toEqual({
+      delay: { duration: 500 },
+      enabled: false,
+    })
+
+    const invalid = await request('/routes/9/faults', {
+      method: 'PUT',
+      body: JSON.stringify({ abort: { status: 99 } }),
+    })
+    expect(invalid.status).toBe(400)
+    expect(((await invalid.json()) as any).error.message).toBe(
+      'abort.status: must be >= 200 (got 99)',
+    )
+    expect((await request('/routes/8/faults')).status).toBe(409)
+  })
+
+  test('scopes target operations on split routes to a backend', async () => {
+    const canary = new HttpLoadBalancer({
+      strategy: 'round-robin',
+      targets: [{ url: 'http://canary-1:3000' }],
+    })
+    const split = {
+      backends: [
+        { name: 'stable', weight: 90, target: 'http://stable:3000' },
+        {
+          name: 'canary',
+          weight: 10,
+          loadBalancer: {
+            strategy: 'round-robin' as const,
+            targets: [{ url: 'http://canary-1:3000' }],
+          },
+        },
+      ],
+    }
+    routes.push({
+      id: 9,
+      route: { pattern: '/shop', split },
+      methods: [
+        { method: 'GET', backend: 'stable', proxy: createFakeProxy().proxy },
+        {
+          method: 'GET',
+          backend: 'canary',
+          proxy: createFakeProxy().proxy,
+          loadBalancer: canary,
+        },
+      ],
+      split: new TrafficSplitter('/shop', split),
+    })
+
+    try {
+      const body = JSON.stringify({ url: 'http://canary-2:3000' })
+      const unscoped = await request('/routes/9/targets', {
+        method: 'POST',
+        body,
+      })
+      expect(unscoped.status).toBe(400)
+
+      const added = await request('/routes/9/targets?backend=canary', {
+        method: 'POST',
+        body,
+      })
+      expect(added.status).toBe(201)
+      expect(canary.getTargets()).toHaveLength(2)
+    } finally {
+      canary.destroy()
+    }
+  })
+
+  test('resets circuit breakers', async () => {
+    const response = await request('/routes/7/circuit-breaker/reset', {
+      method: 'POST',
+    })
+    expect(response.status).toBe(200)
+    expect(proxyState.resets).toBe(1)
+    const body = (await (await request('/routes/7')).json()) as any
+    expect(body.methods[0].circuitBreaker.state).toBe('CLOSED')
+  })
+
+  test('reads and changes the log level', async () => {
+    expect(await (await request('/logger/level')).json()).toEqual({
+      level: 'error',
+    })
+
+    const response = await request('/logger/level', {
+      method: 'PUT',
+      body: JSON.stringify({ level: 'debug' }),
+    })
+    expect(response.status).toBe(200)
+    expect(logger.getLevel()).toBe('debug')
+
+    const invalid = await request('/logger/level', {
+      method: 'PUT',
+      body: JSON.stringify({ level: 'verbose' }),
+    })
+    expect(invalid.status).toBe(400)
+  })
+
+  test('reports cluster workers only in cluster mode', async () => {
+    expect((await request('/cluster/workers')).status).toBe(404)
+    expect((await request('/cluster/reload', { method: 'POST' })).status).toBe(
+      404,
+    )
+  })
+
+  test('returns 404 for unknown endpoints', async () => {
+    expect((await request('/nope')).status).toBe(404)
+  })
+})
+
+describe('AdminServer cluster view', () => {
+  test('serializes worker information', async () => {
+    const admin = new AdminServer({
+      config: {
+        port: 0,
+        auth: { type: 'apikey', credentials: { ops: 'key-1' } },
+      },
+      getRoutes: () => [],
+      getWorkerInfo: () => [
+        {
+          id: 1,
+          process: { pid: 4242 } as any,
+          restarts: 2,
+          lastRestartTime: 0,
+          isExiting: false,
+          restartTimestamps: [],
+        },
+      ],
+    })
+    const server = admin.start()
+    try {
+      const response = await fetch(
+        `http://127.0.0.1:${server.port}/cluster/workers`,
+        { headers: { 'x-api-key': 'key-1' } },
+      )
+      expect(await response.json()).toEqual({
+        workers: [
+          { id: 1, pid: 4242, restarts: 2, lastRestartTime: 0, exiting: false },
+        ],
+      })
+    } finally {
+      admin.stop()
+    }
+  })
+
+  test('reloads the configuration on the workers', async () => {
+    let reloads = 0
+    const admin = new AdminServer({
+      config: {
+        port: 0,
+        auth: { type: 'apikey', credentials: { ops: 'key-1' } },
+      },
+      getRoutes: () => [],
+      reloadConfig: async () => {
+        if (++reloads > 1) {
+          throw new Error('Invalid gateway configuration in gateway.yaml')
+        }
+        return {
+          file: 'gateway.yaml',
+          workers: [{ workerId: 1, applied: true }],
+        }
+      },
+    })
+    const server = admin.start()
+    const reload = () =>
+      fetch(`http://127.0.0.1:${server.port}/cluster/reload`, {
+        method: 'POST',
+        headers: { 'x-api-key': 'key-1' },
+      })
+    try {
+      const response = await reload()
+      expect(response.status).toBe(200)
+      expect(await response.json()).toEqual({
+        file: 'gateway.yaml',
+        workers: [{ workerId: 1, applied: true }],
+      })
+
+      const rejected = await reload()
+      expect(rejected.status).toBe(400)
+      expect(((await rejected.json()) as any).error.message).toBe(
+        'Invalid gateway configuration in gateway.yaml',
+      )
+    } finally {
+      admin.stop()
+    }
+  })
+
+  test('rejects route changes on the master', async () => {
+    const fake = createFakeProxy()
+    const admin = new AdminServer({
+      config: {
+        port: 0,
+        auth: { type: 'apikey', credentials: { ops: 'key-1' } },
+      },
+      getRoutes: () => [
+        {
+          id: 7,
+          route: { pattern: '/direct', target: 'http://direct:3000' },
+          methods: [{ method: 'GET', proxy: fake.proxy }],
+        },
+      ],
+      getWorkerInfo: () => [],
+    })
+    const server = admin.start()
+    try {
+      const response = await fetch(
+        `http://127.0.0.1:${server.port}/routes/7/circuit-breaker/reset`,
+        { method: 'POST', headers: { 'x-api-key': 'key-1' } },
+      )
+      expect(response.status).toBe(409)
+      expect(((await response.json()) as any).error.code).toBe('CONFLICT')
+      expect(fake.state.resets).toBe(0)
+    } finally {
+      admin.stop()
+    }
+  })
+})
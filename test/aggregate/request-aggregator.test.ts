@@ -0,0 +1,227 @@
+/**
+ * Request aggregator tests
+ * Covers merging, dependent calls, failure policies and timeouts
+ */
+import { describe, test, expect } from 'bun:test'
+import {
+  RequestAggregator,
+  type AggregateCall,
+  type AggregateDispatch,
+} from '../../src/aggregate/request-aggregator'
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { 'content-type': 'application/json' },
+  })
+
+/**
+ * Stand-in for the gateway: answers calls by path and records them
+ */
+function upstreams(routes: Record<string, () => Response | Promise<Response>>) {
+  const calls: Request[] = []
+  const dispatch = (req: Request) => {
+    calls.push(req)
+    const url = new URL(req.url)
+    const route = routes[url.pathname + url.search]
+    return route ? route() : json({ error: 'Not found' }, 404)
+  }
+  return { calls, dispatch }
+}
+
+function aggregator(calls: AggregateCall[], dispatch: AggregateDispatch) {
+  return new RequestAggregator({ calls }, dispatch)
+}
+
+describe('RequestAggregator', () => {
+  test('should merge the results of parallel calls', async () => {
+    const { dispatch } = upstreams({
+      '/profile': async () => {
+        await Bun.sleep(50)
+        return json({ name: 'Ada' })
+      },
+      '/news': async () => {
+        await Bun.sleep(50)
+        return json([{ title: 'Hello' }])
+      },
+      '/flags': () => new Response(null, { status: 204 }),
+    })
+    const startedAt = Date.now()
+    const response = await aggregator(
+      [
+        { name: 'profile', path: '/profile' },
+        { name: 'news', path: '/news' },
+        { name: 'flags', path: '/flags' },
+      ],
+      dispatch,
+    ).handle(new Request('http://gateway/screen'))
+
+    expect(response.status).toBe(200)
+    expect(response.headers.get('content-type')).toBe('application/json')
+    expect(await response.json()).toEqual({
+      profile: { name: 'Ada' },
+      news: [{ title: 'Hello' }],
+      flags: null,
+    })
+    expect(Date.now() - startedAt).toBeLessThan(90)
+  })
+
+  test('should pass values between dependent calls', async () => {
+    const { calls, dispatch } = upstreams({
+      '/users/42': () => json({ id: 42, team: { slug: 'r&d' } }),
+      '/teams/r%26d?lang=en': () => json({ members: 3 }),
+    })
+    const response = await aggregator(
+      [
+        { name: 'team', path: '/teams/{user.team.slug}?lang={query.lang}' },
+        { name: 'user', path: '/users/{params.id}' },
+      ],
+      dispatch,
+    ).handle(new Request('http://gateway/screen?lang=en'), { id: '42' })
+
+    expect(await response.json()).toEqual({
+      team: { members: 3 },
+      user: { id: 42, team: { slug: 'r&d' } },
+    })
+    expect(calls.map((call) => new URL(call.url).pathname)).toEqual([
+      '/users/42',
+      '/teams/r%26d',
+    ])
+  })
+
+  test('should forward selected client headers', async () => {
+    const { calls, dispatch } = upstreams({ '/me': () => json({}) })
+    await new RequestAggregator(
+      {
+        calls: [{ name: 'me', path: '/me', headers: { 'x-client': 'bff' } }],
+      },
+      dispatch,
+    ).handle(
+      new Request('http://gateway/screen', {
+        headers: { authorization: 'Bearer t', 'x-secret': 'no' },
+      }),
+    )
+
+    const headers = calls[0]!.headers
+    expect(headers.get('authorization')).toBe('Bearer t')
+    expect(headers.get('x-client')).toBe('bff')
+    expect(headers.get('accept')).toBe('application/json')
+    expect(headers.get('x-secret')).toBeNull()
+  })
+
+  test('should null out sections of calls that may fail', async () => {
+    const { dispatch } = upstreams({
+      '/profile': () => json({ id: 7 }),
+      '/recommendations': () => json({ error: 'down' }, 503),
+    })
+    const response = await aggregator(
+      [
+        { name: 'profile', path: '/profile' },
+        {
+          name: 'recommendations',
+          path: '/recommendations',
+          onError: 'null',
+        },
+        // Depends on a call that failed, so it has no value to use
+        {
+          name: 'similar',
+          path: '/similar/{recommendations.id}',
+          onError: 'null',
+        },
+      ],
+      dispatch,
+    ).handle(new Request('http://gateway/screen'))
+
+    expect(response.status).toBe(200)
+    expect(await response.json()).toEqual({
+      profile: { id: 7 },
+      recommendations: null,
+      similar: null,
+    })
+  })
+
+  test('should fail the request when a required call fails', async () => {
+    const { dispatch } = upstreams({
+      '/profile': () => new Response('not json'),
+      '/news': () => json([]),
+    })
+    const response = await aggregator(
+      [
+        { name: 'profile', path: '/profile' },
+        { name: 'news', path: '/news' },
+      ],
+      dispatch,
+    ).handle(new Request('http://gateway/screen'))
+
+    expect(response.status).toBe(502)
+    expect(await response.json()).toEqual({
+      error: 'Aggregate call failed',
+      call: 'profile',
+    })
+  })
+
+  test('should answer 504 when a required call times out', async () => {
+    const { dispatch } = upstreams({
+      '/slow': async () => {
+        await Bun.sleep(500)
+        return json({})
+      },
+    })
+    const startedAt = Date.now()
+    const response = await aggregator(
+      [{ name: 'slow', path: '/slow', timeout: 20 }],
+      dispatch,
+    ).handle(new Request('http://gateway/screen'))
+
+    expect(response.status).toBe(504)
+    expect(Date.now() - startedAt).toBeLessThan(250)
+  })
+
+  test('should dispatch calls with the request they are made for', async () => {
+    const origins: Request[] = []
+    const client = new Request('http://gateway/screen')
+    await aggregator([{ name: 'me', path: '/me' }], (_req, origin) => {
+      origins.push(origin)
+      return json({})
+    }).handle(client)
+    expect(origins).toHaveLength(1)
+    expect(origins[0]).toBe(client)
+  })
+
+  test('should stop aggregate routes calling each other endlessly', async () => {
+    let nested!: RequestAggregator
+    nested = aggregator([{ name: 'self', path: '/screen' }], (req) =>
+      nested.handle(req),
+    )
+    const response = await nested.handle(new Request('http://gateway/screen'))
+    expect(response.status).toBe(502)
+  })
+
+  test('should reject invalid call graphs', () => {
+    const dispatch = () => json({})
+    expect(() =>
+      aggregator(
+        [
+          { name: 'a', path: '/a' },
+          { name: 'a', path: '/b' },
+        ],
+        dispatch,
+      ),
+    ).toThrow('Aggregate call "a" is defined twice')
+    expect(() =>
+      aggregator([{ name: 'a', path: '/a/{b.id}' }], dispatch),
+    ).toThrow('Aggregate call "a" refers to unknown call "b"')
+    expect(() =>
+      aggregator(
+        [
+          { name: 'a', path: '/a/{b.id}' },
+          { name: 'b', path: '/b/{a.id}' },
+        ],
+        dispatch,
+      ),
+    ).toThrow('depends on itself')
+    expect(() => aggregator([{ name: 'query', path: '/q' }], dispatch)).toThrow(
+      'Aggregate call name "query" is reserved',
+    )
+  })
+})
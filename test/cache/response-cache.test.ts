@@ -0,0 +1,443 @@
+/**
+ * Response cache tests
+ * Covers freshness, variants, conditional requests, stale serving and eviction
+ */
+import {
+  describe,
+  test,
+  expect,
+  beforeEach,
+  afterEach,
+  setSystemTime,
+} from 'bun:test'
+import {
+  ResponseCache,
+  parseCacheControl,
+  type UpstreamFetcher,
+} from '../../src/cache/response-cache'
+
+const URL_A = 'http://gateway.test/items?page=1'
+
+/**
+ * Fake upstream returning queued responses and recording request headers
+ */
+function createUpstream(
+  respond: (headers: Headers, call: number) => Response | Promise<Response>,
+) {
+  const calls: Headers[] = []
+  const fetchUpstream: UpstreamFetcher = async (headers) => {
+    calls.push(headers)
+    return respond(headers, calls.length)
+  }
+  return { calls, fetchUpstream }
+}
+
+const get = (headers: Record<string, string> = {}, url = URL_A) =>
+  new Request(url, { headers })
+
+describe('parseCacheControl', () => {
+  test('should parse directives case-insensitively with optional values', () => {
+    const directives = parseCacheControl(
+      'Public, MAX-AGE=60, no-cache="set-cookie", , s-maxage=120',
+    )
+    expect(directives.get('public')).toBe(true)
+    expect(directives.get('max-age')).toBe('60')
+    expect(directives.get('no-cache')).toBe('set-cookie')
+    expect(directives.get('s-maxage')).toBe('120')
+  })
+
+  test('should return no directives for a missing header', () => {
+    expect(parseCacheControl(null).size).toBe(0)
+  })
+})
+
+describe('ResponseCache', () => {
+  let now: number
+
+  beforeEach(() => {
+    now = Date.parse('2026-01-01T00:00:00Z')
+    setSystemTime(new Date(now))
+  })
+
+  afterEach(() => {
+    setSystemTime()
+  })
+
+  const advance = (seconds: number) => {
+    now += seconds * 1000
+    setSystemTime(new Date(now))
+  }
+
+  test('should serve fresh responses from the cache with Age and X-Cache', async () => {
+    const cache = new ResponseCache()
+    const { calls, fetchUpstream } = createUpstream(
+      (_headers, call) =>
+        new Response(`body ${call}`, {
+          headers: { 'cache-control': 'max-age=60' },
+        }),
+    )
+
+    const miss = await cache.handle(get(), fetchUpstream)
+    expect(miss.headers.get('x-cache')).toBe('MISS')
+    expect(await miss.text()).toBe('body 1')
+
+    advance(10)
+    const hit = await cache.handle(get(), fetchUpstream)
+    expect(hit.headers.get('x-cache')).toBe('HIT')
+    expect(hit.headers.get('age')).toBe('10')
+    expect(await hit.text()).toBe('body 1')
+    expect(calls).toHaveLength(1)
+  })
+
+  test('should answer HEAD requests from a cached GET', async () => {
+    const cache = new ResponseCache()
+    const { calls, fetchUpstream } = createUpstream(
+      () =>
+        new Response('payload', { headers: { 'cache-control': 'max-age=60' } }),
+    )
+    await cache.handle(get(), fetchUpstream)
+
+    const head = await cache.handle(
+      new Request(URL_A, { method: 'HEAD' }),
+      fetchUpstream,
+    )
+    expect(head.headers.get('x-cache')).toBe('HIT')
+    expect(await head.text()).toBe('')
+    expect(calls).toHaveLength(1)
+  })
+
+  test('should not store no-store, private or Set-Cookie responses', async () => {
+    for (const headers of [
+      { 'cache-control': 'no-store' },
+      { 'cache-control': 'private, max-age=60' },
+      { 'cache-control': 'max-age=60', 'set-cookie': 'a=1' },
+      { 'cache-control': 'max-age=60', vary: '*' },
+    ]) {
+      const cache = new ResponseCache()
+      const { calls, fetchUpstream } = createUpstream(
+        () => new Response('x', { headers }),
+      )
+      await cache.handle(get(), fetchUpstream)
+      await cache.handle(get(), fetchUpstream)
+      expect(calls).toHaveLength(2)
+    }
+  })
+
+  test('should only store responses to authorized requests when public', async () => {
+    const cache = new ResponseCache()
+    const { calls, fetchUpstream } = createUpstream(
+      (_headers, call) =>
+        new Response('x', {
+          headers: {
+            'cache-control': call === 1 ? 'max-age=60' : 'public, max-age=60',
+          },
+        }),
+    )
+    const authorized = { authorization: 'Bearer token' }
+
+    await cache.handle(get(authorized), fetchUpstream)
+    await cache.handle(get(authorized), fetchUpstream)
+    await cache.handle(get(authorized), fetchUpstream)
+    expect(calls).toHaveLength(2)
+  })
+
+  test('should leave responses without freshness uncached unless defaultTtl is set', async () => {
+    const respond = () => new Response('x')
+
+    const uncached = new ResponseCache()
+    const first = createUpstream(respond)
+    await uncached.handle(get(), first.fetchUpstream)
+    await uncached.handle(get(), first.fetchUpstream)
+    expect(first.calls).toHaveLength(2)
+
+    const cached = new ResponseCache({ defaultTtl: 30 })
+    const second = createUpstream(respond)
+    await cached.handle(get(), second.fetchUpstream)
+    const hit = await cached.handle(get(), second.fetchUpstream)
+    expect(hit.headers.get('x-cache')).toBe('HIT')
+    expect(second.calls).toHaveLength(1)
+  })
+
+  test('should honor Expires relative to Date', async () => {
+    const cache = new ResponseCache()
+    const { calls, fetchUpstream } = createUpstream(
+      () =>
+        new Response('x', {
+          headers: {
+            date: new Date(now).toUTCString(),
+            expires: new Date(now + 30_000).toUTCString(),
+          },
+        }),
+    )
+    await cache.handle(get(), fetchUpstream)
+    advance(20)
+    expect(
+      (await cache.handle(get(), fetchUpstream)).headers.get('x-cache'),
+    ).toBe('HIT')
+    advance(20)
+    expect(
+      (await cache.handle(get(), fetchUpstream)).headers.get('x-cache'),
+    ).toBe('MISS')
+    expect(calls).toHaveLength(2)
+  })
+
+  test('should keep a variant per Vary header value', async () => {
+    const cache = new ResponseCache()
+    const { calls, fetchUpstream } = createUpstream(
+      (headers) =>
+        new Response(headers.get('accept-language') ?? 'none', {
+          headers: { 'cache-control': 'max-age=60', vary: 'Accept-Language' },
+        }),
+    )
+    const en = { 'accept-language': 'en' }
+    const fr = { 'accept-language': 'fr' }
+
+    await cache.handle(get(en), fetchUpstream)
+    await cache.handle(get(fr), fetchUpstream)
+    expect(await (await cache.handle(get(en), fetchUpstream)).text()).toBe('en')
+    expect(await (await cache.handle(get(fr), fetchUpstream)).text()).toBe('fr')
+    expect(calls).toHaveLength(2)
+    expect(cache.getStats().entries).toBe(2)
+  })
+
+  test('should answer conditional requests from the cache', async () => {
+    const lastModified = new Date(now - 60_000).toUTCString()
+    const cache = new ResponseCache()
+    const { calls, fetchUpstream } = createUpstream(
+      () =>
+        new Response('x', {
+          headers: {
+            'cache-control': 'max-age=60',
+            etag: '"v1"',
+            'last-modified': lastModified,
+          },
+        }),
+    )
+
+    // The client's validators are not forwarded on a miss
+    const first = await cache.handle(
+      get({ 'if-none-match': '"v0"' }),
+      fetchUpstream,
+    )
+    expect(first.status).toBe(200)
+    expect(calls[0]!.has('if-none-match')).toBe(false)
+
+    const matched = await cache.handle(
+      get({ 'if-none-match': 'W/"v1", "v2"' }),
+      fetchUpstream,
+    )
+    expect(matched.status).toBe(304)
+    expect(matched.headers.get('etag')).toBe('"v1"')
+    expect(matched.headers.get('x-cache')).toBe('HIT')
+
+    const unmodified = await cache.handle(
+      get({ 'if-modified-since': lastModified }),
+      fetchUpstream,
+    )
+    expect(unmodified.status).toBe(304)
+
+    const changed = await cache.handle(
+      get({ 'if-none-match': '"v0"' }),
+      fetchUpstream,
+    )
+    expect(changed.status).toBe(200)
+    expect(calls).toHaveLength(1)
+  })
+
+  test('should revalidate stale entries with their validators', async () => {
+    const cache = new ResponseCache()
+    const { calls, fetchUpstream } = createUpstream((headers, call) =>
+      call === 1
+        ? new Response('original', {
+            headers: { 'cache-control': 'max-age=10', etag: '"v1"' },
+          })
+        : new Response(null, {
+            status: headers.get('if-none-match') === '"v1"' ? 304 : 200,
+            headers: { 'cache-control': 'max-age=30' },
+          }),
+    )
+
+    await cache.handle(get(), fetchUpstream)
+    advance(15)
+    const revalidated = await cache.handle(get(), fetchUpstream)
+    expect(revalidated.headers.get('x-cache')).toBe('REVALIDATED')
+    expect(await revalidated.text()).toBe('original')
+    expect(calls[1]!.get('if-none-match')).toBe('"v1"')
+
+    // The 304 refreshed the entry with the new max-age
+    advance(20)
+    const hit = await cache.handle(get(), fetchUpstream)
+    expect(hit.headers.get('x-cache')).toBe('HIT')
+    expect(hit.headers.get('cache-control')).toBe('max-age=30')
+    expect(calls).toHaveLength(2)
+  })
+
+  test('should revalidate no-cache entries before every use', async () => {
+    const cache = new ResponseCache()
+    const { calls, fetchUpstream } = createUpstream((_headers, call) =>
+      call === 1
+        ? new Response('x', {
+            headers: { 'cache-control': 'no-cache', etag: '"v1"' },
+          })
+        : new Response(null, { status: 304 }),
+    )
+
+    await cache.handle(get(), fetchUpstream)
+    const response = await cache.handle(get(), fetchUpstream)
+    expect(response.headers.get('x-cache')).toBe('REVALIDATED')
+    expect(calls).toHaveLength(2)
+  })
+
+  test('should serve stale content while revalidating in the background', async () => {
+    const cache = new ResponseCache()
+    let release!: () => void
+    const pending = new Promise<void>((resolve) => (release = resolve))
+    const { calls, fetchUpstream } = createUpstream(async (_headers, call) => {
+      if (call > 1) await pending
+      return new Response(`v${call}`, {
+        headers: { 'cache-control': 'max-age=10, stale-while-revalidate=30' },
+      })
+    })
+
+    await cache.handle(get(), fetchUpstream)
+    advance(20)
+
+    const stale = await cache.handle(get(), fetchUpstream)
+    expect(stale.headers.get('x-cache')).toBe('STALE')
+    expect(await stale.text()).toBe('v1')
+
+    // Concurrent requests do not start a second revalidation
+    await cache.handle(get(), fetchUpstream)
+    expect(calls).toHaveLength(2)
+
+    release()
+    await Bun.sleep(0)
+    const fresh = await cache.handle(get(), fetchUpstream)
+    expect(fresh.headers.get('x-cache')).toBe('HIT')
+    expect(await fresh.text()).toBe('v2')
+  })
+
+  test('should serve stale content when the upstream fails within stale-if-error', async () => {
+    const cache = new ResponseCache({ staleIfError: 60 })
+    const { fetchUpstream } = createUpstream((_headers, call) => {
+      if (call === 2) return new Response('down', { status: 503 })
+      if (call === 3) throw new Error('connection refused')
+      return new Response('cached', {
+        headers: { 'cache-control': 'max-age=10' },
+      })
+    })
+
+    await cache.handle(get(), fetchUpstream)
+    advance(30)
+    const onStatus = await cache.handle(get(), fetchUpstream)
+    expect(onStatus.headers.get('x-cache')).toBe('STALE')
+    expect(await onStatus.text()).toBe('cached')
+
+    const onError = await cache.handle(get(), fetchUpstream)
+    expect(onError.headers.get('x-cache')).toBe('STALE')
+
+    advance(60)
+    await expect(
+      cache.handle(get(), async () => {
+        throw new Error('connection refused')
+      }),
+    ).rejects.toThrow('connection refused')
+  })
+
+  test('should not serve must-revalidate entries stale', async () => {
+    const cache = new ResponseCache({ staleIfError: 60 })
+    const { fetchUpstream } = createUpstream((_headers, call) =>
+      call === 1
+        ? new Response('cached', {
+            headers: { 'cache-control': 'max-age=10, must-revalidate' },
+          })
+        : new Response('down', { status: 503 }),
+    )
+
+    await cache.handle(get(), fetchUpstream)
+    advance(30)
+    const response = await cache.handle(get(), fetchUpstream)
+    expect(response.status).toBe(503)
+    expect(response.headers.get('x-cache')).toBe('MISS')
+  })
+
+  test('should bypass the cache for no-store and range requests', async () => {
+    const cache = new ResponseCache()
+    const { calls, fetchUpstream } = createUpstream(
+      () => new Response('x', { headers: { 'cache-control': 'max-age=60' } }),
+    )
+
+    const noStore = await cache.handle(
+      get({ 'cache-control': 'no-store' }),
+      fetchUpstream,
+    )
+    expect(noStore.headers.get('x-cache')).toBe('BYPASS')
+    await cache.handle(get({ range: 'bytes=0-1' }), fetchUpstream)
+    expect(calls).toHaveLength(2)
+    expect(cache.getStats().entries).toBe(0)
+  })
+
+  test('should pass through bodies larger than maxEntryBytes', async () => {
+    const cache = new ResponseCache({ maxEntryBytes: 4 })
+    const body = 'a body that does not fit'
+    const { calls, fetchUpstream } = createUpstream(
+      () =>
+        new Response(
+          new ReadableStream({
+            start(controller) {
+              controller.enqueue(new TextEncoder().encode(body.slice(0, 10)))
+              controller.enqueue(new TextEncoder().encode(body.slice(10)))
+              controller.close()
+            },
+          }),
+          { headers: { 'cache-control': 'max-age=60' } },
+        ),
+    )
+
+    const response = await cache.handle(get(), fetchUpstream)
+    expect(await response.text()).toBe(body)
+    await cache.handle(get(), fetchUpstream)
+    expect(calls).toHaveLength(2)
+  })
+
+  test('should evict least recently used entries beyond maxBytes', async () => {
+    const cache = new ResponseCache({ maxBytes: 2000, maxEntryBytes: 600 })
+    const { fetchUpstream } = createUpstream(
+      () =>
+        new Response('x'.repeat(500), {
+          headers: { 'cache-control': 'max-age=60' },
+        }),
+    )
+    const url = (n: number) => `http://gateway.test/items/${n}`
+
+    await cache.handle(get({}, url(1)), fetchUpstream)
+    await cache.handle(get({}, url(2)), fetchUpstream)
+    // Touch the first entry so the second becomes least recently used
+    await cache.handle(get({}, url(1)), fetchUpstream)
+    await cache.handle(get({}, url(3)), fetchUpstream)
+
+    expect(cache.getStats().entries).toBe(2)
+    expect(cache.getStats().bytes).toBeLessThanOrEqual(2000)
+    const first = await cache.handle(get({}, url(1)), fetchUpstream)
+    expect(first.headers.get('x-cache')).toBe('HIT')
+    const second = await cache.handle(get({}, url(2)), fetchUpstream)
+    expect(second.headers.get('x-cache')).toBe('MISS')
+  })
+
+  test('should drop all variants of an invalidated URL', async () => {
+    const cache = new ResponseCache()
+    const { calls, fetchUpstream } = createUpstream(
+      () => new Response('x', { headers: { 'cache-control': 'max-age=60' } }),
+    )
+    await cache.handle(get(), fetchUpstream)
+
+    cache.invalidate(URL_A)
+    expect(cache.getStats()).toEqual({
+      entries: 0,
+      bytes: 0,
+      maxBytes: 52428800,
+    })
+    await cache.handle(get(), fetchUpstream)
+    expect(calls).toHaveLength(2)
+  })
+})
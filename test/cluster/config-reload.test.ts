@@ -0,0 +1,125 @@
+import { test, expect, afterEach } from 'bun:test'
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { ClusterManager } from '../../src/cluster/cluster-manager'
+import { BunGateLogger } from '../../src/logger/pino-logger'
+import { GatewayConfigError } from '../../src/config/config-loader'
+import {
+  listenForConfigReloads,
+  type ConfigReloadReply,
+} from '../../src/cluster/config-reload'
+
+const logger = new BunGateLogger({
+  level: 'error',
+  enableRequestLogging: false,
+})
+const workerScript = `${import.meta.dir}/fixtures/reload-worker.ts`
+
+const dirs: string[] = []
+
+afterEach(() => {
+  for (const dir of dirs.splice(0)) {
+    rmSync(dir, { recursive: true, force: true })
+  }
+})
+
+function writeConfig(contents: object): string {
+  const dir = mkdtempSync(join(tmpdir(), 'bungate-reload-'))
+  dirs.push(dir)
+  const file = join(dir, 'gateway.json')
+  writeFileSync(file, JSON.stringify(contents))
+  return file
+}
+
+function makeManager(configFile?: string) {
+  return new ClusterManager(
+    {
+      enabled: true,
+      workers: 2,
+      restartWorkers: false,
+      shutdownTimeout: 2000,
+      exitOnShutdown: false,
+      reloadTimeout: 2000,
+      configFile,
+    },
+    logger,
+    workerScript,
+  )
+}
+
+test('ClusterManager > reloadConfig reports the outcome on each worker', async () => {
+  const file = writeConfig({
+    routes: [{ pattern: '/users/*', target: 'http://users:3000' }],
+  })
+  const cm = makeManager(file)
+  await cm.start()
+  try {
+    const summary = await cm.reloadConfig()
+    expect(summary.file).toBe(file)
+    expect(summary.workers.sort((a, b) => a.workerId - b.workerId)).toEqual([
+      { workerId: 1, applied: true, error: undefined },
+      { workerId: 2, applied: false, error: 'Worker 2 rejects 1 routes' },
+    ])
+  } finally {
+    await (cm as any).gracefulShutdown()
+  }
+})
+
+test('ClusterManager > reloadConfig rejects an invalid file before pushing it', async () => {
+  const file = writeConfig({ routes: [], server: { port: 'eighty' } })
+  const cm = makeManager(file)
+  await expect(cm.reloadConfig()).rejects.toBeInstanceOf(GatewayConfigError)
+})
+
+test('ClusterManager > reloadConfig requires a configuration file', async () => {
+  const cm = makeManager()
+  await expect(cm.reloadConfig()).rejects.toThrow(
+    'cluster.configFile is not set',
+  )
+})
+
+test('listenForConfigReloads > applies valid configurations and reports rejections', () => {
+  const replies: ConfigReloadReply[] = []
+  const applied: Array<string | undefined> = []
+  const send = process.send
+  process.send = ((reply: ConfigReloadReply) => {
+    replies.push(reply)
+    return true
+  }) as typeof process.send
+  const deliver = (message: object) =>
+    process.emit('message', message, undefined)
+  const stop = listenForConfigReloads(({ config, logger }) => {
+    expect(config.logger).toBeUndefined()
+    applied.push(logger?.level)
+  })
+
+  try {
+    deliver({
+      type: 'bungate:config-reload',
+      id: 1,
+      file: 'gateway.json',
+      source: JSON.stringify({ routes: [], logger: { level: 'warn' } }),
+    })
+    deliver({
+      type: 'bungate:config-reload',
+      id: 2,
+      file: 'gateway.json',
+      source: JSON.stringify({ routes: [], unknown: true }),
+    })
+    deliver({ type: 'other' })
+  } finally {
+    stop()
+    process.send = send
+  }
+
+  expect(applied).toEqual(['warn'])
+  expect(replies).toHaveLength(2)
+  expect(replies[0]).toEqual({
+    type: 'bungate:config-reload-result',
+    id: 1,
+    applied: true,
+  })
+  expect(replies[1]!.applied).toBe(false)
+  expect(replies[1]!.error).toContain('unknown')
+})
@@ -0,0 +1,15 @@
+// Worker script for configuration reload tests
+// Applies pushed configurations, except worker 2, which rejects them
+import { listenForConfigReloads } from '../../../src/cluster/config-reload'
+
+listenForConfigReloads(({ config }) => {
+  if (process.env.CLUSTER_WORKER_ID === '2') {
+    throw new Error(`Worker 2 rejects ${config.routes?.length ?? 0} routes`)
+  }
+})
+
+process.on('SIGTERM', () => process.exit(0))
+
+// Keep alive for a very long time (about 1 billion ms ~ 11.5 days)
+const KEEP_ALIVE_INTERVAL = 1 << 30
+setInterval(() => {}, KEEP_ALIVE_INTERVAL)
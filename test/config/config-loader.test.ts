@@ -0,0 +1,284 @@
+/**
+ * Declarative config loader tests
+ * Covers JSON/YAML/TOML parsing, validation and file/line error context
+ */
+import { describe, test, expect, beforeAll, afterAll } from 'bun:test'
+import { mkdtempSync, rmSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import {
+  GatewayConfigError,
+  detectConfigFormat,
+  loadGatewayConfig,
+  parseGatewayConfig,
+  parseGatewayConfigSettings,
+} from '../../src/config/config-loader'
+
+function expectConfigError(fn: () => unknown): GatewayConfigError {
+  try {
+    fn()
+  } catch (error) {
+    expect(error).toBeInstanceOf(GatewayConfigError)
+    return error as GatewayConfigError
+  }
+  throw new Error('expected a GatewayConfigError')
+}
+
+const JSON_CONFIG = `{
+  "server": { "port": 8080 },
+  "routes": [
+    { "pattern": "/users/*", "target": "http://users:3000" },
+    {
+      "pattern": "/orders/*",
+      "loadBalancer": {
+        "strategy": "round-robin",
+        "targets": [{ "url": "http://orders-1:3000" }]
+      }
+    }
+  ]
+}
+`
+
+const YAML_CONFIG = `server:
+  port: 8080
+routes:
+  - pattern: /users/*
+    target: http://users:3000
+  - pattern: /orders/*
+    loadBalancer:
+      strategy: round-robin
+      targets:
+        - url: http://orders-1:3000
+`
+
+const TOML_CONFIG = `[server]
+port = 8080
+
+[[routes]]
+pattern = "/users/*"
+target = "http://users:3000"
+
+[[routes]]
+pattern = "/orders/*"
+
+[routes.loadBalancer]
+strategy = "round-robin"
+
+[[routes.loadBalancer.targets]]
+url = "http://orders-1:3000"
+`
+
+describe('parseGatewayConfig', () => {
+  test.each([
+    ['gateway.json', JSON_CONFIG],
+    ['gateway.yaml', YAML_CONFIG],
+    ['gateway.toml', TOML_CONFIG],
+  ])('should parse %s', (file, source) => {
+    const config = parseGatewayConfig(source, { file })
+    expect(config.server?.port).toBe(8080)
+    expect(config.routes).toHaveLength(2)
+    expect(config.routes![0]!.target).toBe('http://users:3000')
+    expect(config.routes![1]!.loadBalancer?.targets[0]!.url).toBe(
+      'http://orders-1:3000',
+    )
+  })
+
+  test('should report JSON syntax errors with line and column', () => {
+    const error = expectConfigError(() =>
+      parseGatewayConfig('{\n  "server": {\n    "port": 80,\n  }\n}', {
+        file: 'gateway.json',
+      }),
+    )
+    expect(error.issues[0]!.line).toBe(4)
+    expect(error.issues[0]!.column).toBe(3)
+    expect(error.message).toContain('gateway.json:4:3')
+  })
+
+  test('should report YAML syntax errors with line', () => {
+    const error = expectConfigError(() =>
+      parseGatewayConfig('server:\n  port: 80\nroutes: [\n  - a\n', {
+        file: 'gateway.yaml',
+      }),
+    )
+    expect(error.issues[0]!.line).toBe(3)
+    expect(error.issues[0]!.message).toStartWith('YAML syntax error')
+  })
+
+  test('should report TOML syntax errors with line', () => {
+    const error = expectConfigError(() =>
+      parseGatewayConfig('[server]\nport = 80\nhostname = \n', {
+        file: 'gateway.toml',
+      }),
+    )
+    expect(error.issues[0]!.line).toBe(3)
+  })
+
+  test('should locate invalid route fields in JSON', () => {
+    const source = JSON_CONFIG.replace('http://users:3000', 'users:3000')
+    const error = expectConfigError(() =>
+      parseGatewayConfig(source, { file: 'gateway.json' }),
+    )
+    expect(error.issues).toHaveLength(1)
+    expect(error.issues[0]!.path).toEqual(['routes', 0, 'target'])
+    expect(error.issues[0]!.line).toBe(4)
+    expect(error.message).toContain(
+      'gateway.json:4:30 routes[0].target: must be an http(s) URL',
+    )
+  })
+
+  test('should locate invalid route fields in YAML', () => {
+    const source = YAML_CONFIG.replace('round-robin', 'fastest')
+    const error = expectConfigError(() =>
+      parseGatewayConfig(source, { file: 'gateway.yaml' }),
+    )
+    expect(error.issues[0]!.path).toEqual([
+      'routes',
+      1,
+      'loadBalancer',
+      'strategy',
+    ])
+    expect(error.issues[0]!.line).toBe(8)
+    expect(error.issues[0]!.column).toBe(7)
+  })
+
+  test('should locate invalid route fields in TOML', () => {
+    const source = TOML_CONFIG.replace(
+      'url = "http://orders-1:3000"',
+      'url = "http://orders-1:3000"\nweight = "heavy"',
+    )
+    const error = expectConfigError(() =>
+      parseGatewayConfig(source, { file: 'gateway.toml' }),
+    )
+    expect(error.issues[0]!.path).toEqual([
+      'routes',
+      1,
+      'loadBalancer',
+      'targets',
+      0,
+      'weight',
+    ])
+    expect(error.issues[0]!.line).toBe(16)
+  })
+
+  test('should collect every issue in one error', () => {
+    const source = `server:\n  port: -1\nroutes:\n  - pattern: /a\n  - pattern: b\n    target: http://b\n`
+    const error = expectConfigError(() =>
+      parseGatewayConfig(source, { file: 'gateway.yaml' }),
+    )
+    expect(error.issues.map((issue) => [issue.line, issue.message])).toEqual([
+      [2, 'must be >= 0 (got -1)'],
+      [4, 'must define a "target" or a "loadBalancer" to proxy to'],
+      [5, 'must start with "/" (got "b")'],
+    ])
+  })
+
+  test('should merge and validate the security section', () => {
+    const config = parseGatewayConfig(
+      JSON.stringify({
+        security: {
+          inputValidation: { blockedPatterns: ['\\.\\.', '<script'] },
+        },
+      }),
+      { file: 'gateway.json' },
+    )
+    expect(config.security?.inputValidation?.blockedPatterns).toEqual([
+      /\.\./,
+      /<script/,
+    ])
+    // Defaults are preserved alongside file values
+    expect(config.security?.inputValidation?.maxPathLength).toBe(2048)
+    expect(config.security?.securityHeaders?.enabled).toBe(true)
+  })
+
+  test('should reject insecure security settings', () => {
+    const source = `security:\n  sessions:\n    entropyBits: 64\n`
+    const error = expectConfigError(() =>
+      parseGatewayConfig(source, { file: 'gateway.yaml' }),
+    )
+    expect(error.issues).toEqual([
+      {
+        path: ['security'],
+        message: 'Session entropy must be at least 128 bits',
+        line: 1,
+        column: 1,
+      },
+    ])
+  })
+
+  test('should reject invalid regular expressions', () => {
+    const error = expectConfigError(() =>
+      parseGatewayConfig(
+        '[security.inputValidation]\nallowedPathChars = "[a-z"\n',
+        { file: 'gateway.toml' },
+      ),
+    )
+    expect(error.issues[0]!.path).toEqual([
+      'security',
+      'inputValidation',
+      'allowedPathChars',
+    ])
+    expect(error.issues[0]!.line).toBe(2)
+  })
+
+  test('should create a logger from the logger section', () => {
+    const config = parseGatewayConfig('{"logger":{"level":"warn"}}', {
+      file: 'gateway.json',
+    })
+    expect(typeof config.logger?.info).toBe('function')
+    expect(config.logger?.pino.level).toBe('warn')
+  })
+
+  test('should return the logger section as settings without a logger', () => {
+    const { config, logger } = parseGatewayConfigSettings(
+      '{"logger":{"level":"warn"},"routes":[]}',
+      { file: 'gateway.json' },
+    )
+    expect(config).toEqual({ routes: [] })
+    expect(logger).toEqual({ level: 'warn' })
+  })
+})
+
+describe('detectConfigFormat', () => {
+  test('should detect formats from extensions', () => {
+    expect(detectConfigFormat('a.json')).toBe('json')
+    expect(detectConfigFormat('a.YML')).toBe('yaml')
+    expect(detectConfigFormat('/etc/bungate/gateway.yaml')).toBe('yaml')
+    expect(detectConfigFormat('a.toml')).toBe('toml')
+    expect(() => detectConfigFormat('a.ini')).toThrow(
+      'Unsupported configuration file extension',
+    )
+  })
+})
+
+describe('loadGatewayConfig', () => {
+  let dir: string
+
+  beforeAll(() => {
+    dir = mkdtempSync(join(tmpdir(), 'bungate-config-'))
+  })
+
+  afterAll(() => {
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  test('should load a file from disk', async () => {
+    const file = join(dir, 'gateway.toml')
+    await Bun.write(file, TOML_CONFIG)
+    const config = await loadGatewayConfig(file)
+    expect(config.routes).toHaveLength(2)
+  })
+
+  test('should include the file path in errors', async () => {
+    const file = join(dir, 'broken.yaml')
+    await Bun.write(file, 'routes:\n  - pattern: /a\n')
+    await expect(loadGatewayConfig(file)).rejects.toThrow(
+      `${file}:2:3 routes[0]: must define`,
+    )
+  })
+
+  test('should fail for a missing file', async () => {
+    await expect(loadGatewayConfig(join(dir, 'missing.json'))).rejects.toThrow(
+      'Gateway configuration file not found',
+    )
+  })
+})
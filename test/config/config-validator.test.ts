@@ -0,0 +1,482 @@
+/**
+ * Declarative config validation tests
+ */
+import { describe, test, expect } from 'bun:test'
+import {
+  formatConfigPath,
+  validateGatewayConfig,
+  validateRouteConfig,
+} from '../../src/config/config-validator'
+
+describe('validateRouteConfig', () => {
+  test('should accept a target route', () => {
+    const issues = validateRouteConfig({
+      pattern: '/api/*',
+      target: 'http://localhost:3001',
+      methods: ['GET', 'POST'],
+      timeout: 5000,
+    })
+    expect(issues).toEqual([])
+  })
+
+  test('should accept a load balanced route', () => {
+    const issues = validateRouteConfig({
+      pattern: '/api/*',
+      loadBalancer: {
+        strategy: 'weighted',
+        targets: [
+          { url: 'http://a:3000', weight: 2 },
+          { url: 'http://b:3000', weight: 1 },
+        ],
+        healthCheck: { enabled: true, interval: 5000, path: '/health' },
+      },
+    })
+    expect(issues).toEqual([])
+  })
+
+  test('should require a target or load balancer', () => {
+    const issues = validateRouteConfig({ pattern: '/api/*' }, ['routes', 0])
+    expect(issues).toEqual([
+      {
+        path: ['routes', 0],
+        message: 'must define a "target" or a "loadBalancer" to proxy to',
+      },
+    ])
+  })
+
+  test('should report wrong types, enums and unknown keys with their path', () => {
+    const issues = validateRouteConfig(
+      {
+        pattern: 'api',
+        target: 'ftp://example.com',
+        methods: ['GET', 'FETCH'],
+        timeout: '5s',
+        retries: 3,
+      },
+      ['routes', 1],
+    )
+    const paths = issues.map((issue) => formatConfigPath(issue.path))
+    expect(paths).toEqual([
+      'routes[1].pattern',
+      'routes[1].target',
+      'routes[1].methods[1]',
+      'routes[1].timeout',
+      'routes[1].retries',
+    ])
+  })
+
+  test('should reject an unknown load balancer strategy', () => {
+    const issues = validateRouteConfig({
+      pattern: '/api',
+      loadBalancer: { strategy: 'fastest', targets: [{ url: 'http://a' }] },
+    })
+    expect(issues).toHaveLength(1)
+    expect(issues[0]!.path).toEqual(['loadBalancer', 'strategy'])
+    expect(issues[0]!.message).toContain('must be one of')
+  })
+
+  test('should validate the response cache settings', () => {
+    expect(
+      validateRouteConfig({
+        pattern: '/api',
+        target: 'http://a',
+        cache: { maxBytes: 1048576, defaultTtl: 0, staleIfError: 300 },
+      }),
+    ).toEqual([])
+
+    const issues = validateRouteConfig({
+      pattern: '/api',
+      target: 'http://a',
+      cache: { maxBytes: 0, ttl: 60 },
+    })
+    expect(issues.map((issue) => issue.path)).toEqual([
+      ['cache', 'maxBytes'],
+      ['cache', 'ttl'],
+    ])
+  })
+
+  test('should validate the retry policy', () => {
+    expect(
+      validateRouteConfig({
+        pattern: '/api',
+        target: 'http://a',
+        retry: { maxAttempts: 3, statusCodes: [503], errors: ['timeout'] },
+      }),
+    ).toEqual([])
+
+    const issues = validateRouteConfig({
+      pattern: '/api',
+      target: 'http://a',
+      retry: { maxAttempts: 0, errors: ['dns'] },
+    })
+    expect(issues.map((issue) => issue.path)).toEqual([
+      ['retry', 'maxAttempts'],
+      ['retry', 'errors', 0],
+    ])
+  })
+
+  test('should validate the hedging settings', () => {
+    expect(
+      validateRouteConfig({
+        pattern: '/api',
+        loadBalancer: {
+          strategy: 'round-robin',
+          targets: [{ url: 'http://a' }],
+        },
+        hedge: { percentile: 99, budgetPercent: 5 },
+      }),
+    ).toEqual([])
+
+    const issues = validateRouteConfig({
+      pattern: '/api',
+      target: 'http://a',
+      hedge: { budgetPercent: 150 },
+    })
+    expect(issues.map((issue) => issue.path)).toEqual([
+      ['hedge', 'budgetPercent'],
+    ])
+  })
+
+  test('should validate the mirror settings', () => {
+    expect(
+      validateRouteConfig({
+        pattern: '/api',
+        target: 'http://api',
+        mirror: { target: 'http://shadow', percentage: 5, includeBody: true },
+      }),
+    ).toEqual([])
+
+    const issues = validateRouteConfig({
+      pattern: '/api',
+      target: 'http://api',
+      mirror: { percentage: 120, maxConcurrent: 0 },
+    })
+    expect(issues.map((issue) => issue.path)).toEqual([
+      ['mirror', 'target'],
+      ['mirror', 'percentage'],
+      ['mirror', 'maxConcurrent'],
+    ])
+  })
+
+  test('should validate the WebSocket settings', () => {
+    expect(
+      validateRouteConfig({
+        pattern: '/chat',
+        target: 'http://chat',
+        websocket: { idleTimeout: 0, maxMessageSize: 65536 },
+      }),
+    ).toEqual([])
+
+    const issues = validateRouteConfig({
+      pattern: '/chat',
+      target: 'http://chat',
+      websocket: { maxMessageSize: 0, pingInterval: 10 },
+    })
+    expect(issues.map((issue) => issue.path)).toEqual([
+      ['websocket', 'maxMessageSize'],
+      ['websocket', 'pingInterval'],
+    ])
+  })
+
+  test('should validate aggregate routes', () => {
+    expect(
+      validateRouteConfig({
+        pattern: '/screens/home',
+        aggregate: {
+          calls: [
+            { name: 'profile', path: '/users/{query.id}' },
+            { name: 'news', path: '/news', timeout: 500, onError: 'null' },
+          ],
+        },
+      }),
+    ).toEqual([])
+
+    const issues = validateRouteConfig({
+      pattern: '/screens/home',
+      target: 'http://api',
+      aggregate: { calls: [{ name: 'news', path: 'news', onError: 'skip' }] },
+    })
+    expect(issues.map((issue) => issue.path)).toEqual([
+      ['aggregate', 'calls', 0, 'path'],
+      ['aggregate', 'calls', 0, 'onError'],
+      [],
+    ])
+  })
+
+  test('should validate the schema validation settings', () => {
+    expect(
+      validateRouteConfig({
+        pattern: '/users',
+        target: 'http://api',
+        validation: {
+          body: { type: 'object', required: ['email'] },
+          query: true,
+          response: { body: { $ref: '#/$defs/user', $defs: { user: {} } } },
+        },
+      }),
+    ).toEqual([])
+
+    const issues = validateRouteConfig({
+      pattern: '/events',
+      target: 'http://api',
+      streaming: {},
+      validation: {
+        body: 'object',
+        params: { $ref: '#/$defs/missing' },
+        response: { body: {}, mode: 'drop' },
+      },
+    })
+    expect(issues.map((issue) => issue.path)).toEqual([
+      ['validation', 'body'],
+      ['validation', 'response', 'mode'],
+      ['validation', 'params'],
+      ['validation', 'response'],
+    ])
+  })
+
+  test('should validate the match conditions', () => {
+    expect(
+      validateRouteConfig({
+        pattern: '/api/*',
+        target: 'http://api',
+        match: {
+          host: ['api.example.com', '*.tenant.example.com'],
+          headers: { 'x-api-version': ['2', '3'] },
+          query: { beta: 'true' },
+          cookies: { session: true },
+        },
+      }),
+    ).toEqual([])
+
+    const issues = validateRouteConfig({
+      pattern: '/api/*',
+      target: 'http://api',
+      match: { host: 42, headers: { 'x-api-version': 2 }, path: '/api' },
+    })
+    expect(issues.map((issue) => issue.path)).toEqual([
+      ['match', 'host'],
+      ['match', 'headers', 'x-api-version'],
+      ['match', 'path'],
+    ])
+  })
+
+  test('should validate the fault injection settings', () => {
+    expect(
+      validateRouteConfig({
+        pattern: '/orders/*',
+        target: 'http://orders',
+        faults: {
+          delay: { duration: 200, jitter: 300, percentage: 50 },
+          abort: { status: 503, percentage: 10 },
+          reset: { percentage: 1 },
+          when: { headers: { 'x-chaos': 'on' }, clientIPs: ['10.0.0.0/8'] },
+        },
+      }),
+    ).toEqual([])
+
+    const issues = validateRouteConfig({
+      pattern: '/orders/*',
+      target: 'http://orders',
+      faults: {
+        delay: { jitter: 100 },
+        abort: { status: 700, percentage: 150 },
+        when: { method: 'GET' },
+      },
+    })
+    expect(issues.map((issue) => issue.path)).toEqual([
+      ['faults', 'delay', 'duration'],
+      ['faults', 'abort', 'status'],
+      ['faults', 'abort', 'percentage'],
+      ['faults', 'when', 'method'],
+    ])
+  })
+
+  test('should validate the streaming settings', () => {
+    expect(
+      validateRouteConfig({
+        pattern: '/events',
+        target: 'http://events',
+        streaming: { idleTimeout: 0, maxDuration: 3600000 },
+      }),
+    ).toEqual([])
+
+    const issues = validateRouteConfig({
+      pattern: '/events',
+      target: 'http://events',
+      streaming: { heartbeatInterval: -1, buffer: true },
+    })
+    expect(issues.map((issue) => issue.path)).toEqual([
+      ['streaming', 'heartbeatInterval'],
+      ['streaming', 'buffer'],
+    ])
+  })
+
+  test('should validate the traffic split', () => {
+    expect(
+      validateRouteConfig({
+        pattern: '/api',
+        split: {
+          backends: [
+            { name: 'stable', weight: 90, target: 'http://stable' },
+            { name: 'canary', weight: 10, target: 'http://canary' },
+          ],
+          overrides: [{ header: 'x-version' }],
+        },
+      }),
+    ).toEqual([])
+
+    const issues = validateRouteConfig({
+      pattern: '/api',
+      split: { backends: [{ name: 'stable', weight: -1 }], stickyBy: 'ua' },
+    })
+    expect(issues.map((issue) => issue.path)).toEqual([
+      ['split', 'backends', 0, 'weight'],
+      ['split', 'stickyBy'],
+    ])
+
+    expect(
+      validateRouteConfig({
+        pattern: '/api',
+        target: 'http://api',
+        split: {
+          backends: [{ name: 'stable', weight: 1, target: 'http://stable' }],
+        },
+      }).map((issue) => issue.message),
+    ).toEqual(['"split" cannot be combined with "target" or "loadBalancer"'])
+  })
+})
+
+describe('validateGatewayConfig', () => {
+  test('should accept a complete configuration', () => {
+    const issues = validateGatewayConfig({
+      server: { port: 8080, hostname: '0.0.0.0' },
+      cluster: { enabled: true, workers: 4 },
+      cors: { origin: ['https://app.example.com'], credentials: true },
+      logger: { level: 'info', format: 'json' },
+      metrics: { enabled: true },
+      security: { securityHeaders: { enabled: true } },
+      routes: [{ pattern: '/api/*', target: 'http://localhost:3001' }],
+    })
+    expect(issues).toEqual([])
+  })
+
+  test('should reject a non-object configuration', () => {
+    const issues = validateGatewayConfig([])
+    expect(issues[0]!.message).toBe('expected object, got array')
+  })
+
+  test('should validate every route', () => {
+    const issues = validateGatewayConfig({
+      server: { port: 70000 },
+      routes: [
+        { pattern: '/ok', target: 'http://localhost:3001' },
+        { pattern: '/bad' },
+      ],
+    })
+    expect(issues.map((issue) => formatConfigPath(issue.path))).toEqual([
+      'server.port',
+      'routes[1]',
+    ])
+  })
+
+  test('should validate the API catalog settings', () => {
+    expect(
+      validateGatewayConfig({
+        catalog: {
+          path: '/docs/openapi.json',
+          catalogPath: '/docs',
+          servers: [{ url: 'https://api.example.com' }],
+          upstreamSpecs: { timeout: 1000 },
+        },
+      }),
+    ).toEqual([])
+
+    const issues = validateGatewayConfig({
+      catalog: { path: 'openapi.json', upstreamSpecs: { ttl: -1 } },
+    })
+    expect(issues.map((issue) => formatConfigPath(issue.path))).toEqual([
+      'catalog.path',
+      'catalog.upstreamSpecs',
+    ])
+  })
+
+  test('should validate the tracing settings', () => {
+    expect(
+      validateGatewayConfig({
+        tracing: {
+          sampleRate: 0.1,
+          exporter: { url: 'http://otel-collector:4318/v1/traces' },
+        },
+      }),
+    ).toEqual([])
+
+    const issues = validateGatewayConfig({
+      tracing: { sampleRate: 2, exporter: { url: 'otel-collector:4318' } },
+    })
+    expect(issues.map((issue) => formatConfigPath(issue.path))).toEqual([
+      'tracing.sampleRate',
+      'tracing.exporter.url',
+    ])
+  })
+
+  test('should validate the access log settings', () => {
+    expect(
+      validateGatewayConfig({
+        accessLog: {
+          path: '/var/log/bungate/access.log',
+          format: 'combined',
+          rotation: { maxSize: 104857600, interval: 'daily', maxFiles: 14 },
+        },
+      }),
+    ).toEqual([])
+
+    const issues = validateGatewayConfig({
+      accessLog: { rotation: { interval: 'weekly' } },
+    })
+    expect(issues.map((issue) => formatConfigPath(issue.path))).toEqual([
+      'accessLog.path',
+      'accessLog.rotation.interval',
+    ])
+  })
+
+  test('should validate the configuration reload settings', () => {
+    expect(
+      validateGatewayConfig({
+        cluster: { configFile: './gateway.yaml', reloadTimeout: 5000 },
+      }),
+    ).toEqual([])
+
+    const issues = validateGatewayConfig({
+      cluster: { configFile: 42, reloadTimeout: 0 },
+    })
+    expect(issues.map((issue) => formatConfigPath(issue.path))).toEqual([
+      'cluster.configFile',
+      'cluster.reloadTimeout',
+    ])
+  })
+
+  test('should validate the shutdown settings', () => {
+    expect(
+      validateGatewayConfig({
+        server: { drainTimeout: 30000, shutdownOnSignal: true },
+      }),
+    ).toEqual([])
+
+    const issues = validateGatewayConfig({
+      server: { drainTimeout: -1, exitOnShutdown: 'yes' },
+    })
+    expect(issues.map((issue) => formatConfigPath(issue.path))).toEqual([
+      'server.drainTimeout',
+      'server.exitOnShutdown',
+    ])
+  })
+})
+
+describe('formatConfigPath', () => {
+  test('should format keys and indexes', () => {
+    expect(formatConfigPath(['routes', 2, 'loadBalancer', 'targets', 0])).toBe(
+      'routes[2].loadBalancer.targets[0]',
+    )
+    expect(formatConfigPath([])).toBe('<root>')
+  })
+})
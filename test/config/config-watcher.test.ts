@@ -0,0 +1,123 @@
+/**
+ * Config watcher tests
+ * Covers hot reload of routes and rejection of invalid changes
+ */
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test'
+import { mkdtempSync, rmSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import type { RouteConfig } from '../../src/interfaces/route'
+import {
+  watchGatewayConfig,
+  type GatewayConfigWatcher,
+} from '../../src/config/config-watcher'
+
+function waitFor(predicate: () => boolean, timeoutMs = 2000): Promise<void> {
+  const started = Date.now()
+  return new Promise((resolve, reject) => {
+    const check = () => {
+      if (predicate()) return resolve()
+      if (Date.now() - started > timeoutMs) {
+        return reject(new Error('condition not met in time'))
+      }
+      setTimeout(check, 10)
+    }
+    check()
+  })
+}
+
+describe('watchGatewayConfig', () => {
+  let dir: string
+  let file: string
+  let replaced: RouteConfig[][]
+  let watcher: GatewayConfigWatcher | undefined
+  const gateway = {
+    replaceRoutes: (routes: RouteConfig[]) => {
+      replaced.push(routes)
+    },
+  }
+
+  beforeEach(async () => {
+    dir = mkdtempSync(join(tmpdir(), 'bungate-watch-'))
+    file = join(dir, 'gateway.yaml')
+    replaced = []
+    await Bun.write(
+      file,
+      'routes:\n  - pattern: /a\n    target: http://localhost:3001\n',
+    )
+  })
+
+  afterEach(() => {
+    watcher?.close()
+    watcher = undefined
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  test('should replace routes when the file changes', async () => {
+    const reloaded: number[] = []
+    watcher = watchGatewayConfig(file, gateway, {
+      debounceMs: 20,
+      onReload: (config) => reloaded.push(config.routes!.length),
+    })
+
+    await Bun.write(
+      file,
+      'routes:\n  - pattern: /a\n    target: http://localhost:3001\n  - pattern: /b\n    target: http://localhost:3002\n',
+    )
+
+    await waitFor(() => replaced.length > 0)
+    expect(replaced.at(-1)!.map((route) => route.pattern)).toEqual(['/a', '/b'])
+    expect(reloaded.at(-1)).toBe(2)
+  })
+
+  test('should keep the current routes when the change is invalid', async () => {
+    const errors: Error[] = []
+    watcher = watchGatewayConfig(file, gateway, {
+      debounceMs: 20,
+      onError: (error) => errors.push(error),
+    })
+
+    await Bun.write(file, 'routes:\n  - pattern: /a\n    target: nope\n')
+
+    await waitFor(() => errors.length > 0)
+    expect(errors[0]!.message).toContain('gateway.yaml:3:5 routes[0].target')
+    expect(replaced).toHaveLength(0)
+  })
+
+  test('should reload on demand', async () => {
+    watcher = watchGatewayConfig(file, gateway, { debounceMs: 20 })
+    expect(await watcher.reload()).toBe(true)
+    expect(replaced[0]!.map((route) => route.pattern)).toEqual(['/a'])
+  })
+
+  test('should keep reporting changes outside of routes until restart', async () => {
+    const warnings: string[] = []
+    const logger = {
+      info: () => {},
+      error: () => {},
+      warn: (message: string) => warnings.push(message),
+    } as any
+    watcher = watchGatewayConfig(file, gateway, { debounceMs: 1000, logger })
+    expect(await watcher.reload()).toBe(true)
+    expect(warnings).toEqual([])
+
+    await Bun.write(
+      file,
+      'server:\n  port: 4000\nroutes:\n  - pattern: /a\n    target: http://localhost:3001\n',
+    )
+    expect(await watcher.reload()).toBe(true)
+    expect(await watcher.reload()).toBe(true)
+    expect(warnings).toEqual([
+      'Gateway configuration changed outside of routes; restart to apply',
+      'Gateway configuration changed outside of routes; restart to apply',
+    ])
+  })
+
+  test('should stop reloading after close', async () => {
+    watcher = watchGatewayConfig(file, gateway, { debounceMs: 20 })
+    watcher.close()
+    await Bun.write(file, 'routes: []\n')
+    await Bun.sleep(100)
+    expect(replaced).toHaveLength(0)
+  })
+})
@@ -0,0 +1,150 @@
+/**
+ * Fault injector tests
+ * Covers delays, aborts, connection resets, conditions and runtime toggling
+ */
+import { describe, test, expect, afterEach } from 'bun:test'
+import {
+  FaultInjector,
+  type FaultConfig,
+  type FaultInjectorOptions,
+  type FaultType,
+} from '../../src/faults/fault-injector'
+import type { ZeroRequest } from '../../src/interfaces/middleware'
+import type { Logger } from '../../src/interfaces/logger'
+
+function createInjector(
+  config: FaultConfig,
+  options: Partial<FaultInjectorOptions> = {},
+): FaultInjector {
+  return new FaultInjector(config, {
+    route: '/orders',
+    getClientIP: () => '10.1.2.3',
+    ...options,
+  })
+}
+
+function run(
+  injector: FaultInjector,
+  headers: Record<string, string> = {},
+): Promise<Response> {
+  const req = new Request('http://gateway/orders', {
+    headers,
+  }) as unknown as ZeroRequest
+  return injector.middleware()(
+    req,
+    () => new Response('orders'),
+  ) as Promise<Response>
+}
+
+describe('FaultInjector', () => {
+  test('should abort requests and report the fault', async () => {
+    const warnings: unknown[][] = []
+    const faults: FaultType[] = []
+    const injector = createInjector(
+      { abort: { status: 503 } },
+      {
+        logger: { warn: (...args: unknown[]) => warnings.push(args) } as any,
+        onFault: (type) => faults.push(type),
+      },
+    )
+
+    const response = await run(injector)
+    expect(response.status).toBe(503)
+    expect(response.headers.get('x-fault-injected')).toBe('abort')
+    expect(await response.text()).toBe('Fault injected')
+    expect(faults).toEqual(['abort'])
+    expect(warnings[0]![0]).toBe('Injected fault')
+    expect(warnings[0]![1]).toMatchObject({
+      fault: 'abort',
+      route: '/orders',
+      method: 'GET',
+      status: 503,
+    })
+  })
+
+  test('should delay requests by the duration plus jitter', async () => {
+    const injector = createInjector(
+      { delay: { duration: 20, jitter: 40 } },
+      { random: () => 0.5 },
+    )
+
+    const start = performance.now()
+    const response = await run(injector)
+    expect(performance.now() - start).toBeGreaterThanOrEqual(39)
+    expect(response.status).toBe(200)
+    expect(response.headers.get('x-fault-injected')).toBe('delay')
+    expect(await response.text()).toBe('orders')
+  })
+
+  test('should inject faults into the configured percentage of requests', async () => {
+    let roll = 0
+    const injector = createInjector(
+      { abort: { status: 500, percentage: 25 } },
+      { random: () => (roll++ % 4) / 4 },
+    )
+
+    const statuses: number[] = []
+    for (let i = 0; i < 8; i++) {
+      statuses.push((await run(injector)).status)
+    }
+    expect(statuses).toEqual([500, 200, 200, 200, 500, 200, 200, 200])
+  })
+
+  test('should only inject faults into matching requests', async () => {
+    const injector = createInjector({
+      abort: { status: 503 },
+      when: { headers: { 'x-chaos': 'on' }, clientIPs: ['10.0.0.0/8'] },
+    })
+    expect((await run(injector)).status).toBe(200)
+    expect((await run(injector, { 'x-chaos': 'off' })).status).toBe(200)
+    expect((await run(injector, { 'x-chaos': 'on' })).status).toBe(503)
+
+    const external = createInjector(
+      { abort: { status: 503 }, when: { clientIPs: ['10.0.0.0/8'] } },
+      { getClientIP: () => '203.0.113.7' },
+    )
+    expect((await run(external)).status).toBe(200)
+  })
+
+  test('should be toggled and reconfigured at runtime', async () => {
+    const injector = createInjector({ abort: { status: 503 }, enabled: false })
+    expect((await run(injector)).status).toBe(200)
+
+    injector.setEnabled(true)
+    expect((await run(injector)).status).toBe(503)
+
+    injector.setConfig({ abort: { status: 429 } })
+    expect(injector.getConfig()).toEqual({
+      abort: { status: 429 },
+      enabled: true,
+    })
+    expect((await run(injector)).status).toBe(429)
+
+    expect(() => injector.setConfig({ abort: { status: 42 } })).toThrow(
+      'Fault abort.status must be an HTTP status from 200 to 599',
+    )
+    expect(() => injector.setConfig({ reset: { percentage: 101 } })).toThrow(
+      'Fault reset.percentage must be between 0 and 100',
+    )
+    expect((await run(injector)).status).toBe(429)
+  })
+
+  describe('connection resets', () => {
+    let server: ReturnType<typeof Bun.serve> | undefined
+    afterEach(() => server?.stop(true))
+
+    test('should drop the connection without answering', async () => {
+      const injector = createInjector({ reset: {} })
+      const middleware = injector.middleware()
+      server = Bun.serve({
+        port: 0,
+        fetch: (req) =>
+          middleware(req as ZeroRequest, () => new Response('orders')),
+      })
+
+      await expect(
+        fetch(`http://localhost:${server.port}/orders`),
+      ).rejects.toThrow()
+    })
+  })
+})
@@ -1,10 +1,16 @@
-import { describe, test, expect, beforeEach, afterEach } from 'bun:test'
+import { describe, test, expect, beforeEach, afterEach, spyOn } from 'bun:test'
 import { BunGateway } from '../../src/gateway/gateway.ts'
 import type { GatewayConfig } from '../../src/interfaces/gateway.ts'
 import type {
   ZeroRequest,
   StepFunction,
 } from '../../src/interfaces/middleware.ts'
+import { SignJWT } from 'jose'
+import { currentRequestId } from '../../src/security/request-id.ts'
+import { BunGateLogger } from '../../src/logger/pino-logger.ts'
+import { mkdtempSync, readFileSync, rmSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
 
 // Extended RouteConfig for testing (includes handler)
 interface TestRouteConfig {
@@ -191,10 +197,876 @@ describe('BunGateway', () => {
     expect(data.step).toBe(2)
   })
 
-  test('should throw error for removeRoute (not implemented)', () => {
-    expect(() => {
-      gateway.removeRoute('/test')
-    }).toThrow('removeRoute is not implemented')
+  test('should remove a route added at runtime', async () => {
+    gateway.addRoute({
+      pattern: '/removable',
+      handler: () => new Response('still here'),
+    } as any)
+
+    let response = await gateway.fetch(
+      new Request('http://localhost/removable'),
+    )
+    expect(response.status).toBe(200)
+
+    expect(gateway.removeRoute('/removable')).toBe(true)
+    expect(gateway.getRoutes()).toHaveLength(0)
+
+    response = await gateway.fetch(new Request('http://localhost/removable'))
+    expect(response.status).toBe(404)
+  })
+
+  test('should return false when removing an unknown route', () => {
+    expect(gateway.removeRoute('/missing')).toBe(false)
+  })
+
+  test('should see routes added after a path was already requested', async () => {
+    let response = await gateway.fetch(new Request('http://localhost/late'))
+    expect(response.status).toBe(404)
+
+    gateway.addRoute({
+      pattern: '/late',
+      handler: () => new Response('late'),
+    } as any)
+
+    response = await gateway.fetch(new Request('http://localhost/late'))
+    expect(response.status).toBe(200)
+    expect(await response.text()).toBe('late')
+  })
+
+  test('should replace the whole route table', async () => {
+    gateway.use((req: ZeroRequest, next: StepFunction) => {
+      req.ctx = { ...req.ctx, global: true }
+      return next()
+    })
+    gateway.get('/static', () => new Response('static'))
+    gateway.addRoute({
+      pattern: '/v1',
+      handler: () => new Response('v1'),
+    } as any)
+
+    gateway.replaceRoutes([
+      {
+        pattern: '/v2',
+        handler: (req: ZeroRequest) =>
+          Response.json({ version: 2, global: req.ctx?.global }),
+      } as any,
+    ])
+
+    expect(gateway.getRoutes().map((r) => r.pattern)).toEqual(['/v2'])
+
+    let response = await gateway.fetch(new Request('http://localhost/v1'))
+    expect(response.status).toBe(404)
+
+    response = await gateway.fetch(new Request('http://localhost/v2'))
+    expect(await response.json()).toEqual({ version: 2, global: true })
+
+    // Non-RouteConfig handlers survive the replacement
+    response = await gateway.fetch(new Request('http://localhost/static'))
+    expect(await response.text()).toBe('static')
+  })
+
+  test('should keep the current route table when replacement fails', async () => {
+    const strictGateway = new BunGateway({
+      cors: { origin: '*', credentials: true },
+      security: { corsValidation: { allowWildcardWithCredentials: false } },
+    })
+
+    expect(() =>
+      strictGateway.replaceRoutes([
+        { pattern: '/broken', handler: () => new Response('x') } as any,
+      ]),
+    ).toThrow('CORS security violation')
+    expect(strictGateway.getRoutes()).toHaveLength(0)
+  })
+
+  test('should stop load balancer health checks when a route is removed', async () => {
+    gateway.addRoute({
+      pattern: '/balanced',
+      loadBalancer: {
+        strategy: 'round-robin',
+        targets: [{ url: 'http://localhost:65530' }],
+        healthCheck: {
+          enabled: true,
+          interval: 60000,
+          timeout: 1000,
+          path: '/health',
+        },
+      },
+    })
+
+    const [compiled] = (gateway as any).getCompiledRoutes()
+    const [loadBalancer] = compiled.loadBalancers
+    expect(loadBalancer.healthCheckInterval).toBeDefined()
+
+    gateway.removeRoute('/balanced')
+    expect(loadBalancer.healthCheckInterval).toBeUndefined()
+    expect(compiled.proxies).toHaveLength(0)
+  })
+})
+
+describe('BunGateway admin API', () => {
+  const adminToken = 'gateway-admin-token'
+
+  test('should reject an admin port equal to the gateway port', () => {
+    expect(
+      () =>
+        new BunGateway({
+          server: { port: 3000 },
+          admin: {
+            port: 3000,
+            auth: { type: 'bearer', credentials: { ops: adminToken } },
+          },
+        }),
+    ).toThrow('Admin API port must differ from the gateway port')
+  })
+
+  test('should serve the live route table on the admin port', async () => {
+    const gateway = new BunGateway({
+      server: { port: 19900 },
+      admin: {
+        port: 19901,
+        auth: { type: 'bearer', credentials: { ops: adminToken } },
+      },
+      routes: [{ pattern: '/users/*', target: 'http://localhost:19999' }],
+    })
+    await gateway.listen()
+    try {
+      gateway.addRoute({
+        pattern: '/orders/*',
+        target: 'http://localhost:19998',
+      })
+
+      const response = await fetch('http://127.0.0.1:19901/routes', {
+        headers: { authorization: `Bearer ${adminToken}` },
+      })
+      const body = (await response.json()) as any
+      expect(body.routes.map((route: any) => route.pattern)).toEqual([
+        '/users/*',
+        '/orders/*',
+      ])
+
+      const detail = await fetch(
+        `http://127.0.0.1:19901/routes/${body.routes[0].id}`,
+        { headers: { authorization: `Bearer ${adminToken}` } },
+      )
+      expect(
+        ((await detail.json()) as any).methods[0].circuitBreaker.failures,
+      ).toBe(0)
+    } finally {
+      await gateway.close()
+    }
+
+    await expect(fetch('http://127.0.0.1:19901/routes')).rejects.toThrow()
+  })
+})
+
+describe('BunGateway health endpoints', () => {
+  test('should serve liveness and readiness ahead of global middleware', async () => {
+    const gateway = new BunGateway({
+      healthCheck: { path: '/healthz' },
+      routes: [{ pattern: '/users/*', target: 'http://localhost:19999' }],
+    })
+    gateway.use(() => new Response('blocked', { status: 418 }))
+
+    const live = await gateway.fetch(new Request('http://localhost/healthz'))
+    expect(live.status).toBe(200)
+    expect(await live.json()).toEqual({ status: 'ok' })
+
+    const ready = await gateway.fetch(
+      new Request('http://localhost/healthz/ready'),
+    )
+    expect(ready.status).toBe(200)
+
+    await gateway.close()
+    const draining = await gateway.fetch(
+      new Request('http://localhost/healthz/ready'),
+    )
+    expect(draining.status).toBe(503)
+  })
+
+  test('should not serve health endpoints unless configured', async () => {
+    const gateway = new BunGateway()
+    const response = await gateway.fetch(new Request('http://localhost/health'))
+    expect(response.status).toBe(404)
+  })
+})
+
+describe('BunGateway metrics', () => {
+  const adminToken = 'gateway-admin-token'
+
+  test('should serve gateway series at the metrics endpoint', async () => {
+    const gateway = new BunGateway({
+      server: { development: true },
+      metrics: {
+        enabled: true,
+        endpoint: '/prom',
+        collectDefaultMetrics: false,
+      },
+      security: { sizeLimits: { maxUrlLength: 64 } },
+      routes: [
+        {
+          pattern: '/limited',
+          rateLimit: { max: 1, windowMs: 60000 },
+          handler: () => new Response('ok'),
+        },
+      ],
+    })
+    gateway.use(async (req: ZeroRequest, next: StepFunction) =>
+      new URL(req.url).pathname === '/prom'
+        ? new Response('blocked', { status: 418 })
+        : next(),
+    )
+
+    await gateway.fetch(new Request('http://localhost/limited'))
+    const limited = await gateway.fetch(new Request('http://localhost/limited'))
+    expect(limited.status).toBe(429)
+    const oversized = await gateway.fetch(
+      new Request(`http://localhost/limited?q=${'x'.repeat(100)}`),
+    )
+    expect(oversized.status).toBe(414)
+
+    const response = await gateway.fetch(new Request('http://localhost/prom'))
+    expect(response.status).toBe(200)
+    const text = await response.text()
+    expect(text).toContain(
+      'bungate_rate_limit_rejections_total{scope="route",route="/limited"} 1',
+    )
+    expect(text).toContain(
+      'bungate_size_limit_rejections_total{status_code="414"} 1',
+    )
+    expect(text).toContain('http_requests_total{')
+    await gateway.close()
+  })
+
+  test('should require the admin API to serve metrics on the admin port', () => {
+    expect(
+      () => new BunGateway({ metrics: { enabled: true, exposeOn: 'admin' } }),
+    ).toThrow('requires the admin API to be enabled')
+  })
+
+  test('should serve metrics on the admin port only', async () => {
+    const gateway = new BunGateway({
+      server: { port: 19902 },
+      metrics: {
+        enabled: true,
+        exposeOn: 'admin',
+        collectDefaultMetrics: false,
+      },
+      admin: {
+        port: 19903,
+        auth: { type: 'bearer', credentials: { ops: adminToken } },
+      },
+      routes: [{ pattern: '/users/*', target: 'http://localhost:19999' }],
+    })
+    await gateway.listen()
+    try {
+      const dataPlane = await gateway.fetch(
+        new Request('http://localhost/metrics'),
+      )
+      expect(dataPlane.status).toBe(404)
+
+      const unauthorized = await fetch('http://127.0.0.1:19903/metrics')
+      expect(unauthorized.status).toBe(401)
+
+      const response = await fetch('http://127.0.0.1:19903/metrics', {
+        headers: { authorization: `Bearer ${adminToken}` },
+      })
+      expect(response.status).toBe(200)
+      expect(await response.text()).toContain(
+        'bungate_circuit_breaker_state{route="/users/*",method="GET"} 0',
+      )
+    } finally {
+      await gateway.close()
+    }
+  })
+})
+
+describe('BunGateway response cache', () => {
+  test('should cache proxied GET responses and invalidate on writes', async () => {
+    let upstreamCalls = 0
+    const upstream = Bun.serve({
+      port: 0,
+      fetch: () => {
+        upstreamCalls++
+        return new Response(`version ${upstreamCalls}`, {
+          headers: { 'cache-control': 'max-age=60' },
+        })
+      },
+    })
+    const gateway = new BunGateway({
+      routes: [
+        {
+          pattern: '/items',
+          methods: ['GET', 'POST'],
+          target: `http://localhost:${upstream.port}`,
+          cache: { maxBytes: 1024 * 1024 },
+        },
+      ],
+    })
+
+    try {
+      const miss = await gateway.fetch(new Request('http://localhost/items'))
+      expect(miss.headers.get('x-cache')).toBe('MISS')
+      expect(await miss.text()).toBe('version 1')
+
+      const hit = await gateway.fetch(new Request('http://localhost/items'))
+      expect(hit.headers.get('x-cache')).toBe('HIT')
+      expect(await hit.text()).toBe('version 1')
+
+      await gateway.fetch(
+        new Request('http://localhost/items', { method: 'POST' }),
+      )
+      const refreshed = await gateway.fetch(
+        new Request('http://localhost/items'),
+      )
+      expect(await refreshed.text()).toBe('version 3')
+      expect(upstreamCalls).toBe(3)
+    } finally {
+      await gateway.close()
+      upstream.stop(true)
+    }
+  })
+})
+
+describe('BunGateway retry policy', () => {
+  test('should fail over to another target and replay the request body', async () => {
+    const failing = Bun.serve({
+      port: 0,
+      fetch: () => new Response('unavailable', { status: 503 }),
+    })
+    const bodies: string[] = []
+    const healthy = Bun.serve({
+      port: 0,
+      fetch: async (req) => {
+        bodies.push(await req.text())
+        return new Response('ok')
+      },
+    })
+    const gateway = new BunGateway({
+      routes: [
+        {
+          pattern: '/orders',
+          methods: ['PUT'],
+          loadBalancer: {
+            strategy: 'round-robin',
+            targets: [
+              { url: `http://localhost:${failing.port}` },
+              { url: `http://localhost:${healthy.port}` },
+            ],
+          },
+          retry: { maxAttempts: 2, baseDelay: 0 },
+        },
+      ],
+    })
+
+    try {
+      for (let i = 0; i < 2; i++) {
+        const response = await gateway.fetch(
+          new Request('http://localhost/orders', {
+            method: 'PUT',
+            body: `order ${i}`,
+          }),
+        )
+        expect(response.status).toBe(200)
+      }
+      expect(bodies).toEqual(['order 0', 'order 1'])
+    } finally {
+      await gateway.close()
+      failing.stop(true)
+      healthy.stop(true)
+    }
+  })
+})
+
+describe('BunGateway request hedging', () => {
+  test('should answer from the hedged target when the first one is slow', async () => {
+    const slow = Bun.serve({
+      port: 0,
+      fetch: async () => {
+        await Bun.sleep(500)
+        return new Response('slow')
+      },
+    })
+    const fast = Bun.serve({ port: 0, fetch: () => new Response('fast') })
+    const gateway = new BunGateway({
+      routes: [
+        {
+          pattern: '/search',
+          loadBalancer: {
+            strategy: 'round-robin',
+            targets: [
+              { url: `http://localhost:${slow.port}` },
+              { url: `http://localhost:${fast.port}` },
+            ],
+          },
+          hedge: { delay: 20, budgetPercent: 100 },
+        },
+      ],
+    })
+
+    try {
+      const startedAt = Date.now()
+      const responses = await Promise.all([
+        gateway.fetch(new Request('http://localhost/search')),
+        gateway.fetch(new Request('http://localhost/search')),
+      ])
+      const bodies = await Promise.all(responses.map((r) => r.text()))
+      expect(bodies).toEqual(['fast', 'fast'])
+      expect(Date.now() - startedAt).toBeLessThan(400)
+
+      // Both requests of each hedge released their connection
+      const [compiled] = (gateway as any).getCompiledRoutes()
+      const [loadBalancer] = compiled.loadBalancers
+      for (const target of loadBalancer.getTargets()) {
+        expect(target.connections).toBe(0)
+      }
+    } finally {
+      await gateway.close()
+      slow.stop(true)
+      fast.stop(true)
+    }
+  })
+})
+
+describe('BunGateway traffic split', () => {
+  test('should split clients between backends and honour overrides', async () => {
+    const stable = Bun.serve({ port: 0, fetch: () => new Response('stable') })
+    const canary = Bun.serve({ port: 0, fetch: () => new Response('canary') })
+    const gateway = new BunGateway({
+      routes: [
+        {
+          pattern: '/shop',
+          split: {
+            backends: [
+              {
+                name: 'stable',
+                weight: 100,
+                target: `http://localhost:${stable.port}`,
+              },
+              {
+                name: 'canary',
+                weight: 0,
+                target: `http://localhost:${canary.port}`,
+              },
+            ],
+            overrides: [{ header: 'x-version' }],
+          },
+        },
+      ],
+    })
+
+    try {
+      const first = await gateway.fetch(new Request('http://localhost/shop'))
+      expect(await first.text()).toBe('stable')
+      const cookie = first.headers.get('set-cookie')!.split(';')[0]!
+      expect(cookie).toStartWith('bungate_split=')
+
+      const pinned = await gateway.fetch(
+        new Request('http://localhost/shop', {
+          headers: { 'x-version': 'canary' },
+        }),
+      )
+      expect(await pinned.text()).toBe('canary')
+      expect(pinned.headers.get('set-cookie')).toBeNull()
+
+      const [compiled] = (gateway as any).getCompiledRoutes()
+      compiled.splitter.setWeights({ stable: 0, canary: 100 })
+      const moved = await gateway.fetch(
+        new Request('http://localhost/shop', { headers: { cookie } }),
+      )
+      expect(await moved.text()).toBe('canary')
+      expect(moved.headers.get('set-cookie')).toBeNull()
+    } finally {
+      await gateway.close()
+      stable.stop(true)
+      canary.stop(true)
+    }
+  })
+
+  test('should reject a split combined with a target', () => {
+    expect(
+      () =>
+        new BunGateway({
+          routes: [
+            {
+              pattern: '/shop',
+              target: 'http://localhost:1',
+              split: {
+                backends: [
+                  { name: 'stable', weight: 1, target: 'http://localhost:2' },
+                ],
+              },
+            },
+          ],
+        }),
+    ).toThrow('"split" cannot be combined')
+  })
+})
+
+describe('BunGateway traffic mirroring', () => {
+  test('should copy requests to the shadow upstream without affecting the response', async () => {
+    const primary = Bun.serve({
+      port: 0,
+      fetch: async (req) => new Response(`primary ${await req.text()}`),
+    })
+    const mirrored: string[] = []
+    const shadow = Bun.serve({
+      port: 0,
+      fetch: async (req) => {
+        mirrored.push(`${req.method} ${new URL(req.url).pathname}`)
+        mirrored.push(await req.text())
+        return new Response('shadow', { status: 500 })
+      },
+    })
+    const comparisons: Array<[number | undefined, number | undefined]> = []
+    const gateway = new BunGateway({
+      routes: [
+        {
+          pattern: '/orders',
+          methods: ['POST'],
+          target: `http://localhost:${primary.port}`,
+          mirror: {
+            target: `http://localhost:${shadow.port}`,
+            includeBody: true,
+            onCompare: ({ primary, shadow }) => {
+              comparisons.push([primary?.status, shadow?.status])
+            },
+          },
+        },
+      ],
+    })
+
+    try {
+      const response = await gateway.fetch(
+        new Request('http://localhost/orders', {
+          method: 'POST',
+          body: 'order-1',
+          headers: { 'content-length': '7' },
+        }),
+      )
+      expect(response.status).toBe(200)
+      expect(await response.text()).toBe('primary order-1')
+
+      await Bun.sleep(100)
+      expect(mirrored).toEqual(['POST /orders', 'order-1'])
+      expect(comparisons).toEqual([[200, 500]])
+    } finally {
+      await gateway.close()
+      primary.stop(true)
+      shadow.stop(true)
+    }
+  })
+})
+
+describe('BunGateway WebSocket proxying', () => {
+  const secret = 'websocket-test-secret'
+
+  test('should authenticate the upgrade and relay messages', async () => {
+    const upstream = Bun.serve({
+      port: 0,
+      fetch: (req, server) =>
+        server.upgrade(req, { data: new URL(req.url).pathname })
+          ? undefined
+          : new Response('Upgrade required', { status: 426 }),
+      websocket: {
+        message(ws, message) {
+          ws.send(`${ws.data} ${message}`)
+        },
+      },
+    })
+    const gateway = new BunGateway({
+      server: { port: 19910 },
+      metrics: { enabled: true, collectDefaultMetrics: false },
+      routes: [
+        {
+          pattern: '/chat/*',
+          target: `http://localhost:${upstream.port}`,
+          auth: { secret, jwtOptions: { algorithms: ['HS256'] } },
+          websocket: { idleTimeout: 5000 },
+        },
+      ],
+    })
+    await gateway.listen()
+
+    try {
+      const rejected = new WebSocket('ws://localhost:19910/chat/room-1')
+      await new Promise((resolve) => {
+        rejected.onerror = resolve
+      })
+
+      const token = await new SignJWT({ sub: 'user-1' })
+        .setProtectedHeader({ alg: 'HS256' })
+        .setExpirationTime('1h')
+        .sign(new TextEncoder().encode(secret))
+      const ws = new WebSocket('ws://localhost:19910/chat/room-1', {
+        headers: { authorization: `Bearer ${token}` },
+      })
+      await new Promise((resolve) => {
+        ws.onopen = resolve
+      })
+      const reply = new Promise((resolve) => {
+        ws.onmessage = (event) => resolve(event.data)
+      })
+      ws.send('hello')
+      expect(await reply).toBe('/chat/room-1 hello')
+
+      const metrics = await (
+        await gateway.fetch(new Request('http://localhost/metrics'))
+      ).text()
+      expect(metrics).toContain(
+        'bungate_websocket_active_connections{route="/chat/*"} 1',
+      )
+      ws.close()
+    } finally {
+      await gateway.close()
+      upstream.stop(true)
+    }
+  })
+})
+
+describe('BunGateway streaming', () => {
+  test('should relay Server-Sent Events and hold the connection until the stream closes', async () => {
+    const upstream = Bun.serve({
+      port: 0,
+      fetch: () =>
+        new Response(
+          new ReadableStream({
+            async start(controller) {
+              controller.enqueue(new TextEncoder().encode('data: one\n\n'))
+              await Bun.sleep(50)
+              controller.enqueue(new TextEncoder().encode('data: two\n\n'))
+              controller.close()
+            },
+          }),
+          { headers: { 'content-type': 'text/event-stream' } },
+        ),
+    })
+    const gateway = new BunGateway({
+      routes: [
+        {
+          pattern: '/events',
+          loadBalancer: {
+            strategy: 'least-connections',
+            targets: [{ url: `http://localhost:${upstream.port}` }],
+          },
+          streaming: { idleTimeout: 1000, heartbeatInterval: 0 },
+        },
+      ],
+    })
+
+    try {
+      const response = await gateway.fetch(
+        new Request('http://localhost/events'),
+      )
+      expect(response.headers.get('content-type')).toBe('text/event-stream')
+      expect(response.headers.get('x-accel-buffering')).toBe('no')
+
+      const [compiled] = (gateway as any).getCompiledRoutes()
+      const [loadBalancer] = compiled.loadBalancers
+      expect(loadBalancer.getTargets()[0].connections).toBe(1)
+
+      expect(await response.text()).toBe('data: one\n\ndata: two\n\n')
+      expect(loadBalancer.getTargets()[0].connections).toBe(0)
+    } finally {
+      await gateway.close()
+      upstream.stop(true)
+    }
+  })
+
+  test('should call afterResponse once the relayed stream ends', async () => {
+    let finish!: () => void
+    const upstream = Bun.serve({
+      port: 0,
+      fetch: () =>
+        new Response(
+          new ReadableStream({
+            async start(controller) {
+              controller.enqueue(new TextEncoder().encode('data: one\n\n'))
+              await new Promise<void>((resolve) => (finish = resolve))
+              controller.close()
+            },
+          }),
+          { headers: { 'content-type': 'text/event-stream' } },
+        ),
+    })
+    const completed: number[] = []
+    const gateway = new BunGateway({
+      routes: [
+        {
+          pattern: '/events',
+          target: `http://localhost:${upstream.port}`,
+          streaming: { idleTimeout: 1000, heartbeatInterval: 0 },
+          hooks: {
+            afterResponse: (_req, res) => {
+              completed.push(res.status)
+            },
+          },
+        },
+      ],
+    })
+
+    try {
+      const response = await gateway.fetch(
+        new Request('http://localhost/events'),
+      )
+      const reader = response.body!.getReader()
+      await reader.read()
+      await Bun.sleep(20)
+      expect(completed).toEqual([])
+
+      finish()
+      while (!(await reader.read()).done) {}
+      await Bun.sleep(0)
+      expect(completed).toEqual([200])
+    } finally {
+      await gateway.close()
+      upstream.stop(true)
+    }
+  })
+
+  test('should keep a removed route until its streams close', async () => {
+    const upstream = Bun.serve({
+      port: 0,
+      fetch: () =>
+        new Response(
+          new ReadableStream({
+            async start(controller) {
+              controller.enqueue(new TextEncoder().encode('data: one\n\n'))
+              await Bun.sleep(50)
+              controller.enqueue(new TextEncoder().encode('data: two\n\n'))
+              controller.close()
+            },
+          }),
+          { headers: { 'content-type': 'text/event-stream' } },
+        ),
+    })
+    const gateway = new BunGateway({
+      routes: [
+        {
+          pattern: '/events',
+          loadBalancer: {
+            strategy: 'round-robin',
+            targets: [{ url: `http://localhost:${upstream.port}` }],
+          },
+          streaming: { idleTimeout: 1000, heartbeatInterval: 0 },
+        },
+      ],
+    })
+
+    try {
+      const response = await gateway.fetch(
+        new Request('http://localhost/events'),
+      )
+      const [compiled] = (gateway as any).getCompiledRoutes()
+      expect(compiled.inFlight).toBe(1)
+
+      gateway.removeRoute('/events')
+      expect(compiled.proxies).toHaveLength(1)
+
+      expect(await response.text()).toBe('data: one\n\ndata: two\n\n')
+      expect(compiled.inFlight).toBe(0)
+      expect(compiled.proxies).toHaveLength(0)
+    } finally {
+      await gateway.close()
+      upstream.stop(true)
+    }
+  })
+})
+
+describe('BunGateway route matching', () => {
+  test('should tell routes sharing a pattern apart by their conditions', async () => {
+    const gateway = new BunGateway({
+      routes: [
+        {
+          pattern: '/api/*',
+          match: { host: '*.tenant.example.com' },
+          handler: async () => new Response('tenant'),
+        },
+        {
+          pattern: '/api/*',
+          match: { headers: { 'x-api-version': '2' } },
+          handler: async () => new Response('v2'),
+        },
+        {
+          pattern: '/api/*',
+          handler: async () => new Response('default'),
+        },
+        {
+          pattern: '/beta',
+          match: { query: { beta: 'true' }, cookies: { session: true } },
+          handler: async () => new Response('beta'),
+        },
+      ],
+    })
+
+    const body = async (url: string, headers: Record<string, string> = {}) =>
+      (await gateway.fetch(new Request(url, { headers }))).text()
+
+    expect(await body('http://acme.tenant.example.com/api/users')).toBe(
+      'tenant',
+    )
+    // The first route whose conditions match handles the request
+    expect(
+      await body('http://acme.tenant.example.com/api/users', {
+        'x-api-version': '2',
+      }),
+    ).toBe('tenant')
+    expect(
+      await body('http://gateway/api/users', { 'x-api-version': '2' }),
+    ).toBe('v2')
+    expect(await body('http://gateway/api/users')).toBe('default')
+
+    expect(
+      await body('http://gateway/beta?beta=true', { cookie: 'session=1' }),
+    ).toBe('beta')
+    const missed = await gateway.fetch(
+      new Request('http://gateway/beta?beta=true'),
+    )
+    expect(missed.status).toBe(404)
+  })
+})
+
+describe('BunGateway aggregate routes', () => {
+  test('should merge calls to other routes into one response', async () => {
+    const gateway = new BunGateway({
+      routes: [
+        {
+          pattern: '/users/:id',
+          handler: async (req: any) =>
+            Response.json({ id: req.params.id, teamId: 'core' }),
+        },
+        {
+          pattern: '/teams/:id',
+          handler: async (req: any) =>
+            Response.json({
+              id: req.params.id,
+              auth: req.headers.get('authorization'),
+            }),
+        },
+        {
+          pattern: '/screens/profile/:id',
+          aggregate: {
+            calls: [
+              { name: 'user', path: '/users/{params.id}' },
+              { name: 'team', path: '/teams/{user.teamId}' },
+              { name: 'missing', path: '/missing', onError: 'null' },
+            ],
+          },
+        },
+      ],
+    })
+
+    const response = await gateway.fetch(
+      new Request('http://localhost/screens/profile/42', {
+        headers: { authorization: 'Bearer t' },
+      }),
+    )
+    expect(response.status).toBe(200)
+    expect(await response.json()).toEqual({
+      user: { id: '42', teamId: 'core' },
+      team: { id: 'core', auth: 'Bearer t' },
+      missing: null,
+    })
   })
 })
 
@@ -236,3 +1108,477 @@ describe('BunGateway HTTP method helpers', () => {
     expect(res.status).toBe(204)
   })
 })
+
+describe('BunGateway API catalog', () => {
+  test('should publish the live route table', async () => {
+    const gateway = new BunGateway({
+      catalog: { title: 'Shop' },
+      routes: [
+        {
+          pattern: '/users/:id',
+          handler: async () => new Response('user'),
+          meta: { operationId: 'getUser', tags: ['users'] },
+        },
+      ],
+    })
+    gateway.addRoute({
+      pattern: '/orders',
+      methods: ['POST'],
+      handler: async () => new Response('order'),
+      rateLimit: { max: 5 },
+    })
+
+    const response = await gateway.fetch(
+      new Request('http://localhost/openapi.json'),
+    )
+    const document = (await response.json()) as any
+    expect(document.info.title).toBe('Shop')
+    expect(document.paths['/users/{id}'].get.operationId).toBe('getUser')
+    expect(document.paths['/orders'].post['x-rate-limit'].max).toBe(5)
+
+    const page = await gateway.fetch(new Request('http://localhost/catalog'))
+    expect(await page.text()).toContain('<code>/orders</code>')
+  })
+})
+
+describe('BunGateway schema validation', () => {
+  test('should validate requests and responses of a route', async () => {
+    const gateway = new BunGateway({
+      routes: [
+        {
+          pattern: '/users/:id',
+          methods: ['PUT'],
+          handler: async (req: any) =>
+            Response.json({ id: Number(req.params.id), ...(await req.json()) }),
+          validation: {
+            params: {
+              type: 'object',
+              properties: { id: { type: 'integer' } },
+            },
+            body: {
+              type: 'object',
+              required: ['name'],
+              properties: { name: { type: 'string' } },
+            },
+            response: {
+              body: { type: 'object', required: ['id', 'name'] },
+              mode: 'reject',
+            },
+          },
+        },
+      ],
+    })
+    const put = (path: string, body: unknown) =>
+      gateway.fetch(
+        new Request(`http://localhost${path}`, {
+          method: 'PUT',
+          headers: { 'content-type': 'application/json' },
+          body: JSON.stringify(body),
+        }),
+      )
+
+    const ok = await put('/users/7', { name: 'Ada' })
+    expect(ok.status).toBe(200)
+    expect(await ok.json()).toEqual({ id: 7, name: 'Ada' })
+
+    const invalid = await put('/users/me', { name: 1 })
+    expect(invalid.status).toBe(400)
+    expect(((await invalid.json()) as any).error.details).toEqual([
+      { in: 'path', name: 'id', message: 'must be integer' },
+      { in: 'body', pointer: '/name', message: 'must be string' },
+    ])
+  })
+})
+
+describe('BunGateway fault injection', () => {
+  test('should inject faults into matching requests only', async () => {
+    const gateway = new BunGateway({
+      routes: [
+        {
+          pattern: '/orders',
+          handler: () => new Response('orders'),
+          faults: {
+            abort: { status: 503, message: 'chaos' },
+            when: { headers: { 'x-chaos': 'on' } },
+          },
+        },
+      ],
+    })
+    const get = (headers: Record<string, string> = {}) =>
+      gateway.fetch(new Request('http://localhost/orders', { headers }))
+
+    const regular = await get()
+    expect(regular.status).toBe(200)
+    expect(await regular.text()).toBe('orders')
+
+    const injected = await get({ 'x-chaos': 'on' })
+    expect(injected.status).toBe(503)
+    expect(injected.headers.get('x-fault-injected')).toBe('abort')
+    expect(await injected.text()).toBe('chaos')
+    await gateway.close()
+  })
+})
+
+describe('BunGateway route groups', () => {
+  test('should register grouped routes with the group settings', async () => {
+    const gateway = new BunGateway()
+    const seen: string[] = []
+    gateway.group(
+      '/api/v2',
+      {
+        middlewares: [
+          (req: ZeroRequest, next: StepFunction) => {
+            seen.push(new URL(req.url).pathname)
+            return next()
+          },
+        ],
+      },
+      (api) => {
+        api.addRoute({
+          pattern: '/users/:id',
+          handler: (req: any) => new Response(`user ${req.params.id}`),
+        })
+      },
+    )
+
+    const response = await gateway.fetch(
+      new Request('http://localhost/api/v2/users/7'),
+    )
+    expect(await response.text()).toBe('user 7')
+    expect(seen).toEqual(['/api/v2/users/7'])
+    expect(gateway.getRoutes().map((route) => route.pattern)).toEqual([
+      '/api/v2/users/:id',
+    ])
+    await gateway.close()
+  })
+})
+
+describe('BunGateway plugins', () => {
+  test('should run plugin lifecycle, request and response hooks', async () => {
+    const registered: string[] = []
+    let closed = false
+    const gateway = new BunGateway({
+      plugins: [
+        {
+          name: 'tenancy',
+          dependencies: ['audit'],
+          onInit: (gateway) => {
+            gateway.addRoute({
+              pattern: '/tenants',
+              handler: () => new Response('tenants'),
+            })
+          },
+          onRequest: (req) =>
+            req.headers.get('x-tenant') === 'blocked'
+              ? new Response('Forbidden', { status: 403 })
+              : undefined,
+        },
+        {
+          name: 'audit',
+          onRouteRegistered: (route) => registered.push(route.pattern),
+          onResponse: (_req, res) => {
+            const headers = new Headers(res.headers)
+            headers.set('x-audited', 'true')
+            return new Response(res.body, { status: res.status, headers })
+          },
+          onClose: () => {
+            closed = true
+          },
+        },
+      ],
+      routes: [{ pattern: '/users', handler: () => new Response('users') }],
+    })
+
+    expect(registered).toEqual(['/tenants', '/users'])
+
+    const users = await gateway.fetch(new Request('http://localhost/users'))
+    expect(await users.text()).toBe('users')
+    expect(users.headers.get('x-audited')).toBe('true')
+    // The built-in security headers plugin wraps every response
+    expect(users.headers.get('x-content-type-options')).toBe('nosniff')
+
+    const blocked = await gateway.fetch(
+      new Request('http://localhost/tenants', {
+        headers: { 'x-tenant': 'blocked' },
+      }),
+    )
+    expect(blocked.status).toBe(403)
+    expect(blocked.headers.get('x-audited')).toBe('true')
+
+    await gateway.close()
+    expect(closed).toBe(true)
+  })
+})
+
+describe('BunGateway request IDs', () => {
+  test('should assign, expose and echo a request ID', async () => {
+    let seen: string | undefined
+    const gateway = new BunGateway({
+      routes: [
+        {
+          pattern: '/orders',
+          handler: () => {
+            seen = currentRequestId()
+            return new Response('orders')
+          },
+        },
+      ],
+    })
+
+    // Without a trusted proxy, inbound IDs are replaced
+    const response = await gateway.fetch(
+      new Request('http://localhost/orders', {
+        headers: { 'x-request-id': 'spoofed' },
+      }),
+    )
+    const requestId = response.headers.get('x-request-id')
+    expect(requestId).toBeTruthy()
+    expect(requestId).not.toBe('spoofed')
+    expect(seen).toBe(requestId!)
+    await gateway.close()
+  })
+})
+
+describe('BunGateway tracing', () => {
+  test('should join the trace, propagate it upstream and export spans', async () => {
+    const traceId = '4bf92f3577b34da6a3ce929d0e0e4736'
+    let upstreamTraceparent: string | null = null
+    const upstream = Bun.serve({
+      port: 0,
+      fetch: (req) => {
+        upstreamTraceparent = req.headers.get('traceparent')
+        return new Response('orders')
+      },
+    })
+    const exported: any[] = []
+    const collector = Bun.serve({
+      port: 0,
+      fetch: async (req) => {
+        const body = (await req.json()) as any
+        exported.push(...body.resourceSpans[0].scopeSpans[0].spans)
+        return new Response('{}')
+      },
+    })
+    const gateway = new BunGateway({
+      tracing: {
+        exporter: { url: `http://localhost:${collector.port}/v1/traces` },
+      },
+      routes: [
+        {
+          pattern: '/orders',
+          loadBalancer: {
+            strategy: 'round-robin',
+            targets: [{ url: `http://localhost:${upstream.port}` }],
+          },
+        },
+      ],
+    })
+
+    try {
+      const response = await gateway.fetch(
+        new Request('http://localhost/orders', {
+          headers: { traceparent: `00-${traceId}-00f067aa0ba902b7-01` },
+        }),
+      )
+      expect(await response.text()).toBe('orders')
+    } finally {
+      await gateway.close()
+      upstream.stop(true)
+      collector.stop(true)
+    }
+
+    const byName = new Map(exported.map((span) => [span.name, span]))
+    const server = byName.get('GET /orders')
+    const select = byName.get('load_balancer select')
+    const attempt = byName.get('GET')
+    expect(server.parentSpanId).toBe('00f067aa0ba902b7')
+    expect(select.parentSpanId).toBe(server.spanId)
+    expect(attempt.parentSpanId).toBe(server.spanId)
+    for (const span of [server, select, attempt]) {
+      expect(span.traceId).toBe(traceId)
+    }
+    // The upstream continues the trace from the attempt's span
+    expect(upstreamTraceparent!).toBe(`00-${traceId}-${attempt.spanId}-01`)
+  })
+})
+
+describe('BunGateway access log', () => {
+  test('should log requests with their upstream and request ID', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'bungate-access-'))
+    const upstream = Bun.serve({
+      port: 0,
+      fetch: () => new Response('orders'),
+    })
+    const gateway = new BunGateway({
+      accessLog: {
+        path: join(dir, 'access.log'),
+        format:
+          '$request_method $request_uri $status $upstream_addr $request_id',
+      },
+      routes: [
+        { pattern: '/orders', target: `http://localhost:${upstream.port}` },
+      ],
+    })
+
+    try {
+      const response = await gateway.fetch(
+        new Request('http://localhost/orders'),
+      )
+      expect(await response.text()).toBe('orders')
+      await gateway.close()
+
+      const requestId = response.headers.get('x-request-id')
+      expect(readFileSync(join(dir, 'access.log'), 'utf8')).toBe(
+        `GET /orders 200 http://localhost:${upstream.port} ${requestId}\n`,
+      )
+    } finally {
+      upstream.stop(true)
+      rmSync(dir, { recursive: true, force: true })
+    }
+  })
+})
+
+describe('BunGateway shutdown', () => {
+  test('should wait for in-flight requests while failing readiness', async () => {
+    const upstream = Bun.serve({
+      port: 0,
+      fetch: async () => {
+        await Bun.sleep(100)
+        return new Response('slow')
+      },
+    })
+    const gateway = new BunGateway({
+      healthCheck: { path: '/healthz' },
+      routes: [
+        { pattern: '/slow', target: `http://localhost:${upstream.port}` },
+      ],
+    })
+
+    try {
+      let answered = false
+      const pending = gateway
+        .fetch(new Request('http://localhost/slow'))
+        .then((response) => {
+          answered = true
+          return response
+        })
+      await Bun.sleep(10)
+
+      const closing = gateway.close({ drainTimeout: 2000 })
+      const ready = await gateway.fetch(
+        new Request('http://localhost/healthz/ready'),
+      )
+      expect(ready.status).toBe(503)
+      expect(gateway.close()).toBe(closing)
+
+      await closing
+      expect(answered).toBe(true)
+      expect(await (await pending).text()).toBe('slow')
+    } finally {
+      upstream.stop(true)
+    }
+  })
+
+  test('should stop waiting once the drain timeout elapses', async () => {
+    const upstream = Bun.serve({
+      port: 0,
+      fetch: async () => {
+        await Bun.sleep(1000)
+        return new Response('late')
+      },
+    })
+    const gateway = new BunGateway({
+      server: { drainTimeout: 50 },
+      routes: [
+        { pattern: '/late', target: `http://localhost:${upstream.port}` },
+      ],
+    })
+
+    try {
+      const pending = gateway
+        .fetch(new Request('http://localhost/late'))
+        .catch(() => undefined)
+      await Bun.sleep(10)
+
+      const start = Date.now()
+      await gateway.close()
+      expect(Date.now() - start).toBeLessThan(500)
+      await pending
+    } finally {
+      upstream.stop(true)
+    }
+  })
+
+  test('should close on SIGTERM and remove its signal listener', async () => {
+    const listeners = process.listenerCount('SIGTERM')
+    const gateway = new BunGateway({
+      server: { port: 19931, exitOnShutdown: false },
+    })
+    gateway.get('/ping', () => new Response('pong'))
+    await gateway.listen()
+    expect(process.listenerCount('SIGTERM')).toBe(listeners + 1)
+
+    process.emit('SIGTERM')
+    await gateway.close()
+
+    expect(process.listenerCount('SIGTERM')).toBe(listeners)
+    await expect(fetch('http://localhost:19931/ping')).rejects.toThrow()
+  })
+
+  test('should not handle signals with shutdownOnSignal off', async () => {
+    const listeners = process.listenerCount('SIGTERM')
+    const gateway = new BunGateway({
+      server: { port: 19932, shutdownOnSignal: false },
+    })
+    await gateway.listen()
+    try {
+      expect(process.listenerCount('SIGTERM')).toBe(listeners)
+    } finally {
+      await gateway.close()
+    }
+  })
+})
+
+describe('BunGateway applyConfig', () => {
+  test('should apply routes, the global rate limit and the log level', async () => {
+    const logger = new BunGateLogger({ level: 'info' })
+    const gateway = new BunGateway({
+      logger,
+      routes: [{ pattern: '/v1', handler: () => new Response('v1') } as any],
+    })
+
+    gateway.applyConfig({
+      logger: new BunGateLogger({ level: 'warn' }),
+      rateLimit: { windowMs: 60000, max: 1 },
+      routes: [{ pattern: '/v2', handler: () => new Response('v2') } as any],
+    })
+
+    expect(gateway.getRoutes().map((route) => route.pattern)).toEqual(['/v2'])
+    expect(logger.getLevel()).toBe('warn')
+    const first = await gateway.fetch(new Request('http://localhost/v2'))
+    expect(await first.text()).toBe('v2')
+    const second = await gateway.fetch(new Request('http://localhost/v2'))
+    expect(second.status).toBe(429)
+    await gateway.close()
+  })
+
+  test('should keep the current configuration when routes fail to compile', () => {
+    const gateway = new BunGateway({
+      cors: { origin: '*', credentials: true },
+      security: { corsValidation: { allowWildcardWithCredentials: false } },
+    })
+    const createRateLimit = spyOn(gateway as any, 'createGlobalRateLimit')
+
+    expect(() =>
+      gateway.applyConfig({
+        rateLimit: { max: 1 },
+        routes: [
+          { pattern: '/broken', handler: () => new Response('x') } as any,
+        ],
+      }),
+    ).toThrow('CORS security violation')
+    expect(gateway.getRoutes()).toHaveLength(0)
+    expect(gateway.getConfig().rateLimit).toBeUndefined()
+    expect(createRateLimit).not.toHaveBeenCalled()
+  })
+})
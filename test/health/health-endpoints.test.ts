@@ -0,0 +1,239 @@
+/**
+ * Health endpoint tests
+ * Covers liveness, readiness, detail levels and access control
+ */
+import { describe, test, expect } from 'bun:test'
+import {
+  HealthEndpoints,
+  type HealthEndpointsOptions,
+  type HealthRouteSource,
+} from '../../src/health/health-endpoints'
+import { HttpLoadBalancer } from '../../src/load-balancer/http-load-balancer'
+
+function createRoute(
+  pattern: string,
+  options: { circuit?: string; loadBalancer?: HttpLoadBalancer } = {},
+): HealthRouteSource {
+  return {
+    route: { pattern },
+    methods: [
+      {
+        proxy: { getCircuitBreakerState: () => options.circuit ?? 'CLOSED' },
+        loadBalancer: options.loadBalancer,
+      },
+    ],
+  } as HealthRouteSource
+}
+
+function createEndpoints(
+  overrides: Partial<HealthEndpointsOptions> = {},
+): HealthEndpoints {
+  return new HealthEndpoints({
+    getRoutes: () => [],
+    isDraining: () => false,
+    getClientIP: () => '127.0.0.1',
+    ...overrides,
+  })
+}
+
+const get = (path: string, headers: Record<string, string> = {}) =>
+  new Request(`http://localhost${path}`, { headers })
+
+function call(endpoints: HealthEndpoints, req: Request): Response {
+  const pathname = endpoints.match(req.url)
+  if (!pathname) throw new Error(`not a health path: ${req.url}`)
+  return endpoints.handle(req, pathname)
+}
+
+describe('HealthEndpoints', () => {
+  test('should match only the health paths', () => {
+    const endpoints = createEndpoints({ path: '/status/' })
+    expect(endpoints.match('http://localhost/status')).toBe('/status')
+    expect(endpoints.match('http://localhost/status/live?x=1')).toBe(
+      '/status/live',
+    )
+    expect(endpoints.match('http://localhost/status/ready')).toBe(
+      '/status/ready',
+    )
+    expect(endpoints.match('http://localhost/status/other')).toBeUndefined()
+    expect(endpoints.match('http://localhost/api/status')).toBeUndefined()
+  })
+
+  test('should report liveness', async () => {
+    const endpoints = createEndpoints()
+    for (const path of ['/health', '/health/live']) {
+      const response = call(endpoints, get(path))
+      expect(response.status).toBe(200)
+      expect(await response.json()).toEqual({ status: 'ok' })
+    }
+  })
+
+  test('should be ready when every upstream is available', async () => {
+    const loadBalancer = new HttpLoadBalancer({
+      strategy: 'round-robin',
+      targets: [{ url: 'http://a:3000' }],
+    })
+    const endpoints = createEndpoints({
+      getRoutes: () => [
+        createRoute('/a', { loadBalancer }),
+        createRoute('/b', { circuit: 'HALF_OPEN' }),
+      ],
+    })
+    try {
+      const response = call(endpoints, get('/health/ready'))
+      expect(response.status).toBe(200)
+      expect(await response.json()).toEqual({ status: 'ready' })
+    } finally {
+      loadBalancer.destroy()
+    }
+  })
+
+  test('should not be ready when a load balancer has no healthy target', () => {
+    const loadBalancer = new HttpLoadBalancer({
+      strategy: 'round-robin',
+      targets: [{ url: 'http://a:3000' }],
+      healthCheck: { enabled: false, minHealthyTargets: 0 } as any,
+    })
+    loadBalancer.updateTargetHealth('http://a:3000', false)
+    const endpoints = createEndpoints({
+      getRoutes: () => [createRoute('/a', { loadBalancer })],
+    })
+    try {
+      const report = endpoints.evaluateReadiness()
+      expect(report.ready).toBe(false)
+      expect(report.routes[0]).toEqual({
+        pattern: '/a',
+        healthyTargets: 0,
+        totalTargets: 1,
+        circuitOpen: false,
+        ready: false,
+      })
+      expect(call(endpoints, get('/health/ready')).status).toBe(503)
+    } finally {
+      loadBalancer.destroy()
+    }
+  })
+
+  test('should not be ready when any backend of a split route is unavailable', () => {
+    const stable = new HttpLoadBalancer({
+      strategy: 'round-robin',
+      targets: [{ url: 'http://stable:3000' }],
+    })
+    const canary = new HttpLoadBalancer({
+      strategy: 'round-robin',
+      targets: [{ url: 'http://canary:3000' }],
+      healthCheck: { enabled: false, minHealthyTargets: 0 } as any,
+    })
+    canary.updateTargetHealth('http://canary:3000', false)
+    const proxy = { getCircuitBreakerState: () => 'CLOSED' }
+    const endpoints = createEndpoints({
+      getRoutes: () => [
+        {
+          route: { pattern: '/split' },
+          methods: [
+            { proxy, loadBalancer: stable },
+            { proxy, loadBalancer: canary },
+            { proxy, loadBalancer: stable },
+            { proxy, loadBalancer: canary },
+          ],
+        } as HealthRouteSource,
+      ],
+    })
+    try {
+      const report = endpoints.evaluateReadiness()
+      expect(report.ready).toBe(false)
+      expect(report.routes[0]).toEqual({
+        pattern: '/split',
+        healthyTargets: 1,
+        totalTargets: 2,
+        circuitOpen: false,
+        ready: false,
+      })
+    } finally {
+      stable.destroy()
+      canary.destroy()
+    }
+  })
+
+  test('should not be ready when a circuit breaker is open', () => {
+    const endpoints = createEndpoints({
+      getRoutes: () => [createRoute('/a', { circuit: 'OPEN' })],
+    })
+    expect(call(endpoints, get('/health/ready')).status).toBe(503)
+  })
+
+  test('should not be ready while draining but stay live', () => {
+    const endpoints = createEndpoints({ isDraining: () => true })
+    expect(call(endpoints, get('/health/ready')).status).toBe(503)
+    expect(call(endpoints, get('/health/live')).status).toBe(200)
+  })
+
+  test('should include checks at the standard detail level', async () => {
+    const endpoints = createEndpoints({
+      auth: { detailLevel: 'standard' },
+      getRoutes: () => [createRoute('/a', { circuit: 'OPEN' })],
+    })
+    const body = (await call(endpoints, get('/health/ready')).json()) as any
+    expect(body.status).toBe('not_ready')
+    expect(body.checks).toEqual({
+      draining: { status: 'pass' },
+      upstreams: { status: 'pass', routes: 1, unavailable: 0 },
+      circuitBreakers: { status: 'fail', open: 1 },
+    })
+    expect(body.routes).toBeUndefined()
+  })
+
+  test('should include routes at the detailed level', async () => {
+    const endpoints = createEndpoints({
+      auth: { detailLevel: 'detailed' },
+      getRoutes: () => [createRoute('/a')],
+    })
+    const body = (await call(endpoints, get('/health/ready')).json()) as any
+    // Routes without a load balancer report no target counts
+    expect(body.routes).toEqual([
+      { pattern: '/a', circuitOpen: false, ready: true },
+    ])
+    expect(typeof body.uptime).toBe('number')
+  })
+
+  test('should require credentials except for public endpoints', async () => {
+    const endpoints = createEndpoints({
+      auth: {
+        enabled: true,
+        authentication: { type: 'bearer', credentials: { probe: 'token' } },
+        publicEndpoints: ['/health/live'],
+      },
+    })
+    expect(call(endpoints, get('/health/ready')).status).toBe(401)
+    expect(
+      call(endpoints, get('/health/ready', { authorization: 'Bearer token' }))
+        .status,
+    ).toBe(200)
+    expect(call(endpoints, get('/health/live')).status).toBe(200)
+  })
+
+  test('should enforce the IP whitelist', () => {
+    const endpoints = createEndpoints({
+      auth: { enabled: true, ipWhitelist: ['10.0.0.0/8'] },
+      getClientIP: () => '192.168.0.1',
+    })
+    expect(call(endpoints, get('/health')).status).toBe(403)
+  })
+
+  test('should answer HEAD without a body and reject other methods', async () => {
+    const endpoints = createEndpoints()
+    const head = call(
+      endpoints,
+      new Request('http://localhost/health', { method: 'HEAD' }),
+    )
+    expect(head.status).toBe(200)
+    expect(await head.text()).toBe('')
+
+    const post = call(
+      endpoints,
+      new Request('http://localhost/health', { method: 'POST' }),
+    )
+    expect(post.status).toBe(405)
+    expect(post.headers.get('allow')).toBe('GET, HEAD')
+  })
+})
@@ -0,0 +1,140 @@
+/**
+ * Hedge policy tests
+ * Covers the hedge delay, racing and aborting requests, and the hedge budget
+ */
+import { describe, test, expect } from 'bun:test'
+import { HedgePolicy } from '../../src/hedge/hedge-policy'
+import type { RetryAttemptResult } from '../../src/retry/retry-policy'
+
+/** Resolves with a response after `ms`, or rejects when aborted first */
+function respondAfter(
+  ms: number,
+  body: string,
+  signal: AbortSignal,
+  error?: Error,
+): Promise<RetryAttemptResult> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(
+      () =>
+        resolve({
+          response: new Response(body, { status: error ? 502 : 200 }),
+          error,
+        }),
+      ms,
+    )
+    signal.addEventListener('abort', () => {
+      clearTimeout(timer)
+      reject(Object.assign(new Error('Aborted'), { name: 'AbortError' }))
+    })
+  })
+}
+
+/** Sends requests that answer at once, counting them toward the budget */
+async function warmUp(policy: HedgePolicy, requests: number): Promise<void> {
+  for (let i = 0; i < requests; i++) {
+    await policy.execute(
+      async () => ({ response: new Response('warm') }),
+      () => null,
+    )
+  }
+}
+
+describe('HedgePolicy', () => {
+  test('should hedge only idempotent read methods by default', () => {
+    const policy = new HedgePolicy()
+    expect(policy.allowsMethod('GET')).toBe(true)
+    expect(policy.allowsMethod('head')).toBe(true)
+    expect(policy.allowsMethod('POST')).toBe(false)
+    expect(policy.allowsMethod('PUT')).toBe(false)
+    expect(new HedgePolicy({ budgetPercent: 0 }).allowsMethod('GET')).toBe(
+      false,
+    )
+  })
+
+  test('should use the fixed delay when configured', () => {
+    expect(new HedgePolicy({ delay: 25 }).delay(500)).toBe(25)
+  })
+
+  test('should derive the delay from the target average until sampled', () => {
+    const policy = new HedgePolicy({ minDelay: 10, maxDelay: 200 })
+    expect(policy.delay(50)).toBe(50)
+    expect(policy.delay(2)).toBe(10)
+    expect(policy.delay(900)).toBe(200)
+    expect(policy.delay()).toBe(200)
+  })
+
+  test('should derive the delay from the latency percentile', () => {
+    const policy = new HedgePolicy({ percentile: 90, maxDelay: 1000 })
+    for (let i = 1; i <= 100; i++) {
+      policy.recordLatency(i)
+    }
+    expect(policy.delay(5)).toBe(90)
+  })
+
+  test('should not hedge a request answered within the delay', async () => {
+    const policy = new HedgePolicy({ delay: 50, budgetPercent: 100 })
+    let hedged = false
+    const result = await policy.execute(
+      (signal) => respondAfter(1, 'primary', signal),
+      (signal) => {
+        hedged = true
+        return respondAfter(1, 'hedge', signal)
+      },
+    )
+    expect(await result.response.text()).toBe('primary')
+    expect(hedged).toBe(false)
+  })
+
+  test('should let the first response win and abort the other', async () => {
+    const policy = new HedgePolicy({ delay: 5, budgetPercent: 100 })
+    let primarySignal: AbortSignal | undefined
+    const result = await policy.execute(
+      (signal) => {
+        primarySignal = signal
+        return respondAfter(200, 'primary', signal)
+      },
+      (signal) => respondAfter(1, 'hedge', signal),
+    )
+    expect(await result.response.text()).toBe('hedge')
+    expect(primarySignal?.aborted).toBe(true)
+  })
+
+  test('should not let a failed hedge win over a pending primary', async () => {
+    const policy = new HedgePolicy({ delay: 5, budgetPercent: 100 })
+    const result = await policy.execute(
+      (signal) => respondAfter(40, 'primary', signal),
+      (signal) =>
+        respondAfter(1, 'hedge', signal, new Error('connection refused')),
+    )
+    expect(await result.response.text()).toBe('primary')
+  })
+
+  test('should fall back to the primary when no hedge can be sent', async () => {
+    const policy = new HedgePolicy({ delay: 1, budgetPercent: 100 })
+    const result = await policy.execute(
+      (signal) => respondAfter(20, 'primary', signal),
+      () => null,
+    )
+    expect(await result.response.text()).toBe('primary')
+  })
+
+  test('should cap hedges by the budget', async () => {
+    const policy = new HedgePolicy({ delay: 1, budgetPercent: 10 })
+    await warmUp(policy, 9)
+
+    let hedges = 0
+    const slow = () =>
+      policy.execute(
+        (signal) => respondAfter(15, 'primary', signal),
+        (signal) => {
+          hedges++
+          return respondAfter(1, 'hedge', signal)
+        },
+      )
+
+    // The 10th request fits in a 10% budget, the 11th does not
+    await slow()
+    await slow()
+    expect(hedges).toBe(1)
+  })
+})
@@ -171,6 +171,33 @@ describe('HttpLoadBalancer', () => {
 
       expect(target).toBeNull()
     })
+
+    test('skips excluded targets', () => {
+      loadBalancer = createLoadBalancer({
+        strategy: 'round-robin',
+        targets: [getTarget(0), getTarget(1)],
+      })
+
+      const request = createMockRequest()
+      const exclude = new Set([getTarget(0).url])
+      for (let i = 0; i < 3; i++) {
+        expect(
+          loadBalancer.selectTarget(request, undefined, exclude)?.url,
+        ).toBe(getTarget(1).url)
+      }
+    })
+
+    test('ignores the exclusion when every healthy target is excluded', () => {
+      loadBalancer = createLoadBalancer({
+        strategy: 'round-robin',
+        targets: [getTarget(0), getTarget(1)],
+      })
+
+      const exclude = new Set([getTarget(0).url, getTarget(1).url])
+      expect(
+        loadBalancer.selectTarget(createMockRequest(), undefined, exclude),
+      ).not.toBeNull()
+    })
   })
 
   describe('Round-robin strategy', () => {
@@ -610,6 +637,39 @@ describe('HttpLoadBalancer', () => {
       // Should not throw or create duplicate intervals
       expect(true).toBe(true)
     })
+
+    test('reports every health check outcome to onHealthCheck', async () => {
+      const fetchSpy = createFetchSpy(async (url: string | URL | Request) => {
+        return String(url).startsWith('http://server1.example.com')
+          ? new Response('OK', { status: 200 })
+          : new Response('down', { status: 503 })
+      })
+
+      const outcomes: Array<[string, boolean]> = []
+      loadBalancer = createLoadBalancer({
+        strategy: 'round-robin',
+        targets: [getTarget(0), getTarget(1)],
+        healthCheck: {
+          enabled: true,
+          interval: 10000,
+          timeout: 1000,
+          path: '/health',
+        },
+        onHealthCheck: (url, healthy, duration) => {
+          expect(duration).toBeGreaterThanOrEqual(0)
+          outcomes.push([url, healthy])
+        },
+      })
+      loadBalancer.stopHealthChecks()
+
+      await (loadBalancer as any).performHealthChecks()
+      fetchSpy.mockRestore()
+
+      expect(outcomes.sort()).toEqual([
+        ['http://server1.example.com', true],
+        ['http://server2.example.com', false],
+      ])
+    })
   })
 
   describe('Session Management', () => {
@@ -0,0 +1,138 @@
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test'
+import { mkdtempSync, readFileSync, rmSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import {
+  AccessLog,
+  recordUpstream,
+  type AccessLogEntry,
+} from '../../src/logger/access-log'
+import { runWithRequestId } from '../../src/security/request-id'
+
+const entry = (overrides: Partial<AccessLogEntry> = {}): AccessLogEntry => ({
+  remoteAddr: '203.0.113.7',
+  method: 'GET',
+  uri: '/orders?page=2',
+  startTime: Date.UTC(2026, 9, 19, 13, 55, 36),
+  duration: 42,
+  status: 200,
+  bytes: 512,
+  referer: 'https://app.example.com/',
+  userAgent: 'curl/8.0',
+  requestId: 'req-1',
+  upstreams: [],
+  ...overrides,
+})
+
+describe('AccessLog', () => {
+  let dir: string
+  let path: string
+  const getClientIP = () => '203.0.113.7'
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'bungate-access-'))
+    path = join(dir, 'access.log')
+  })
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  describe('formats', () => {
+    test('should format the Common and Combined Log Formats', async () => {
+      const common = new AccessLog({ path, format: 'common' }, { getClientIP })
+      const combined = new AccessLog({ path }, { getClientIP })
+      const line = common.format(entry())
+
+      expect(line).toMatch(
+        /^203\.0\.113\.7 - - \[19\/Oct\/2026:\d{2}:\d{2}:36 [+-]\d{4}\] "GET \/orders\?page=2 HTTP\/1\.1" 200 512$/,
+      )
+      expect(combined.format(entry())).toBe(
+        `${line} "https://app.example.com/" "curl/8.0"`,
+      )
+      expect(
+        combined.format(entry({ bytes: undefined, userAgent: undefined })),
+      ).toEndWith(' 200 - "https://app.example.com/" "-"')
+      await common.close()
+      await combined.close()
+    })
+
+    test('should format custom templates with upstream and cache details', async () => {
+      const accessLog = new AccessLog(
+        {
+          path,
+          format:
+            '$request_id $status $request_time $upstream_addr $upstream_status $upstream_response_time $upstream_cache_status $unknown',
+        },
+        { getClientIP },
+      )
+      expect(
+        accessLog.format(
+          entry({
+            cacheStatus: 'MISS',
+            upstreams: [
+              { target: 'http://a:3000', duration: 30 },
+              { target: 'http://b:3000', duration: 8, status: 200 },
+            ],
+          }),
+        ),
+      ).toBe(
+        'req-1 200 0.042 http://a:3000, http://b:3000 -, 200 0.030, 0.008 MISS $unknown',
+      )
+      expect(accessLog.format(entry())).toBe('req-1 200 0.042 - - - - $unknown')
+      await accessLog.close()
+    })
+
+    test('should escape client supplied values', async () => {
+      const accessLog = new AccessLog({ path }, { getClientIP })
+      const line = accessLog.format(
+        entry({ userAgent: 'evil" 200 -\nforged "line' }),
+      )
+      expect(line).toEndWith('"evil\\" 200 -\\x0aforged \\"line"')
+      expect(line).not.toContain('\n')
+      await accessLog.close()
+    })
+  })
+
+  describe('requests', () => {
+    test('should log handled requests with their upstream attempts', async () => {
+      const accessLog = new AccessLog(
+        {
+          path,
+          format:
+            '$remote_addr $request_method $request_uri $status $request_id $upstream_addr',
+        },
+        { getClientIP },
+      )
+      const response = await runWithRequestId('req-7', () =>
+        accessLog.handle(new Request('http://localhost/orders/7'), async () => {
+          recordUpstream('http://orders:3000', 12, 200)
+          // Internal requests are logged with the request they serve
+          return accessLog.handle(
+            new Request('http://localhost/internal'),
+            async () => new Response('ok'),
+          )
+        }),
+      )
+      expect(response.status).toBe(200)
+
+      await expect(
+        accessLog.handle(new Request('http://localhost/fail'), () =>
+          Promise.reject(new Error('boom')),
+        ),
+      ).rejects.toThrow('boom')
+      await accessLog.close()
+
+      expect(readFileSync(path, 'utf8')).toBe(
+        '203.0.113.7 GET /orders/7 200 req-7 http://orders:3000\n' +
+          '203.0.113.7 GET /fail 500 - -\n',
+      )
+    })
+
+    test('should write to a file per cluster worker', async () => {
+      const accessLog = new AccessLog({ path }, { getClientIP, workerId: '2' })
+      expect(accessLog.path).toBe(join(dir, 'access.worker-2.log'))
+      await accessLog.close()
+    })
+  })
+})
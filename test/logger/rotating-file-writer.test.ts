@@ -0,0 +1,133 @@
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test'
+import {
+  mkdtempSync,
+  readdirSync,
+  readFileSync,
+  rmSync,
+  utimesSync,
+  writeFileSync,
+} from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { gunzipSync } from 'node:zlib'
+import { RotatingFileWriter } from '../../src/logger/rotating-file-writer'
+
+describe('RotatingFileWriter', () => {
+  let dir: string
+  let path: string
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'bungate-log-'))
+    path = join(dir, 'access.log')
+  })
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  const rotatedFiles = () =>
+    readdirSync(dir)
+      .filter((name) => name !== 'access.log')
+      .sort()
+
+  test('should buffer lines and append them in order', async () => {
+    writeFileSync(path, 'existing\n')
+    const writer = new RotatingFileWriter({ path })
+    writer.write('first')
+    writer.write('second')
+    // Nothing is written on the request path
+    expect(readFileSync(path, 'utf8')).toBe('existing\n')
+
+    await writer.close()
+    expect(readFileSync(path, 'utf8')).toBe('existing\nfirst\nsecond\n')
+    writer.write('after close')
+    expect(readFileSync(path, 'utf8')).toBe('existing\nfirst\nsecond\n')
+  })
+
+  test('should rotate when the file would exceed the size limit', async () => {
+    const writer = new RotatingFileWriter({
+      path,
+      rotation: { maxSize: 10 },
+      now: () => Date.UTC(2026, 9, 19, 13, 0, 0),
+    })
+    writer.write('aaaaaaa')
+    await writer.flush()
+    writer.write('bbbbbbb')
+    await writer.flush()
+    writer.write('ccccccc')
+    await writer.close()
+
+    expect(rotatedFiles()).toEqual([
+      'access.log.20261019T130000',
+      'access.log.20261019T130000-1',
+    ])
+    expect(readFileSync(join(dir, 'access.log.20261019T130000'), 'utf8')).toBe(
+      'aaaaaaa\n',
+    )
+    expect(readFileSync(path, 'utf8')).toBe('ccccccc\n')
+  })
+
+  test('should rotate when the period ends and compress rotated files', async () => {
+    let now = Date.UTC(2026, 9, 19, 13, 59, 0)
+    const writer = new RotatingFileWriter({
+      path,
+      rotation: { interval: 'hourly', compress: true },
+      now: () => now,
+    })
+    writer.write('13:59')
+    await writer.flush()
+    now = Date.UTC(2026, 9, 19, 14, 0, 1)
+    writer.write('14:00')
+    await writer.close()
+
+    expect(rotatedFiles()).toEqual(['access.log.20261019T140001.gz'])
+    const rotated = readFileSync(join(dir, 'access.log.20261019T140001.gz'))
+    expect(gunzipSync(rotated).toString()).toBe('13:59\n')
+    expect(readFileSync(path, 'utf8')).toBe('14:00\n')
+  })
+
+  test('should keep maxFiles rotated files no older than maxAge', async () => {
+    const now = Date.UTC(2026, 9, 19, 13, 0, 0)
+    // An old rotated file, and a file the writer does not own
+    writeFileSync(join(dir, 'access.log.20261001T000000.gz'), '')
+    const old = new Date(now - 10 * 86_400_000)
+    utimesSync(join(dir, 'access.log.20261001T000000.gz'), old, old)
+    writeFileSync(join(dir, 'access.log.backup'), '')
+
+    const writer = new RotatingFileWriter({
+      path,
+      rotation: { maxFiles: 2, maxAge: 7 * 86_400_000 },
+      now: () => now,
+    })
+    for (const line of ['one', 'two', 'three']) {
+      writer.write(line)
+      await writer.rotate()
+    }
+    await writer.close()
+
+    expect(rotatedFiles()).toEqual([
+      'access.log.20261019T130000-1',
+      'access.log.20261019T130000-2',
+      'access.log.backup',
+    ])
+  })
+
+  test('should drop lines beyond the buffer limit', async () => {
+    const warnings: any[] = []
+    const logger: any = {
+      warn: (message: string, data: any) => warnings.push({ message, data }),
+    }
+    const writer = new RotatingFileWriter({ path, maxBufferSize: 8, logger })
+    writer.write('kept')
+    writer.write('dropped')
+    await writer.close()
+
+    expect(readFileSync(path, 'utf8')).toBe('kept\n')
+    expect(warnings).toEqual([
+      {
+        message: 'Log buffer full, lines dropped',
+        data: { path, dropped: 1 },
+      },
+    ])
+  })
+})
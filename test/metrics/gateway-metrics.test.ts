@@ -0,0 +1,279 @@
+/**
+ * Gateway metrics tests
+ * Covers the scrape endpoint, upstream series, live-state gauges and rejections
+ */
+import { describe, test, expect } from 'bun:test'
+import {
+  GatewayMetrics,
+  type MetricsRouteSource,
+} from '../../src/metrics/gateway-metrics'
+import { HttpLoadBalancer } from '../../src/load-balancer/http-load-balancer'
+import type { ZeroRequest } from '../../src/interfaces/middleware'
+
+function createMetrics(routes: MetricsRouteSource[] = []): GatewayMetrics {
+  return new GatewayMetrics({
+    collectDefaultMetrics: false,
+    getRoutes: () => routes,
+  })
+}
+
+async function scrape(metrics: GatewayMetrics): Promise<string> {
+  const response = await metrics.handle(
+    new Request(`http://localhost${metrics.endpoint}`),
+  )
+  return response.text()
+}
+
+describe('GatewayMetrics', () => {
+  test('should match only the configured endpoint', () => {
+    const metrics = new GatewayMetrics({
+      endpoint: '/internal/metrics',
+      collectDefaultMetrics: false,
+      getRoutes: () => [],
+    })
+    expect(metrics.match('http://localhost/internal/metrics')).toBe(true)
+    expect(metrics.match('http://localhost/internal/metrics?x=1')).toBe(true)
+    expect(metrics.match('http://localhost/metrics')).toBe(false)
+    expect(metrics.match('http://localhost/internal/metrics/x')).toBe(false)
+  })
+
+  test('should reject an endpoint without a leading slash', () => {
+    expect(
+      () => new GatewayMetrics({ endpoint: 'metrics', getRoutes: () => [] }),
+    ).toThrow('must start with "/"')
+  })
+
+  test('should serve the registry in the Prometheus text format', async () => {
+    const metrics = createMetrics()
+    const response = await metrics.handle(
+      new Request('http://localhost/metrics'),
+    )
+    expect(response.status).toBe(200)
+    expect(response.headers.get('content-type')).toContain('text/plain')
+    expect(await response.text()).toContain('bungate_upstream_errors_total')
+  })
+
+  test('should reject methods other than GET and HEAD', async () => {
+    const metrics = createMetrics()
+    const response = await metrics.handle(
+      new Request('http://localhost/metrics', { method: 'POST' }),
+    )
+    expect(response.status).toBe(405)
+    expect(response.headers.get('allow')).toBe('GET, HEAD')
+
+    const head = await metrics.handle(
+      new Request('http://localhost/metrics', { method: 'HEAD' }),
+    )
+    expect(head.status).toBe(200)
+    expect(await head.text()).toBe('')
+  })
+
+  test('should keep series separate between instances', async () => {
+    const first = createMetrics()
+    const second = createMetrics()
+    first.observeUpstream('/a', 'http://a:80', 10, 200)
+
+    expect(await scrape(first)).toContain(
+      'bungate_upstream_request_duration_seconds_count{route="/a",target="http://a:80",status_code="200"} 1',
+    )
+    expect(await scrape(second)).not.toContain('route="/a"')
+  })
+
+  test('should count failed and 5xx upstream requests as errors', async () => {
+    const metrics = createMetrics()
+    metrics.observeUpstream('/a', 'http://a:80', 5, 200)
+    metrics.observeUpstream('/a', 'http://a:80', 5, 503)
+    metrics.observeUpstream('/a', 'http://a:80', 5)
+
+    const text = await scrape(metrics)
+    expect(text).toContain(
+      'bungate_upstream_errors_total{route="/a",target="http://a:80"} 2',
+    )
+    expect(text).toContain('status_code="error"')
+  })
+
+  test('should report load balancer targets and circuit breaker state', async () => {
+    const loadBalancer = new HttpLoadBalancer({
+      strategy: 'round-robin',
+      targets: [{ url: 'http://a:80' }, { url: 'http://b:80' }],
+    })
+    loadBalancer.updateTargetHealth('http://b:80', false)
+    loadBalancer.incrementConnections('http://a:80')
+    loadBalancer.incrementConnections('http://a:80')
+
+    const metrics = createMetrics([
+      {
+        route: { pattern: '/api/*' },
+        methods: [
+          {
+            method: 'GET',
+            proxy: { getCircuitBreakerState: () => 'OPEN' as any },
+            loadBalancer,
+          },
+          {
+            method: 'POST',
+            proxy: { getCircuitBreakerState: () => 'HALF_OPEN' as any },
+          },
+        ],
+      },
+    ])
+
+    const text = await scrape(metrics)
+    loadBalancer.destroy()
+
+    expect(text).toContain(
+      'bungate_upstream_in_flight{route="/api/*",method="GET",target="http://a:80"} 2',
+    )
+    expect(text).toContain(
+      'bungate_upstream_target_healthy{route="/api/*",method="GET",target="http://b:80"} 0',
+    )
+    expect(text).toContain(
+      'bungate_circuit_breaker_state{route="/api/*",method="GET"} 2',
+    )
+    expect(text).toContain(
+      'bungate_circuit_breaker_state{route="/api/*",method="POST"} 1',
+    )
+  })
+
+  test('should drop gauges of routes no longer in the table', async () => {
+    const routes: MetricsRouteSource[] = [
+      {
+        route: { pattern: '/old' },
+        methods: [
+          {
+            method: 'GET',
+            proxy: { getCircuitBreakerState: () => 'CLOSED' as any },
+          },
+        ],
+      },
+    ]
+    const metrics = createMetrics(routes)
+    expect(await scrape(metrics)).toContain('route="/old"')
+
+    routes.length = 0
+    expect(await scrape(metrics)).not.toContain('route="/old"')
+  })
+
+  test('should count health check outcomes and size-limit rejections', async () => {
+    const metrics = createMetrics()
+    metrics.recordHealthCheck('/a', 'GET', 'http://a:80', true)
+    metrics.recordHealthCheck('/a', 'GET', 'http://a:80', false)
+    metrics.recordHealthCheck('/a', 'GET', 'http://a:80', false)
+    metrics.recordSizeLimitRejection(413)
+
+    const text = await scrape(metrics)
+    expect(text).toContain(
+      'bungate_health_checks_total{route="/a",method="GET",target="http://a:80",result="failure"} 2',
+    )
+    expect(text).toContain(
+      'bungate_size_limit_rejections_total{status_code="413"} 1',
+    )
+  })
+
+  test('should count injected faults', async () => {
+    const metrics = createMetrics()
+    metrics.recordFault('/orders', 'abort')
+    metrics.recordFault('/orders', 'abort')
+    metrics.recordFault('/orders', 'delay')
+
+    const text = await scrape(metrics)
+    expect(text).toContain(
+      'bungate_faults_injected_total{route="/orders",type="abort"} 2',
+    )
+    expect(text).toContain(
+      'bungate_faults_injected_total{route="/orders",type="delay"} 1',
+    )
+  })
+
+  test('should count rate-limit rejections but not upstream 429s', async () => {
+    const metrics = createMetrics()
+    let allow = false
+    const limiter = metrics.instrumentRateLimit(
+      async (_req, next) =>
+        allow ? next() : new Response('slow down', { status: 429 }),
+      '/api/*',
+    )
+    const req = new Request('http://localhost/api/x') as ZeroRequest
+    const upstream429 = async () => new Response(null, { status: 429 })
+
+    expect((await limiter(req, upstream429)).status).toBe(429)
+    allow = true
+    expect((await limiter(req, upstream429)).status).toBe(429)
+
+    expect(await scrape(metrics)).toContain(
+      'bungate_rate_limit_rejections_total{scope="route",route="/api/*"} 1',
+    )
+  })
+
+  test('should record proxied WebSocket connections and messages', async () => {
+    const metrics = createMetrics([])
+    metrics.openWebSocket('/chat')
+    metrics.openWebSocket('/chat')
+    metrics.observeWebSocketMessage('/chat', 'upstream', 5)
+    metrics.observeWebSocketMessage('/chat', 'downstream', 7)
+    metrics.closeWebSocket('/chat', 1500)
+    metrics.recordWebSocketFailure('/chat')
+
+    const text = await scrape(metrics)
+    expect(text).toContain(
+      'bungate_websocket_connections_total{route="/chat",result="opened"} 2',
+    )
+    expect(text).toContain(
+      'bungate_websocket_connections_total{route="/chat",result="failed"} 1',
+    )
+    expect(text).toContain(
+      'bungate_websocket_active_connections{route="/chat"} 1',
+    )
+    expect(text).toContain(
+      'bungate_websocket_connection_duration_seconds_count{route="/chat"} 1',
+    )
+    expect(text).toContain(
+      'bungate_websocket_message_bytes_total{route="/chat",direction="downstream"} 7',
+    )
+    expect(text).toContain(
+      'bungate_websocket_messages_total{route="/chat",direction="upstream"} 1',
+    )
+  })
+
+  test('should report traffic split weights and backend series', async () => {
+    const metrics = createMetrics([
+      {
+        route: { pattern: '/shop' },
+        methods: [
+          {
+            method: 'GET',
+            backend: 'canary',
+            proxy: { getCircuitBreakerState: () => 'CLOSED' as any },
+          },
+        ],
+        split: { getWeights: () => ({ stable: 95, canary: 5 }) },
+      },
+    ])
+    metrics.observeSplit('/shop', 'canary', 20, 200)
+    metrics.observeSplit('/shop', 'canary', 20)
+
+    const text = await scrape(metrics)
+    expect(text).toContain(
+      'bungate_split_weight{route="/shop",backend="canary"} 5',
+    )
+    expect(text).toContain(
+      'bungate_split_request_duration_seconds_count{route="/shop",backend="canary",status_code="200"} 1',
+    )
+    expect(text).toContain(
+      'bungate_split_request_duration_seconds_count{route="/shop",backend="canary",status_code="error"} 1',
+    )
+    expect(text).toContain(
+      'bungate_circuit_breaker_state{route="/shop",method="GET",backend="canary"} 0',
+    )
+  })
+
+  test('should record HTTP request series into its own registry', async () => {
+    const metrics = createMetrics()
+    const middleware = metrics.createHttpMiddleware(['/metrics'])
+    const req = new Request('http://localhost/users') as ZeroRequest
+
+    await middleware(req, async () => new Response('ok'))
+
+    expect(await scrape(metrics)).toContain('http_requests_total{')
+  })
+})
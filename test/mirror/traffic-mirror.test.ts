@@ -0,0 +1,160 @@
+/**
+ * Traffic mirror tests
+ * Covers sampling, shadow request bounds and primary/shadow comparison
+ */
+import { describe, test, expect, beforeAll, afterAll } from 'bun:test'
+import type { Server } from 'bun'
+import {
+  TrafficMirror,
+  type MirrorComparison,
+} from '../../src/mirror/traffic-mirror'
+
+let shadow: Server
+const received: Array<{ method: string; path: string; body: string }> = []
+
+beforeAll(() => {
+  shadow = Bun.serve({
+    port: 0,
+    fetch: async (req) => {
+      const url = new URL(req.url)
+      received.push({
+        method: req.method,
+        path: url.pathname,
+        body: await req.text(),
+      })
+      if (url.pathname === '/slow') {
+        await Bun.sleep(300)
+      }
+      return new Response(`shadow ${url.pathname}`, { status: 201 })
+    },
+  })
+})
+
+afterAll(() => {
+  shadow.stop(true)
+})
+
+function shadowUrl(path: string): string {
+  return `http://localhost:${shadow.port}${path}`
+}
+
+/** Resolves once the mirror has no outstanding shadow requests */
+async function drained(mirror: TrafficMirror): Promise<void> {
+  for (let i = 0; i < 100 && mirror.pending > 0; i++) {
+    await Bun.sleep(10)
+  }
+}
+
+describe('TrafficMirror', () => {
+  test('should sample requests by percentage', () => {
+    const req = new Request('http://localhost/')
+    expect(new TrafficMirror({ target: 'http://a' }).sample(req)).toBe(true)
+    expect(
+      new TrafficMirror({ target: 'http://a', percentage: 0 }).sample(req),
+    ).toBe(false)
+  })
+
+  test('should only mirror bodies of a known size within the limit', () => {
+    const mirror = new TrafficMirror({
+      target: 'http://a',
+      includeBody: true,
+      maxBodyBytes: 8,
+    })
+    const upload = (body: string, headers: Record<string, string> = {}) =>
+      new Request('http://localhost/', { method: 'POST', body, headers })
+
+    expect(mirror.sample(upload('small', { 'content-length': '5' }))).toBe(true)
+    expect(
+      mirror.sample(upload('far too large', { 'content-length': '13' })),
+    ).toBe(false)
+    expect(mirror.sample(new Request('http://localhost/'))).toBe(true)
+  })
+
+  test('should send the shadow request and compare responses', async () => {
+    const comparisons: MirrorComparison[] = []
+    const mirror = new TrafficMirror({
+      target: `http://localhost:${shadow.port}`,
+      onCompare: (comparison) => {
+        comparisons.push(comparison)
+      },
+    })
+
+    const settle = mirror.send(
+      new Request(shadowUrl('/orders'), { method: 'POST', body: 'order' }),
+    )
+    const primary = new Response('primary', { status: 200 })
+    settle(primary)
+    // The primary body stays readable for the client
+    expect(await primary.text()).toBe('primary')
+
+    await drained(mirror)
+    await Bun.sleep(10)
+    expect(received.at(-1)).toEqual({
+      method: 'POST',
+      path: '/orders',
+      body: 'order',
+    })
+    expect(comparisons).toHaveLength(1)
+    expect(comparisons[0]!.primary).toMatchObject({
+      status: 200,
+      body: 'primary',
+    })
+    expect(comparisons[0]!.shadow).toMatchObject({
+      status: 201,
+      body: 'shadow /orders',
+    })
+    expect(comparisons[0]!.request.url).toBe(shadowUrl('/orders'))
+  })
+
+  test('should report shadow failures to the comparison only', async () => {
+    const comparisons: MirrorComparison[] = []
+    const mirror = new TrafficMirror({
+      target: 'http://localhost:1',
+      onCompare: (comparison) => {
+        comparisons.push(comparison)
+      },
+    })
+
+    mirror.send(new Request('http://localhost:1/orders'))()
+    await drained(mirror)
+    await Bun.sleep(10)
+    expect(comparisons).toHaveLength(1)
+    expect(comparisons[0]!.error).toBeInstanceOf(Error)
+    expect(comparisons[0]!.shadow).toBeUndefined()
+    expect(comparisons[0]!.primary).toBeUndefined()
+  })
+
+  test('should bound outstanding shadow requests', async () => {
+    const mirror = new TrafficMirror({
+      target: `http://localhost:${shadow.port}`,
+      maxConcurrent: 1,
+    })
+    const req = new Request('http://localhost/slow')
+
+    expect(mirror.sample(req)).toBe(true)
+    mirror.send(new Request(shadowUrl('/slow')))()
+    expect(mirror.pending).toBe(1)
+    expect(mirror.sample(req)).toBe(false)
+
+    await drained(mirror)
+    expect(mirror.sample(req)).toBe(true)
+  })
+
+  test('should abort shadow requests after the timeout', async () => {
+    let error: Error | undefined
+    const mirror = new TrafficMirror({
+      target: `http://localhost:${shadow.port}`,
+      timeout: 20,
+      onCompare: (comparison) => {
+        error = comparison.error
+      },
+    })
+
+    const startedAt = Date.now()
+    mirror.send(new Request(shadowUrl('/slow')))()
+    await drained(mirror)
+    await Bun.sleep(10)
+    expect(Date.now() - startedAt).toBeLessThan(250)
+    expect(error?.name).toBe('TimeoutError')
+  })
+})
@@ -0,0 +1,290 @@
+/**
+ * API catalog tests
+ * Covers the generated OpenAPI document, upstream spec merging and the catalog page
+ */
+import { describe, test, expect, afterAll } from 'bun:test'
+import { ApiCatalog, toOpenAPIPath } from '../../src/openapi/api-catalog'
+import type { RouteConfig } from '../../src/interfaces/route'
+
+describe('toOpenAPIPath', () => {
+  test('should translate router patterns into path templates', () => {
+    expect(toOpenAPIPath('/users/:id/posts/:postId?')).toEqual({
+      path: '/users/{id}/posts/{postId}',
+      params: ['id', 'postId'],
+    })
+    expect(toOpenAPIPath('/files/*')).toEqual({
+      path: '/files/{wild}',
+      params: ['wild'],
+    })
+  })
+})
+
+describe('ApiCatalog', () => {
+  const upstream = Bun.serve({
+    port: 0,
+    fetch: (req) =>
+      new URL(req.url).pathname === '/openapi.json'
+        ? Response.json({
+            openapi: '3.0.3',
+            info: { title: 'Orders', version: '3.0.0' },
+            servers: [{ url: '/v1' }],
+            paths: {
+              '/orders/{id}': {
+                parameters: [{ name: 'id', in: 'path', required: true }],
+                get: {
+                  operationId: 'getOrder',
+                  responses: {
+                    '200': {
+                      description: 'An order',
+                      content: {
+                        'application/json': {
+                          schema: { $ref: '#/components/schemas/Error' },
+                        },
+                      },
+                    },
+                  },
+                },
+              },
+              '/internal/metrics': { get: { operationId: 'metrics' } },
+            },
+            components: {
+              schemas: { Error: { type: 'object', required: ['orderId'] } },
+            },
+          })
+        : new Response('Not Found', { status: 404 }),
+  })
+  afterAll(() => upstream.stop(true))
+
+  const routes: RouteConfig[] = [
+    {
+      pattern: '/users/:id',
+      methods: ['GET', 'DELETE'],
+      target: 'http://users:3000',
+      auth: { secret: 'secret', optional: true },
+      meta: {
+        operationId: 'user',
+        name: 'User',
+        description: 'A user',
+        version: '1.2.0',
+        tags: ['users'],
+      },
+    },
+    {
+      pattern: '/search',
+      handler: () => new Response('[]'),
+      auth: { apiKeys: ['key'], apiKeyHeader: 'x-key' },
+      rateLimit: { max: 10, windowMs: 1000 },
+      meta: { name: '<Search>' },
+    },
+    {
+      pattern: '/orders/*',
+      target: `http://localhost:${upstream.port}`,
+      proxy: { pathRewrite: { '^/orders': '/v1/orders' } },
+      meta: { tags: ['orders'] },
+    },
+  ]
+
+  test('should describe routes from their meta, auth and rate limits', async () => {
+    const catalog = new ApiCatalog({
+      config: { title: 'Shop', version: '2.0.0' },
+      getRoutes: () => routes,
+    })
+    const document = await catalog.generate()
+
+    expect(document.info).toEqual({ title: 'Shop', version: '2.0.0' })
+    expect(Object.keys(document.paths!)).toEqual([
+      '/users/{id}',
+      '/search',
+      '/orders/{wild}',
+    ])
+    expect(document.tags).toEqual([{ name: 'orders' }, { name: 'users' }])
+
+    const getUser = document.paths!['/users/{id}']!.get!
+    expect(getUser).toMatchObject({
+      operationId: 'user_get',
+      summary: 'User',
+      description: 'A user',
+      tags: ['users'],
+      'x-version': '1.2.0',
+      parameters: [
+        { name: 'id', in: 'path', required: true, schema: { type: 'string' } },
+      ],
+      security: [{ bearerAuth: [] }, {}],
+    })
+    expect(Object.keys(getUser.responses!)).toEqual(['401', 'default'])
+    expect(document.paths!['/users/{id}']!.delete!.operationId).toBe(
+      'user_delete',
+    )
+
+    const search = document.paths!['/search']!.get!
+    expect(search.security).toEqual([{ 'header_x-key': [] }])
+    expect(search['x-rate-limit']).toEqual({ max: 10, windowMs: 1000 })
+    expect(Object.keys(search.responses!)).toEqual(['401', '429', 'default'])
+    expect(document.components?.securitySchemes).toEqual({
+      bearerAuth: { type: 'http', scheme: 'bearer', bearerFormat: 'JWT' },
+      'header_x-key': { type: 'apiKey', in: 'header', name: 'x-key' },
+    })
+  })
+
+  test('should reflect route table changes', async () => {
+    const current = [routes[0]!]
+    const catalog = new ApiCatalog({ config: {}, getRoutes: () => current })
+    expect(Object.keys((await catalog.generate()).paths!)).toEqual([
+      '/users/{id}',
+    ])
+
+    current.push(routes[1]!)
+    expect(Object.keys((await catalog.generate()).paths!)).toEqual([
+      '/users/{id}',
+      '/search',
+    ])
+  })
+
+  test('should merge upstream specs through reversed path rewrites', async () => {
+    const catalog = new ApiCatalog({
+      config: { upstreamSpecs: true },
+      getRoutes: () => routes,
+      // A gateway-wide rate limit applies to routes without their own
+      rateLimit: { max: 50 },
+    })
+    const document = await catalog.generate()
+
+    expect(document.paths!['/orders/{wild}']).toBeUndefined()
+    expect(document.paths!['/internal/metrics']).toBeUndefined()
+    const getOrder = document.paths!['/orders/{id}']!.get!
+    expect(getOrder).toMatchObject({
+      operationId: 'getOrder',
+      tags: ['orders'],
+      parameters: [{ name: 'id', in: 'path', required: true }],
+      'x-rate-limit': { max: 50, windowMs: 900000 },
+    })
+    // The upstream's Error schema does not clash with the gateway document
+    expect(document.components?.schemas).toEqual({
+      Error: { type: 'object', required: ['orderId'] },
+    })
+  })
+
+  test('should share identical and rename clashing upstream components', async () => {
+    const other = Bun.serve({
+      port: 0,
+      fetch: () =>
+        Response.json({
+          openapi: '3.1.0',
+          info: { title: 'Invoices', version: '1.0.0' },
+          paths: {
+            '/invoices/{id}': {
+              get: {
+                responses: {
+                  '404': { $ref: '#/components/responses/NotFound' },
+                },
+              },
+            },
+          },
+          components: {
+            schemas: { Error: { type: 'object', required: ['code'] } },
+            responses: {
+              NotFound: {
+                description: 'Not found',
+                content: {
+                  'application/json': {
+                    schema: { $ref: '#/components/schemas/Error' },
+                  },
+                },
+              },
+            },
+          },
+        }),
+    })
+    try {
+      const catalog = new ApiCatalog({
+        config: { upstreamSpecs: { ttl: 0 } },
+        getRoutes: () => [
+          routes[2]!,
+          {
+            pattern: '/orders-v2/*',
+            target: `http://localhost:${upstream.port}`,
+            proxy: { pathRewrite: { '^/orders-v2': '/v1/orders' } },
+          },
+          { pattern: '/invoices/*', target: `http://localhost:${other.port}` },
+        ],
+      })
+      const document = await catalog.generate()
+
+      expect(Object.keys(document.paths!)).toEqual([
+        '/orders/{id}',
+        '/orders-v2/{id}',
+        '/invoices/{id}',
+      ])
+      expect(document.components!.schemas).toEqual({
+        Error: { type: 'object', required: ['orderId'] },
+        Error_2: { type: 'object', required: ['code'] },
+      })
+      expect(
+        (document.components!.responses!.NotFound as any).content[
+          'application/json'
+        ].schema,
+      ).toEqual({ $ref: '#/components/schemas/Error_2' })
+    } finally {
+      other.stop(true)
+    }
+  })
+
+  test('should fall back to the route when the upstream has no spec', async () => {
+    const catalog = new ApiCatalog({
+      config: { upstreamSpecs: { path: '/missing.json' } },
+      getRoutes: () => [routes[2]!],
+    })
+    expect(Object.keys((await catalog.generate()).paths!)).toEqual([
+      '/orders/{wild}',
+    ])
+  })
+
+  test('should serve the document and catalog page', async () => {
+    const catalog = new ApiCatalog({
+      config: { path: '/docs/openapi.json', catalogPath: '/docs' },
+      getRoutes: () => routes,
+    })
+    expect(catalog.match('http://gateway/docs/openapi.json')).toBe(
+      '/docs/openapi.json',
+    )
+    expect(catalog.match('http://gateway/docs?x=1')).toBe('/docs')
+    expect(catalog.match('http://gateway/docs/other')).toBeUndefined()
+
+    const response = await catalog.handle(
+      new Request('http://gateway/docs/openapi.json'),
+      '/docs/openapi.json',
+    )
+    expect(response.headers.get('content-type')).toBe('application/json')
+    expect(((await response.json()) as any).openapi).toBe('3.0.3')
+
+    const page = await catalog.handle(
+      new Request('http://gateway/docs'),
+      '/docs',
+    )
+    expect(page.headers.get('content-type')).toBe('text/html; charset=utf-8')
+    const html = await page.text()
+    expect(html).toContain('<code>/users/{id}</code>')
+    expect(html).toContain('&lt;Search&gt;')
+    expect(html).toContain('10 req / 1s')
+
+    const post = await catalog.handle(
+      new Request('http://gateway/docs', { method: 'POST' }),
+      '/docs',
+    )
+    expect(post.status).toBe(405)
+  })
+
+  test('should reject invalid paths', () => {
+    expect(
+      () =>
+        new ApiCatalog({ config: { path: 'openapi' }, getRoutes: () => [] }),
+    ).toThrow('API catalog path must start with "/"')
+    expect(
+      () =>
+        new ApiCatalog({
+          config: { path: '/docs', catalogPath: '/docs/' },
+          getRoutes: () => [],
+        }),
+    ).toThrow('API catalog path and catalogPath must differ')
+  })
+})
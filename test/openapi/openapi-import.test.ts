@@ -0,0 +1,259 @@
+/**
+ * OpenAPI import tests
+ * Covers route generation and request validation against operations
+ */
+import { describe, test, expect } from 'bun:test'
+import {
+  routesFromOpenAPI,
+  toRoutePattern,
+} from '../../src/openapi/openapi-import'
+import { createOpenAPIValidationMiddleware } from '../../src/openapi/openapi-validator'
+import type { OpenAPIDocument } from '../../src/openapi/types'
+import type { ZeroRequest } from '../../src/interfaces/middleware'
+
+const document: OpenAPIDocument = {
+  openapi: '3.0.3',
+  info: { title: 'Users', version: '2.1.0' },
+  paths: {
+    '/users/{user-id}': {
+      parameters: [
+        {
+          name: 'user-id',
+          in: 'path',
+          required: true,
+          schema: { type: 'integer', minimum: 1 },
+        },
+      ],
+      get: {
+        operationId: 'getUser',
+        summary: 'Get a user',
+        description: 'Returns one user',
+        tags: ['users'],
+      },
+      delete: { operationId: 'deleteUser' },
+    },
+    '/users': {
+      get: {
+        operationId: 'listUsers',
+        parameters: [
+          { $ref: '#/components/parameters/Limit' },
+          {
+            name: 'role',
+            in: 'query',
+            schema: { type: 'array', items: { enum: ['admin', 'member'] } },
+          },
+          { name: 'x-tenant', in: 'header', required: true },
+        ],
+      },
+      post: {
+        operationId: 'createUser',
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: { $ref: '#/components/schemas/NewUser' },
+            },
+          },
+        },
+      },
+    },
+    '/users/me': { get: { operationId: 'getMe' } },
+  },
+  components: {
+    parameters: {
+      Limit: {
+        name: 'limit',
+        in: 'query',
+        schema: { type: 'integer', maximum: 100 },
+      },
+    },
+    schemas: {
+      NewUser: {
+        type: 'object',
+        required: ['email'],
+        additionalProperties: false,
+        properties: { email: { type: 'string', format: 'email' } },
+      },
+    },
+  },
+}
+
+/**
+ * Runs a validation middleware; resolves with its error response, or with
+ * undefined when it passed the request on
+ */
+async function validate(
+  path: string,
+  method: 'get' | 'post',
+  req: Request,
+  params: Record<string, string> = {},
+): Promise<any> {
+  const middleware = createOpenAPIValidationMiddleware(
+    document,
+    path,
+    method,
+    toRoutePattern(path).params,
+  )
+  const zeroReq = Object.assign(req, { params }) as unknown as ZeroRequest
+  const response = await middleware(zeroReq, () => new Response('passed'))
+  return response.status === 400
+    ? ((await response.json()) as any).error
+    : undefined
+}
+
+describe('toRoutePattern', () => {
+  test('should translate path templates into router patterns', () => {
+    expect(toRoutePattern('/users/{id}/posts/{postId}')).toEqual({
+      pattern: '/users/:id/posts/:postId',
+      params: { id: 'id', postId: 'postId' },
+    })
+    expect(toRoutePattern('/users/{user-id}').pattern).toBe('/users/:user_id')
+  })
+})
+
+describe('routesFromOpenAPI', () => {
+  test('should generate a route per path and method', () => {
+    const routes = routesFromOpenAPI(document, {
+      target: 'http://users:3000',
+      defaults: { timeout: 5000, meta: { tags: ['default'] } },
+    })
+
+    expect(routes.map((route) => [route.methods![0], route.pattern])).toEqual([
+      ['GET', '/users'],
+      ['POST', '/users'],
+      ['GET', '/users/me'],
+      ['GET', '/users/:user_id'],
+      ['DELETE', '/users/:user_id'],
+    ])
+    const getUser = routes[3]!
+    expect(getUser.target).toBe('http://users:3000')
+    expect(getUser.timeout).toBe(5000)
+    expect(getUser.meta).toEqual({
+      operationId: 'getUser',
+      name: 'Get a user',
+      description: 'Returns one user',
+      version: '2.1.0',
+      tags: ['users'],
+    })
+    expect(routes[4]!.meta?.tags).toEqual(['default'])
+    expect(getUser.middlewares).toBeUndefined()
+  })
+
+  test('should serve routes under a prefix and strip it upstream', () => {
+    const [route] = routesFromOpenAPI(document, {
+      target: 'http://users:3000',
+      prefix: '/users-service/',
+    })
+    expect(route!.pattern).toBe('/users-service/users')
+    expect(route!.proxy?.pathRewrite).toEqual({ '^/users-service': '' })
+  })
+
+  test('should add request validation when enabled', () => {
+    const routes = routesFromOpenAPI(document, {
+      loadBalancer: {
+        strategy: 'round-robin',
+        targets: [{ url: 'http://users:3000' }],
+      },
+      validate: true,
+    })
+    expect(routes.every((route) => route.middlewares?.length === 1)).toBe(true)
+  })
+
+  test('should reject imports without an upstream or of other documents', () => {
+    expect(() => routesFromOpenAPI(document, {})).toThrow(
+      'routesFromOpenAPI requires a "target" or a "loadBalancer"',
+    )
+    expect(() =>
+      routesFromOpenAPI(
+        { ...document, openapi: '2.0' },
+        { target: 'http://a' },
+      ),
+    ).toThrow('Only OpenAPI 3 documents can be imported')
+  })
+})
+
+describe('createOpenAPIValidationMiddleware', () => {
+  test('should convert and validate path parameters', async () => {
+    const request = () => new Request('http://gateway/users/7')
+    expect(
+      await validate('/users/{user-id}', 'get', request(), { user_id: '7' }),
+    ).toBeUndefined()
+
+    const error = await validate('/users/{user-id}', 'get', request(), {
+      user_id: 'seven',
+    })
+    expect(error.code).toBe('VALIDATION_ERROR')
+    expect(error.details).toEqual([
+      { in: 'path', name: 'user-id', message: 'must be integer' },
+    ])
+  })
+
+  test('should validate query and header parameters', async () => {
+    expect(
+      await validate(
+        '/users',
+        'get',
+        new Request('http://gateway/users?limit=10&role=admin&role=member', {
+          headers: { 'x-tenant': 'acme' },
+        }),
+      ),
+    ).toBeUndefined()
+
+    const error = await validate(
+      '/users',
+      'get',
+      new Request('http://gateway/users?limit=500&role=owner'),
+    )
+    expect(error.details).toEqual([
+      { in: 'query', name: 'limit', message: 'must be <= 100' },
+      {
+        in: 'query',
+        name: 'role',
+        pointer: '/0',
+        message: 'must be equal to one of the allowed values',
+      },
+      { in: 'header', name: 'x-tenant', message: 'is required' },
+    ])
+  })
+
+  test('should validate JSON bodies and leave them readable', async () => {
+    const request = (body?: string, contentType = 'application/json') =>
+      new Request('http://gateway/users', {
+        method: 'POST',
+        headers: { 'content-type': contentType },
+        body,
+      })
+
+    const valid = request(JSON.stringify({ email: 'ada@example.com' }))
+    expect(await validate('/users', 'post', valid)).toBeUndefined()
+    expect(await valid.json()).toEqual({ email: 'ada@example.com' })
+
+    expect(
+      (
+        await validate(
+          '/users',
+          'post',
+          request(JSON.stringify({ email: 'ada', admin: true })),
+        )
+      ).details,
+    ).toEqual([
+      { in: 'body', pointer: '/email', message: 'must match format "email"' },
+      {
+        in: 'body',
+        pointer: '/admin',
+        message: 'must NOT have additional properties',
+      },
+    ])
+    expect((await validate('/users', 'post', request('{'))).details).toEqual([
+      { in: 'body', message: 'must be valid JSON' },
+    ])
+    expect((await validate('/users', 'post', request())).details).toEqual([
+      { in: 'body', message: 'is required' },
+    ])
+    expect(
+      (await validate('/users', 'post', request('a=1', 'text/plain'))).details,
+    ).toEqual([
+      { in: 'body', message: 'content type "text/plain" is not accepted' },
+    ])
+  })
+})
@@ -0,0 +1,146 @@
+/**
+ * Plugin manager tests
+ * Covers ordering, dependencies, request and response hooks and shutdown
+ */
+import { describe, test, expect } from 'bun:test'
+import {
+  PluginManager,
+  type BunGatewayPlugin,
+} from '../../src/plugins/plugin-manager'
+import { createSecurityHeadersPlugin } from '../../src/plugins/builtin-plugins'
+
+const names = (manager: PluginManager) =>
+  manager.list().map((plugin) => plugin.name)
+
+describe('PluginManager', () => {
+  test('should order plugins by dependencies and constraints', () => {
+    const manager = new PluginManager()
+    manager.register(
+      { name: 'audit', dependencies: ['tenancy'] },
+      { name: 'tenancy', after: ['auth'] },
+      { name: 'auth' },
+      { name: 'cors', before: ['auth'], after: ['missing'] },
+    )
+    expect(names(manager)).toEqual(['cors', 'auth', 'tenancy', 'audit'])
+
+    manager.register({ name: 'trace', before: ['cors'] })
+    expect(names(manager)).toEqual([
+      'trace',
+      'cors',
+      'auth',
+      'tenancy',
+      'audit',
+    ])
+  })
+
+  test('should reject invalid registrations as a whole', () => {
+    const manager = new PluginManager()
+    manager.register({ name: 'auth' })
+
+    expect(() => manager.register({ name: 'auth' })).toThrow(
+      'Plugin "auth" is already registered',
+    )
+    expect(() =>
+      manager.register({ name: 'audit', dependencies: ['tenancy'] }),
+    ).toThrow('Plugin "audit" depends on "tenancy", which is not registered')
+    expect(() =>
+      manager.register(
+        { name: 'a', after: ['b'] },
+        { name: 'b', after: ['a'] },
+      ),
+    ).toThrow('Plugin ordering constraints form a cycle between "a", "b"')
+    expect(names(manager)).toEqual(['auth'])
+  })
+
+  test('should run request hooks in order and response hooks in reverse', async () => {
+    const calls: string[] = []
+    const plugin = (name: string, answer = false): BunGatewayPlugin => ({
+      name,
+      onRequest: () => {
+        calls.push(`request ${name}`)
+        return answer ? new Response(name) : undefined
+      },
+      onResponse: (_req, res) => {
+        calls.push(`response ${name}`)
+        const headers = new Headers(res.headers)
+        headers.append('x-plugins', name)
+        return new Response(res.body, { status: res.status, headers })
+      },
+    })
+    const manager = new PluginManager()
+    manager.register(plugin('outer'), plugin('inner'))
+
+    const routed = await manager.handle(
+      new Request('http://gateway/'),
+      () => new Response('routed'),
+    )
+    expect(await routed.text()).toBe('routed')
+    expect(routed.headers.get('x-plugins')).toBe('inner, outer')
+    expect(calls).toEqual([
+      'request outer',
+      'request inner',
+      'response inner',
+      'response outer',
+    ])
+
+    // A plugin answering skips routing and the plugins after it
+    calls.length = 0
+    manager.register({
+      ...plugin('gate', true),
+      after: ['outer'],
+      before: ['inner'],
+    })
+    const answered = await manager.handle(
+      new Request('http://gateway/'),
+      () => {
+        throw new Error('not routed')
+      },
+    )
+    expect(await answered.text()).toBe('gate')
+    expect(calls).toEqual([
+      'request outer',
+      'request gate',
+      'response gate',
+      'response outer',
+    ])
+  })
+
+  test('should close every plugin in reverse order', async () => {
+    const closed: string[] = []
+    const errors: unknown[] = []
+    const manager = new PluginManager({
+      error: (...args: unknown[]) => errors.push(args),
+    } as any)
+    manager.register(
+      { name: 'first', onClose: () => void closed.push('first') },
+      {
+        name: 'second',
+        onClose: async () => {
+          throw new Error('close failed')
+        },
+      },
+      { name: 'third', onClose: () => void closed.push('third') },
+    )
+
+    await manager.close()
+    expect(closed).toEqual(['third', 'first'])
+    expect(errors).toHaveLength(1)
+  })
+})
+
+describe('createSecurityHeadersPlugin', () => {
+  test('should add security headers to responses', async () => {
+    const manager = new PluginManager()
+    manager.register(createSecurityHeadersPlugin({ customHeaders: {} }, false))
+
+    const response = await manager.handle(
+      new Request('https://gateway/'),
+      () => new Response('ok'),
+    )
+    expect(response.headers.get('x-content-type-options')).toBe('nosniff')
+    expect(response.headers.get('x-frame-options')).toBe('DENY')
+    expect(response.headers.get('strict-transport-security')).toContain(
+      'max-age=31536000',
+    )
+  })
+})
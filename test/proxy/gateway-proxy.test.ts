@@ -57,6 +57,38 @@ describe('GatewayProxy', () => {
     // Test that clearURLCache method exists and can be called without error
     expect(() => handler.clearURLCache()).not.toThrow()
   })
+
+  test('resetCircuitBreaker closes the circuit and clears failures', () => {
+    handler.resetCircuitBreaker()
+    expect(['closed', 'CLOSED']).toContain(handler.getCircuitBreakerState())
+    expect(handler.getCircuitBreakerFailures()).toBe(0)
+  })
+
+  test('resetCircuitBreaker closes the previous instance when idle', () => {
+    const previous = (handler as any).fetchProxy
+    const close = spyOn(previous, 'close')
+    handler.resetCircuitBreaker()
+    expect(close).toHaveBeenCalledTimes(1)
+    expect((handler as any).fetchProxy).not.toBe(previous)
+  })
+
+  test('resetCircuitBreaker closes the previous instance once its requests settle', async () => {
+    const previous = (handler as any).fetchProxy
+    const close = spyOn(previous, 'close')
+    let respond!: (response: Response) => void
+    previous.proxy = () =>
+      new Promise<Response>((resolve) => {
+        respond = resolve
+      })
+
+    const pending = handler.proxy(new Request('http://test') as any)
+    handler.resetCircuitBreaker()
+    expect(close).not.toHaveBeenCalled()
+
+    respond(new Response('ok'))
+    expect(await (await pending).text()).toBe('ok')
+    expect(close).toHaveBeenCalledTimes(1)
+  })
 })
 
 describe('createGatewayProxy', () => {
@@ -67,5 +99,6 @@ describe('createGatewayProxy', () => {
     expect(instance).toHaveProperty('getCircuitBreakerState')
     expect(instance).toHaveProperty('getCircuitBreakerFailures')
     expect(instance).toHaveProperty('clearURLCache')
+    expect(instance).toHaveProperty('resetCircuitBreaker')
   })
 })
@@ -0,0 +1,187 @@
+/**
+ * Retry policy tests
+ * Covers retry decisions, backoff bounds and request body replay
+ */
+import { describe, test, expect } from 'bun:test'
+import {
+  RetryPolicy,
+  classifyRetryError,
+  type RetryAttemptResult,
+} from '../../src/retry/retry-policy'
+
+function errorWithCode(message: string, code: string): Error {
+  return Object.assign(new Error(message), { code })
+}
+
+describe('classifyRetryError', () => {
+  test('should classify transport failures', () => {
+    expect(
+      classifyRetryError(
+        errorWithCode('Unable to connect', 'ConnectionRefused'),
+      ),
+    ).toBe('connection')
+    expect(classifyRetryError(errorWithCode('reset', 'ECONNRESET'))).toBe(
+      'connection',
+    )
+    expect(classifyRetryError(new Error('Request timeout after 100ms'))).toBe(
+      'timeout',
+    )
+    expect(classifyRetryError(new Error('Circuit breaker is OPEN'))).toBe(
+      'circuit-open',
+    )
+  })
+
+  test('should not classify other errors', () => {
+    expect(classifyRetryError(new Error('No healthy targets available'))).toBe(
+      undefined,
+    )
+    expect(classifyRetryError('boom')).toBe(undefined)
+  })
+})
+
+describe('RetryPolicy', () => {
+  test('should retry only idempotent methods by default', () => {
+    const policy = new RetryPolicy()
+    expect(policy.allowsMethod('GET')).toBe(true)
+    expect(policy.allowsMethod('put')).toBe(true)
+    expect(policy.allowsMethod('POST')).toBe(false)
+    expect(policy.allowsMethod('PATCH')).toBe(false)
+
+    expect(new RetryPolicy({ methods: ['POST'] }).allowsMethod('POST')).toBe(
+      true,
+    )
+    expect(new RetryPolicy({ maxAttempts: 1 }).allowsMethod('GET')).toBe(false)
+  })
+
+  test('should decide on status codes and error types', () => {
+    const policy = new RetryPolicy({ errors: ['timeout'] })
+    const response = (status: number) => new Response(null, { status })
+
+    expect(policy.isRetryable({ response: response(503) })).toBe(true)
+    expect(policy.isRetryable({ response: response(500) })).toBe(false)
+    expect(
+      policy.isRetryable({
+        response: response(504),
+        error: new Error('Request timeout'),
+      }),
+    ).toBe(true)
+    // A proxy-reported error decides regardless of the generated status
+    expect(
+      policy.isRetryable({
+        response: response(502),
+        error: errorWithCode('refused', 'ECONNREFUSED'),
+      }),
+    ).toBe(false)
+  })
+
+  test('should grow the backoff exponentially up to the maximum', () => {
+    const policy = new RetryPolicy({ baseDelay: 100, maxDelay: 300 })
+    for (let i = 0; i < 50; i++) {
+      expect(policy.backoff(1)).toBeLessThan(100)
+      expect(policy.backoff(2)).toBeLessThan(200)
+      expect(policy.backoff(5)).toBeLessThan(300)
+      expect(policy.backoff(5)).toBeGreaterThanOrEqual(0)
+    }
+  })
+
+  test('should retry until an attempt succeeds, replaying the body', async () => {
+    const policy = new RetryPolicy({ maxAttempts: 3, baseDelay: 0 })
+    const bodies: string[] = []
+    const response = await policy.execute(
+      new Request('http://localhost/orders', {
+        method: 'PUT',
+        body: 'payload',
+      }),
+      async (body, attempt) => {
+        bodies.push(await new Response(body).text())
+        return {
+          response: new Response(null, { status: attempt < 3 ? 503 : 200 }),
+        }
+      },
+    )
+
+    expect(response.status).toBe(200)
+    expect(bodies).toEqual(['payload', 'payload', 'payload'])
+  })
+
+  test('should return the last outcome when attempts run out', async () => {
+    const policy = new RetryPolicy({ maxAttempts: 2, baseDelay: 0 })
+    let attempts = 0
+    const response = await policy.execute(
+      new Request('http://localhost/'),
+      async () => {
+        attempts++
+        return { response: new Response(null, { status: 502 }) }
+      },
+    )
+
+    expect(response.status).toBe(502)
+    expect(attempts).toBe(2)
+  })
+
+  test('should retry thrown transport errors and rethrow others', async () => {
+    const policy = new RetryPolicy({ maxAttempts: 3, baseDelay: 0 })
+    let attempts = 0
+    const response = await policy.execute(
+      new Request('http://localhost/'),
+      async (): Promise<RetryAttemptResult> => {
+        if (++attempts === 1) {
+          throw errorWithCode('refused', 'ECONNREFUSED')
+        }
+        return { response: new Response('ok') }
+      },
+    )
+    expect(await response.text()).toBe('ok')
+    expect(attempts).toBe(2)
+
+    attempts = 0
+    await expect(
+      policy.execute(new Request('http://localhost/'), async () => {
+        attempts++
+        throw new Error('No healthy targets available')
+      }),
+    ).rejects.toThrow('No healthy targets available')
+    expect(attempts).toBe(1)
+  })
+
+  test('should send non-retryable methods once', async () => {
+    const policy = new RetryPolicy({ baseDelay: 0 })
+    let attempts = 0
+    const response = await policy.execute(
+      new Request('http://localhost/', { method: 'POST', body: 'x' }),
+      async () => {
+        attempts++
+        return { response: new Response(null, { status: 503 }) }
+      },
+    )
+    expect(response.status).toBe(503)
+    expect(attempts).toBe(1)
+  })
+
+  test('should stream bodies over the limit without retrying', async () => {
+    const policy = new RetryPolicy({ maxBodyBytes: 4, baseDelay: 0 })
+    const payload = 'larger than four bytes'
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.enqueue(new TextEncoder().encode(payload.slice(0, 3)))
+        controller.enqueue(new TextEncoder().encode(payload.slice(3)))
+        controller.close()
+      },
+    })
+    const bodies: string[] = []
+    const response = await policy.execute(
+      new Request('http://localhost/', {
+        method: 'PUT',
+        body: stream,
+        duplex: 'half',
+      } as RequestInit),
+      async (body) => {
+        bodies.push(await new Response(body).text())
+        return { response: new Response(null, { status: 503 }) }
+      },
+    )
+
+    expect(response.status).toBe(503)
+    expect(bodies).toEqual([payload])
+  })
+})
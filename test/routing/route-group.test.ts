@@ -0,0 +1,89 @@
+/**
+ * Route group tests
+ * Covers prefixes, setting inheritance and nested groups
+ */
+import { describe, test, expect } from 'bun:test'
+import { RouteGroup } from '../../src/routing/route-group'
+import type { RouteConfig } from '../../src/interfaces/route'
+import type { RequestHandler } from '../../src/interfaces/middleware'
+
+const audit: RequestHandler = (_req, next) => next()
+const trace: RequestHandler = (_req, next) => next()
+const validate: RequestHandler = (_req, next) => next()
+
+describe('RouteGroup', () => {
+  test('should prefix patterns and merge settings under the route', () => {
+    const routes: RouteConfig[] = []
+    const group = new RouteGroup(
+      '/api/v2/',
+      {
+        auth: { secret: 'secret', optional: true },
+        rateLimit: { max: 100, windowMs: 60000 },
+        proxy: { headers: { 'x-api': 'v2' }, timeout: 5000 },
+        middlewares: [audit],
+      },
+      (route) => routes.push(route),
+    )
+
+    group
+      .addRoute({ pattern: '/users/:id', target: 'http://users:3000' })
+      .addRoute({
+        pattern: 'orders',
+        target: 'http://orders:3000',
+        auth: { optional: false },
+        proxy: { timeout: 30000 },
+        middlewares: [validate],
+      })
+      .addRoute({ pattern: '/', handler: () => new Response('v2') })
+
+    expect(routes.map((route) => route.pattern)).toEqual([
+      '/api/v2/users/:id',
+      '/api/v2/orders',
+      '/api/v2',
+    ])
+    expect(routes[0]).toMatchObject({
+      auth: { secret: 'secret', optional: true },
+      rateLimit: { max: 100, windowMs: 60000 },
+      proxy: { headers: { 'x-api': 'v2' }, timeout: 5000 },
+      middlewares: [audit],
+    })
+    expect(routes[1]).toMatchObject({
+      auth: { secret: 'secret', optional: false },
+      proxy: { headers: { 'x-api': 'v2' }, timeout: 30000 },
+      middlewares: [audit, validate],
+    })
+    expect(routes[1]!.circuitBreaker).toBeUndefined()
+  })
+
+  test('should nest groups', () => {
+    const routes: RouteConfig[] = []
+    new RouteGroup(
+      '/api',
+      { rateLimit: { max: 100 }, middlewares: [audit] },
+      (route) => routes.push(route),
+    ).group(
+      '/admin',
+      { rateLimit: { max: 10 }, middlewares: [trace] },
+      (admin) => {
+        admin.addRoute({
+          pattern: '/stats',
+          target: 'http://stats:3000',
+          middlewares: [validate],
+        })
+      },
+    )
+
+    expect(routes).toHaveLength(1)
+    expect(routes[0]).toMatchObject({
+      pattern: '/api/admin/stats',
+      rateLimit: { max: 10 },
+      middlewares: [audit, trace, validate],
+    })
+  })
+
+  test('should reject relative prefixes', () => {
+    expect(() => new RouteGroup('api', {}, () => {})).toThrow(
+      'Route group prefix must start with "/": api',
+    )
+  })
+})
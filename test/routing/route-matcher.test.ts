@@ -0,0 +1,106 @@
+/**
+ * Route matcher tests
+ * Covers host, header, query and cookie conditions
+ */
+import { describe, test, expect } from 'bun:test'
+import { RouteMatcher } from '../../src/routing/route-matcher'
+
+function request(url: string, headers: Record<string, string> = {}): Request {
+  return new Request(url, { headers })
+}
+
+describe('RouteMatcher', () => {
+  test('should match every request without conditions', () => {
+    expect(new RouteMatcher({}).matches(request('http://any/'))).toBe(true)
+  })
+
+  test('should match exact hosts without the port', () => {
+    const matcher = new RouteMatcher({ host: ['api.example.com', '[::1]'] })
+    expect(
+      matcher.matches(
+        request('http://gateway/', { host: 'API.example.com:8080' }),
+      ),
+    ).toBe(true)
+    expect(matcher.matches(request('http://api.example.com./'))).toBe(true)
+    expect(matcher.matches(request('http://[::1]:3000/'))).toBe(true)
+    expect(matcher.matches(request('http://www.example.com/'))).toBe(false)
+  })
+
+  test('should match wildcard hosts on subdomains only', () => {
+    const matcher = new RouteMatcher({ host: '*.tenant.example.com' })
+    expect(matcher.matches(request('http://acme.tenant.example.com/'))).toBe(
+      true,
+    )
+    expect(matcher.matches(request('http://eu.acme.tenant.example.com/'))).toBe(
+      true,
+    )
+    expect(matcher.matches(request('http://tenant.example.com/'))).toBe(false)
+    expect(matcher.matches(request('http://acmetenant.example.com/'))).toBe(
+      false,
+    )
+  })
+
+  test('should match header values, presence and absence', () => {
+    const matcher = new RouteMatcher({
+      headers: {
+        'X-Api-Version': ['2', '3'],
+        authorization: true,
+        'x-debug': false,
+      },
+    })
+    const headers = { 'x-api-version': '2', authorization: 'Bearer t' }
+    expect(matcher.matches(request('http://a/', headers))).toBe(true)
+    expect(
+      matcher.matches(
+        request('http://a/', { ...headers, 'x-api-version': '1' }),
+      ),
+    ).toBe(false)
+    expect(
+      matcher.matches(request('http://a/', { 'x-api-version': '3' })),
+    ).toBe(false)
+    expect(
+      matcher.matches(request('http://a/', { ...headers, 'x-debug': '1' })),
+    ).toBe(false)
+  })
+
+  test('should match any value of a repeated query parameter', () => {
+    const matcher = new RouteMatcher({ query: { beta: 'true', tag: true } })
+    expect(
+      matcher.matches(request('http://a/?tag=x&beta=false&beta=true')),
+    ).toBe(true)
+    expect(matcher.matches(request('http://a/?tag=x&beta=false'))).toBe(false)
+    expect(matcher.matches(request('http://a/?beta=true'))).toBe(false)
+  })
+
+  test('should match cookies', () => {
+    const matcher = new RouteMatcher({
+      cookies: { session: true, variant: 'b' },
+    })
+    expect(
+      matcher.matches(
+        request('http://a/', { cookie: 'session=abc; variant=b' }),
+      ),
+    ).toBe(true)
+    expect(matcher.matches(request('http://a/', { cookie: 'variant=b' }))).toBe(
+      false,
+    )
+    expect(matcher.matches(request('http://a/'))).toBe(false)
+  })
+
+  test('should require every kind of condition to hold', () => {
+    const matcher = new RouteMatcher({
+      host: 'api.example.com',
+      headers: { 'x-api-version': '2' },
+    })
+    expect(
+      matcher.matches(
+        request('http://api.example.com/', { 'x-api-version': '2' }),
+      ),
+    ).toBe(true)
+    expect(
+      matcher.matches(
+        request('http://www.example.com/', { 'x-api-version': '2' }),
+      ),
+    ).toBe(false)
+  })
+})
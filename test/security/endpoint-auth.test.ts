@@ -0,0 +1,93 @@
+/**
+ * Endpoint authentication tests
+ */
+import { describe, test, expect } from 'bun:test'
+import { createEndpointAuthenticator } from '../../src/security/endpoint-auth'
+
+const req = (headers: Record<string, string> = {}) =>
+  new Request('http://localhost/admin', { headers })
+
+describe('createEndpointAuthenticator', () => {
+  test('should accept valid basic credentials', () => {
+    const authenticate = createEndpointAuthenticator({
+      auth: { type: 'basic', credentials: { admin: 's3cret' } },
+    })
+    const valid = `Basic ${btoa('admin:s3cret')}`
+    expect(authenticate(req({ authorization: valid }), '127.0.0.1')).toEqual({
+      allowed: true,
+    })
+  })
+
+  test('should reject wrong basic credentials', () => {
+    const authenticate = createEndpointAuthenticator({
+      auth: { type: 'basic', credentials: { admin: 's3cret' } },
+    })
+    for (const header of [
+      `Basic ${btoa('admin:wrong')}`,
+      `Basic ${btoa('other:s3cret')}`,
+      `Basic ${btoa('constructor:x')}`,
+      'Basic !!!',
+      'Bearer s3cret',
+      'Basic',
+    ]) {
+      const result = authenticate(req({ authorization: header }), '127.0.0.1')
+      expect(result).toEqual({
+        allowed: false,
+        status: 401,
+        reason: 'Unauthorized',
+      })
+    }
+  })
+
+  test('should accept any configured bearer token', () => {
+    const authenticate = createEndpointAuthenticator({
+      auth: { type: 'bearer', credentials: { a: 'token-a', b: 'token-b' } },
+    })
+    expect(
+      authenticate(req({ authorization: 'Bearer token-b' }), '::1').allowed,
+    ).toBe(true)
+    expect(
+      authenticate(req({ authorization: 'Bearer token-c' }), '::1').allowed,
+    ).toBe(false)
+  })
+
+  test('should read API keys from the configured header', () => {
+    const authenticate = createEndpointAuthenticator({
+      auth: {
+        type: 'apikey',
+        credentials: { ops: 'key-1' },
+        apiKeyHeader: 'x-admin-key',
+      },
+    })
+    expect(authenticate(req({ 'x-admin-key': 'key-1' }), '::1').allowed).toBe(
+      true,
+    )
+    expect(authenticate(req({ 'x-api-key': 'key-1' }), '::1').allowed).toBe(
+      false,
+    )
+  })
+
+  test('should enforce the IP whitelist before credentials', () => {
+    const authenticate = createEndpointAuthenticator({
+      auth: { type: 'bearer', credentials: { ops: 'token' } },
+      ipWhitelist: ['10.0.0.0/8', '192.168.1.5'],
+    })
+    const headers = { authorization: 'Bearer token' }
+    expect(authenticate(req(headers), '10.1.2.3').allowed).toBe(true)
+    expect(authenticate(req(headers), '192.168.1.5').allowed).toBe(true)
+    expect(authenticate(req(headers), '192.168.1.6')).toEqual({
+      allowed: false,
+      status: 403,
+      reason: 'Forbidden',
+    })
+    expect(authenticate(req(headers), 'unknown').status).toBe(403)
+  })
+
+  test('should reject an empty credential set', () => {
+    expect(() =>
+      createEndpointAuthenticator({
+        auth: { type: 'bearer', credentials: {} },
+      }),
+    ).toThrow('at least one credential')
+  })
+})
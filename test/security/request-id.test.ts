@@ -0,0 +1,107 @@
+import { describe, test, expect } from 'bun:test'
+import pino from 'pino'
+import {
+  currentRequestId,
+  isValidRequestId,
+  runWithRequestId,
+} from '../../src/security/request-id'
+import { SecureErrorHandler } from '../../src/security/error-handler'
+import { createSizeLimiterMiddleware } from '../../src/security/size-limiter-middleware'
+import { BunGateLogger } from '../../src/logger/pino-logger'
+import type { ZeroRequest } from '../../src/interfaces/middleware'
+
+describe('Request IDs', () => {
+  describe('request context', () => {
+    test('should have no request ID outside a request', () => {
+      expect(currentRequestId()).toBeUndefined()
+    })
+
+    test('should carry the request ID across awaits', async () => {
+      const seen = await runWithRequestId('req-1', async () => {
+        await new Promise((resolve) => setTimeout(resolve, 1))
+        return currentRequestId()
+      })
+      expect(seen).toBe('req-1')
+      expect(currentRequestId()).toBeUndefined()
+    })
+
+    test('should keep concurrent requests apart', async () => {
+      const ids = await Promise.all(
+        ['a', 'b', 'c'].map((id) =>
+          runWithRequestId(id, async () => {
+            await new Promise((resolve) => setTimeout(resolve, 3))
+            return currentRequestId()
+          }),
+        ),
+      )
+      expect(ids).toEqual(['a', 'b', 'c'])
+    })
+  })
+
+  describe('validation', () => {
+    test('should accept printable IDs', () => {
+      expect(isValidRequestId('7f9c2ba4-e88f-11ec-8ea0-0242ac120002')).toBe(
+        true,
+      )
+      expect(isValidRequestId('req_123.abc')).toBe(true)
+    })
+
+    test('should reject empty, overlong and non-printable IDs', () => {
+      expect(isValidRequestId('')).toBe(false)
+      expect(isValidRequestId('x'.repeat(201))).toBe(false)
+      expect(isValidRequestId('has space')).toBe(false)
+      expect(isValidRequestId('line\nbreak')).toBe(false)
+      expect(isValidRequestId('ünïcode')).toBe(false)
+    })
+  })
+
+  describe('consumers', () => {
+    test('should add the request ID to log lines', () => {
+      const logger = new BunGateLogger({ level: 'error' })
+      const mixin = (logger.pino as any)[pino.symbols.mixinSym] as () => object
+
+      expect(mixin()).toEqual({})
+      expect(runWithRequestId('req-log', () => mixin())).toEqual({
+        requestId: 'req-log',
+      })
+    })
+
+    test('should use the request ID in sanitized errors', () => {
+      const handler = new SecureErrorHandler({ production: true })
+      const safeError = runWithRequestId('req-error', () =>
+        handler.sanitizeError(new Error('boom')),
+      )
+      expect(safeError.requestId).toBe('req-error')
+    })
+
+    test('should prefer an explicit error context request ID', () => {
+      const handler = new SecureErrorHandler({ production: true })
+      const safeError = runWithRequestId('req-error', () =>
+        handler.sanitizeError(new Error('boom'), {
+          requestId: 'explicit',
+          clientIP: '127.0.0.1',
+          method: 'GET',
+          url: 'http://example.com/',
+          timestamp: Date.now(),
+        }),
+      )
+      expect(safeError.requestId).toBe('explicit')
+    })
+
+    test('should use the request ID in size limit error bodies', async () => {
+      const middleware = createSizeLimiterMiddleware({
+        limits: { maxBodySize: 100 },
+      })
+      const req = new Request('http://example.com/api/users', {
+        method: 'POST',
+        headers: { 'Content-Length': '1000' },
+      }) as ZeroRequest
+
+      const response = await runWithRequestId('req-size', () =>
+        middleware(req, async () => new Response('OK')),
+      )
+      const body = (await response.json()) as any
+      expect(body.error.requestId).toBe('req-size')
+    })
+  })
+})
@@ -267,6 +267,32 @@ describe('SizeLimiterMiddleware', () => {
     })
   })
 
+  describe('onReject', () => {
+    test('should report rejections without replacing the response', async () => {
+      const rejections: Array<[number, string[]]> = []
+      const middleware = createSizeLimiterMiddleware({
+        limits: { maxBodySize: 10 },
+        onReject: (statusCode, errors) => rejections.push([statusCode, errors]),
+      })
+
+      const rejected = new Request('http://example.com/api/users', {
+        method: 'POST',
+        headers: { 'Content-Length': '1000' },
+      }) as ZeroRequest
+      const response = await middleware(rejected, async () => new Response())
+      expect(response.status).toBe(413)
+
+      const accepted = new Request(
+        'http://example.com/api/users',
+      ) as ZeroRequest
+      await middleware(accepted, async () => new Response('ok'))
+
+      expect(rejections).toHaveLength(1)
+      expect(rejections[0]![0]).toBe(413)
+      expect(rejections[0]![1].length).toBeGreaterThan(0)
+    })
+  })
+
   describe('multiple violations', () => {
     test('should report first violation with appropriate status code', async () => {
       const middleware = createSizeLimiterMiddleware({
@@ -0,0 +1,180 @@
+/**
+ * Traffic splitter tests
+ * Covers weighted sticky assignment, overrides and runtime weight changes
+ */
+import { describe, test, expect } from 'bun:test'
+import {
+  TrafficSplitter,
+  type TrafficSplitConfig,
+} from '../../src/split/traffic-splitter'
+
+const backends: TrafficSplitConfig['backends'] = [
+  { name: 'stable', weight: 90, target: 'http://stable:3000' },
+  { name: 'canary', weight: 10, target: 'http://canary:3000' },
+]
+
+function request(headers: Record<string, string> = {}): Request {
+  return new Request('http://localhost/api', { headers })
+}
+
+function withClient(id: string): Request {
+  return request({ cookie: `bungate_split=${id}` })
+}
+
+describe('TrafficSplitter', () => {
+  test('should reject invalid configurations', () => {
+    expect(() => new TrafficSplitter('/a', { backends: [] })).toThrow(
+      'at least one backend',
+    )
+    expect(
+      () =>
+        new TrafficSplitter('/a', {
+          backends: [
+            { name: 'x', weight: 1, target: 'http://a' },
+            { name: 'x', weight: 1, target: 'http://b' },
+          ],
+        }),
+    ).toThrow('must be unique')
+    expect(
+      () => new TrafficSplitter('/a', { backends: [{ name: 'x', weight: 1 }] }),
+    ).toThrow('requires either target or loadBalancer')
+    expect(
+      () =>
+        new TrafficSplitter('/a', {
+          backends: [{ name: 'x', weight: 0, target: 'http://a' }],
+        }),
+    ).toThrow('positive weight')
+    expect(
+      () =>
+        new TrafficSplitter('/a', {
+          backends,
+          overrides: [{ header: 'x-beta', value: '1', backend: 'beta' }],
+        }),
+    ).toThrow('unknown backend: beta')
+    expect(
+      () =>
+        new TrafficSplitter('/a', {
+          backends,
+          overrides: [{ header: 'x-beta', cookie: 'beta' }],
+        }),
+    ).toThrow('exactly one of header, cookie or claim')
+  })
+
+  test('should split clients by weight', () => {
+    const splitter = new TrafficSplitter('/api', { backends })
+    let canary = 0
+    for (let i = 0; i < 2000; i++) {
+      if (splitter.assign(withClient(`client-${i}`), '').backend === 'canary') {
+        canary++
+      }
+    }
+    expect(canary).toBeGreaterThan(120)
+    expect(canary).toBeLessThan(280)
+  })
+
+  test('should keep a client on its backend', () => {
+    const splitter = new TrafficSplitter('/api', { backends })
+    for (let i = 0; i < 50; i++) {
+      const first = splitter.assign(withClient(`client-${i}`), '')
+      const again = splitter.assign(withClient(`client-${i}`), '')
+      expect(again.backend).toBe(first.backend)
+      expect(again.setCookie).toBeUndefined()
+    }
+  })
+
+  test('should issue a client id cookie to new clients', () => {
+    const splitter = new TrafficSplitter('/api', { backends })
+    const assignment = splitter.assign(request(), '')
+    expect(assignment.reason).toBe('weight')
+    expect(assignment.setCookie).toMatch(/^bungate_split=[0-9a-f-]{36}; /)
+    expect(assignment.setCookie).toContain('HttpOnly')
+
+    const id = assignment.setCookie!.split(';')[0]!.split('=')[1]!
+    expect(splitter.assign(withClient(id), '').backend).toBe(assignment.backend)
+  })
+
+  test('should assign by client IP without cookies', () => {
+    const splitter = new TrafficSplitter('/api', { backends, stickyBy: 'ip' })
+    const first = splitter.assign(request(), '203.0.113.7')
+    expect(first.setCookie).toBeUndefined()
+    expect(splitter.assign(request(), '203.0.113.7').backend).toBe(
+      first.backend,
+    )
+  })
+
+  test('should only move clients onto a backend whose weight grows', () => {
+    const splitter = new TrafficSplitter('/api', { backends })
+    const clients = Array.from({ length: 500 }, (_, i) => `client-${i}`)
+    const before = clients.map(
+      (id) => splitter.assign(withClient(id), '').backend,
+    )
+
+    splitter.setWeights({ stable: 50, canary: 50 })
+    clients.forEach((id, i) => {
+      if (before[i] === 'canary') {
+        expect(splitter.assign(withClient(id), '').backend).toBe('canary')
+      }
+    })
+  })
+
+  test('should send all traffic to the only weighted backend', () => {
+    const splitter = new TrafficSplitter('/api', { backends })
+    splitter.setWeights({ canary: 0 })
+    for (let i = 0; i < 100; i++) {
+      expect(splitter.assign(withClient(`client-${i}`), '').backend).toBe(
+        'stable',
+      )
+    }
+  })
+
+  test('should validate weight changes', () => {
+    const splitter = new TrafficSplitter('/api', { backends })
+    expect(() => splitter.setWeights({ beta: 5 })).toThrow(
+      'Unknown traffic split backend: beta',
+    )
+    expect(() => splitter.setWeights({ canary: -1 })).toThrow('non-negative')
+    expect(() => splitter.setWeights({ stable: 0, canary: 0 })).toThrow(
+      'positive weight',
+    )
+    expect(splitter.getWeights()).toEqual({ stable: 90, canary: 10 })
+
+    splitter.setWeights({ canary: 25 })
+    expect(splitter.getWeights()).toEqual({ stable: 90, canary: 25 })
+  })
+
+  test('should apply header and cookie overrides', () => {
+    const splitter = new TrafficSplitter('/api', {
+      backends,
+      overrides: [
+        { header: 'x-version' },
+        { cookie: 'beta', value: 'yes', backend: 'canary' },
+      ],
+    })
+
+    expect(splitter.assign(request({ 'x-version': 'canary' }), '')).toEqual({
+      backend: 'canary',
+      reason: 'override',
+    })
+    expect(splitter.assign(request({ cookie: 'beta=yes' }), '').backend).toBe(
+      'canary',
+    )
+    // Unknown backend names fall through to the weighted split
+    expect(
+      splitter.assign(request({ 'x-version': 'nightly' }), '').reason,
+    ).toBe('weight')
+  })
+
+  test('should apply JWT claim overrides', () => {
+    const splitter = new TrafficSplitter('/api', {
+      backends,
+      overrides: [
+        { claim: 'org.groups', value: 'beta-testers', backend: 'canary' },
+      ],
+    })
+    const req = request() as Request & { ctx?: unknown }
+    req.ctx = { user: { org: { groups: ['staff', 'beta-testers'] } } }
+
+    expect(splitter.assign(req, '').reason).toBe('override')
+    expect(splitter.assign(req, '').backend).toBe('canary')
+  })
+})
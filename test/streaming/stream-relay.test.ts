@@ -0,0 +1,217 @@
+/**
+ * Stream relay tests
+ * Covers relaying, heartbeats, idle and total timeouts, and draining
+ */
+import { describe, test, expect } from 'bun:test'
+import {
+  StreamRelay,
+  isEventStream,
+  type StreamingConfig,
+} from '../../src/streaming/stream-relay'
+
+const encoder = new TextEncoder()
+const decoder = new TextDecoder()
+
+/**
+ * Upstream response whose body is written chunk by chunk by the test
+ */
+function upstream(contentType = 'text/event-stream') {
+  let controller!: ReadableStreamDefaultController<Uint8Array>
+  let cancelled = false
+  const body = new ReadableStream<Uint8Array>({
+    start(c) {
+      controller = c
+    },
+    cancel() {
+      cancelled = true
+    },
+  })
+  return {
+    response: new Response(body, {
+      headers: { 'content-type': contentType },
+    }),
+    write: (text: string) => controller.enqueue(encoder.encode(text)),
+    end: () => controller.close(),
+    get cancelled() {
+      return cancelled
+    },
+  }
+}
+
+/**
+ * Reads a relayed body to its end, resolving with the text read and the
+ * error that ended it, if any
+ */
+async function readAll(
+  response: Response,
+): Promise<{ text: string; error?: Error }> {
+  const reader = response.body!.getReader()
+  let text = ''
+  try {
+    for (;;) {
+      const { done, value } = await reader.read()
+      if (done) return { text }
+      text += decoder.decode(value)
+    }
+  } catch (error) {
+    return { text, error: error as Error }
+  }
+}
+
+function relay(
+  source: ReturnType<typeof upstream>,
+  config: StreamingConfig,
+  onClose?: (error?: Error) => void,
+) {
+  const streamRelay = new StreamRelay()
+  return {
+    streamRelay,
+    response: streamRelay.relay(source.response, config, onClose),
+  }
+}
+
+describe('isEventStream', () => {
+  test('should detect Server-Sent Event content types', () => {
+    expect(isEventStream('text/event-stream; charset=utf-8')).toBe(true)
+    expect(isEventStream('Text/Event-Stream')).toBe(true)
+    expect(isEventStream('application/json')).toBe(false)
+    expect(isEventStream(null)).toBe(false)
+  })
+})
+
+describe('StreamRelay', () => {
+  test('should relay chunks and report the stream closed once', async () => {
+    const source = upstream()
+    const closes: Array<Error | undefined> = []
+    const { streamRelay, response } = relay(source, {}, (error) =>
+      closes.push(error),
+    )
+    expect(response.headers.get('x-accel-buffering')).toBe('no')
+    expect(response.headers.get('content-type')).toBe('text/event-stream')
+    expect(streamRelay.active).toBe(1)
+
+    source.write('data: one\n\n')
+    source.write('data: two\n\n')
+    source.end()
+    expect(await readAll(response)).toEqual({
+      text: 'data: one\n\ndata: two\n\n',
+    })
+    expect(closes).toEqual([undefined])
+    expect(streamRelay.active).toBe(0)
+  })
+
+  test('should pass responses without a body through', () => {
+    let closed = false
+    const response = new StreamRelay().relay(
+      new Response(null, { status: 204 }),
+      {},
+      () => {
+        closed = true
+      },
+    )
+    expect(response.status).toBe(204)
+    expect(closed).toBe(true)
+  })
+
+  test('should send heartbeats only between events', async () => {
+    const source = upstream()
+    const { response } = relay(source, {
+      heartbeatInterval: 20,
+      idleTimeout: 0,
+    })
+    const read = readAll(response)
+
+    source.write('data: partial')
+    await Bun.sleep(70)
+    source.write('\n\n')
+    await Bun.sleep(70)
+    source.end()
+
+    const { text } = await read
+    expect(text.startsWith('data: partial\n\n:\n\n')).toBe(true)
+  })
+
+  test('should abort idle streams that are not Server-Sent Events', async () => {
+    const source = upstream('application/x-ndjson')
+    let closeError: Error | undefined
+    const { response } = relay(
+      source,
+      { idleTimeout: 30 },
+      (error) => (closeError = error),
+    )
+    const read = readAll(response)
+    source.write('{"n":1}\n')
+
+    const { text, error } = await read
+    expect(text).toBe('{"n":1}\n')
+    expect(error?.message).toBe('Stream idle timeout')
+    expect(closeError?.message).toBe('Stream idle timeout')
+    expect(source.cancelled).toBe(true)
+  })
+
+  test('should end idle Server-Sent Event streams cleanly', async () => {
+    const source = upstream()
+    const { response } = relay(source, {
+      idleTimeout: 30,
+      heartbeatInterval: 0,
+    })
+    const read = readAll(response)
+    source.write('data: one\n\n')
+
+    expect(await read).toEqual({ text: 'data: one\n\n' })
+  })
+
+  test('should end streams at their maximum duration', async () => {
+    const source = upstream('application/octet-stream')
+    const { response } = relay(source, { idleTimeout: 0, maxDuration: 50 })
+    const read = readAll(response)
+    const timer = setInterval(() => source.write('x'), 10)
+
+    const startedAt = Date.now()
+    const { error } = await read
+    clearInterval(timer)
+    expect(error?.message).toBe('Stream exceeded its maximum duration')
+    expect(Date.now() - startedAt).toBeLessThan(500)
+  })
+
+  test('should drain Server-Sent Event streams at an event boundary', async () => {
+    const source = upstream()
+    const { streamRelay, response } = relay(source, {})
+    const read = readAll(response)
+
+    source.write('data: partial')
+    await Bun.sleep(10)
+    const drained = streamRelay.drain(1000)
+    source.write(' event\n\n')
+    await drained
+
+    expect(await read).toEqual({ text: 'data: partial event\n\n' })
+    expect(streamRelay.active).toBe(0)
+  })
+
+  test('should end streams still open when draining times out', async () => {
+    const source = upstream('application/octet-stream')
+    const { streamRelay, response } = relay(source, {})
+    const read = readAll(response)
+
+    await streamRelay.drain(20)
+    const { error } = await read
+    expect(error?.message).toBe('Gateway shutting down')
+    expect(streamRelay.active).toBe(0)
+  })
+
+  test('should release the upstream when the client cancels', async () => {
+    const source = upstream()
+    let closeError: Error | undefined
+    const { streamRelay, response } = relay(
+      source,
+      {},
+      (error) => (closeError = error),
+    )
+
+    await response.body!.cancel()
+    expect(source.cancelled).toBe(true)
+    expect(closeError?.message).toBe('Stream cancelled by the client')
+    expect(streamRelay.active).toBe(0)
+  })
+})
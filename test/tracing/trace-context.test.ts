@@ -0,0 +1,74 @@
+import { describe, test, expect } from 'bun:test'
+import {
+  formatTraceparent,
+  generateSpanId,
+  generateTraceId,
+  parseTraceContext,
+} from '../../src/tracing/trace-context'
+
+const TRACE_ID = '4bf92f3577b34da6a3ce929d0e0e4736'
+const SPAN_ID = '00f067aa0ba902b7'
+
+describe('W3C trace context', () => {
+  test('should parse a traceparent and tracestate', () => {
+    const headers = new Headers({
+      traceparent: `00-${TRACE_ID}-${SPAN_ID}-01`,
+      tracestate: 'vendor=abc,other=xyz',
+    })
+    expect(parseTraceContext(headers)).toEqual({
+      traceId: TRACE_ID,
+      spanId: SPAN_ID,
+      sampled: true,
+      traceState: 'vendor=abc,other=xyz',
+    })
+  })
+
+  test('should read the sampled flag', () => {
+    const headers = new Headers({ traceparent: `00-${TRACE_ID}-${SPAN_ID}-00` })
+    expect(parseTraceContext(headers)?.sampled).toBe(false)
+  })
+
+  test('should accept fields appended by later versions', () => {
+    const headers = new Headers({
+      traceparent: `01-${TRACE_ID}-${SPAN_ID}-01-extra`,
+    })
+    expect(parseTraceContext(headers)?.traceId).toBe(TRACE_ID)
+  })
+
+  test('should reject invalid traceparents', () => {
+    for (const traceparent of [
+      'garbage',
+      `00-${TRACE_ID}-${SPAN_ID}`,
+      `00-${TRACE_ID}-${SPAN_ID}-01-extra`,
+      `ff-${TRACE_ID}-${SPAN_ID}-01`,
+      `00-${'0'.repeat(32)}-${SPAN_ID}-01`,
+      `00-${TRACE_ID}-${'0'.repeat(16)}-01`,
+      `00-${TRACE_ID.toUpperCase()}-${SPAN_ID}-01`,
+    ]) {
+      expect(parseTraceContext(new Headers({ traceparent }))).toBeUndefined()
+    }
+    expect(parseTraceContext(new Headers())).toBeUndefined()
+  })
+
+  test('should drop an overlong tracestate', () => {
+    const headers = new Headers({
+      traceparent: `00-${TRACE_ID}-${SPAN_ID}-01`,
+      tracestate: `vendor=${'x'.repeat(600)}`,
+    })
+    expect(parseTraceContext(headers)?.traceState).toBeUndefined()
+  })
+
+  test('should format a traceparent that parses back', () => {
+    const context = {
+      traceId: generateTraceId(),
+      spanId: generateSpanId(),
+      sampled: true,
+    }
+    expect(context.traceId).toMatch(/^[0-9a-f]{32}$/)
+    expect(context.spanId).toMatch(/^[0-9a-f]{16}$/)
+
+    const traceparent = formatTraceparent(context)
+    expect(traceparent).toBe(`00-${context.traceId}-${context.spanId}-01`)
+    expect(parseTraceContext(new Headers({ traceparent }))).toEqual(context)
+  })
+})
@@ -0,0 +1,292 @@
+import { describe, test, expect } from 'bun:test'
+import { Tracer, Span, currentSpan } from '../../src/tracing/tracer'
+import {
+  OTLPExporter,
+  type SpanExporter,
+} from '../../src/tracing/otlp-exporter'
+import { runWithRequestId } from '../../src/security/request-id'
+import type { ZeroRequest } from '../../src/interfaces/middleware'
+
+const TRACE_ID = '4bf92f3577b34da6a3ce929d0e0e4736'
+const SPAN_ID = '00f067aa0ba902b7'
+
+/** Collects exported spans */
+class MemoryExporter implements SpanExporter {
+  spans: Span[] = []
+  export(span: Span): void {
+    this.spans.push(span)
+  }
+  async flush(): Promise<void> {}
+  async close(): Promise<void> {}
+}
+
+const createTracer = (
+  config: { sampleRate?: number; parentBased?: boolean } = {},
+  random = () => 0.5,
+) => {
+  const exporter = new MemoryExporter()
+  const tracer = new Tracer(
+    { ...config, exporter: { url: 'http://collector.invalid/v1/traces' } },
+    { exporter, random },
+  )
+  return { tracer, exporter }
+}
+
+describe('Tracer', () => {
+  describe('spans', () => {
+    test('should nest spans started within an active span', async () => {
+      const { tracer, exporter } = createTracer()
+      await tracer.trace('parent', {}, async (parent) => {
+        expect(currentSpan()).toBe(parent)
+        await tracer.trace('child', { kind: 'client' }, () => {})
+      })
+
+      const [child, parent] = exporter.spans
+      expect(child!.name).toBe('child')
+      expect(child!.kind).toBe('client')
+      expect(child!.context.traceId).toBe(parent!.context.traceId)
+      expect(child!.parentSpanId).toBe(parent!.context.spanId)
+      expect(parent!.parentSpanId).toBeUndefined()
+      expect(parent!.endTime).toBeGreaterThanOrEqual(parent!.startTime)
+      expect(currentSpan()).toBeUndefined()
+    })
+
+    test('should record errors and rethrow them', async () => {
+      const { tracer, exporter } = createTracer()
+      await expect(
+        tracer.trace('failing', {}, () => {
+          throw new Error('boom')
+        }),
+      ).rejects.toThrow('boom')
+
+      const [span] = exporter.spans
+      expect(span!.status).toEqual({ code: 'error', message: 'boom' })
+      expect(span!.events[0]!.name).toBe('exception')
+    })
+
+    test('should ignore changes after a span ended', () => {
+      const { tracer, exporter } = createTracer()
+      const span = tracer.startSpan('done')
+      span.end()
+      span.setAttribute('late', true).end()
+      expect(span.attributes).toEqual({})
+      expect(exporter.spans).toHaveLength(1)
+    })
+  })
+
+  describe('sampling', () => {
+    test('should sample new traces at the sample rate', async () => {
+      const { tracer, exporter } = createTracer({ sampleRate: 0.25 }, () => 0.5)
+      await tracer.trace('unsampled', {}, () => {
+        tracer.startSpan('child').end()
+      })
+      expect(exporter.spans).toHaveLength(0)
+
+      const sampled = createTracer({ sampleRate: 0.75 }, () => 0.5)
+      sampled.tracer.startSpan('sampled').end()
+      expect(sampled.exporter.spans).toHaveLength(1)
+    })
+
+    test("should follow the caller's sampling decision", async () => {
+      const { tracer, exporter } = createTracer({ sampleRate: 0 })
+      await tracer.traceRequest(
+        new Request('http://localhost/orders', {
+          headers: { traceparent: `00-${TRACE_ID}-${SPAN_ID}-01` },
+        }),
+        async () => new Response('ok'),
+      )
+      expect(exporter.spans).toHaveLength(1)
+      expect(exporter.spans[0]!.context.traceId).toBe(TRACE_ID)
+      expect(exporter.spans[0]!.parentSpanId).toBe(SPAN_ID)
+    })
+
+    test('should resample joined traces when not parent based', async () => {
+      const { tracer, exporter } = createTracer({
+        sampleRate: 0,
+        parentBased: false,
+      })
+      await tracer.traceRequest(
+        new Request('http://localhost/orders', {
+          headers: { traceparent: `00-${TRACE_ID}-${SPAN_ID}-01` },
+        }),
+        async () => new Response('ok'),
+      )
+      expect(exporter.spans).toHaveLength(0)
+    })
+  })
+
+  describe('propagation', () => {
+    test("should inject the span's context, replacing the inbound one", () => {
+      const { tracer } = createTracer()
+      const span = tracer.startSpan('attempt', {
+        parent: {
+          traceId: TRACE_ID,
+          spanId: SPAN_ID,
+          sampled: true,
+          traceState: 'vendor=abc',
+        },
+      })
+      const headers = new Headers({
+        traceparent: `00-${'1'.repeat(32)}-${'1'.repeat(16)}-00`,
+      })
+      tracer.withSpan(span, () => tracer.inject(headers))
+
+      expect(headers.get('traceparent')).toBe(
+        `00-${TRACE_ID}-${span.context.spanId}-01`,
+      )
+      expect(headers.get('tracestate')).toBe('vendor=abc')
+
+      tracer.inject(headers)
+      expect(headers.has('traceparent')).toBe(false)
+      expect(headers.has('tracestate')).toBe(false)
+    })
+  })
+
+  describe('requests', () => {
+    test('should record a server span with the request ID and status', async () => {
+      const { tracer, exporter } = createTracer()
+      const response = await runWithRequestId('req-1', () =>
+        tracer.traceRequest(
+          new Request('https://localhost/orders/7', { method: 'POST' }),
+          async () => new Response('failed', { status: 502 }),
+        ),
+      )
+      expect(response.status).toBe(502)
+
+      const [span] = exporter.spans
+      expect(span!.kind).toBe('server')
+      expect(span!.attributes).toEqual({
+        'http.request.method': 'POST',
+        'url.path': '/orders/7',
+        'url.scheme': 'https',
+        'bungate.request_id': 'req-1',
+        'http.response.status_code': 502,
+      })
+      expect(span!.status.code).toBe('error')
+    })
+  })
+
+  describe('middleware phases', () => {
+    const req = new Request('http://localhost/orders') as ZeroRequest
+
+    test('should end the phase when the middleware passes the request on', async () => {
+      const { tracer, exporter } = createTracer()
+      const auth = tracer.instrumentMiddleware('auth', (_req, next) => next())
+
+      let downstream: Span | undefined
+      await tracer.trace('request', { kind: 'server' }, () =>
+        auth(req, () => {
+          downstream = currentSpan()
+          return new Response('ok')
+        }),
+      )
+
+      const [phase, request] = exporter.spans
+      expect(phase!.name).toBe('middleware auth')
+      expect(phase!.parentSpanId).toBe(request!.context.spanId)
+      // The rest of the chain runs in the request's span
+      expect(downstream).toBe(request)
+    })
+
+    test('should record a rejection by the middleware', async () => {
+      const { tracer, exporter } = createTracer()
+      const rateLimit = tracer.instrumentMiddleware(
+        'rate_limit',
+        () => new Response('Too many requests', { status: 429 }),
+      )
+
+      const response = await rateLimit(req, () => new Response('ok'))
+      expect(response.status).toBe(429)
+      expect(exporter.spans[0]!.attributes).toEqual({
+        'bungate.middleware': 'rate_limit',
+        'http.response.status_code': 429,
+        'bungate.middleware.rejected': true,
+      })
+    })
+  })
+})
+
+describe('OTLPExporter', () => {
+  test('should export spans to the collector in OTLP JSON', async () => {
+    const received: any[] = []
+    const collector = Bun.serve({
+      port: 0,
+      fetch: async (req) => {
+        received.push({
+          path: new URL(req.url).pathname,
+          contentType: req.headers.get('content-type'),
+          token: req.headers.get('x-collector-token'),
+          body: await req.json(),
+        })
+        return new Response('{}')
+      },
+    })
+    const exporter = new OTLPExporter(
+      {
+        url: `http://localhost:${collector.port}/v1/traces`,
+        headers: { 'x-collector-token': 'secret' },
+        batchSize: 2,
+      },
+      'edge-gateway',
+    )
+    const tracer = new Tracer(
+      { exporter: { url: 'unused' } },
+      { exporter, random: () => 0 },
+    )
+
+    await tracer.trace('request', { kind: 'server' }, (span) => {
+      span.setAttribute('http.response.status_code', 200)
+      span.setAttribute('ratio', 0.5)
+      tracer.startSpan('select').end()
+    })
+    tracer.startSpan('late').end()
+    await tracer.close()
+    collector.stop(true)
+
+    // A full batch of two, then the rest on close
+    expect(received.map((request) => request.path)).toEqual([
+      '/v1/traces',
+      '/v1/traces',
+    ])
+    expect(received[0].contentType).toBe('application/json')
+    expect(received[0].token).toBe('secret')
+
+    const resourceSpans = received[0].body.resourceSpans[0]
+    expect(resourceSpans.resource.attributes).toEqual([
+      { key: 'service.name', value: { stringValue: 'edge-gateway' } },
+    ])
+    const [child, parent] = resourceSpans.scopeSpans[0].spans
+    expect(child.name).toBe('select')
+    expect(child.kind).toBe(1)
+    expect(child.parentSpanId).toBe(parent.spanId)
+    expect(parent.kind).toBe(2)
+    expect(parent.traceId).toMatch(/^[0-9a-f]{32}$/)
+    expect(parent.startTimeUnixNano).toMatch(/^\d{19}$/)
+    expect(parent.attributes).toEqual([
+      { key: 'http.response.status_code', value: { intValue: '200' } },
+      { key: 'ratio', value: { doubleValue: 0.5 } },
+    ])
+    expect(parent.status).toEqual({ code: 0 })
+    expect(received[1].body.resourceSpans[0].scopeSpans[0].spans[0].name).toBe(
+      'late',
+    )
+  })
+
+  test('should log and drop spans the collector cannot receive', async () => {
+    const warnings: string[] = []
+    const logger: any = { warn: (message: string) => warnings.push(message) }
+    const exporter = new OTLPExporter(
+      { url: 'http://127.0.0.1:1/v1/traces', timeout: 1000 },
+      'bungate',
+      logger,
+    )
+    const tracer = new Tracer(
+      { exporter: { url: 'unused' } },
+      { exporter, random: () => 0 },
+    )
+
+    tracer.startSpan('lost').end()
+    await tracer.close()
+    expect(warnings).toEqual(['Span export failed'])
+  })
+})
@@ -0,0 +1,164 @@
+/**
+ * JSON Schema validator tests
+ * Covers the supported keywords, references and OpenAPI 3.0 extensions
+ */
+import { describe, test, expect } from 'bun:test'
+import { compileSchema } from '../../src/validation/json-schema'
+
+describe('compileSchema', () => {
+  test('should validate types, numbers and strings', () => {
+    const validate = compileSchema({
+      type: 'object',
+      required: ['id', 'name'],
+      properties: {
+        id: { type: 'integer', minimum: 1 },
+        name: {
+          type: 'string',
+          minLength: 2,
+          maxLength: 5,
+          pattern: '^[a-z]+$',
+        },
+        score: { type: 'number', exclusiveMaximum: 10, multipleOf: 0.5 },
+        email: { type: 'string', format: 'email' },
+      },
+    })
+
+    expect(validate({ id: 1, name: 'ada', score: 9.5 })).toEqual([])
+    expect(
+      validate({ id: 0, name: 'Ada Lovelace', score: 10, email: 'ada' }),
+    ).toEqual([
+      { pointer: '/id', message: 'must be >= 1' },
+      { pointer: '/name', message: 'must NOT have more than 5 characters' },
+      { pointer: '/name', message: 'must match pattern "^[a-z]+$"' },
+      { pointer: '/score', message: 'must be < 10' },
+      { pointer: '/email', message: 'must match format "email"' },
+    ])
+    expect(validate({ id: 1.5 })).toEqual([
+      { pointer: '/id', message: 'must be integer' },
+      { pointer: '', message: 'must have required property "name"' },
+    ])
+    expect(validate([])).toEqual([{ pointer: '', message: 'must be object' }])
+  })
+
+  test('should validate arrays', () => {
+    const validate = compileSchema({
+      type: 'array',
+      prefixItems: [{ type: 'string' }],
+      items: { type: 'integer' },
+      minItems: 2,
+      uniqueItems: true,
+    })
+    expect(validate(['a', 1, 2])).toEqual([])
+    expect(validate(['a'])).toEqual([
+      { pointer: '', message: 'must NOT have fewer than 2 items' },
+    ])
+    expect(validate([1, 'b', 'c'])).toEqual([
+      { pointer: '/0', message: 'must be string' },
+      { pointer: '/1', message: 'must be integer' },
+      { pointer: '/2', message: 'must be integer' },
+    ])
+    expect(validate(['a', 1, 1])).toEqual([
+      { pointer: '', message: 'must NOT have duplicate items' },
+    ])
+  })
+
+  test('should reject additional properties', () => {
+    const validate = compileSchema({
+      type: 'object',
+      properties: { a: { type: 'string' } },
+      patternProperties: { '^x-': { type: 'string' } },
+      additionalProperties: false,
+    })
+    expect(validate({ a: 'ok', 'x-trace': 'ok' })).toEqual([])
+    expect(validate({ a: 'ok', 'b/c': 1 })).toEqual([
+      { pointer: '/b~1c', message: 'must NOT have additional properties' },
+    ])
+  })
+
+  test('should apply combinators and conditionals', () => {
+    const validate = compileSchema({
+      oneOf: [{ type: 'string' }, { type: 'integer' }],
+      not: { const: 'forbidden' },
+    })
+    expect(validate('ok')).toEqual([])
+    expect(validate(1.5)).toEqual([
+      { pointer: '', message: 'must match exactly one schema in oneOf' },
+    ])
+    expect(validate('forbidden')).toEqual([
+      { pointer: '', message: 'must NOT be valid' },
+    ])
+
+    const conditional = compileSchema({
+      type: 'object',
+      if: { properties: { kind: { const: 'card' } } },
+      then: { required: ['number'] },
+      else: { required: ['iban'] },
+    })
+    expect(conditional({ kind: 'card', number: '4242' })).toEqual([])
+    expect(conditional({ kind: 'bank' })).toEqual([
+      { pointer: '', message: 'must have required property "iban"' },
+    ])
+  })
+
+  test('should resolve local and recursive references', () => {
+    const validate = compileSchema({
+      $defs: {
+        node: {
+          type: 'object',
+          required: ['value'],
+          properties: {
+            value: { type: 'integer' },
+            children: { type: 'array', items: { $ref: '#/$defs/node' } },
+          },
+        },
+      },
+      $ref: '#/$defs/node',
+    })
+    expect(
+      validate({ value: 1, children: [{ value: 2, children: [] }] }),
+    ).toEqual([])
+    expect(validate({ value: 1, children: [{ value: 'x' }] })).toEqual([
+      { pointer: '/children/0/value', message: 'must be integer' },
+    ])
+
+    expect(() => compileSchema({ $ref: '#/$defs/missing' })).toThrow(
+      'Unresolved $ref "#/$defs/missing"',
+    )
+    expect(() => compileSchema({ $ref: 'https://example.com/s' })).toThrow(
+      'only local references resolve',
+    )
+  })
+
+  test('should resolve references against a root document', () => {
+    const document = {
+      components: { schemas: { Id: { type: 'string', format: 'uuid' } } },
+    }
+    const validate = compileSchema(
+      { $ref: '#/components/schemas/Id' },
+      { root: document },
+    )
+    expect(validate('9b2f6d3e-2a9c-4a8e-9a8e-2b6f3c1d0e7a')).toEqual([])
+    expect(validate('42')).toEqual([
+      { pointer: '', message: 'must match format "uuid"' },
+    ])
+  })
+
+  test('should understand OpenAPI 3.0 nullable and exclusive bounds', () => {
+    const validate = compileSchema({
+      type: 'integer',
+      nullable: true,
+      minimum: 0,
+      exclusiveMinimum: true,
+    })
+    expect(validate(null)).toEqual([])
+    expect(validate(1)).toEqual([])
+    expect(validate(0)).toEqual([{ pointer: '', message: 'must be > 0' }])
+  })
+
+  test('should accept and reject everything with boolean schemas', () => {
+    expect(compileSchema(true)({ any: 'thing' })).toEqual([])
+    expect(compileSchema(false)(1)).toEqual([
+      { pointer: '', message: 'must not be present' },
+    ])
+  })
+})
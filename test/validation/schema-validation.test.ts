@@ -0,0 +1,226 @@
+/**
+ * Route schema validation tests
+ * Covers request body, query and parameter validation and response checks
+ */
+import { describe, test, expect } from 'bun:test'
+import {
+  coerceParameter,
+  createSchemaValidationMiddleware,
+  type RouteValidationConfig,
+} from '../../src/validation/schema-validation'
+import type { ZeroRequest } from '../../src/interfaces/middleware'
+import type { Logger } from '../../src/interfaces/logger'
+
+const userSchema = {
+  type: 'object',
+  required: ['id', 'email'],
+  properties: {
+    id: { type: 'integer' },
+    email: { type: 'string', format: 'email' },
+  },
+}
+
+function createLogger(warnings: unknown[]): Logger {
+  return { warn: (...args: unknown[]) => warnings.push(args) } as any
+}
+
+/**
+ * Runs a request through a validation middleware in front of a handler
+ */
+async function run(
+  config: RouteValidationConfig,
+  req: Request,
+  options: {
+    params?: Record<string, string>
+    handler?: () => Response
+    warnings?: unknown[]
+  } = {},
+): Promise<Response> {
+  const middleware = createSchemaValidationMiddleware(
+    config,
+    createLogger(options.warnings ?? []),
+  )
+  const zeroReq = Object.assign(req, {
+    params: options.params ?? {},
+  }) as unknown as ZeroRequest
+  return middleware(zeroReq, options.handler ?? (() => new Response('ok')))
+}
+
+async function details(response: Response): Promise<unknown> {
+  expect(response.status).toBe(400)
+  const { error } = (await response.json()) as any
+  expect(error.code).toBe('VALIDATION_ERROR')
+  expect(response.headers.get('x-request-id')).toBe(error.requestId)
+  return error.details
+}
+
+describe('coerceParameter', () => {
+  test('should convert strings to the declared type', () => {
+    expect(coerceParameter(['10'], { type: 'integer' })).toBe(10)
+    expect(coerceParameter(['true'], { type: 'boolean' })).toBe(true)
+    expect(coerceParameter(['ten'], { type: 'integer' })).toBe('ten')
+    expect(
+      coerceParameter(['1,2'], { type: 'array', items: { type: 'number' } }),
+    ).toEqual([1, 2])
+    expect(coerceParameter(['a', 'b'], { type: 'array' })).toEqual(['a', 'b'])
+  })
+})
+
+describe('createSchemaValidationMiddleware', () => {
+  test('should validate route parameters and the query string', async () => {
+    const config: RouteValidationConfig = {
+      params: {
+        type: 'object',
+        properties: { id: { type: 'integer', minimum: 1 } },
+      },
+      query: {
+        type: 'object',
+        required: ['page'],
+        additionalProperties: false,
+        properties: {
+          page: { type: 'integer' },
+          tags: { type: 'array', items: { type: 'string' }, maxItems: 2 },
+        },
+      },
+    }
+
+    const valid = await run(
+      config,
+      new Request('http://gateway/users/7?page=2&tags=a&tags=b'),
+      { params: { id: '7' } },
+    )
+    expect(valid.status).toBe(200)
+
+    const invalid = await run(
+      config,
+      new Request('http://gateway/users/0?tags=a,b,c&debug=1'),
+      { params: { id: '0' } },
+    )
+    expect(await details(invalid)).toEqual([
+      { in: 'path', name: 'id', message: 'must be >= 1' },
+      {
+        in: 'query',
+        name: 'tags',
+        message: 'must NOT have more than 2 items',
+      },
+      {
+        in: 'query',
+        name: 'debug',
+        message: 'must NOT have additional properties',
+      },
+      { in: 'query', message: 'must have required property "page"' },
+    ])
+  })
+
+  test('should validate JSON bodies and leave them readable', async () => {
+    const request = (body?: string, method = 'POST') =>
+      new Request('http://gateway/users', {
+        method,
+        headers: { 'content-type': 'application/json' },
+        body,
+      })
+    let forwarded: unknown
+    const handler = (req: Request) => async () => {
+      forwarded = await req.json()
+      return new Response('created', { status: 201 })
+    }
+
+    const valid = request(JSON.stringify({ id: 1, email: 'ada@example.com' }))
+    const response = await run({ body: userSchema }, valid, {
+      handler: handler(valid) as any,
+    })
+    expect(response.status).toBe(201)
+    expect(forwarded).toEqual({ id: 1, email: 'ada@example.com' })
+
+    expect(
+      await details(
+        await run(
+          { body: userSchema },
+          request(JSON.stringify({ id: '1', email: 'ada' })),
+        ),
+      ),
+    ).toEqual([
+      { in: 'body', pointer: '/id', message: 'must be integer' },
+      { in: 'body', pointer: '/email', message: 'must match format "email"' },
+    ])
+    expect(
+      await details(await run({ body: userSchema }, request('{'))),
+    ).toEqual([{ in: 'body', message: 'must be valid JSON' }])
+    expect(await details(await run({ body: userSchema }, request()))).toEqual([
+      { in: 'body', message: 'is required' },
+    ])
+    expect(
+      (await run({ body: userSchema }, request(undefined, 'GET'))).status,
+    ).toBe(200)
+  })
+
+  test('should reject bodies that are not JSON', async () => {
+    const response = await run(
+      { body: true },
+      new Request('http://gateway/upload', {
+        method: 'POST',
+        headers: { 'content-type': 'text/plain' },
+        body: 'hello',
+      }),
+    )
+    expect(await details(response)).toEqual([
+      { in: 'body', message: 'content type "text/plain" is not accepted' },
+    ])
+  })
+
+  test('should log responses that drift from the schema', async () => {
+    const warnings: any[] = []
+    const response = await run(
+      { response: { body: userSchema } },
+      new Request('http://gateway/users/1'),
+      {
+        handler: () => Response.json({ id: 1, mail: 'ada@example.com' }),
+        warnings,
+      },
+    )
+    expect(response.status).toBe(200)
+    expect(await response.json()).toEqual({ id: 1, mail: 'ada@example.com' })
+
+    await Bun.sleep(0)
+    expect(warnings).toHaveLength(1)
+    expect(warnings[0][1].errors).toEqual([
+      { pointer: '', message: 'must have required property "email"' },
+    ])
+  })
+
+  test('should reject drifting responses in reject mode', async () => {
+    const config: RouteValidationConfig = {
+      response: { body: userSchema, mode: 'reject' },
+    }
+    const warnings: unknown[] = []
+
+    const valid = await run(config, new Request('http://gateway/users/1'), {
+      handler: () => Response.json({ id: 1, email: 'ada@example.com' }),
+    })
+    expect(valid.status).toBe(200)
+    expect(await valid.json()).toEqual({ id: 1, email: 'ada@example.com' })
+
+    const drifted = await run(config, new Request('http://gateway/users/1'), {
+      handler: () =>
+        new Response('<html>', { headers: { 'content-type': 'text/html' } }),
+      warnings,
+    })
+    expect(drifted.status).toBe(502)
+    expect(((await drifted.json()) as any).error.code).toBe(
+      'RESPONSE_VALIDATION_ERROR',
+    )
+    expect(warnings).toHaveLength(1)
+
+    // Error responses are not part of the contract
+    const notFound = await run(config, new Request('http://gateway/users/2'), {
+      handler: () => new Response('missing', { status: 404 }),
+    })
+    expect(notFound.status).toBe(404)
+  })
+
+  test('should fail to compile unresolvable references', () => {
+    expect(() =>
+      createSchemaValidationMiddleware({ body: { $ref: '#/$defs/User' } }),
+    ).toThrow('Unresolved $ref "#/$defs/User"')
+  })
+})
@@ -0,0 +1,203 @@
+/**
+ * WebSocket proxy tests
+ * Covers relaying, upstream failures, message limits and idle timeouts
+ */
+import {
+  describe,
+  test,
+  expect,
+  beforeAll,
+  afterAll,
+  afterEach,
+} from 'bun:test'
+import type { Server } from 'bun'
+import {
+  WebSocketProxy,
+  isWebSocketUpgrade,
+  toWebSocketUrl,
+  type WebSocketRouteConfig,
+} from '../../src/websocket/websocket-proxy'
+
+let upstream: Server
+let gateway: Server | undefined
+const handshakes: Headers[] = []
+
+beforeAll(() => {
+  upstream = Bun.serve({
+    port: 0,
+    fetch(req, server) {
+      handshakes.push(req.headers)
+      const protocol = req.headers.get('sec-websocket-protocol')
+      return server.upgrade(req, {
+        headers: protocol ? { 'Sec-WebSocket-Protocol': 'chat' } : undefined,
+      })
+        ? undefined
+        : new Response('Upgrade required', { status: 426 })
+    },
+    websocket: {
+      message(ws, message) {
+        if (message === 'close') {
+          ws.close(4001, 'closed by upstream')
+        } else if (message === 'flood') {
+          ws.send('x'.repeat(2048))
+        } else {
+          ws.send(`echo ${message}`)
+        }
+      },
+    },
+  })
+})
+
+afterAll(() => {
+  upstream.stop(true)
+})
+
+afterEach(() => {
+  gateway?.stop(true)
+  gateway = undefined
+})
+
+function startGateway(
+  config: WebSocketRouteConfig = {},
+  url = `ws://localhost:${upstream.port}`,
+  onClose?: (durationMs: number, error?: Error) => void,
+): WebSocketProxy {
+  const proxy = new WebSocketProxy()
+  gateway = Bun.serve({
+    port: 0,
+    fetch: (req, server) =>
+      proxy.upgrade(req, server, {
+        route: '/ws',
+        url,
+        headers: new Headers({ 'x-forwarded-for': '203.0.113.7' }),
+        config,
+        onClose,
+      }),
+    websocket: proxy.handler,
+  })
+  return proxy
+}
+
+function connect(protocols?: string[]): Promise<WebSocket> {
+  return new Promise((resolve, reject) => {
+    const ws = new WebSocket(`ws://localhost:${gateway!.port}`, protocols)
+    ws.onopen = () => resolve(ws)
+    ws.onerror = () => reject(new Error('connection failed'))
+  })
+}
+
+function nextMessage(ws: WebSocket): Promise<string> {
+  return new Promise((resolve) => {
+    ws.addEventListener('message', (event) => resolve(String(event.data)), {
+      once: true,
+    })
+  })
+}
+
+function closed(ws: WebSocket): Promise<{ code: number; reason: string }> {
+  return new Promise((resolve) => {
+    ws.addEventListener(
+      'close',
+      (event) => resolve({ code: event.code, reason: event.reason }),
+      { once: true },
+    )
+  })
+}
+
+describe('WebSocket helpers', () => {
+  test('should detect upgrade requests', () => {
+    expect(
+      isWebSocketUpgrade(
+        new Request('http://localhost/', { headers: { upgrade: 'WebSocket' } }),
+      ),
+    ).toBe(true)
+    expect(isWebSocketUpgrade(new Request('http://localhost/'))).toBe(false)
+  })
+
+  test('should convert upstream URLs', () => {
+    expect(toWebSocketUrl('http://chat:3000/ws')).toBe('ws://chat:3000/ws')
+    expect(toWebSocketUrl('https://chat/ws')).toBe('wss://chat/ws')
+    expect(toWebSocketUrl('ws://chat/ws')).toBe('ws://chat/ws')
+  })
+})
+
+describe('WebSocketProxy', () => {
+  test('should relay messages in both directions', async () => {
+    const proxy = startGateway()
+    const ws = await connect(['chat', 'superchat'])
+    expect(ws.protocol).toBe('chat')
+    expect(handshakes.at(-1)?.get('x-forwarded-for')).toBe('203.0.113.7')
+
+    const reply = nextMessage(ws)
+    ws.send('hello')
+    expect(await reply).toBe('echo hello')
+    expect(proxy.connections).toBe(1)
+
+    const done = closed(ws)
+    ws.close(1000)
+    await done
+    await Bun.sleep(20)
+    expect(proxy.connections).toBe(0)
+  })
+
+  test('should answer 502 when the upstream is unreachable', async () => {
+    let failure: Error | undefined
+    startGateway({ connectTimeout: 500 }, 'ws://localhost:1', (_, error) => {
+      failure = error
+    })
+
+    const response = await fetch(`http://localhost:${gateway!.port}`, {
+      headers: {
+        upgrade: 'websocket',
+        connection: 'Upgrade',
+        'sec-websocket-key': 'dGhlIHNhbXBsZSBub25jZQ==',
+        'sec-websocket-version': '13',
+      },
+    })
+    expect(response.status).toBe(502)
+    expect(failure).toBeInstanceOf(Error)
+  })
+
+  test('should forward the upstream close code to the client', async () => {
+    startGateway()
+    const ws = await connect()
+    const done = closed(ws)
+    ws.send('close')
+    expect(await done).toEqual({ code: 4001, reason: 'closed by upstream' })
+  })
+
+  test('should close connections relaying oversized messages', async () => {
+    startGateway({ maxMessageSize: 1024 })
+    const ws = await connect()
+    const done = closed(ws)
+    ws.send('x'.repeat(2048))
+    expect((await done).code).toBe(1009)
+
+    const other = await connect()
+    const flooded = closed(other)
+    other.send('flood')
+    expect((await flooded).code).toBe(1009)
+  })
+
+  test('should close idle connections', async () => {
+    let duration = 0
+    startGateway({ idleTimeout: 50 }, undefined, (durationMs) => {
+      duration = durationMs
+    })
+    const ws = await connect()
+    const done = closed(ws)
+    expect((await done).reason).toBe('Idle timeout')
+    expect(duration).toBeGreaterThanOrEqual(50)
+  })
+
+  test('should close every connection on shutdown', async () => {
+    const proxy = startGateway()
+    const ws = await connect()
+    const done = closed(ws)
+    proxy.closeAll()
+    expect(await done).toEqual({
+      code: 1001,
+      reason: 'Gateway shutting down',
+    })
+  })
+})